@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/tests"],
+  testMatch: ["**/*.test.ts"],
+  transform: {
+    // Type-checking is left to tsc; transpiling alone keeps the suite fast
+    "^.+\\.ts$": ["ts-jest", { isolatedModules: true }],
+  },
+  setupFiles: ["<rootDir>/tests/setup.ts"],
+  testTimeout: 60000,
+};
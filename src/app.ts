@@ -3,6 +3,7 @@ import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
 import { errorHandler } from "./middlewares/errorMiddleware";
+import { assignRequestId } from "./middlewares/auditMiddleware";
 import routes from "./routes";
 import { setupSwagger } from "./config/swagger";
 import { logger } from "./utils/logger";
@@ -16,6 +17,7 @@ app.use(
   })
 );
 app.use(cors());
+app.use(assignRequestId);
 app.use(express.json());
 app.use(morgan("dev"));
 
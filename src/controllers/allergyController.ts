@@ -0,0 +1,156 @@
+import { Request, Response } from "express";
+import allergyService from "../services/allergyService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+import { AllergyInput, AllergyStatus } from "../types/medicalRecord";
+
+/**
+ * Send the response for an error thrown by allergyService
+ * @private
+ */
+const handleAllergyError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+// Fields of an allergy that can be set through the API
+const ALLERGY_FIELDS: (keyof AllergyInput)[] = [
+  "allergen",
+  "reaction",
+  "severity",
+  "status",
+  "onsetDate",
+  "notes",
+];
+
+/**
+ * Pick the allergy fields present in a request body
+ * @private
+ */
+const allergyFields = (body: Record<string, any>): Partial<AllergyInput> =>
+  Object.fromEntries(
+    ALLERGY_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+      field,
+      body[field],
+    ])
+  );
+
+/**
+ * Get a patient's allergies
+ * @route GET /api/patients/:id/allergies
+ */
+export const getAllergies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const allergies = await allergyService.getAllergies(
+      parseInt(req.params.id),
+      req.query.status as AllergyStatus | undefined
+    );
+    res
+      .status(200)
+      .json(successResponse("Allergies retrieved successfully", allergies));
+  } catch (error) {
+    logger.error(
+      `Error retrieving allergies for patient ${req.params.id}:`,
+      error
+    );
+    handleAllergyError(res, error, "Failed to retrieve allergies");
+  }
+};
+
+/**
+ * Record an allergy for a patient
+ * @route POST /api/patients/:id/allergies
+ */
+export const createAllergy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const fields = allergyFields(req.body);
+
+    const allergy = await allergyService.recordAllergy(
+      parseInt(req.params.id),
+      {
+        ...fields,
+        severity: fields.severity || "moderate",
+        status: fields.status || "active",
+      } as AllergyInput
+    );
+    res
+      .status(201)
+      .json(successResponse("Allergy recorded successfully", allergy));
+  } catch (error) {
+    logger.error(
+      `Error recording allergy for patient ${req.params.id}:`,
+      error
+    );
+    handleAllergyError(res, error, "Failed to record allergy");
+  }
+};
+
+/**
+ * Update one of a patient's allergies
+ * @route PUT /api/patients/:id/allergies/:allergyId
+ */
+export const updateAllergy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const allergy = await allergyService.updateAllergy(
+      parseInt(req.params.id),
+      parseInt(req.params.allergyId),
+      allergyFields(req.body)
+    );
+    res
+      .status(200)
+      .json(successResponse("Allergy updated successfully", allergy));
+  } catch (error) {
+    logger.error(`Error updating allergy ${req.params.allergyId}:`, error);
+    handleAllergyError(res, error, "Failed to update allergy");
+  }
+};
+
+/**
+ * Delete an allergy recorded in error
+ * @route DELETE /api/patients/:id/allergies/:allergyId
+ */
+export const deleteAllergy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await allergyService.deleteAllergy(
+      parseInt(req.params.id),
+      parseInt(req.params.allergyId)
+    );
+    res.status(200).json(successResponse("Allergy deleted successfully"));
+  } catch (error) {
+    logger.error(`Error deleting allergy ${req.params.allergyId}:`, error);
+    handleAllergyError(res, error, "Failed to delete allergy");
+  }
+};
+
+export default {
+  getAllergies,
+  createAllergy,
+  updateAllergy,
+  deleteAllergy,
+};
@@ -0,0 +1,75 @@
+import { Request, Response } from "express";
+import auditService from "../services/auditService";
+import PatientModel from "../models/Patient";
+import { AuditAction, AuditLogFilters } from "../types/audit";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Query the audit log
+ * @route GET /api/audit
+ */
+export const getAuditLog = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { actorId, patientId, resourceType, resourceId, action, from, to } =
+      req.query;
+
+    const filters: AuditLogFilters = {
+      actorId: actorId ? parseInt(actorId as string) : undefined,
+      patientId: patientId ? parseInt(patientId as string) : undefined,
+      resourceType: resourceType as string | undefined,
+      resourceId: resourceId as string | undefined,
+      action: action as AuditAction | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    };
+
+    const result = await auditService.queryAuditLog(filters);
+    res
+      .status(200)
+      .json(successResponse("Audit log retrieved successfully", result));
+  } catch (error) {
+    logger.error("Error retrieving audit log:", error);
+    res.status(500).json(errorResponse("Failed to retrieve audit log"));
+  }
+};
+
+/**
+ * Report who has accessed a patient's record
+ * @route GET /api/audit/patients/:patientId/access
+ */
+export const getPatientAccessReport = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+
+    const patient = await PatientModel.findById(patientId);
+    if (!patient) {
+      res.status(404).json(errorResponse("Patient not found"));
+      return;
+    }
+
+    const report = await auditService.getPatientAccessReport(patientId);
+    res
+      .status(200)
+      .json(successResponse("Access report retrieved successfully", report));
+  } catch (error) {
+    logger.error(
+      `Error retrieving access report for patient ${req.params.patientId}:`,
+      error
+    );
+    res.status(500).json(errorResponse("Failed to retrieve access report"));
+  }
+};
+
+export default {
+  getAuditLog,
+  getPatientAccessReport,
+};
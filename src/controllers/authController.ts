@@ -2,6 +2,14 @@ import { Request, Response } from "express";
 import bcryptjs from "bcryptjs"; // Using bcryptjs as it's in your dependencies
 import jwt from "jsonwebtoken";
 import UserModel from "../models/User"; // Import the default export
+import authService from "../services/authService";
+import sessionService from "../services/sessionService";
+import loginThrottleService, {
+  LOCKOUT_MESSAGE,
+} from "../services/loginThrottleService";
+import passwordPolicyService, {
+  PASSWORD_POLICY_MESSAGE,
+} from "../services/passwordPolicyService";
 import { env } from "../config/env"; // Import env config
 
 /**
@@ -9,19 +17,11 @@ import { env } from "../config/env"; // Import env config
  * @route POST /api/auth/login
  */
 export const login = async (req: Request, res: Response): Promise<void> => {
-  try {
-    // Add additional request logging
-    console.log("Login request received:", {
-      body: req.body,
-      headers: req.headers["content-type"],
-    });
-
-    const { email, password } = req.body;
-    console.log("Login attempt with:", email);
+  const { email, password } = req.body;
 
+  try {
     // Validate request
     if (!email || !password) {
-      console.log("Missing email or password");
       res.status(400).json({
         success: false,
         message: "Email and password are required",
@@ -29,89 +29,61 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Find user by email
-    const user = await UserModel.findOne({ email });
-    console.log("User found:", user ? "Yes" : "No");
-
-    if (!user) {
-      console.log("Invalid credentials - user not found");
-      res.status(401).json({
-        success: false,
-        message: "Invalid credentials",
-      });
-      return;
-    }
-
-    // Verify password
-    const isPasswordValid = await bcryptjs.compare(password, user.password);
-    console.log("Password valid:", isPasswordValid);
-
-    if (!isPasswordValid) {
-      console.log("Invalid credentials - password incorrect");
-      res.status(401).json({
-        success: false,
-        message: "Invalid credentials",
-      });
-      return;
-    }
+    const result = await authService.login(
+      { email, password },
+      { ipAddress: req.ip, userAgent: req.headers["user-agent"] }
+    );
 
-    // Check JWT_SECRET is available
-    if (!env.JWT_SECRET) {
-      console.error("JWT_SECRET is not defined");
-      res.status(500).json({
-        success: false,
-        message: "Server configuration error",
+    // Users with MFA enabled (or required for their role) must pass a second step
+    if ("mfaRequired" in result) {
+      res.status(200).json({
+        success: true,
+        message: result.enrolmentRequired
+          ? "MFA enrolment required"
+          : "MFA verification required",
+        data: result,
       });
       return;
     }
 
-    // Use consistent ID field
-    const userId = user.id || user._id;
-    console.log("Using userId:", userId);
-
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: userId, // Using userId consistently
-        email: user.email,
-        role: user.role,
-      },
-      env.JWT_SECRET,
-      { expiresIn: "24h" }
-    );
-
-    console.log(
-      "Token generated:",
-      token ? "Yes (length: " + token.length + ")" : "No"
-    );
-
-    // Create the response object with exact structure requested
-    const responseData = {
+    res.status(200).json({
       success: true,
       message: "Login successful",
-      data: {
-        user: {
-          id: userId,
-          username: user.username || email.split("@")[0],
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          role: user.role,
-          permissions: user.permissions || [],
-          staffId: user.staffId || `STAFF-${userId}`,
-          createdAt: user.createdAt || new Date().toISOString(),
-          updatedAt: user.updatedAt || new Date().toISOString(),
-        },
-        token,
-      },
-    };
-
-    // Log response and send it directly
-    console.log("Sending response...");
-    res.status(200).json(responseData);
+      data: result,
+    });
   } catch (error: unknown) {
-    console.error("Login error:", error);
+    if (error instanceof Error) {
+      if (error.message === LOCKOUT_MESSAGE) {
+        // A locked check returns at once, so this only reads the lock expiry
+        const throttle = await loginThrottleService.checkLoginAllowed(
+          email,
+          req.ip
+        );
+        if (throttle.retryAfterSeconds > 0) {
+          res.set("Retry-After", String(throttle.retryAfterSeconds));
+        }
+        res.status(429).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === "Invalid credentials") {
+        res.status(401).json({ success: false, message: error.message });
+        return;
+      }
+
+      // Disabled accounts, accounts flagged for a reset and expired (or
+      // admin-issued temporary) passwords cannot log in
+      if (
+        error.message === "Account is disabled" ||
+        error.message === "Password reset required" ||
+        error.message === "Password expired"
+      ) {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+    }
 
+    console.error("Login error:", error);
     res.status(500).json({
       success: false,
       message: "An error occurred during login",
@@ -186,6 +158,21 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    const passwordErrors = passwordPolicyService.validatePassword(password, {
+      email,
+    });
+    if (passwordErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: PASSWORD_POLICY_MESSAGE,
+        errors: passwordErrors.map((message) => ({
+          field: "password",
+          message,
+        })),
+      });
+      return;
+    }
+
     // Hash password
     const salt = await bcryptjs.genSalt(10);
     const hashedPassword = await bcryptjs.hash(password, salt);
@@ -200,7 +187,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     });
 
     // Check if user creation was successful
-    if (!user) {
+    if (!user || !user.id) {
       res.status(500).json({
         success: false,
         message: "Failed to create user",
@@ -208,6 +195,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    await passwordPolicyService.recordPassword(user.id, hashedPassword);
+
     // FIXED: Check for JWT_SECRET and fix expiration syntax
     if (!env.JWT_SECRET) {
       console.error("JWT_SECRET is not defined");
@@ -218,16 +207,22 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // FIXED: Generate JWT token with consistent ID field
-    const token = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      },
-      env.JWT_SECRET as jwt.Secret,
-      { expiresIn: "24h" } // Fixed expiration
-    );
+    // Roles that require MFA must enrol before receiving tokens
+    const challenge = await authService.createMfaChallenge(user);
+    if (challenge) {
+      res.status(201).json({
+        success: true,
+        message: "Registration successful - MFA enrolment required",
+        data: challenge,
+      });
+      return;
+    }
+
+    // Start a session for the new user
+    const { token, refreshToken } = await authService.startSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
 
     // Return user data and token
     res.status(201).json({
@@ -241,6 +236,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
           role: user.role,
         },
         token,
+        refreshToken,
       },
       message: "Registration successful",
     });
@@ -254,163 +250,332 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 };
 
 /**
- * User logout (optional server-side)
- * @route POST /api/auth/logout
- */
-export const logout = async (req: Request, res: Response): Promise<void> => {
-  // Note: JWT tokens are typically invalidated client-side
-  // This endpoint could be used for server-side tracking if needed
-  res.status(200).json({
-    success: true,
-    message: "Logged out successfully",
-  });
-};
-
-/**
- * Request password reset
- * @route POST /api/auth/password-reset-request
+ * Exchange a refresh token for a new access/refresh token pair
+ * @route POST /api/auth/refresh
  */
-export const requestPasswordReset = async (
+export const refreshToken = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { email } = req.body;
+    const { refreshToken } = req.body;
 
-    if (!email) {
+    if (!refreshToken) {
       res.status(400).json({
         success: false,
-        message: "Email is required",
+        message: "Refresh token is required",
       });
       return;
     }
 
-    const user = await UserModel.findOne({ email });
-    if (!user) {
-      // Return success even if user not found (for security)
-      res.status(200).json({
-        success: true,
-        message:
-          "If your email exists in our system, a reset link has been sent",
-      });
+    const tokens = await authService.refreshTokens(refreshToken);
+
+    res.status(200).json({
+      success: true,
+      data: tokens,
+      message: "Token refreshed successfully",
+    });
+  } catch (error: unknown) {
+    console.error("Token refresh error:", error);
+    res.status(401).json({
+      success: false,
+      message:
+        error instanceof Error
+          ? error.message
+          : "Invalid or expired refresh token",
+    });
+  }
+};
+
+/**
+ * Complete login with a TOTP code or recovery code
+ * @route POST /api/auth/login/mfa
+ */
+export const verifyMfaLogin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const result = await authService.completeMfaLogin(
+      challengeToken,
+      { code, recoveryCode },
+      { ipAddress: req.ip, userAgent: req.headers["user-agent"] }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Login successful",
+      data: result,
+    });
+  } catch (error: unknown) {
+    console.error("MFA login error:", error);
+    if (error instanceof Error && error.message === LOCKOUT_MESSAGE) {
+      res.status(429).json({ success: false, message: error.message });
       return;
     }
 
-    // FIXED: Check for JWT_SECRET
-    if (!env.JWT_SECRET) {
-      console.error("JWT_SECRET is not defined");
-      res.status(500).json({
+    res.status(401).json({
+      success: false,
+      message:
+        error instanceof Error ? error.message : "MFA verification failed",
+    });
+  }
+};
+
+/**
+ * Start MFA enrolment during login when the user's role requires MFA
+ * @route POST /api/auth/login/mfa/setup
+ */
+export const setupMfaLogin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const enrolment = await authService.beginChallengeEnrolment(
+      req.body.challengeToken
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the secret with an authenticator app, then verify a code",
+      data: enrolment,
+    });
+  } catch (error: unknown) {
+    console.error("MFA login setup error:", error);
+    res.status(401).json({
+      success: false,
+      message: error instanceof Error ? error.message : "MFA enrolment failed",
+    });
+  }
+};
+
+/**
+ * User logout - revokes the current session and its refresh tokens
+ * @route POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.user.sessionId) {
+      res.status(401).json({
         success: false,
-        message: "Server configuration error",
+        message: "Not authenticated",
       });
       return;
     }
 
-    // FIXED: Use consistent ID field (user._id to user.id if available)
-    const userId = user.id || user._id;
+    await sessionService.revokeSession(req.user.sessionId);
 
-    // Generate reset token with consistent field naming
-    const resetToken = jwt.sign(
-      {
-        id: userId, // Keep using 'id' for password reset tokens
-        email: user.email,
-      },
-      env.JWT_SECRET + user.password,
-      { expiresIn: "1h" }
-    );
+    res.status(200).json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  } catch (error: unknown) {
+    console.error("Logout error:", error);
+    res.status(500).json({
+      success: false,
+      message: "An error occurred during logout",
+    });
+  }
+};
 
-    // In a real app, you would send an email with the reset link
-    // For now, we'll just return the token in the response
+/**
+ * List the current user's active sessions
+ * @route GET /api/auth/sessions
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Not authenticated",
+      });
+      return;
+    }
+
+    const sessions = await sessionService.getActiveSessions(req.user.userId);
 
     res.status(200).json({
       success: true,
-      message: "If your email exists in our system, a reset link has been sent",
-      // Remove in production:
-      data: { resetToken },
+      data: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.user?.sessionId,
+      })),
+      message: "Sessions retrieved successfully",
     });
   } catch (error: unknown) {
-    console.error("Password reset request error:", error);
+    console.error("Get sessions error:", error);
     res.status(500).json({
       success: false,
-      message: "An error occurred processing your request",
+      message: "An error occurred retrieving sessions",
     });
   }
 };
 
 /**
- * Reset password with token
- * @route POST /api/auth/password-reset
+ * Revoke a session (own sessions, or any session with manage:users)
+ * @route DELETE /api/auth/sessions/:id
  */
-export const resetPassword = async (
+export const revokeSession = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { token, newPassword } = req.body;
-
-    if (!token || !newPassword) {
-      res.status(400).json({
+    if (!req.user) {
+      res.status(401).json({
         success: false,
-        message: "Token and new password are required",
+        message: "Not authenticated",
       });
       return;
     }
 
-    // FIXED: Check for JWT_SECRET
-    if (!env.JWT_SECRET) {
-      console.error("JWT_SECRET is not defined");
-      res.status(500).json({
+    await sessionService.revokeSessionForUser(req.params.id, req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully",
+    });
+  } catch (error: unknown) {
+    console.error("Revoke session error:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "Session not found") {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === "Unauthorized access to session") {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "An error occurred revoking the session",
+    });
+  }
+};
+
+/**
+ * Revoke every session for a user
+ * @route DELETE /api/auth/users/:userId/sessions
+ */
+export const revokeUserSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = parseInt(req.params.userId, 10);
+
+    if (isNaN(userId)) {
+      res.status(400).json({
         success: false,
-        message: "Server configuration error",
+        message: "Invalid user ID",
       });
       return;
     }
 
-    // Verify token with proper type definition
-    interface ResetTokenPayload {
-      id: string | number; // Use the same field name as in your token creation
-      email: string;
-      [key: string]: any; // Allow for additional properties
+    const revoked = await sessionService.revokeAllSessionsForUser(userId);
+
+    res.status(200).json({
+      success: true,
+      data: { revoked },
+      message: "All sessions revoked successfully",
+    });
+  } catch (error: unknown) {
+    console.error("Revoke user sessions error:", error);
+
+    if (error instanceof Error && error.message === "User not found") {
+      res.status(404).json({ success: false, message: error.message });
+      return;
     }
 
-    const decoded = jwt.verify(token, env.JWT_SECRET) as ResetTokenPayload;
+    res.status(500).json({
+      success: false,
+      message: "An error occurred revoking sessions",
+    });
+  }
+};
 
-    // Convert ID to number if it's a string
-    const userId =
-      typeof decoded.id === "string" ? parseInt(decoded.id, 10) : decoded.id;
-    const user = await UserModel.findById(userId);
+/**
+ * Request password reset
+ * @route POST /api/auth/password-reset-request
+ */
+export const requestPasswordReset = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email } = req.body;
 
-    if (!user || !user.id) {
+    if (!email) {
       res.status(400).json({
         success: false,
-        message: "Invalid or expired token",
+        message: "Email is required",
       });
       return;
     }
 
-    // Hash new password
-    const salt = await bcryptjs.genSalt(10);
-    const hashedPassword = await bcryptjs.hash(newPassword, salt);
+    // The response is the same whether or not the account exists
+    await authService.requestPasswordReset(email);
 
-    // Update user's password using the UserModel.update method
-    const updatedUser = await UserModel.update(user.id, {
-      password: hashedPassword,
+    res.status(200).json({
+      success: true,
+      message: "If your email exists in our system, a reset link has been sent",
     });
+  } catch (error: unknown) {
+    console.error("Password reset request error:", error);
+    res.status(500).json({
+      success: false,
+      message: "An error occurred processing your request",
+    });
+  }
+};
 
-    if (!updatedUser) {
-      res.status(500).json({
+/**
+ * Reset password with token
+ * @route POST /api/auth/password-reset
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({
         success: false,
-        message: "Failed to update password",
+        message: "Token and new password are required",
       });
       return;
     }
 
+    await authService.resetPassword(token, newPassword);
+
     res.status(200).json({
       success: true,
       message: "Password has been reset successfully",
     });
   } catch (error: unknown) {
     console.error("Password reset error:", error);
+    if (
+      (error instanceof Error &&
+        error.message === "Invalid or expired token") ||
+      passwordPolicyService.isPasswordPolicyError(error)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       message: "An error occurred resetting your password",
@@ -418,6 +583,73 @@ export const resetPassword = async (
   }
 };
 
+/**
+ * Change password with the current password. Works without a session so
+ * users with an expired password can set a new one.
+ * @route POST /api/auth/change-password
+ */
+export const changePassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email, currentPassword, newPassword } = req.body;
+
+    await authService.changePassword(email, currentPassword, newPassword, {
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Password changed successfully",
+    });
+  } catch (error: unknown) {
+    console.error("Change password error:", error);
+
+    if (error instanceof Error) {
+      if (error.message === LOCKOUT_MESSAGE) {
+        res.status(429).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === "Invalid credentials") {
+        res.status(401).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (
+        error.message === "Account is disabled" ||
+        error.message === "Password reset required"
+      ) {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (passwordPolicyService.isPasswordPolicyError(error)) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "An error occurred changing your password",
+    });
+  }
+};
+
+/**
+ * Get the password rules so clients can show them when choosing a password
+ * @route GET /api/auth/password-policy
+ */
+export const getPasswordPolicy = (req: Request, res: Response): void => {
+  res.status(200).json({
+    success: true,
+    data: passwordPolicyService.getPasswordPolicy(),
+    message: "Password policy retrieved successfully",
+  });
+};
+
 export const testSecret = (req: Request, res: Response) => {
   try {
     const testToken = jwt.sign({ test: true }, env.JWT_SECRET as string);
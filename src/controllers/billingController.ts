@@ -1,5 +1,12 @@
 import { Request, Response } from "express";
-import billingService from "../services/billingService";
+import billingService, {
+  GENERATED_INVOICE_UNREVIEWED_MESSAGE,
+  PAYMENT_STATUS_MESSAGE,
+} from "../services/billingService";
+import {
+  CANCELLED_INVOICE_PAYMENT_MESSAGE,
+  UNREVIEWED_INVOICE_PAYMENT_MESSAGE,
+} from "../models/Billing";
 import { successResponse, errorResponse } from "../utils/apiResponse";
 import { logger } from "../utils/logger";
 
@@ -115,7 +122,10 @@ export const createInvoice = async (
         error.message === "At least one invoice item is required" ||
         error.message === "Item description is required" ||
         error.message === "Item quantity must be greater than zero" ||
-        error.message === "Item unit price cannot be negative"
+        error.message === "Item unit price is required" ||
+        error.message === "Item unit price cannot be negative" ||
+        error.message === PAYMENT_STATUS_MESSAGE ||
+        error.message.endsWith("is not an active charge master code")
       ) {
         res.status(400).json(errorResponse(error.message));
         return;
@@ -126,6 +136,61 @@ export const createInvoice = async (
   }
 };
 
+/**
+ * Get the invoices generated from completed visits that are waiting for
+ * review before they are sent
+ * @route GET /api/billing/invoices/review-queue
+ */
+export const getReviewQueue = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const invoices = await billingService.getReviewQueue();
+
+    res
+      .status(200)
+      .json(
+        successResponse("Invoice review queue retrieved successfully", invoices)
+      );
+  } catch (error) {
+    logger.error("Error retrieving the invoice review queue:", error);
+    res
+      .status(500)
+      .json(errorResponse("Failed to retrieve the invoice review queue"));
+  }
+};
+
+/**
+ * Approve a generated invoice from the review queue and send it
+ * @route POST /api/billing/invoices/:id/approve
+ */
+export const approveInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const invoice = await billingService.approveInvoice(
+      req.params.id,
+      req.user?.userId as number
+    );
+
+    res
+      .status(200)
+      .json(successResponse("Invoice approved and sent successfully", invoice));
+  } catch (error) {
+    logger.error(`Error approving invoice ${req.params.id}:`, error);
+
+    if (error instanceof Error && !error.message.startsWith("Failed to")) {
+      const status = error.message === "Invoice not found" ? 404 : 409;
+      res.status(status).json(errorResponse(error.message));
+      return;
+    }
+
+    res.status(500).json(errorResponse("Failed to approve invoice"));
+  }
+};
+
 /**
  * Update an invoice
  * @route PUT /api/billing/invoices/:id
@@ -151,10 +216,23 @@ export const updateInvoice = async (
   } catch (error) {
     logger.error(`Error updating invoice ${req.params.id}:`, error);
 
+    if (
+      error instanceof Error &&
+      error.message === GENERATED_INVOICE_UNREVIEWED_MESSAGE
+    ) {
+      res.status(409).json(errorResponse(error.message));
+      return;
+    }
+
     if (error instanceof Error) {
       if (
         error.message === "Invoice not found" ||
-        error.message === "Paid invoices cannot be modified"
+        error.message === "Paid invoices cannot be modified" ||
+        error.message === PAYMENT_STATUS_MESSAGE ||
+        error.message ===
+          "The status of an invoice with payments cannot be changed" ||
+        error.message ===
+          "The patient of an invoice with payments cannot be changed"
       ) {
         const status = error.message === "Invoice not found" ? 404 : 400;
         res.status(status).json(errorResponse(error.message));
@@ -237,7 +315,8 @@ export const getInvoicePayments = async (
 };
 
 /**
- * Record a payment
+ * Record a payment. A request sent again with the same Idempotency-Key
+ * header returns the payment already recorded instead of charging twice.
  * @route POST /api/billing/payments
  */
 export const recordPayment = async (
@@ -247,14 +326,22 @@ export const recordPayment = async (
   try {
     const paymentData = req.body;
 
-    const newPayment = await billingService.recordPayment({
+    const { payment, replayed } = await billingService.recordPayment({
       ...paymentData,
+      idempotencyKey: req.header("Idempotency-Key") || undefined,
       processedBy: req.user?.id || "SYSTEM", // Get from authenticated user
     });
 
+    if (replayed) {
+      res
+        .status(200)
+        .json(successResponse("Payment already recorded", payment));
+      return;
+    }
+
     res
       .status(201)
-      .json(successResponse("Payment recorded successfully", newPayment));
+      .json(successResponse("Payment recorded successfully", payment));
   } catch (error) {
     logger.error("Error recording payment:", error);
 
@@ -262,18 +349,64 @@ export const recordPayment = async (
       if (
         error.message === "Invoice not found" ||
         error.message === "Payment amount must be greater than zero" ||
+        error.message === "Invoice is already paid in full" ||
         error.message.startsWith("Payment amount cannot exceed")
       ) {
         const status = error.message === "Invoice not found" ? 404 : 400;
         res.status(status).json(errorResponse(error.message));
         return;
       }
+
+      if (
+        error.message.startsWith("Idempotency-Key") ||
+        error.message === CANCELLED_INVOICE_PAYMENT_MESSAGE ||
+        error.message === UNREVIEWED_INVOICE_PAYMENT_MESSAGE
+      ) {
+        res.status(409).json(errorResponse(error.message));
+        return;
+      }
     }
 
     res.status(500).json(errorResponse("Failed to record payment"));
   }
 };
 
+/**
+ * Get a patient's credit balance, built from overpayments kept as credit
+ * @route GET /api/billing/patients/:patientId/credit
+ */
+export const getPatientCredit = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+
+    if (isNaN(patientId)) {
+      res.status(400).json(errorResponse("Invalid patient ID"));
+      return;
+    }
+
+    const credit = await billingService.getPatientCredit(patientId);
+
+    res
+      .status(200)
+      .json(successResponse("Patient credit retrieved successfully", credit));
+  } catch (error) {
+    logger.error(
+      `Error retrieving credit for patient ${req.params.patientId}:`,
+      error
+    );
+
+    if (error instanceof Error && error.message === "Patient not found") {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    res.status(500).json(errorResponse("Failed to retrieve patient credit"));
+  }
+};
+
 /**
  * Get billing statistics
  * @route GET /api/billing/stats
@@ -308,9 +441,12 @@ export default {
   getInvoiceById,
   getInvoicesByPatientId,
   createInvoice,
+  getReviewQueue,
+  approveInvoice,
   updateInvoice,
   deleteInvoice,
   getInvoicePayments,
   recordPayment,
+  getPatientCredit,
   getBillingStats,
 };
@@ -0,0 +1,183 @@
+import { Request, Response } from "express";
+import careTeamService from "../services/careTeamService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Send the response for an error thrown by careTeamService
+ * @private
+ */
+const handleCareTeamError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Get a patient's care team
+ * @route GET /api/patients/:id/care-team
+ */
+export const getCareTeam = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const careTeam = await careTeamService.getCareTeam(parseInt(req.params.id));
+    res
+      .status(200)
+      .json(successResponse("Care team retrieved successfully", careTeam));
+  } catch (error) {
+    logger.error(
+      `Error retrieving care team for patient ${req.params.id}:`,
+      error
+    );
+    handleCareTeamError(res, error, "Failed to retrieve care team");
+  }
+};
+
+/**
+ * Assign a staff member to a patient's care team
+ * @route POST /api/patients/:id/care-team
+ */
+export const assignStaff = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { staffId, role } = req.body;
+
+    const careTeam = await careTeamService.assignStaff(
+      parseInt(req.params.id),
+      staffId,
+      role ?? null,
+      req.user?.userId as number
+    );
+    res
+      .status(200)
+      .json(successResponse("Staff member assigned successfully", careTeam));
+  } catch (error) {
+    logger.error(
+      `Error assigning care team member for patient ${req.params.id}:`,
+      error
+    );
+    handleCareTeamError(res, error, "Failed to assign staff member");
+  }
+};
+
+/**
+ * Remove a staff member from a patient's care team
+ * @route DELETE /api/patients/:id/care-team/:staffId
+ */
+export const removeStaff = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await careTeamService.removeStaff(
+      parseInt(req.params.id),
+      req.params.staffId
+    );
+    res.status(200).json(successResponse("Staff member removed successfully"));
+  } catch (error) {
+    logger.error(
+      `Error removing care team member for patient ${req.params.id}:`,
+      error
+    );
+    handleCareTeamError(res, error, "Failed to remove staff member");
+  }
+};
+
+/**
+ * Get time-boxed emergency access to a patient's chart
+ * @route POST /api/break-glass
+ */
+export const requestBreakGlass = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { patientId, reason } = req.body;
+
+    const grant = await careTeamService.requestBreakGlass(
+      req.user?.userId as number,
+      Number(patientId),
+      reason
+    );
+    res.status(201).json(successResponse("Break-glass access granted", grant));
+  } catch (error) {
+    logger.error("Error granting break-glass access:", error);
+    handleCareTeamError(res, error, "Failed to grant break-glass access");
+  }
+};
+
+/**
+ * List break-glass grants for review
+ * @route GET /api/break-glass
+ */
+export const getBreakGlassGrants = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { patientId, userId, reviewed } = req.query;
+
+    const grants = await careTeamService.getBreakGlassGrants({
+      patientId: patientId ? parseInt(patientId as string) : undefined,
+      userId: userId ? parseInt(userId as string) : undefined,
+      reviewed: reviewed === undefined ? undefined : reviewed === "true",
+    });
+    res
+      .status(200)
+      .json(
+        successResponse("Break-glass grants retrieved successfully", grants)
+      );
+  } catch (error) {
+    logger.error("Error retrieving break-glass grants:", error);
+    handleCareTeamError(res, error, "Failed to retrieve break-glass grants");
+  }
+};
+
+/**
+ * Record the review of a break-glass grant
+ * @route PUT /api/break-glass/:id/review
+ */
+export const reviewBreakGlassGrant = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const grant = await careTeamService.reviewBreakGlassGrant(
+      parseInt(req.params.id),
+      req.user?.userId as number,
+      req.body.notes ?? null
+    );
+    res
+      .status(200)
+      .json(successResponse("Break-glass grant reviewed successfully", grant));
+  } catch (error) {
+    logger.error(`Error reviewing break-glass grant ${req.params.id}:`, error);
+    handleCareTeamError(res, error, "Failed to review break-glass grant");
+  }
+};
+
+export default {
+  getCareTeam,
+  assignStaff,
+  removeStaff,
+  requestBreakGlass,
+  getBreakGlassGrants,
+  reviewBreakGlassGrant,
+};
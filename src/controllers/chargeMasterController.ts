@@ -0,0 +1,212 @@
+import { Request, Response } from "express";
+import chargeMasterService from "../services/chargeMasterService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+import { ChargeCategory, ChargeMasterItemInput } from "../types/chargeMaster";
+
+// Fields of a catalog entry that can be set through the API
+const ITEM_FIELDS: (keyof ChargeMasterItemInput)[] = [
+  "code",
+  "description",
+  "category",
+  "defaultPrice",
+  "taxRate",
+  "activeFrom",
+  "activeTo",
+];
+
+/**
+ * Send the response for an error thrown by chargeMasterService
+ * @private
+ */
+const handleChargeMasterError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    if (error.message.endsWith("already exists")) {
+      res.status(409).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Pick the catalog fields present in a request body
+ * @private
+ */
+const pickItemFields = (
+  body: Record<string, any>
+): Partial<ChargeMasterItemInput> =>
+  Object.fromEntries(
+    ITEM_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+      field,
+      body[field],
+    ])
+  ) as Partial<ChargeMasterItemInput>;
+
+/**
+ * List the charge master, optionally filtered by code or description,
+ * category and the date entries are active on
+ * @route GET /api/billing/charge-master
+ */
+export const getChargeMaster = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { q, category, activeOn } = req.query;
+
+    const items = await chargeMasterService.listItems({
+      q: q as string | undefined,
+      category: category as ChargeCategory | undefined,
+      activeOn: activeOn as string | undefined,
+    });
+    res
+      .status(200)
+      .json(successResponse("Charge master retrieved successfully", items));
+  } catch (error) {
+    logger.error("Error retrieving the charge master:", error);
+    res.status(500).json(errorResponse("Failed to retrieve the charge master"));
+  }
+};
+
+/**
+ * Get a charge master entry by code
+ * @route GET /api/billing/charge-master/:code
+ */
+export const getChargeMasterItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const item = await chargeMasterService.getItem(req.params.code);
+
+    if (!item) {
+      res.status(404).json(errorResponse("Charge code not found"));
+      return;
+    }
+
+    res
+      .status(200)
+      .json(
+        successResponse("Charge master entry retrieved successfully", item)
+      );
+  } catch (error) {
+    logger.error(`Error retrieving charge code ${req.params.code}:`, error);
+    res
+      .status(500)
+      .json(errorResponse("Failed to retrieve charge master entry"));
+  }
+};
+
+/**
+ * Add an entry to the charge master
+ * @route POST /api/billing/charge-master
+ */
+export const createChargeMasterItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const fields = pickItemFields(req.body);
+
+    const item = await chargeMasterService.createItem({
+      ...fields,
+      taxRate: fields.taxRate ?? 0,
+      activeFrom: fields.activeFrom ?? null,
+      activeTo: fields.activeTo ?? null,
+    } as ChargeMasterItemInput);
+    res
+      .status(201)
+      .json(successResponse("Charge master entry created successfully", item));
+  } catch (error) {
+    logger.error("Error creating charge master entry:", error);
+    handleChargeMasterError(res, error, "Failed to create charge master entry");
+  }
+};
+
+/**
+ * Update a charge master entry
+ * @route PUT /api/billing/charge-master/:code
+ */
+export const updateChargeMasterItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    // The code identifies the entry and is not changed
+    const item = await chargeMasterService.updateItem(
+      req.params.code,
+      pickItemFields(req.body)
+    );
+    res
+      .status(200)
+      .json(successResponse("Charge master entry updated successfully", item));
+  } catch (error) {
+    logger.error(`Error updating charge code ${req.params.code}:`, error);
+    handleChargeMasterError(res, error, "Failed to update charge master entry");
+  }
+};
+
+/**
+ * Remove an entry from the charge master
+ * @route DELETE /api/billing/charge-master/:code
+ */
+export const deleteChargeMasterItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await chargeMasterService.deleteItem(req.params.code);
+
+    res
+      .status(200)
+      .json(successResponse("Charge master entry deleted successfully"));
+  } catch (error) {
+    logger.error(`Error deleting charge code ${req.params.code}:`, error);
+    handleChargeMasterError(res, error, "Failed to delete charge master entry");
+  }
+};
+
+/**
+ * Import charge master entries from a CSV sent as the text/csv request body
+ * @route POST /api/billing/charge-master/import
+ */
+export const importChargeMaster = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = await chargeMasterService.importCsv(
+      typeof req.body === "string" ? req.body : ""
+    );
+    res
+      .status(200)
+      .json(successResponse("Charge master imported successfully", result));
+  } catch (error) {
+    logger.error("Error importing the charge master:", error);
+    handleChargeMasterError(res, error, "Failed to import the charge master");
+  }
+};
+
+export default {
+  getChargeMaster,
+  getChargeMasterItem,
+  createChargeMasterItem,
+  updateChargeMasterItem,
+  deleteChargeMasterItem,
+  importChargeMaster,
+};
@@ -129,6 +129,45 @@ export const getRevenueStats = async (
   }
 };
 
+/**
+ * Get diagnosis frequency by ICD-10 chapter
+ * @route GET /api/dashboard/diagnoses
+ */
+export const getDiagnosisStats = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const stats = await dashboardService.getDiagnosisStats(
+      startDate as string,
+      endDate as string
+    );
+
+    res
+      .status(200)
+      .json(
+        successResponse("Diagnosis statistics retrieved successfully", stats)
+      );
+  } catch (error) {
+    logger.error("Error retrieving diagnosis statistics:", error);
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Invalid start date") ||
+        error.message.includes("Invalid end date"))
+    ) {
+      res.status(400).json(errorResponse(error.message));
+      return;
+    }
+
+    res
+      .status(500)
+      .json(errorResponse("Failed to retrieve diagnosis statistics"));
+  }
+};
+
 /**
  * Get staff performance metrics
  * @route GET /api/dashboard/staff-performance
@@ -185,6 +224,7 @@ export default {
   getPatientStats,
   getAppointmentStats,
   getRevenueStats,
+  getDiagnosisStats,
   getStaffPerformance,
   getRecentActivity,
 };
@@ -0,0 +1,32 @@
+import { Request, Response } from "express";
+import icd10Service from "../services/icd10Service";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Search ICD-10 codes for typeahead by code prefix or description
+ * @route GET /api/codes/icd10
+ */
+export const searchIcd10Codes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { q, limit } = req.query;
+
+    const codes = await icd10Service.searchCodes(
+      q as string,
+      limit ? parseInt(limit as string) : undefined
+    );
+    res
+      .status(200)
+      .json(successResponse("ICD-10 codes retrieved successfully", codes));
+  } catch (error) {
+    logger.error(`Error searching ICD-10 codes for "${req.query.q}":`, error);
+    res.status(500).json(errorResponse("Failed to search ICD-10 codes"));
+  }
+};
+
+export default {
+  searchIcd10Codes,
+};
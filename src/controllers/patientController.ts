@@ -4,9 +4,77 @@ import { successResponse, errorResponse } from "../utils/apiResponse";
 import { logger } from "../utils/logger";
 import medicalRecordService from "../services/medicalRecordService";
 import appointmentService from "../services/appointmentService";
+import patientMergeService from "../services/patientMergeService";
+import problemListService from "../services/problemListService";
+import allergyService from "../services/allergyService";
+import careTeamService from "../services/careTeamService";
+import { ensureChartAccess } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
+import {
+  PatientListResponse,
+  PatientSortColumn,
+  TIMELINE_ENTRY_TYPES,
+  TimelineEntryType,
+} from "../types/patient";
+
+// Timeline entries that need more than access to the chart
+const TIMELINE_TYPE_PERMISSIONS: Partial<
+  Record<TimelineEntryType, Permission>
+> = {
+  appointment: Permission.VIEW_APPOINTMENTS,
+  invoice: Permission.VIEW_BILLING,
+  payment: Permission.VIEW_BILLING,
+};
+
+// Sent when the timeline is filtered by an unknown entry type
+const TIMELINE_TYPES_MESSAGE = `Types must be among ${TIMELINE_ENTRY_TYPES.join(
+  ", "
+)}`;
+
+/**
+ * Read the includeDeleted query flag. Only users who may restore patients
+ * can see soft-deleted ones; for anyone else a 403 is sent and null returned.
+ * @private
+ */
+const resolveIncludeDeleted = (req: Request, res: Response): boolean | null => {
+  if (req.query.includeDeleted !== "true") {
+    return false;
+  }
+
+  // requirePermission has already resolved the effective permissions
+  if (!req.user?.permissions?.includes(Permission.RESTORE_PATIENTS)) {
+    res.status(403).json(errorResponse("Forbidden - Insufficient permissions"));
+    return null;
+  }
+
+  return true;
+};
+
+/**
+ * Send the response for an error thrown while restoring or purging
+ * @private
+ */
+const handlePatientError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
 
 /**
- * Get all patients
+ * List patients with filtering, sorting and paging
  * @route GET /api/patients
  */
 export const getAllPatients = async (
@@ -14,11 +82,34 @@ export const getAllPatients = async (
   res: Response
 ): Promise<void> => {
   try {
-    const patients = await patientService.getAllPatients();
+    const includeDeleted = resolveIncludeDeleted(req, res);
+    if (includeDeleted === null) return;
+
+    const query = req.query as Record<string, string | undefined>;
+    const { patients, pagination } = await patientService.listPatients({
+      search: query.search,
+      gender: query.gender,
+      ageMin: query.ageMin ? parseInt(query.ageMin) : undefined,
+      ageMax: query.ageMax ? parseInt(query.ageMax) : undefined,
+      bloodType: query.bloodType,
+      insuranceProvider: query.insuranceProvider,
+      createdFrom: query.createdFrom,
+      createdTo: query.createdTo,
+      includeDeleted,
+      sortBy: query.sortBy as PatientSortColumn | undefined,
+      sortOrder: query.sortOrder as "asc" | "desc" | undefined,
+      page: query.page ? parseInt(query.page) : undefined,
+      limit: query.limit ? parseInt(query.limit) : undefined,
+    });
 
-    res
-      .status(200)
-      .json(successResponse("Patients retrieved successfully", patients));
+    const response: PatientListResponse = {
+      success: true,
+      message: "Patients retrieved successfully",
+      data: patients,
+      meta: pagination,
+    };
+
+    res.status(200).json(response);
   } catch (error) {
     logger.error("Error retrieving patients:", error);
     res.status(500).json(errorResponse("Failed to retrieve patients"));
@@ -41,13 +132,35 @@ export const getPatientById = async (
       return;
     }
 
-    const patient = await patientService.getPatientById(id);
+    const includeDeleted = resolveIncludeDeleted(req, res);
+    if (includeDeleted === null) return;
+
+    const patient = await patientService.getPatientWithMetadata(
+      id,
+      includeDeleted
+    );
 
     if (!patient) {
       res.status(404).json(errorResponse("Patient not found"));
       return;
     }
 
+    // Allergies, the problem list and the free-text history are part of the
+    // chart, so only shown to those who may read it
+    if (
+      !req.user?.permissions?.includes(Permission.VIEW_RECORDS) ||
+      !(await careTeamService.canAccessChart(req.user.userId, id))
+    ) {
+      const { allergies, medicalHistory, ...demographics } = patient;
+      res
+        .status(200)
+        .json(successResponse("Patient retrieved successfully", demographics));
+      return;
+    }
+
+    patient.activeAllergies = await allergyService.getActiveAllergies(id);
+    patient.activeProblems = await problemListService.getActiveProblems(id);
+
     res
       .status(200)
       .json(successResponse("Patient retrieved successfully", patient));
@@ -58,7 +171,8 @@ export const getPatientById = async (
 };
 
 /**
- * Search patients based on query string
+ * Search patients based on query string. Names match partially; email and
+ * phone are encrypted and only match exactly.
  * @route GET /api/patients/search
  */
 export const searchPatients = async (
@@ -73,7 +187,13 @@ export const searchPatients = async (
       return;
     }
 
-    const patients = await patientService.searchPatients(searchQuery);
+    const includeDeleted = resolveIncludeDeleted(req, res);
+    if (includeDeleted === null) return;
+
+    const patients = await patientService.searchPatients(
+      searchQuery,
+      includeDeleted
+    );
 
     res
       .status(200)
@@ -85,7 +205,8 @@ export const searchPatients = async (
 };
 
 /**
- * Create a new patient
+ * Create a new patient. Possible duplicates of an existing chart are
+ * returned with a 409 unless ignoreDuplicates is set.
  * @route POST /api/patients
  */
 export const createPatient = async (
@@ -93,7 +214,20 @@ export const createPatient = async (
   res: Response
 ): Promise<void> => {
   try {
-    const patientData = req.body;
+    const { ignoreDuplicates, ...patientData } = req.body;
+
+    if (ignoreDuplicates !== true) {
+      const candidates = await patientMergeService.findDuplicates(patientData);
+      if (candidates.length > 0) {
+        res.status(409).json({
+          ...errorResponse(
+            "Possible duplicate patients found. Use an existing chart or resend with ignoreDuplicates set to true."
+          ),
+          data: candidates,
+        });
+        return;
+      }
+    }
 
     const newPatient = await patientService.createPatient(patientData);
 
@@ -161,7 +295,7 @@ export const updatePatient = async (
 };
 
 /**
- * Delete a patient
+ * Soft-delete a patient
  * @route DELETE /api/patients/:id
  */
 export const deletePatient = async (
@@ -190,6 +324,49 @@ export const deletePatient = async (
   }
 };
 
+/**
+ * Restore a soft-deleted patient
+ * @route POST /api/patients/:id/restore
+ */
+export const restorePatient = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patient = await patientService.restorePatient(
+      parseInt(req.params.id)
+    );
+
+    res
+      .status(200)
+      .json(successResponse("Patient restored successfully", patient));
+  } catch (error) {
+    logger.error(`Error restoring patient ${req.params.id}:`, error);
+    handlePatientError(res, error, "Failed to restore patient");
+  }
+};
+
+/**
+ * Permanently delete a soft-deleted patient and all their data
+ * @route DELETE /api/patients/:id/purge
+ */
+export const purgePatient = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await patientService.purgePatient(
+      parseInt(req.params.id),
+      req.user?.userId as number
+    );
+
+    res.status(200).json(successResponse("Patient purged successfully"));
+  } catch (error) {
+    logger.error(`Error purging patient ${req.params.id}:`, error);
+    handlePatientError(res, error, "Failed to purge patient");
+  }
+};
+
 /**
  * Get a patient's medical records
  * @route GET /api/patients/:id/medical-records
@@ -213,6 +390,9 @@ export const getPatientMedicalRecords = async (
       return;
     }
 
+    // Charts are limited to the care team and break-glass holders
+    if (!(await ensureChartAccess(req, res, patientId))) return;
+
     // Get the patient's medical records
     const medicalRecords =
       await medicalRecordService.getMedicalRecordsByPatientId(patientId);
@@ -280,6 +460,74 @@ export const getPatientAppointments = async (
   }
 };
 
+/**
+ * Get a patient's clinical timeline: appointments, visits, diagnoses,
+ * prescriptions, invoices and payments in one feed, newest first
+ * @route GET /api/patients/:id/timeline
+ */
+export const getPatientTimeline = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patientId = parseInt(req.params.id);
+
+    const patient = await patientService.getPatientById(patientId);
+    if (!patient) {
+      res.status(404).json(errorResponse("Patient not found"));
+      return;
+    }
+
+    // Charts are limited to the care team and break-glass holders
+    if (!(await ensureChartAccess(req, res, patientId))) return;
+
+    // requirePermission has already resolved the effective permissions
+    const permissions = req.user?.permissions || [];
+    const allowed = TIMELINE_ENTRY_TYPES.filter((type) => {
+      const required = TIMELINE_TYPE_PERMISSIONS[type];
+      return !required || permissions.includes(required);
+    });
+
+    let types = allowed;
+    if (req.query.types) {
+      types = String(req.query.types)
+        .split(",")
+        .map((type) => type.trim()) as TimelineEntryType[];
+
+      // The route rejects unknown types; check again so a typo is never
+      // reported as a missing permission
+      if (types.some((type) => !TIMELINE_ENTRY_TYPES.includes(type))) {
+        res.status(400).json(errorResponse(TIMELINE_TYPES_MESSAGE));
+        return;
+      }
+      if (types.some((type) => !allowed.includes(type))) {
+        res
+          .status(403)
+          .json(errorResponse("Forbidden - Insufficient permissions"));
+        return;
+      }
+    }
+
+    const timeline = await patientService.getPatientTimeline(patientId, {
+      types,
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+
+    res
+      .status(200)
+      .json(successResponse("Timeline retrieved successfully", timeline));
+  } catch (error) {
+    logger.error(
+      `Error retrieving timeline for patient ${req.params.id}:`,
+      error
+    );
+    res.status(500).json(errorResponse("Failed to retrieve patient timeline"));
+  }
+};
+
 /**
  * Get statistics for patients (used in dashboard)
  * @route GET /api/patients/stats
@@ -357,7 +605,10 @@ export default {
   createPatient,
   updatePatient,
   deletePatient,
+  restorePatient,
+  purgePatient,
   getPatientMedicalRecords,
   getPatientAppointments,
+  getPatientTimeline,
   getPatientStats,
 };
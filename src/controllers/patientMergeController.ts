@@ -0,0 +1,135 @@
+import { Request, Response } from "express";
+import patientMergeService from "../services/patientMergeService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Send the response for an error thrown by patientMergeService
+ * @private
+ */
+const handleMergeError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Find existing patients that may be duplicates of a patient
+ * @route GET /api/patients/:id/duplicates
+ */
+export const getDuplicates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const candidates = await patientMergeService.findDuplicatesOf(
+      parseInt(req.params.id)
+    );
+
+    res
+      .status(200)
+      .json(
+        successResponse(
+          "Duplicate candidates retrieved successfully",
+          candidates
+        )
+      );
+  } catch (error) {
+    logger.error(
+      `Error finding duplicates of patient ${req.params.id}:`,
+      error
+    );
+    handleMergeError(res, error, "Failed to check for duplicate patients");
+  }
+};
+
+/**
+ * Merge a duplicate patient into this one
+ * @route POST /api/patients/:id/merge
+ */
+export const mergePatient = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const merge = await patientMergeService.mergePatients(
+      parseInt(req.params.id),
+      parseInt(req.body.duplicateId),
+      req.user?.userId as number
+    );
+
+    res
+      .status(200)
+      .json(successResponse("Patients merged successfully", merge));
+  } catch (error) {
+    logger.error(
+      `Error merging patient ${req.body.duplicateId} into ${req.params.id}:`,
+      error
+    );
+    handleMergeError(res, error, "Failed to merge patients");
+  }
+};
+
+/**
+ * Get the merge history of a patient
+ * @route GET /api/patients/:id/merges
+ */
+export const getMergeHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const merges = await patientMergeService.getMergeHistory(
+      parseInt(req.params.id)
+    );
+
+    res
+      .status(200)
+      .json(successResponse("Merge history retrieved successfully", merges));
+  } catch (error) {
+    logger.error(
+      `Error retrieving merge history of patient ${req.params.id}:`,
+      error
+    );
+    handleMergeError(res, error, "Failed to retrieve merge history");
+  }
+};
+
+/**
+ * Undo a merge into this patient
+ * @route POST /api/patients/:id/merges/:mergeId/undo
+ */
+export const undoMerge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const merge = await patientMergeService.undoMerge(
+      parseInt(req.params.id),
+      parseInt(req.params.mergeId),
+      req.user?.userId as number
+    );
+
+    res.status(200).json(successResponse("Merge undone successfully", merge));
+  } catch (error) {
+    logger.error(`Error undoing patient merge ${req.params.mergeId}:`, error);
+    handleMergeError(res, error, "Failed to undo merge");
+  }
+};
+
+export default {
+  getDuplicates,
+  mergePatient,
+  getMergeHistory,
+  undoMerge,
+};
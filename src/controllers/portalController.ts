@@ -0,0 +1,308 @@
+import { Request, Response } from "express";
+import portalService from "../services/portalService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+
+/**
+ * Get the patient ID resolved by requirePatientAccount
+ * @private
+ */
+const getPatientId = (req: Request): number => req.user?.patientId as number;
+
+/**
+ * Send the response for an error thrown by portalService
+ * @private
+ */
+const handlePortalError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Get the patient's own record
+ * @route GET /api/portal/profile
+ */
+export const getProfile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patient = await portalService.getProfile(getPatientId(req));
+    res
+      .status(200)
+      .json(successResponse("Profile retrieved successfully", patient));
+  } catch (error) {
+    logger.error("Error retrieving portal profile:", error);
+    handlePortalError(res, error, "Failed to retrieve profile");
+  }
+};
+
+/**
+ * Update the patient's contact details
+ * @route PUT /api/portal/profile/contact
+ */
+export const updateContactDetails = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const patient = await portalService.updateContactDetails(
+      getPatientId(req),
+      req.body
+    );
+    res
+      .status(200)
+      .json(successResponse("Contact details updated successfully", patient));
+  } catch (error) {
+    logger.error("Error updating portal contact details:", error);
+    handlePortalError(res, error, "Failed to update contact details");
+  }
+};
+
+/**
+ * Get the patient's appointments
+ * @route GET /api/portal/appointments
+ */
+export const getAppointments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const appointments = await portalService.getAppointments(getPatientId(req));
+    res
+      .status(200)
+      .json(
+        successResponse("Appointments retrieved successfully", appointments)
+      );
+  } catch (error) {
+    logger.error("Error retrieving portal appointments:", error);
+    handlePortalError(res, error, "Failed to retrieve appointments");
+  }
+};
+
+/**
+ * Get one of the patient's appointments
+ * @route GET /api/portal/appointments/:id
+ */
+export const getAppointment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const appointment = await portalService.getAppointment(
+      getPatientId(req),
+      parseInt(req.params.id)
+    );
+    res
+      .status(200)
+      .json(successResponse("Appointment retrieved successfully", appointment));
+  } catch (error) {
+    logger.error(
+      `Error retrieving portal appointment ${req.params.id}:`,
+      error
+    );
+    handlePortalError(res, error, "Failed to retrieve appointment");
+  }
+};
+
+/**
+ * Request an appointment
+ * @route POST /api/portal/appointments
+ */
+export const requestAppointment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { doctorId, startTime, endTime, type, reason } = req.body;
+
+    const appointment = await portalService.requestAppointment(
+      getPatientId(req),
+      { doctorId, startTime, endTime, type, reason }
+    );
+    res
+      .status(201)
+      .json(successResponse("Appointment requested successfully", appointment));
+  } catch (error) {
+    logger.error("Error requesting portal appointment:", error);
+    handlePortalError(res, error, "Failed to request appointment");
+  }
+};
+
+/**
+ * Cancel one of the patient's upcoming appointments
+ * @route PUT /api/portal/appointments/:id/cancel
+ */
+export const cancelAppointment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const appointment = await portalService.cancelAppointment(
+      getPatientId(req),
+      parseInt(req.params.id)
+    );
+    res
+      .status(200)
+      .json(successResponse("Appointment cancelled successfully", appointment));
+  } catch (error) {
+    logger.error(
+      `Error cancelling portal appointment ${req.params.id}:`,
+      error
+    );
+    handlePortalError(res, error, "Failed to cancel appointment");
+  }
+};
+
+/**
+ * Get the patient's invoices
+ * @route GET /api/portal/invoices
+ */
+export const getInvoices = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const invoices = await portalService.getInvoices(getPatientId(req));
+    res
+      .status(200)
+      .json(successResponse("Invoices retrieved successfully", invoices));
+  } catch (error) {
+    logger.error("Error retrieving portal invoices:", error);
+    handlePortalError(res, error, "Failed to retrieve invoices");
+  }
+};
+
+/**
+ * Get one of the patient's invoices
+ * @route GET /api/portal/invoices/:id
+ */
+export const getInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const invoice = await portalService.getInvoice(
+      getPatientId(req),
+      req.params.id
+    );
+    res
+      .status(200)
+      .json(successResponse("Invoice retrieved successfully", invoice));
+  } catch (error) {
+    logger.error(`Error retrieving portal invoice ${req.params.id}:`, error);
+    handlePortalError(res, error, "Failed to retrieve invoice");
+  }
+};
+
+/**
+ * Get summaries of the patient's visits
+ * @route GET /api/portal/visits
+ */
+export const getVisitSummaries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const visits = await portalService.getVisitSummaries(getPatientId(req));
+    res
+      .status(200)
+      .json(successResponse("Visit summaries retrieved successfully", visits));
+  } catch (error) {
+    logger.error("Error retrieving portal visit summaries:", error);
+    handlePortalError(res, error, "Failed to retrieve visit summaries");
+  }
+};
+
+/**
+ * Get the summary of one of the patient's visits
+ * @route GET /api/portal/visits/:id
+ */
+export const getVisitSummary = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const visit = await portalService.getVisitSummary(
+      getPatientId(req),
+      parseInt(req.params.id)
+    );
+    res
+      .status(200)
+      .json(successResponse("Visit summary retrieved successfully", visit));
+  } catch (error) {
+    logger.error(`Error retrieving portal visit ${req.params.id}:`, error);
+    handlePortalError(res, error, "Failed to retrieve visit summary");
+  }
+};
+
+/**
+ * Get the patient's notifications
+ * @route GET /api/portal/notifications
+ */
+export const getNotifications = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const notifications = await portalService.getNotifications(
+      req.user?.userId as number
+    );
+    res
+      .status(200)
+      .json(
+        successResponse("Notifications retrieved successfully", notifications)
+      );
+  } catch (error) {
+    logger.error("Error retrieving portal notifications:", error);
+    handlePortalError(res, error, "Failed to retrieve notifications");
+  }
+};
+
+/**
+ * Report who has accessed the patient's record
+ * @route GET /api/portal/access-report
+ */
+export const getAccessReport = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const report = await portalService.getAccessReport(getPatientId(req));
+    res
+      .status(200)
+      .json(successResponse("Access report retrieved successfully", report));
+  } catch (error) {
+    logger.error("Error retrieving portal access report:", error);
+    handlePortalError(res, error, "Failed to retrieve access report");
+  }
+};
+
+export default {
+  getProfile,
+  updateContactDetails,
+  getAppointments,
+  getAppointment,
+  requestAppointment,
+  cancelAppointment,
+  getInvoices,
+  getInvoice,
+  getVisitSummaries,
+  getVisitSummary,
+  getNotifications,
+  getAccessReport,
+};
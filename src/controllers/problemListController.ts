@@ -0,0 +1,187 @@
+import { Request, Response } from "express";
+import problemListService from "../services/problemListService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+import { MedicalHistoryInput, ProblemStatus } from "../types/medicalRecord";
+
+// Fields of a problem that can be set through the API
+const PROBLEM_FIELDS: (keyof MedicalHistoryInput)[] = [
+  "condition",
+  "icdCode",
+  "status",
+  "diagnosedAt",
+  "resolvedAt",
+  "notes",
+];
+
+/**
+ * Send the response for an error thrown by problemListService
+ * @private
+ */
+const handleProblemError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error && !error.message.startsWith("Failed to")) {
+    if (error.message.endsWith("not found")) {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Pick the problem fields present in a request body
+ * @private
+ */
+const problemFields = (
+  body: Record<string, any>
+): Partial<MedicalHistoryInput> =>
+  Object.fromEntries(
+    PROBLEM_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+      field,
+      body[field],
+    ])
+  );
+
+/**
+ * Get a patient's problem list
+ * @route GET /api/patients/:id/problems
+ */
+export const getProblems = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const problems = await problemListService.getProblems(
+      parseInt(req.params.id),
+      req.query.status as ProblemStatus | undefined
+    );
+    res
+      .status(200)
+      .json(successResponse("Problem list retrieved successfully", problems));
+  } catch (error) {
+    logger.error(
+      `Error retrieving problem list for patient ${req.params.id}:`,
+      error
+    );
+    handleProblemError(res, error, "Failed to retrieve problem list");
+  }
+};
+
+/**
+ * Suggest problem list entries from the patient's recorded diagnoses
+ * @route GET /api/patients/:id/problems/suggestions
+ */
+export const getProblemSuggestions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const suggestions = await problemListService.getSuggestions(
+      parseInt(req.params.id)
+    );
+    res
+      .status(200)
+      .json(
+        successResponse(
+          "Problem suggestions retrieved successfully",
+          suggestions
+        )
+      );
+  } catch (error) {
+    logger.error(
+      `Error retrieving problem suggestions for patient ${req.params.id}:`,
+      error
+    );
+    handleProblemError(res, error, "Failed to retrieve problem suggestions");
+  }
+};
+
+/**
+ * Add a problem to a patient's list, optionally from a recorded diagnosis
+ * @route POST /api/patients/:id/problems
+ */
+export const createProblem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { diagnosisId } = req.body;
+
+    const problem = await problemListService.addProblem(
+      parseInt(req.params.id),
+      {
+        ...problemFields(req.body),
+        diagnosisId:
+          diagnosisId !== undefined ? parseInt(diagnosisId) : undefined,
+      },
+      req.user?.userId as number
+    );
+    res
+      .status(201)
+      .json(successResponse("Problem added successfully", problem));
+  } catch (error) {
+    logger.error(`Error adding problem for patient ${req.params.id}:`, error);
+    handleProblemError(res, error, "Failed to add problem");
+  }
+};
+
+/**
+ * Update a problem, including resolving or reopening it
+ * @route PUT /api/patients/:id/problems/:problemId
+ */
+export const updateProblem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const problem = await problemListService.updateProblem(
+      parseInt(req.params.id),
+      parseInt(req.params.problemId),
+      problemFields(req.body),
+      req.user?.userId as number
+    );
+    res
+      .status(200)
+      .json(successResponse("Problem updated successfully", problem));
+  } catch (error) {
+    logger.error(`Error updating problem ${req.params.problemId}:`, error);
+    handleProblemError(res, error, "Failed to update problem");
+  }
+};
+
+/**
+ * Delete a problem entered in error
+ * @route DELETE /api/patients/:id/problems/:problemId
+ */
+export const deleteProblem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    await problemListService.deleteProblem(
+      parseInt(req.params.id),
+      parseInt(req.params.problemId)
+    );
+    res.status(200).json(successResponse("Problem deleted successfully"));
+  } catch (error) {
+    logger.error(`Error deleting problem ${req.params.problemId}:`, error);
+    handleProblemError(res, error, "Failed to delete problem");
+  }
+};
+
+export default {
+  getProblems,
+  getProblemSuggestions,
+  createProblem,
+  updateProblem,
+  deleteProblem,
+};
@@ -0,0 +1,291 @@
+import { Request, Response } from "express";
+import userService from "../services/userService";
+import { successResponse, errorResponse } from "../utils/apiResponse";
+import { logger } from "../utils/logger";
+import { UserStatus } from "../types/user";
+
+/**
+ * Send the response for an error thrown by userService
+ * @private
+ */
+const handleUserError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): void => {
+  if (error instanceof Error) {
+    if (error.message === "User not found") {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+
+    // Return specific validation errors
+    res.status(400).json(errorResponse(error.message));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage));
+};
+
+/**
+ * Get all users with optional filtering
+ * @route GET /api/users
+ */
+export const getAllUsers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const users = await userService.getUsers({
+      role: req.query.role as string | undefined,
+      status: req.query.status as UserStatus | undefined,
+      staffId: req.query.staffId as string | undefined,
+      patientId: req.query.patientId
+        ? parseInt(req.query.patientId as string)
+        : undefined,
+      search: req.query.search as string | undefined,
+    });
+
+    res
+      .status(200)
+      .json(successResponse("Users retrieved successfully", users));
+  } catch (error) {
+    logger.error("Error retrieving users:", error);
+    res.status(500).json(errorResponse("Failed to retrieve users"));
+  }
+};
+
+/**
+ * Get user by ID
+ * @route GET /api/users/:id
+ */
+export const getUserById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await userService.getUserById(parseInt(req.params.id));
+
+    if (!user) {
+      res.status(404).json(errorResponse("User not found"));
+      return;
+    }
+
+    res.status(200).json(successResponse("User retrieved successfully", user));
+  } catch (error) {
+    logger.error(`Error retrieving user ${req.params.id}:`, error);
+    res.status(500).json(errorResponse("Failed to retrieve user"));
+  }
+};
+
+/**
+ * Update a user's profile, role, permissions or staff link
+ * @route PUT /api/users/:id
+ */
+export const updateUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      username,
+      email,
+      firstName,
+      lastName,
+      role,
+      permissions,
+      staffId,
+      patientId,
+    } = req.body;
+
+    const user = await userService.updateUser(parseInt(req.params.id), {
+      username,
+      email,
+      firstName,
+      lastName,
+      role,
+      permissions,
+      staffId,
+      patientId,
+    });
+
+    res.status(200).json(successResponse("User updated successfully", user));
+  } catch (error) {
+    logger.error(`Error updating user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to update user");
+  }
+};
+
+/**
+ * Disable a user account
+ * @route PUT /api/users/:id/disable
+ */
+export const disableUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const user = await userService.disableUser(
+      parseInt(req.params.id),
+      req.user.userId
+    );
+
+    res.status(200).json(successResponse("User disabled successfully", user));
+  } catch (error) {
+    logger.error(`Error disabling user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to disable user");
+  }
+};
+
+/**
+ * Re-enable a user account
+ * @route PUT /api/users/:id/enable
+ */
+export const enableUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await userService.enableUser(parseInt(req.params.id));
+
+    res.status(200).json(successResponse("User enabled successfully", user));
+  } catch (error) {
+    logger.error(`Error enabling user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to enable user");
+  }
+};
+
+/**
+ * Require a user to reset their password on next login
+ * @route POST /api/users/:id/force-password-reset
+ */
+export const forcePasswordReset = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await userService.forcePasswordReset(parseInt(req.params.id));
+
+    res
+      .status(200)
+      .json(successResponse("Password reset required for user", user));
+  } catch (error) {
+    logger.error(
+      `Error forcing password reset for user ${req.params.id}:`,
+      error
+    );
+    handleUserError(res, error, "Failed to force password reset");
+  }
+};
+
+/**
+ * Set a user's password (temporary by default)
+ * @route PUT /api/users/:id/password
+ */
+export const setUserPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await userService.setUserPassword(
+      parseInt(req.params.id),
+      req.body.password,
+      req.body.temporary !== false
+    );
+
+    res.status(200).json(successResponse("Password set successfully", user));
+  } catch (error) {
+    logger.error(`Error setting password for user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to set password");
+  }
+};
+
+/**
+ * Lift a login lockout on a user's account
+ * @route PUT /api/users/:id/unlock
+ */
+export const unlockUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const cleared = await userService.unlockUser(parseInt(req.params.id));
+
+    res
+      .status(200)
+      .json(
+        successResponse(
+          cleared
+            ? "User unlocked successfully"
+            : "No failed logins recorded for user"
+        )
+      );
+  } catch (error) {
+    logger.error(`Error unlocking user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to unlock user");
+  }
+};
+
+/**
+ * Remove a user's MFA enrolment
+ * @route DELETE /api/users/:id/mfa
+ */
+export const resetMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await userService.resetMfa(parseInt(req.params.id));
+
+    res.status(200).json(successResponse("MFA reset successfully"));
+  } catch (error) {
+    logger.error(`Error resetting MFA for user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to reset MFA");
+  }
+};
+
+/**
+ * Delete a user account
+ * @route DELETE /api/users/:id
+ */
+export const deleteUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json(errorResponse("Unauthorized"));
+      return;
+    }
+
+    const isDeleted = await userService.deleteUser(
+      parseInt(req.params.id),
+      req.user.userId
+    );
+
+    if (!isDeleted) {
+      res.status(500).json(errorResponse("Failed to delete user"));
+      return;
+    }
+
+    res.status(200).json(successResponse("User deleted successfully"));
+  } catch (error) {
+    logger.error(`Error deleting user ${req.params.id}:`, error);
+    handleUserError(res, error, "Failed to delete user");
+  }
+};
+
+export default {
+  getAllUsers,
+  getUserById,
+  updateUser,
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  setUserPassword,
+  unlockUser,
+  resetMfa,
+  deleteUser,
+};
@@ -15,6 +15,11 @@ export interface DbUserRow {
   role: string;
   permissions: string | null;
   staffId: string | null;
+  disabledAt: string | null;
+  passwordResetRequired: number; // SQLite boolean as integer (0/1)
+  passwordChangedAt: string | null;
+  passwordExpiresAt: string | null;
+  patientId: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -36,6 +41,9 @@ export interface DbPatientRow {
   medicalHistory: string | null;
   insuranceProvider: string | null;
   insurancePolicyNumber: string | null;
+  emailIndex: string | null;
+  contactNumberIndex: string | null;
+  insurancePolicyNumberIndex: string | null;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
@@ -100,15 +108,20 @@ export interface DbMedicalRecordRow {
   id: number;
   patientId: number;
   doctorId: string;
-  appointmentId: number | null;
   visitDate: string;
-  chiefComplaint: string;
-  diagnosis: string | null;
-  treatment: string | null;
-  notes: string | null;
+  visitId: string | null;
+  visitType: string;
+  chiefComplaint: string; // Encrypted
+  subjective: string | null; // Encrypted
+  objective: string | null; // Encrypted
+  assessment: string | null; // Encrypted
+  plan: string | null; // Encrypted
+  notes: string | null; // Encrypted
   followUpRecommended: number; // SQLite boolean as integer (0/1)
   followUpDate: string | null;
-  vitals: string | null; // JSON string
+  status: string;
+  signedAt: string | null;
+  signedBy: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -274,6 +287,228 @@ export interface DbNotificationPreferencesRow {
   updatedAt: string;
 }
 
+// Refresh tokens table row structure
+export interface DbRefreshTokenRow {
+  id: string;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  replacedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sessions table row structure
+export interface DbSessionRow {
+  id: string;
+  userId: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  expiresAt: string;
+  lastUsedAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// User MFA table row structure
+export interface DbUserMfaRow {
+  userId: number;
+  secret: string;
+  enabledAt: string | null;
+  lastUsedStep: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// MFA recovery codes table row structure
+export interface DbMfaRecoveryCodeRow {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+// MFA policies table row structure
+export interface DbMfaPolicyRow {
+  role: string;
+  required: number;
+  updatedBy: number | null;
+  updatedAt: string;
+}
+
+// Login throttles table row structure
+export interface DbLoginThrottleRow {
+  scope: "account" | "ip";
+  identifier: string;
+  failedCount: number;
+  lastFailedAt: string | null;
+  lockedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Password reset tokens table row structure
+export interface DbPasswordResetTokenRow {
+  id: string;
+  userId: number;
+  tokenHash: string;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+// Mail outbox table row structure
+export interface DbMailOutboxRow {
+  id: string;
+  toAddress: string;
+  fromAddress: string;
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+  createdAt: string;
+}
+
+// Password history table row structure
+export interface DbPasswordHistoryRow {
+  id: number;
+  userId: number;
+  passwordHash: string;
+  createdAt: string;
+}
+
+// Audit log table row structure
+export interface DbAuditLogRow {
+  id: number;
+  actorId: number | null;
+  actorRole: string | null;
+  action: "read" | "create" | "update" | "delete";
+  resourceType: string;
+  resourceId: string | null;
+  patientId: number | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface DbCareTeamAssignmentRow {
+  id: number;
+  patientId: number;
+  staffId: string;
+  role: string | null;
+  assignedBy: number | null;
+  createdAt: string;
+}
+
+export interface DbBreakGlassGrantRow {
+  id: number;
+  userId: number;
+  patientId: number;
+  reason: string;
+  expiresAt: string;
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewedBy: number | null;
+  reviewNotes: string | null;
+}
+
+export interface DbEncryptionKeyRow {
+  id: number;
+  wrappedKey: string;
+  masterKeyId: string;
+  status: "active" | "retired";
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+export interface DbPatientMergeRow {
+  id: number;
+  survivorId: number;
+  duplicateId: number;
+  movedRecords: string;
+  mergedBy: number | null;
+  mergedAt: string;
+  undoneAt: string | null;
+  undoneBy: number | null;
+}
+
+export interface DbPatientAllergyRow {
+  id: number;
+  patientId: number;
+  allergen: string;
+  reaction: string;
+  severity: string;
+  status: string;
+  onsetDate: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DbPatientProblemRow {
+  id: number;
+  patientId: number;
+  condition: string;
+  icdCode: string | null;
+  status: string;
+  diagnosedAt: string | null;
+  resolvedAt: string | null;
+  resolvedBy: number | null;
+  notes: string | null;
+  sourceDiagnosisId: number | null;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DbLabResultRow {
+  id: number;
+  medicalRecordId: number;
+  patientId: number;
+  testName: string;
+  testCode: string | null;
+  result: string | null;
+  unit: string | null;
+  referenceRange: string | null;
+  criticalRange: string | null;
+  status: string;
+  abnormal: number;
+  flag: string | null;
+  critical: number;
+  performedAt: string | null;
+  performedBy: string | null;
+  orderedBy: number | null;
+  resultedBy: number | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DbIcd10CodeRow {
+  code: string;
+  description: string;
+  chapter: number | null;
+  updatedAt: string;
+}
+
+export interface DbChargeMasterRow {
+  code: string;
+  description: string;
+  category: string;
+  defaultPrice: number;
+  taxRate: number;
+  activeFrom: string | null;
+  activeTo: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Common result types
 export interface CountResult {
   count: number;
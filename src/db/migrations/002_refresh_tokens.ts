@@ -0,0 +1,27 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Create refresh tokens table (one row per issued refresh token)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id TEXT PRIMARY KEY,
+      userId INTEGER NOT NULL,
+      familyId TEXT NOT NULL,
+      tokenHash TEXT NOT NULL,
+      expiresAt TEXT NOT NULL,
+      revokedAt TEXT,
+      replacedBy TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens (familyId)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS refresh_tokens");
+};
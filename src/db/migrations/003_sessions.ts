@@ -0,0 +1,25 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Create sessions table (one row per login, keyed by the access token jti)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      userId INTEGER NOT NULL,
+      ipAddress TEXT,
+      userAgent TEXT,
+      expiresAt TEXT NOT NULL,
+      lastUsedAt TEXT NOT NULL,
+      revokedAt TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec("CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (userId)");
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS sessions");
+};
@@ -0,0 +1,16 @@
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // Account status columns used by user administration
+  addColumnIfMissing("users", "disabledAt", "TEXT");
+  addColumnIfMissing(
+    "users",
+    "passwordResetRequired",
+    "INTEGER NOT NULL DEFAULT 0"
+  );
+};
+
+export const down = () => {
+  dropColumnIfExists("users", "passwordResetRequired");
+  dropColumnIfExists("users", "disabledAt");
+};
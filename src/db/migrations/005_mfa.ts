@@ -0,0 +1,48 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // TOTP enrolment per user (enabledAt stays NULL until the first code is verified)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS user_mfa (
+      userId INTEGER PRIMARY KEY,
+      secret TEXT NOT NULL,
+      enabledAt TEXT,
+      lastUsedStep INTEGER,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Single-use recovery codes (stored hashed)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId INTEGER NOT NULL,
+      codeHash TEXT NOT NULL,
+      usedAt TEXT,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes (userId)"
+  );
+
+  // Roles that must complete MFA at login
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS mfa_policies (
+      role TEXT PRIMARY KEY,
+      required INTEGER NOT NULL DEFAULT 0,
+      updatedBy INTEGER,
+      updatedAt TEXT NOT NULL
+    )
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS mfa_policies");
+  db.exec("DROP TABLE IF EXISTS mfa_recovery_codes");
+  db.exec("DROP TABLE IF EXISTS user_mfa");
+};
@@ -0,0 +1,21 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Failed login counters and lockouts, keyed by account (email) or client IP
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS login_throttles (
+      scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+      identifier TEXT NOT NULL,
+      failedCount INTEGER NOT NULL DEFAULT 0,
+      lastFailedAt TEXT,
+      lockedUntil TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      PRIMARY KEY (scope, identifier)
+    )
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS login_throttles");
+};
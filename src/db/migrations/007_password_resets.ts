@@ -0,0 +1,38 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Single-use password reset tokens (only the hash of each token is stored)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id TEXT PRIMARY KEY,
+      userId INTEGER NOT NULL,
+      tokenHash TEXT NOT NULL UNIQUE,
+      expiresAt TEXT NOT NULL,
+      usedAt TEXT,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens (userId)"
+  );
+
+  // Outgoing mail recorded by the outbox mail transport
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS mail_outbox (
+      id TEXT PRIMARY KEY,
+      toAddress TEXT NOT NULL,
+      fromAddress TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      textBody TEXT NOT NULL,
+      htmlBody TEXT,
+      createdAt TEXT NOT NULL
+    )
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS mail_outbox");
+  db.exec("DROP TABLE IF EXISTS password_reset_tokens");
+};
@@ -0,0 +1,32 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // Password age tracking used by the expiry policy
+  addColumnIfMissing("users", "passwordChangedAt", "TEXT");
+  addColumnIfMissing("users", "passwordExpiresAt", "TEXT");
+  db.exec(
+    "UPDATE users SET passwordChangedAt = updatedAt WHERE passwordChangedAt IS NULL"
+  );
+
+  // Previous password hashes, checked to prevent reuse
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS password_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId INTEGER NOT NULL,
+      passwordHash TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history (userId)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS password_history");
+  dropColumnIfExists("users", "passwordExpiresAt");
+  dropColumnIfExists("users", "passwordChangedAt");
+};
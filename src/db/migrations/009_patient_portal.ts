@@ -0,0 +1,17 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // Links a patient-portal account to its patient record
+  addColumnIfMissing("users", "patientId", "INTEGER");
+
+  // A patient record can belong to at most one account
+  db.exec(
+    "CREATE UNIQUE INDEX IF NOT EXISTS idx_users_patient ON users (patientId) WHERE patientId IS NOT NULL"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP INDEX IF EXISTS idx_users_patient");
+  dropColumnIfExists("users", "patientId");
+};
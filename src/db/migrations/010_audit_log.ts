@@ -0,0 +1,49 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Append-only trail of reads and changes to patient data
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actorId INTEGER,
+      actorRole TEXT,
+      action TEXT NOT NULL CHECK (action IN ('read', 'create', 'update', 'delete')),
+      resourceType TEXT NOT NULL,
+      resourceId TEXT,
+      patientId INTEGER,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      statusCode INTEGER NOT NULL,
+      ipAddress TEXT,
+      requestId TEXT,
+      createdAt TEXT NOT NULL
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_audit_log_patient ON audit_log (patientId, createdAt)"
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actorId, createdAt)"
+  );
+
+  // Entries can never be changed or removed once written
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+    BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END
+  `);
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+    BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS audit_log");
+};
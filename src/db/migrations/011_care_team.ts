@@ -0,0 +1,47 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Staff assigned to a patient's care team may read the patient's chart
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS care_team_assignments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      patientId INTEGER NOT NULL,
+      staffId TEXT NOT NULL,
+      role TEXT,
+      assignedBy INTEGER,
+      createdAt TEXT NOT NULL,
+      UNIQUE (patientId, staffId),
+      FOREIGN KEY (patientId) REFERENCES patients (id) ON DELETE CASCADE,
+      FOREIGN KEY (staffId) REFERENCES staff (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_care_team_staff ON care_team_assignments (staffId)"
+  );
+
+  // Time-boxed emergency access to a chart outside the care team. Grants are
+  // kept after they expire so admins can review them.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS break_glass_grants (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      userId INTEGER NOT NULL,
+      patientId INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      expiresAt TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      reviewedAt TEXT,
+      reviewedBy INTEGER,
+      reviewNotes TEXT
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_break_glass_user ON break_glass_grants (userId, patientId, expiresAt)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS break_glass_grants");
+  db.exec("DROP TABLE IF EXISTS care_team_assignments");
+};
@@ -0,0 +1,66 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+import {
+  blindIndex,
+  decryptField,
+  normalizeEmail,
+  normalizePhone,
+} from "../../utils/fieldEncryption";
+
+export const up = () => {
+  // Data keys for field-level encryption, each wrapped by the master key.
+  // Exactly one key is active; retired keys stay so older values decrypt.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS encryption_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      wrappedKey TEXT NOT NULL,
+      masterKeyId TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('active', 'retired')),
+      createdAt TEXT NOT NULL,
+      retiredAt TEXT
+    )
+  `);
+
+  // Blind indexes allow exact-match lookups on encrypted contact details
+  addColumnIfMissing("patients", "emailIndex", "TEXT");
+  addColumnIfMissing("patients", "contactNumberIndex", "TEXT");
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patients_email_index ON patients (emailIndex)"
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patients_contact_number_index ON patients (contactNumberIndex)"
+  );
+
+  // Index the contact details of patients stored before the columns
+  // existed, or they would never match an email or phone search
+  const rows = db
+    .prepare(
+      `SELECT id, email, contactNumber FROM patients
+       WHERE (email IS NOT NULL AND emailIndex IS NULL)
+          OR (contactNumber IS NOT NULL AND contactNumberIndex IS NULL)`
+    )
+    .all() as {
+    id: number;
+    email: string | null;
+    contactNumber: string | null;
+  }[];
+  const setIndexes = db.prepare(
+    "UPDATE patients SET emailIndex = ?, contactNumberIndex = ? WHERE id = ?"
+  );
+  for (const row of rows) {
+    setIndexes.run(
+      blindIndex(decryptField(row.email), normalizeEmail),
+      blindIndex(decryptField(row.contactNumber), normalizePhone),
+      row.id
+    );
+  }
+};
+
+export const down = () => {
+  db.exec("DROP INDEX IF EXISTS idx_patients_contact_number_index");
+  db.exec("DROP INDEX IF EXISTS idx_patients_email_index");
+  dropColumnIfExists("patients", "contactNumberIndex");
+  dropColumnIfExists("patients", "emailIndex");
+  db.exec("DROP TABLE IF EXISTS encryption_keys");
+};
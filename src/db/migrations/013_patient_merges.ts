@@ -0,0 +1,60 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+import {
+  blindIndex,
+  decryptField,
+  normalizeIdentifier,
+} from "../../utils/fieldEncryption";
+
+export const up = () => {
+  // Blind index so duplicate detection can match insurance policy numbers
+  addColumnIfMissing("patients", "insurancePolicyNumberIndex", "TEXT");
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patients_insurance_policy_index ON patients (insurancePolicyNumberIndex)"
+  );
+
+  const rows = db
+    .prepare(
+      "SELECT id, insurancePolicyNumber FROM patients WHERE insurancePolicyNumber IS NOT NULL AND insurancePolicyNumberIndex IS NULL"
+    )
+    .all() as { id: number; insurancePolicyNumber: string }[];
+  const setIndex = db.prepare(
+    "UPDATE patients SET insurancePolicyNumberIndex = ? WHERE id = ?"
+  );
+  for (const row of rows) {
+    setIndex.run(
+      blindIndex(decryptField(row.insurancePolicyNumber), normalizeIdentifier),
+      row.id
+    );
+  }
+
+  // History of duplicate charts merged into a surviving chart. The IDs of
+  // every row moved are kept so a merge can be undone exactly.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_merges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      survivorId INTEGER NOT NULL,
+      duplicateId INTEGER NOT NULL,
+      movedRecords TEXT NOT NULL,
+      mergedBy INTEGER,
+      mergedAt TEXT NOT NULL,
+      undoneAt TEXT,
+      undoneBy INTEGER,
+      FOREIGN KEY (survivorId) REFERENCES patients (id) ON DELETE CASCADE,
+      FOREIGN KEY (duplicateId) REFERENCES patients (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patient_merges_survivor ON patient_merges (survivorId)"
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patient_merges_duplicate ON patient_merges (duplicateId)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS patient_merges");
+  db.exec("DROP INDEX IF EXISTS idx_patients_insurance_policy_index");
+  dropColumnIfExists("patients", "insurancePolicyNumberIndex");
+};
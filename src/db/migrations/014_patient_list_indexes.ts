@@ -0,0 +1,25 @@
+import db from "../../config/database";
+
+// Indexes backing the filters and sort orders of the patient list
+const PATIENT_LIST_INDEXES: Record<string, string> = {
+  idx_patients_name: "lastName, firstName",
+  idx_patients_first_name: "firstName",
+  idx_patients_date_of_birth: "dateOfBirth",
+  idx_patients_gender: "gender",
+  idx_patients_blood_type: "bloodType",
+  idx_patients_insurance_provider: "insuranceProvider",
+  idx_patients_created_at: "createdAt",
+  idx_patients_updated_at: "updatedAt",
+};
+
+export const up = () => {
+  for (const [name, columns] of Object.entries(PATIENT_LIST_INDEXES)) {
+    db.exec(`CREATE INDEX IF NOT EXISTS ${name} ON patients (${columns})`);
+  }
+};
+
+export const down = () => {
+  for (const name of Object.keys(PATIENT_LIST_INDEXES)) {
+    db.exec(`DROP INDEX IF EXISTS ${name}`);
+  }
+};
@@ -0,0 +1,62 @@
+import db from "../../config/database";
+import { decryptField, encryptField } from "../../utils/fieldEncryption";
+import { parseAllergyText } from "../../utils/allergyParser";
+
+export const up = () => {
+  // Structured allergy registry replacing the free-text patients.allergies
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_allergies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      patientId INTEGER NOT NULL,
+      allergen TEXT NOT NULL,
+      reaction TEXT NOT NULL,
+      severity TEXT NOT NULL CHECK (severity IN ('mild', 'moderate', 'severe', 'life-threatening')),
+      status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+      onsetDate TEXT,
+      notes TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (patientId) REFERENCES patients (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patient_allergies_patient ON patient_allergies (patientId, status)"
+  );
+
+  // Parse the free text of patients that have no registry entries yet
+  const rows = db
+    .prepare(
+      `SELECT id, allergies FROM patients
+       WHERE allergies IS NOT NULL AND allergies != ''
+       AND id NOT IN (SELECT patientId FROM patient_allergies)`
+    )
+    .all() as { id: number; allergies: string }[];
+  const insert = db.prepare(
+    `INSERT INTO patient_allergies (
+      patientId, allergen, reaction, severity, status, notes, createdAt, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    for (const row of rows) {
+      for (const allergy of parseAllergyText(decryptField(row.allergies))) {
+        insert.run(
+          row.id,
+          encryptField(allergy.allergen),
+          encryptField(allergy.reaction),
+          allergy.severity,
+          allergy.status,
+          encryptField(allergy.notes),
+          now,
+          now
+        );
+      }
+    }
+  })();
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS patient_allergies");
+};
@@ -0,0 +1,32 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Problem list: the patient's conditions and whether they are resolved
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_problems (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      patientId INTEGER NOT NULL,
+      condition TEXT NOT NULL,
+      icdCode TEXT,
+      status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'recurring')),
+      diagnosedAt TEXT,
+      resolvedAt TEXT,
+      resolvedBy INTEGER,
+      notes TEXT,
+      sourceDiagnosisId INTEGER,
+      createdBy INTEGER,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (patientId) REFERENCES patients (id) ON DELETE CASCADE,
+      FOREIGN KEY (sourceDiagnosisId) REFERENCES diagnoses (id) ON DELETE SET NULL
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patient_problems_patient ON patient_problems (patientId, status)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS patient_problems");
+};
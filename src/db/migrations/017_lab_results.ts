@@ -0,0 +1,47 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Lab tests ordered during a visit; a pending row is an open order and the
+  // result is filled in by lab staff. patientId is kept alongside the medical
+  // record so results can be trended and audited per patient.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS lab_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      medicalRecordId INTEGER NOT NULL,
+      patientId INTEGER NOT NULL,
+      testName TEXT NOT NULL,
+      testCode TEXT,
+      result TEXT,
+      unit TEXT,
+      referenceRange TEXT,
+      criticalRange TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'cancelled')),
+      abnormal INTEGER NOT NULL DEFAULT 0,
+      flag TEXT CHECK (flag IN ('low', 'normal', 'high')),
+      critical INTEGER NOT NULL DEFAULT 0,
+      performedAt TEXT,
+      performedBy TEXT,
+      orderedBy INTEGER,
+      resultedBy INTEGER,
+      notes TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (medicalRecordId) REFERENCES medical_records (id) ON DELETE CASCADE,
+      FOREIGN KEY (patientId) REFERENCES patients (id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_lab_results_record ON lab_results (medicalRecordId)"
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_lab_results_patient_test ON lab_results (patientId, testCode, performedAt)"
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_lab_results_status ON lab_results (status, createdAt)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS lab_results");
+};
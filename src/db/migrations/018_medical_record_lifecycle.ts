@@ -0,0 +1,55 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+// SOAP note sections, stored encrypted like the rest of the clinical text
+const SOAP_COLUMNS = ["subjective", "objective", "assessment", "plan"];
+
+export const up = () => {
+  addColumnIfMissing(
+    "medical_records",
+    "visitType",
+    "TEXT NOT NULL DEFAULT 'routine' CHECK (visitType IN ('initial', 'follow-up', 'emergency', 'routine', 'specialist', 'telehealth'))"
+  );
+  for (const column of SOAP_COLUMNS) {
+    addColumnIfMissing("medical_records", column, "TEXT");
+  }
+
+  // Existing records stay editable as drafts until they are signed
+  addColumnIfMissing(
+    "medical_records",
+    "status",
+    "TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'completed', 'signed', 'amended'))"
+  );
+  addColumnIfMissing("medical_records", "signedAt", "TEXT");
+  addColumnIfMissing("medical_records", "signedBy", "INTEGER");
+
+  // Snapshots of a record as signed (version 1) and after each amendment.
+  // Rows are only ever appended so the signed original is kept as it was.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS medical_record_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      medicalRecordId INTEGER NOT NULL,
+      version INTEGER NOT NULL,
+      snapshot TEXT NOT NULL,
+      reason TEXT,
+      authorId INTEGER NOT NULL,
+      createdAt TEXT NOT NULL,
+      UNIQUE (medicalRecordId, version),
+      FOREIGN KEY (medicalRecordId) REFERENCES medical_records (id) ON DELETE CASCADE
+    )
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS medical_record_versions");
+
+  for (const column of [
+    "signedBy",
+    "signedAt",
+    "status",
+    ...SOAP_COLUMNS,
+    "visitType",
+  ]) {
+    dropColumnIfExists("medical_records", column);
+  }
+};
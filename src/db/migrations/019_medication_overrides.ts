@@ -0,0 +1,10 @@
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // Why the prescriber went ahead despite a major interaction warning
+  addColumnIfMissing("medications", "overrideReason", "TEXT");
+};
+
+export const down = () => {
+  dropColumnIfExists("medications", "overrideReason");
+};
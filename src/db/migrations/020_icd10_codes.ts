@@ -0,0 +1,17 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // ICD-10 code catalog, filled by importing a code file
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS icd10_codes (
+      code TEXT PRIMARY KEY,
+      description TEXT NOT NULL,
+      chapter INTEGER,
+      updatedAt TEXT NOT NULL
+    )
+  `);
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS icd10_codes");
+};
@@ -0,0 +1,27 @@
+import db from "../../config/database";
+
+export const up = () => {
+  // Charge master: the billable services and supplies with their prices.
+  // Procedure codes and invoice item service codes refer to it by code.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS charge_master (
+      code TEXT PRIMARY KEY,
+      description TEXT NOT NULL,
+      category TEXT NOT NULL,
+      defaultPrice REAL NOT NULL,
+      taxRate REAL NOT NULL DEFAULT 0,
+      activeFrom TEXT,
+      activeTo TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    )
+  `);
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_charge_master_category ON charge_master (category)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS charge_master");
+};
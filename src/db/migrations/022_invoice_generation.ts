@@ -0,0 +1,23 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // Invoices drafted automatically from a completed visit wait in a review
+  // queue until billing staff approve them
+  addColumnIfMissing("invoices", "source", "TEXT NOT NULL DEFAULT 'manual'");
+  addColumnIfMissing("invoices", "medicalRecordId", "INTEGER");
+  addColumnIfMissing("invoices", "reviewedBy", "INTEGER");
+  addColumnIfMissing("invoices", "reviewedAt", "TEXT");
+
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_invoices_appointment ON invoices (appointmentId)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP INDEX IF EXISTS idx_invoices_appointment");
+  dropColumnIfExists("invoices", "reviewedAt");
+  dropColumnIfExists("invoices", "reviewedBy");
+  dropColumnIfExists("invoices", "medicalRecordId");
+  dropColumnIfExists("invoices", "source");
+};
@@ -0,0 +1,42 @@
+import db from "../../config/database";
+import { addColumnIfMissing, dropColumnIfExists } from "./helpers";
+
+export const up = () => {
+  // A retried payment request carries the same Idempotency-Key and is
+  // answered with the payment already recorded instead of charging twice
+  addColumnIfMissing("payments", "idempotencyKey", "TEXT");
+  db.exec(
+    `CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_idempotency_key
+     ON payments (idempotencyKey) WHERE idempotencyKey IS NOT NULL`
+  );
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_payments_invoice ON payments (invoiceId)"
+  );
+
+  // Patient credit ledger: the part of a payment above the invoice balance
+  // when it is kept as credit rather than refused
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS patient_credits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      patientId INTEGER NOT NULL,
+      amount REAL NOT NULL,
+      paymentId TEXT,
+      invoiceId TEXT,
+      notes TEXT,
+      createdBy TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (patientId) REFERENCES patients (id) ON DELETE CASCADE,
+      FOREIGN KEY (paymentId) REFERENCES payments (id) ON DELETE SET NULL
+    )
+  `);
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS idx_patient_credits_patient ON patient_credits (patientId)"
+  );
+};
+
+export const down = () => {
+  db.exec("DROP TABLE IF EXISTS patient_credits");
+  db.exec("DROP INDEX IF EXISTS idx_payments_invoice");
+  db.exec("DROP INDEX IF EXISTS idx_payments_idempotency_key");
+  dropColumnIfExists("payments", "idempotencyKey");
+};
@@ -0,0 +1,35 @@
+import db from "../../config/database";
+
+/**
+ * Check whether a column exists on a table
+ */
+export const columnExists = (table: string, column: string): boolean => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string;
+  }[];
+  return columns.some((col) => col.name === column);
+};
+
+/**
+ * Add a column to a table unless it is already present.
+ * SQLite has no "ADD COLUMN IF NOT EXISTS", so migrations that alter
+ * existing tables go through this to stay safe to re-run.
+ */
+export const addColumnIfMissing = (
+  table: string,
+  column: string,
+  definition: string
+): void => {
+  if (!columnExists(table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+/**
+ * Drop a column from a table if it is present
+ */
+export const dropColumnIfExists = (table: string, column: string): void => {
+  if (columnExists(table, column)) {
+    db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+};
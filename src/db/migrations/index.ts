@@ -1,6 +1,133 @@
-import { up as initMigration } from "./001_init";
+import { up as initMigration, down as dropInit } from "./001_init";
+import {
+  up as refreshTokensMigration,
+  down as dropRefreshTokens,
+} from "./002_refresh_tokens";
+import { up as sessionsMigration, down as dropSessions } from "./003_sessions";
+import {
+  up as userAdminMigration,
+  down as dropUserAdmin,
+} from "./004_user_admin";
+import { up as mfaMigration, down as dropMfa } from "./005_mfa";
+import {
+  up as loginThrottlesMigration,
+  down as dropLoginThrottles,
+} from "./006_login_throttles";
+import {
+  up as passwordResetsMigration,
+  down as dropPasswordResets,
+} from "./007_password_resets";
+import {
+  up as passwordPolicyMigration,
+  down as dropPasswordPolicy,
+} from "./008_password_policy";
+import {
+  up as patientPortalMigration,
+  down as dropPatientPortal,
+} from "./009_patient_portal";
+import { up as auditLogMigration, down as dropAuditLog } from "./010_audit_log";
+import { up as careTeamMigration, down as dropCareTeam } from "./011_care_team";
+import {
+  up as fieldEncryptionMigration,
+  down as dropFieldEncryption,
+} from "./012_field_encryption";
+import {
+  up as patientMergesMigration,
+  down as dropPatientMerges,
+} from "./013_patient_merges";
+import {
+  up as patientListIndexesMigration,
+  down as dropPatientListIndexes,
+} from "./014_patient_list_indexes";
+import {
+  up as patientAllergiesMigration,
+  down as dropPatientAllergies,
+} from "./015_patient_allergies";
+import {
+  up as patientProblemsMigration,
+  down as dropPatientProblems,
+} from "./016_patient_problems";
+import {
+  up as labResultsMigration,
+  down as dropLabResults,
+} from "./017_lab_results";
+import {
+  up as medicalRecordLifecycleMigration,
+  down as dropMedicalRecordLifecycle,
+} from "./018_medical_record_lifecycle";
+import {
+  up as medicationOverridesMigration,
+  down as dropMedicationOverrides,
+} from "./019_medication_overrides";
+import {
+  up as icd10CodesMigration,
+  down as dropIcd10Codes,
+} from "./020_icd10_codes";
+import {
+  up as chargeMasterMigration,
+  down as dropChargeMaster,
+} from "./021_charge_master";
+import {
+  up as invoiceGenerationMigration,
+  down as dropInvoiceGeneration,
+} from "./022_invoice_generation";
+import {
+  up as paymentLedgerMigration,
+  down as dropPaymentLedger,
+} from "./023_payment_ledger";
 
 export const runMigrations = () => {
   initMigration();
+  refreshTokensMigration();
+  sessionsMigration();
+  userAdminMigration();
+  mfaMigration();
+  loginThrottlesMigration();
+  passwordResetsMigration();
+  passwordPolicyMigration();
+  patientPortalMigration();
+  auditLogMigration();
+  careTeamMigration();
+  fieldEncryptionMigration();
+  patientMergesMigration();
+  patientListIndexesMigration();
+  patientAllergiesMigration();
+  patientProblemsMigration();
+  labResultsMigration();
+  medicalRecordLifecycleMigration();
+  medicationOverridesMigration();
+  icd10CodesMigration();
+  chargeMasterMigration();
+  invoiceGenerationMigration();
+  paymentLedgerMigration();
   // Run other migrations here
 };
+
+/**
+ * Roll back all migrations in reverse order
+ */
+export const rollbackMigrations = () => {
+  dropPaymentLedger();
+  dropInvoiceGeneration();
+  dropChargeMaster();
+  dropIcd10Codes();
+  dropMedicationOverrides();
+  dropMedicalRecordLifecycle();
+  dropLabResults();
+  dropPatientProblems();
+  dropPatientAllergies();
+  dropPatientListIndexes();
+  dropPatientMerges();
+  dropFieldEncryption();
+  dropCareTeam();
+  dropAuditLog();
+  dropPatientPortal();
+  dropPasswordPolicy();
+  dropPasswordResets();
+  dropLoginThrottles();
+  dropMfa();
+  dropUserAdmin();
+  dropSessions();
+  dropRefreshTokens();
+  dropInit();
+};
@@ -11,6 +11,7 @@ export const seed = async () => {
     const doctorPassword = await bcryptjs.hash("doctor123", 10);
     const nursePassword = await bcryptjs.hash("nurse123", 10);
     const receptionistPassword = await bcryptjs.hash("reception123", 10);
+    const labPassword = await bcryptjs.hash("lab123", 10);
 
     // Insert users
     logger.info("Seeding users...");
@@ -105,6 +106,24 @@ export const seed = async () => {
       now
     );
 
+    // Lab technician user - permissions come from the role defaults
+    db.prepare(
+      `
+      INSERT INTO users (username, email, password, firstName, lastName, role, permissions, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      "lab",
+      "lab@healthcare.com",
+      labPassword,
+      "Leo",
+      "Park",
+      "lab_technician",
+      JSON.stringify([]),
+      now,
+      now
+    );
+
     logger.info("Users seeded successfully");
   } catch (error) {
     logger.error("Error seeding users:", error);
@@ -0,0 +1,41 @@
+import db from "../../config/database";
+import { logger } from "../../utils/logger";
+
+export const seed = async () => {
+  try {
+    const now = new Date().toISOString();
+    logger.info("Seeding care teams...");
+
+    // Link the demo clinician accounts to their staff records
+    db.prepare("UPDATE users SET staffId = ? WHERE email = ?").run(
+      "STAFF-001",
+      "doctor@healthcare.com"
+    );
+    db.prepare("UPDATE users SET staffId = ? WHERE email = ?").run(
+      "STAFF-004",
+      "nurse@healthcare.com"
+    );
+
+    // Doctors are on the care team of every patient they see
+    const pairs = db
+      .prepare("SELECT DISTINCT patientId, doctorId FROM appointments")
+      .all() as { patientId: number; doctorId: string }[];
+
+    const insert = db.prepare(
+      `
+      INSERT OR IGNORE INTO care_team_assignments (patientId, staffId, role, assignedBy, createdAt)
+      VALUES (?, ?, ?, ?, ?)
+    `
+    );
+
+    for (const pair of pairs) {
+      insert.run(pair.patientId, pair.doctorId, "attending", null, now);
+      insert.run(pair.patientId, "STAFF-004", "nursing", null, now);
+    }
+
+    logger.info(`Seeded ${pairs.length} care team assignments`);
+  } catch (error) {
+    logger.error("Error seeding care teams:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,46 @@
+import db from "../../config/database";
+import { logger } from "../../utils/logger";
+import { parseAllergyText } from "../../utils/allergyParser";
+
+export const seed = async () => {
+  try {
+    const now = new Date().toISOString();
+    logger.info("Seeding allergies...");
+
+    // Build the registry from the free-text allergies of the seeded patients
+    const patients = db
+      .prepare(
+        "SELECT id, allergies FROM patients WHERE allergies IS NOT NULL AND allergies != ''"
+      )
+      .all() as { id: number; allergies: string }[];
+
+    const insert = db.prepare(
+      `
+      INSERT INTO patient_allergies (patientId, allergen, reaction, severity, status, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    );
+
+    let count = 0;
+    for (const patient of patients) {
+      for (const allergy of parseAllergyText(patient.allergies)) {
+        insert.run(
+          patient.id,
+          allergy.allergen,
+          allergy.reaction,
+          allergy.severity,
+          allergy.status,
+          allergy.notes,
+          now,
+          now
+        );
+        count++;
+      }
+    }
+
+    logger.info(`Seeded ${count} allergies`);
+  } catch (error) {
+    logger.error("Error seeding allergies:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,104 @@
+import db from "../../config/database";
+import { logger } from "../../utils/logger";
+import { flagResult, isOutsideRange } from "../../utils/referenceRange";
+
+// Tests ordered at each seeded visit, with a spread of plausible results
+const LAB_TESTS = [
+  {
+    testName: "Glucose, fasting",
+    testCode: "GLU",
+    unit: "mg/dL",
+    referenceRange: "70-99",
+    criticalRange: "40-400",
+    results: ["92", "118", "104", "87", "135"],
+  },
+  {
+    testName: "Hemoglobin A1c",
+    testCode: "HBA1C",
+    unit: "%",
+    referenceRange: "<5.7",
+    criticalRange: null,
+    results: ["5.4", "6.1", "5.9", "5.2", "6.8"],
+  },
+  {
+    testName: "Potassium",
+    testCode: "K",
+    unit: "mmol/L",
+    referenceRange: "3.5-5.1",
+    criticalRange: "2.5-6.5",
+    results: ["4.2", "3.3", "4.8", "6.9", "4.0"],
+  },
+];
+
+export const seed = async () => {
+  try {
+    const now = new Date().toISOString();
+    logger.info("Seeding lab results...");
+
+    const records = db
+      .prepare(
+        "SELECT id, patientId, visitDate FROM medical_records ORDER BY visitDate, id"
+      )
+      .all() as { id: number; patientId: number; visitDate: string }[];
+    const doctor = db
+      .prepare("SELECT id FROM users WHERE email = ?")
+      .get("doctor@healthcare.com") as { id: number } | undefined;
+    const lab = db
+      .prepare("SELECT id FROM users WHERE email = ?")
+      .get("lab@healthcare.com") as { id: number } | undefined;
+
+    const insert = db.prepare(
+      `
+      INSERT INTO lab_results (
+        medicalRecordId, patientId, testName, testCode, result, unit,
+        referenceRange, criticalRange, status, abnormal, flag, critical,
+        performedAt, performedBy, orderedBy, resultedBy, createdAt, updatedAt
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    );
+
+    let count = 0;
+    records.forEach((record, index) => {
+      // Leave the most recent visit's labs pending for the worklist
+      const pending = index === records.length - 1;
+
+      for (const test of LAB_TESTS) {
+        const result = pending
+          ? null
+          : test.results[index % test.results.length];
+        const flag = result ? flagResult(result, test.referenceRange) : null;
+        const critical = result
+          ? isOutsideRange(result, test.criticalRange)
+          : false;
+
+        insert.run(
+          record.id,
+          record.patientId,
+          test.testName,
+          test.testCode,
+          result,
+          test.unit,
+          test.referenceRange,
+          test.criticalRange,
+          pending ? "pending" : "completed",
+          critical || (flag !== null && flag !== "normal") ? 1 : 0,
+          flag,
+          critical ? 1 : 0,
+          pending ? null : record.visitDate,
+          pending ? null : "Central Lab",
+          doctor?.id ?? null,
+          pending ? null : lab?.id ?? null,
+          now,
+          now
+        );
+        count++;
+      }
+    });
+
+    logger.info(`Seeded ${count} lab results`);
+  } catch (error) {
+    logger.error("Error seeding lab results:", error);
+    throw error;
+  }
+};
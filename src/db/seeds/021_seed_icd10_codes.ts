@@ -0,0 +1,16 @@
+import { logger } from "../../utils/logger";
+import icd10Service from "../../services/icd10Service";
+
+export const seed = async () => {
+  try {
+    logger.info("Seeding ICD-10 codes...");
+
+    // Load the bundled catalog of common codes
+    const result = await icd10Service.importCodes();
+
+    logger.info(`Seeded ${result.imported} ICD-10 codes`);
+  } catch (error) {
+    logger.error("Error seeding ICD-10 codes:", error);
+    throw error;
+  }
+};
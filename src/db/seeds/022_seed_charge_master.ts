@@ -0,0 +1,16 @@
+import { logger } from "../../utils/logger";
+import chargeMasterService from "../../services/chargeMasterService";
+
+export const seed = async () => {
+  try {
+    logger.info("Seeding charge master...");
+
+    // Load the bundled catalog of services, procedures and supplies
+    const result = await chargeMasterService.importFile();
+
+    logger.info(`Seeded ${result.imported} charge master entries`);
+  } catch (error) {
+    logger.error("Error seeding charge master:", error);
+    throw error;
+  }
+};
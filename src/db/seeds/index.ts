@@ -15,12 +15,15 @@ import { seed as seedInvoiceItems } from "./014_seed_invoice_items";
 import { seed as seedPayments } from "./015_seed_payments";
 import { seed as seedNotificationPrefs } from "./016_seed_notification_prefs";
 import { seed as seedDiagnoses } from "./017_seed_diagnoses";
+import { seed as seedCareTeams } from "./018_seed_care_teams";
+import { seed as seedAllergies } from "./019_seed_allergies";
+import { seed as seedLabResults } from "./020_seed_lab_results";
+import { seed as seedIcd10Codes } from "./021_seed_icd10_codes";
+import { seed as seedChargeMaster } from "./022_seed_charge_master";
 import { logger } from "../../utils/logger";
 import db from "../../config/database";
-import {
-  up as initMigration,
-  down as dropMigration,
-} from "../migrations/001_init";
+import { runMigrations, rollbackMigrations } from "../migrations";
+import encryptionService from "../../services/encryptionService";
 
 /**
  * Check if a table exists in the database
@@ -67,8 +70,29 @@ export const clearDatabase = (): void => {
     // Disable foreign key checks temporarily
     db.pragma("foreign_keys = OFF");
 
-    // List of tables to clear (in reverse order of dependencies)
+    // List of tables to clear (in reverse order of dependencies).
+    // audit_log is append-only and is deliberately never cleared.
     const tables = [
+      "patient_credits",
+      "charge_master",
+      "icd10_codes",
+      "medical_record_versions",
+      "lab_results",
+      "patient_problems",
+      "patient_allergies",
+      "patient_merges",
+      "encryption_keys",
+      "break_glass_grants",
+      "care_team_assignments",
+      "password_history",
+      "mail_outbox",
+      "password_reset_tokens",
+      "login_throttles",
+      "mfa_policies",
+      "mfa_recovery_codes",
+      "user_mfa",
+      "sessions",
+      "refresh_tokens",
       "notification_preferences",
       "notifications",
       "payments",
@@ -175,6 +199,25 @@ export const runAllSeeds = async (): Promise<void> => {
 
       await seedNotificationPrefs();
       logger.info("Notification preferences seeded successfully");
+
+      await seedCareTeams();
+      logger.info("Care teams seeded successfully");
+
+      await seedAllergies();
+      logger.info("Allergies seeded successfully");
+
+      await seedLabResults();
+      logger.info("Lab results seeded successfully");
+
+      await seedIcd10Codes();
+      logger.info("ICD-10 codes seeded successfully");
+
+      await seedChargeMaster();
+      logger.info("Charge master seeded successfully");
+
+      // Seeders write plaintext; encrypt the sensitive columns afterwards
+      encryptionService.reencryptAll();
+      logger.info("Sensitive fields encrypted successfully");
     } catch (error) {
       logger.error("Error in seeding:", error);
       throw error;
@@ -237,12 +280,12 @@ export const refreshDatabase = async (): Promise<void> => {
     try {
       // 2. Drop all tables
       logger.info("Dropping all tables...");
-      dropMigration();
+      rollbackMigrations();
       logger.info("All tables dropped successfully");
 
       // 3. Run migrations to recreate schema
       logger.info("Running migrations to recreate schema...");
-      initMigration();
+      runMigrations();
       logger.info("Schema recreation completed successfully");
 
       // 4. Re-enable foreign keys
@@ -34,6 +34,26 @@
  *           type: string
  *           example: STAFF-001
  *           nullable: true
+ *         patientId:
+ *           type: integer
+ *           nullable: true
+ *           description: Patient record linked to a patient-portal account
+ *         disabledAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         passwordResetRequired:
+ *           type: boolean
+ *           example: false
+ *         passwordChangedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         passwordExpiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Set when an administrator issues a temporary password
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -316,9 +336,41 @@
  *           type: string
  *           format: date-time
  *           example: 2023-12-01T09:00:00Z
+ *         visitType:
+ *           type: string
+ *           enum: [initial, follow-up, emergency, routine, specialist, telehealth]
+ *           example: routine
  *         chiefComplaint:
  *           type: string
  *           example: Fever and cough for 3 days
+ *         subjective:
+ *           type: string
+ *           nullable: true
+ *           example: Productive cough, feverish at night
+ *         objective:
+ *           type: string
+ *           nullable: true
+ *           example: Temp 38.5°C, crackles in the right lower lobe
+ *         assessment:
+ *           type: string
+ *           nullable: true
+ *           example: Community-acquired pneumonia
+ *         plan:
+ *           type: string
+ *           nullable: true
+ *           example: Amoxicillin for 5 days, review in one week
+ *         status:
+ *           type: string
+ *           enum: [draft, completed, signed, amended]
+ *           description: Signed and amended records can only change through an amendment
+ *         signedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         signedBy:
+ *           type: integer
+ *           nullable: true
+ *           description: ID of the user who signed the record
  *         diagnosis:
  *           type: string
  *           example: Upper respiratory infection
@@ -343,6 +395,11 @@
  *           type: string
  *           example: '{"temperature":"38.5°C","heartRate":"85 bpm","bloodPressure":"120/80 mmHg"}'
  *           nullable: true
+ *         interactionWarnings:
+ *           type: array
+ *           description: Prescribing warnings, returned after a record is created, updated or amended
+ *           items:
+ *             $ref: '#/components/schemas/InteractionWarning'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -380,7 +437,7 @@
  *         password:
  *           type: string
  *           format: password
- *           example: Password123
+ *           example: Correct-Horse-42
  *         role:
  *           type: string
  *           enum: [admin, doctor, nurse, receptionist, patient]
@@ -549,6 +606,18 @@
  *                     token:
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     mfaRequired:
+ *                       type: boolean
+ *                       description: Set instead of tokens when a second factor is needed; continue with /auth/login/mfa
+ *                     enrolmentRequired:
+ *                       type: boolean
+ *                       description: The user's role requires MFA but they have not enrolled; call /auth/login/mfa/setup first
+ *                     challengeToken:
+ *                       type: string
+ *                       description: Short-lived token for the MFA step
  *       400:
  *         description: Missing email or password
  *         content:
@@ -575,6 +644,37 @@
  *                 message:
  *                   type: string
  *                   example: Invalid credentials
+ *       403:
+ *         description: Account is disabled, requires a password reset, or its password has expired (change it via /auth/change-password)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: Password expired
+ *       429:
+ *         description: Too many failed login attempts for this account or IP
+ *         headers:
+ *           Retry-After:
+ *             schema:
+ *               type: integer
+ *             description: Seconds until the lockout ends
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: Too many failed login attempts. Try again later.
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
@@ -584,7 +684,7 @@
  * /auth/register:
  *   post:
  *     summary: Register a new user
- *     description: Create a new user account
+ *     description: Create a new user account. The password must satisfy the password policy (see /auth/password-policy).
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -615,7 +715,7 @@
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *       400:
- *         description: Invalid input or user already exists
+ *         description: Invalid input, password breaks the policy, or user already exists
  *         content:
  *           application/json:
  *             schema:
@@ -662,12 +762,57 @@
  *         $ref: '#/components/responses/ServerError'
  */
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: Exchange a refresh token for a new access/refresh token pair. The presented refresh token is consumed; presenting it again revokes every token issued from the same login.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *     responses:
+ *       200:
+ *         description: Token refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Token refreshed successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *       400:
+ *         description: Refresh token is required
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ */
+
 /**
  * @swagger
  * /auth/logout:
  *   post:
  *     summary: Logout
- *     description: Logout from the system
+ *     description: Logout from the system, revoking the current session and its refresh tokens
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -685,6 +830,72 @@
  *                 message:
  *                   type: string
  *                   example: Logged out successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: List the current user's active login sessions. The session used for the request is flagged with current=true.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Revoke one of the current user's sessions. Users with the manage:users permission may revoke any session.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       403:
+ *         description: Session belongs to another user
+ *       404:
+ *         description: Session not found
+ */
+
+/**
+ * @swagger
+ * /auth/users/{userId}/sessions:
+ *   delete:
+ *     summary: Revoke all sessions for a user
+ *     description: Revoke every session and refresh token a user holds (requires manage:users)
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: User not found
  */
 
 /**
@@ -692,7 +903,7 @@
  * /auth/password-reset-request:
  *   post:
  *     summary: Request password reset
- *     description: Request a password reset email
+ *     description: Email a single-use password reset link (valid for 60 minutes). Any earlier links for the account stop working. The response is the same whether or not the account exists.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -742,7 +953,7 @@
  * /auth/password-reset:
  *   post:
  *     summary: Reset password
- *     description: Reset password with token
+ *     description: Reset password with the token from a reset email. The new password must satisfy the password policy and differ from recent passwords. The token can only be used once, and all of the user's sessions are revoked.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -754,11 +965,11 @@
  *             properties:
  *               token:
  *                 type: string
- *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                 example: 19d16140ace1167dbdb55fe1fd69cc6b42975538dd2af014c5b99970a59d68c4
  *               newPassword:
  *                 type: string
  *                 format: password
- *                 example: NewPassword123
+ *                 example: Correct-Horse-42
  *     responses:
  *       200:
  *         description: Password reset successful
@@ -774,7 +985,7 @@
  *                   type: string
  *                   example: Password has been reset successfully
  *       400:
- *         description: Invalid or missing token/password
+ *         description: Invalid or missing token/password, or the password breaks the policy
  *         content:
  *           application/json:
  *             schema:
@@ -791,51 +1002,67 @@
  */
 
 /**
- * Appointment Controller
+ * @swagger
+ * /auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Change a password using the current one. Does not require a session, so users whose password has expired (or was set temporarily by an administrator) can choose a new one. Failed attempts count towards the login lockout, and all of the user's sessions are revoked.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, currentPassword, newPassword]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: doctor@healthcare.com
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 example: Correct-Horse-42
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       400:
+ *         description: Invalid input, or the new password breaks the policy or matches a recent password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                   example: "Password does not meet the password policy: Password must contain a symbol"
+ *       401:
+ *         description: Invalid credentials
+ *       403:
+ *         description: Account is disabled or requires a password reset by email
+ *       429:
+ *         description: Too many failed login attempts for this account or IP
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments:
+ * /auth/password-policy:
  *   get:
- *     summary: Get all appointments
- *     tags: [Appointments]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: startDate
- *         schema:
- *           type: string
- *           format: date
- *         description: Filter appointments from this date (YYYY-MM-DD)
- *       - in: query
- *         name: endDate
- *         schema:
- *           type: string
- *           format: date
- *         description: Filter appointments until this date (YYYY-MM-DD)
- *       - in: query
- *         name: status
- *         schema:
- *           type: string
- *           enum: [scheduled, completed, cancelled, no-show]
- *         description: Filter by appointment status
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
+ *     summary: Get the password policy
+ *     description: Rules applied when registering, resetting, changing or setting a password. Passwords found in the breached-password list or containing the username or email are also rejected.
+ *     tags: [Authentication]
  *     responses:
  *       200:
- *         description: List of appointments retrieved successfully
+ *         description: Password policy retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -845,35 +1072,57 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Appointment'
- *                 pagination:
- *                   $ref: '#/components/schemas/Pagination'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       500:
- *         $ref: '#/components/responses/ServerError'
+ *                   type: object
+ *                   properties:
+ *                     minLength:
+ *                       type: integer
+ *                       example: 10
+ *                     requireUppercase:
+ *                       type: boolean
+ *                     requireLowercase:
+ *                       type: boolean
+ *                     requireDigit:
+ *                       type: boolean
+ *                     requireSymbol:
+ *                       type: boolean
+ *                     historySize:
+ *                       type: integer
+ *                       description: Number of previous passwords that cannot be reused
+ *                       example: 5
+ *                     maxAgeDays:
+ *                       type: integer
+ *                       description: Days before a password expires (0 means never)
+ *                       example: 0
  */
 
 /**
  * @swagger
- * /appointments:
+ * /auth/login/mfa:
  *   post:
- *     summary: Create a new appointment
- *     description: Create a new appointment between a patient and doctor
- *     tags: [Appointments]
- *     security:
- *       - bearerAuth: []
+ *     summary: Complete MFA login
+ *     description: Exchange the challenge token returned by login plus a TOTP code or recovery code for an access/refresh token pair. Users enrolling during login receive their recovery codes in the response.
+ *     tags: [Authentication]
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/AppointmentCreate'
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Current code from the authenticator app
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Unused recovery code (alternative to code)
+ *                 example: 3f9a1-7c2d4
  *     responses:
- *       201:
- *         description: Appointment created successfully
+ *       200:
+ *         description: Login successful
  *         content:
  *           application/json:
  *             schema:
@@ -882,98 +1131,50 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Appointment created successfully
  *                 data:
- *                   $ref: '#/components/schemas/Appointment'
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *                     token:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Only present when MFA enrolment was completed during login
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         description: Too many failed login attempts for this account or IP
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments/{id}:
- *   get:
- *     summary: Get appointment by ID
- *     tags: [Appointments]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Appointment ID
- *     responses:
- *       200:
- *         description: Appointment details retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   $ref: '#/components/schemas/Appointment'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- */
-
-/**
- * @swagger
- * /appointments/{id}:
- *   put:
- *     summary: Update an appointment
- *     description: Update an existing appointment's details
- *     tags: [Appointments]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Appointment ID
+ * /auth/login/mfa/setup:
+ *   post:
+ *     summary: Enrol in MFA during login
+ *     description: Generate a TOTP secret for a user whose role requires MFA but who has not enrolled yet. Finish by calling /auth/login/mfa with a code from the new secret.
+ *     tags: [Authentication]
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [challengeToken]
  *             properties:
- *               title:
- *                 type: string
- *               startTime:
- *                 type: string
- *                 format: date-time
- *               endTime:
- *                 type: string
- *                 format: date-time
- *               status:
- *                 type: string
- *                 enum: [scheduled, completed, cancelled, no-show]
- *               notes:
- *                 type: string
- *               location:
- *                 type: string
- *               reason:
+ *               challengeToken:
  *                 type: string
  *     responses:
  *       200:
- *         description: Appointment updated successfully
+ *         description: TOTP secret generated
  *         content:
  *           application/json:
  *             schema:
@@ -982,41 +1183,35 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Appointment updated successfully
  *                 data:
- *                   $ref: '#/components/schemas/Appointment'
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/Hospital%20Management%20System%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Hospital+Management+System
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments/{id}:
- *   delete:
- *     summary: Delete an appointment
- *     description: Delete an existing appointment
- *     tags: [Appointments]
+ * /auth/mfa:
+ *   get:
+ *     summary: Get MFA status
+ *     description: Get the current user's MFA status
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Appointment ID
  *     responses:
  *       200:
- *         description: Appointment deleted successfully
+ *         description: MFA status retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1025,37 +1220,34 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Appointment deleted successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     required:
+ *                       type: boolean
+ *                     recoveryCodesRemaining:
+ *                       type: integer
+ *                       example: 10
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments/patient/{patientId}:
- *   get:
- *     summary: Get appointments by patient ID
- *     description: Retrieve all appointments for a specific patient
- *     tags: [Appointments]
+ * /auth/mfa/setup:
+ *   post:
+ *     summary: Start MFA enrolment
+ *     description: Generate a new TOTP secret. MFA is not enabled until a code is verified with /auth/mfa/enable.
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: patientId
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Patient ID
  *     responses:
  *       200:
- *         description: Patient's appointments retrieved successfully
+ *         description: TOTP secret generated
  *         content:
  *           application/json:
  *             schema:
@@ -1065,35 +1257,45 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Appointment'
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/Hospital%20Management%20System%3Ajohn.doe%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Hospital+Management+System
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments/doctor/{doctorId}:
- *   get:
- *     summary: Get appointments by doctor ID
- *     description: Retrieve all appointments for a specific doctor
- *     tags: [Appointments]
+ * /auth/mfa/enable:
+ *   post:
+ *     summary: Enable MFA
+ *     description: Verify a code from the pending secret to enable MFA. Returns single-use recovery codes, which are only shown once.
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: doctorId
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Doctor ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
  *     responses:
  *       200:
- *         description: Doctor's appointments retrieved successfully
+ *         description: MFA enabled successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1102,35 +1304,84 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Doctor appointments retrieved successfully
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Appointment'
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [3f9a1-7c2d4, 8be02-51af9]
  *       400:
- *         description: Invalid doctor ID
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /appointments/stats:
- *   get:
- *     summary: Get appointment statistics
- *     description: Retrieve statistics about appointments including counts by status
- *     tags: [Appointments]
+ * /auth/mfa/disable:
+ *   post:
+ *     summary: Disable MFA
+ *     description: Turn off MFA after verifying a code or recovery code. Not allowed when MFA is mandatory for the user's role.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current code from the authenticator app
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Unused recovery code (alternative to code)
+ *                 example: 3f9a1-7c2d4
+ *     responses:
+ *       200:
+ *         description: MFA disabled successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replace all recovery codes after verifying a code or recovery code
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current code from the authenticator app
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Unused recovery code (alternative to code)
+ *                 example: 3f9a1-7c2d4
  *     responses:
  *       200:
- *         description: Appointment statistics retrieved successfully
+ *         description: Recovery codes regenerated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1140,47 +1391,33 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/AppointmentStats'
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [3f9a1-7c2d4, 8be02-51af9]
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
-/**
- * Patient Controller
- */
-
 /**
  * @swagger
- * /patients:
+ * /auth/mfa/policy:
  *   get:
- *     summary: Get all patients
- *     description: Retrieve a list of all patients with optional pagination
- *     tags: [Patients]
+ *     summary: Get MFA policy
+ *     description: List the roles for which MFA is mandatory (requires manage:users)
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
- *       - in: query
- *         name: search
- *         schema:
- *           type: string
- *         description: Search term for filtering patients by name, email, etc.
  *     responses:
  *       200:
- *         description: List of patients retrieved successfully
+ *         description: MFA policy retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1190,66 +1427,28 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Patient'
- *                 pagination:
- *                   $ref: '#/components/schemas/Pagination'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
- *       500:
- *         $ref: '#/components/responses/ServerError'
- */
-
-/**
- * @swagger
- * /patients/{id}:
- *   get:
- *     summary: Get patient by ID
- *     description: Retrieve detailed information for a specific patient
- *     tags: [Patients]
- *     security:
- *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Patient ID
- *     responses:
- *       200:
- *         description: Patient details retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   $ref: '#/components/schemas/Patient'
+ *                   type: object
+ *                   properties:
+ *                     requiredRoles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [admin, doctor]
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /patients:
- *   post:
- *     summary: Create a new patient
- *     description: Add a new patient to the system
- *     tags: [Patients]
+ * /auth/mfa/policy:
+ *   put:
+ *     summary: Update MFA policy
+ *     description: Set the roles for which MFA is mandatory (requires manage:users). Users in these roles must enrol at their next login.
+ *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -1258,50 +1457,17 @@
  *         application/json:
  *           schema:
  *             type: object
- *             required: [firstName, lastName, dateOfBirth, gender]
+ *             required: [requiredRoles]
  *             properties:
- *               firstName:
- *                 type: string
- *                 example: Jane
- *               lastName:
- *                 type: string
- *                 example: Smith
- *               dateOfBirth:
- *                 type: string
- *                 format: date
- *                 example: 1985-06-15
- *               gender:
- *                 type: string
- *                 enum: [male, female, other]
- *                 example: female
- *               contactNumber:
- *                 type: string
- *                 example: 555-123-4567
- *               email:
- *                 type: string
- *                 format: email
- *                 example: jane.smith@example.com
- *               address:
- *                 type: string
- *                 example: 123 Main St, Anytown, CA 12345
- *               emergencyContactName:
- *                 type: string
- *                 example: John Smith
- *               emergencyContactNumber:
- *                 type: string
- *                 example: 555-987-6543
- *               bloodType:
- *                 type: string
- *                 example: A+
- *               allergies:
- *                 type: string
- *                 example: Penicillin, Peanuts
- *               medicalHistory:
- *                 type: string
- *                 example: Prior heart surgery, Asthma
+ *               requiredRoles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [admin, doctor, nurse, receptionist, billing, lab_technician, patient]
+ *                 example: [admin, doctor]
  *     responses:
- *       201:
- *         description: Patient created successfully
+ *       200:
+ *         description: MFA policy updated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1310,11 +1476,14 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Patient created successfully
  *                 data:
- *                   $ref: '#/components/schemas/Patient'
+ *                   type: object
+ *                   properties:
+ *                     requiredRoles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [admin, doctor]
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -1326,20 +1495,37 @@
  */
 
 /**
- * Staff Controller
+ * Appointment Controller
  */
 
 /**
  * @swagger
- * /staff:
+ * /appointments:
  *   get:
- *     summary: Get all staff
- *     description: Retrieve a list of all staff members with optional pagination
- *     tags: [Staff]
+ *     summary: Get all appointments
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filter appointments from this date (YYYY-MM-DD)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filter appointments until this date (YYYY-MM-DD)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, completed, cancelled, no-show]
+ *         description: Filter by appointment status
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -1351,20 +1537,9 @@
  *           type: integer
  *           default: 10
  *         description: Number of items per page
- *       - in: query
- *         name: role
- *         schema:
- *           type: string
- *           enum: [doctor, nurse, admin, receptionist, pharmacist]
- *         description: Filter staff by role
- *       - in: query
- *         name: search
- *         schema:
- *           type: string
- *         description: Search term for filtering staff by name, email, etc.
  *     responses:
  *       200:
- *         description: List of staff retrieved successfully
+ *         description: List of appointments retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1376,52 +1551,33 @@
  *                 data:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/Staff'
+ *                     $ref: '#/components/schemas/Appointment'
  *                 pagination:
  *                   $ref: '#/components/schemas/Pagination'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
-/**
- * Medical Record Controller
- */
-
 /**
  * @swagger
- * /medical-records:
- *   get:
- *     summary: Get all medical records
- *     description: Retrieve a list of all medical records with optional pagination
- *     tags: [Medical Records]
+ * /appointments:
+ *   post:
+ *     summary: Create a new appointment
+ *     description: Create a new appointment between a patient and doctor
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number for pagination
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
- *       - in: query
- *         name: patientId
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Filter records by patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AppointmentCreate'
  *     responses:
- *       200:
- *         description: List of medical records retrieved successfully
+ *       201:
+ *         description: Appointment created successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1430,27 +1586,25 @@
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Appointment created successfully
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/MedicalRecord'
- *                 pagination:
- *                   $ref: '#/components/schemas/Pagination'
+ *                   $ref: '#/components/schemas/Appointment'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /medical-records/{id}:
+ * /appointments/{id}:
  *   get:
- *     summary: Get medical record by ID
- *     description: Retrieve detailed information for a specific medical record
- *     tags: [Medical Records]
+ *     summary: Get appointment by ID
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1460,10 +1614,10 @@
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Medical Record ID
+ *         description: Appointment ID
  *     responses:
  *       200:
- *         description: Medical record details retrieved successfully
+ *         description: Appointment details retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1473,24 +1627,20 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/MedicalRecord'
+ *                   $ref: '#/components/schemas/Appointment'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /medical-records/{id}/update:
+ * /appointments/{id}:
  *   put:
- *     summary: Update a medical record
- *     description: Update an existing medical record with new information
- *     tags: [Medical Records]
+ *     summary: Update an appointment
+ *     description: Update an existing appointment's details. Changing the status to completed drafts the visit's invoice for billing review (see /billing/invoices/review-queue).
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1500,7 +1650,7 @@
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Medical Record ID
+ *         description: Appointment ID
  *     requestBody:
  *       required: true
  *       content:
@@ -1508,31 +1658,26 @@
  *           schema:
  *             type: object
  *             properties:
- *               chiefComplaint:
+ *               title:
  *                 type: string
- *                 example: Persistent cough and fever for 5 days
- *               diagnosis:
+ *               startTime:
  *                 type: string
- *                 example: Acute bronchitis
- *               treatment:
+ *                 format: date-time
+ *               endTime:
  *                 type: string
- *                 example: Prescribed antibiotics and rest
+ *                 format: date-time
+ *               status:
+ *                 type: string
+ *                 enum: [scheduled, completed, cancelled, no-show]
  *               notes:
  *                 type: string
- *                 example: Patient should avoid strenuous activity
- *               followUpRecommended:
- *                 type: boolean
- *                 example: true
- *               followUpDate:
+ *               location:
  *                 type: string
- *                 format: date
- *                 example: 2023-12-15
- *               vitals:
+ *               reason:
  *                 type: string
- *                 example: '{"temperature":"38.2°C","heartRate":"88 bpm","bloodPressure":"122/80 mmHg"}'
  *     responses:
  *       200:
- *         description: Medical record updated successfully
+ *         description: Appointment updated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1543,15 +1688,13 @@
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Medical record updated successfully
+ *                   example: Appointment updated successfully
  *                 data:
- *                   $ref: '#/components/schemas/MedicalRecord'
+ *                   $ref: '#/components/schemas/Appointment'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -1560,60 +1703,24 @@
 
 /**
  * @swagger
- * /medical-records/create:
- *   post:
- *     summary: Create a new medical record
- *     description: Create a new medical record for a patient
- *     tags: [Medical Records]
+ * /appointments/{id}:
+ *   delete:
+ *     summary: Delete an appointment
+ *     description: Delete an existing appointment
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [patientId, doctorId, visitDate, chiefComplaint]
- *             properties:
- *               patientId:
- *                 type: number
- *                 example: 5
- *               doctorId:
- *                 type: string
- *                 example: STAFF-001
- *               appointmentId:
- *                 type: number
- *                 example: 1
- *                 nullable: true
- *               visitDate:
- *                 type: string
- *                 format: date-time
- *                 example: 2023-12-01T09:00:00Z
- *               chiefComplaint:
- *                 type: string
- *                 example: Fever and cough for 3 days
- *               diagnosis:
- *                 type: string
- *                 example: Upper respiratory infection
- *               treatment:
- *                 type: string
- *                 example: Rest, fluids, acetaminophen
- *               notes:
- *                 type: string
- *                 example: Patient advised to return if symptoms worsen
- *               followUpRecommended:
- *                 type: boolean
- *                 example: true
- *               followUpDate:
- *                 type: string
- *                 format: date
- *                 example: 2023-12-15
- *               vitals:
- *                 type: string
- *                 example: '{"temperature":"38.5°C","heartRate":"85 bpm","bloodPressure":"120/80 mmHg"}'
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Appointment ID
  *     responses:
- *       201:
- *         description: Medical record created successfully
+ *       200:
+ *         description: Appointment deleted successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1624,26 +1731,22 @@
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Medical record created successfully
- *                 data:
- *                   $ref: '#/components/schemas/MedicalRecord'
- *       400:
- *         $ref: '#/components/responses/BadRequest'
+ *                   example: Appointment deleted successfully
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /medical-records/patient/{patientId}/history:
+ * /appointments/patient/{patientId}:
  *   get:
- *     summary: Get patient medical history
- *     description: Retrieve complete medical history for a specific patient
- *     tags: [Medical Records]
+ *     summary: Get appointments by patient ID
+ *     description: Retrieve all appointments for a specific patient
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -1656,7 +1759,7 @@
  *         description: Patient ID
  *     responses:
  *       200:
- *         description: Patient medical history retrieved successfully
+ *         description: Patient's appointments retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1666,88 +1769,35 @@
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: object
- *                   properties:
- *                     medicalRecords:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/MedicalRecord'
- *                     diagnoses:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           id:
- *                             type: number
- *                             example: 1
- *                           diagnosisCode:
- *                             type: string
- *                             example: J20.9
- *                           description:
- *                             type: string
- *                             example: Acute bronchitis, unspecified
- *                           diagnosisDate:
- *                             type: string
- *                             format: date
- *                             example: 2023-10-15
- *                     medications:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           id:
- *                             type: number
- *                             example: 1
- *                           name:
- *                             type: string
- *                             example: Amoxicillin
- *                           dosage:
- *                             type: string
- *                             example: 500mg
- *                           frequency:
- *                             type: string
- *                             example: 3 times daily
- *                           startDate:
- *                             type: string
- *                             format: date
- *                             example: 2023-10-15
- *                           endDate:
- *                             type: string
- *                             format: date
- *                             example: 2023-10-25
- *                     allergies:
- *                       type: string
- *                       example: Penicillin, Peanuts
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Appointment'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /staff/{id}:
+ * /appointments/doctor/{doctorId}:
  *   get:
- *     summary: Get staff member by ID
- *     description: Retrieve detailed information for a specific staff member
- *     tags: [Staff]
+ *     summary: Get appointments by doctor ID
+ *     description: Retrieve all appointments for a specific doctor
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: path
- *         name: id
+ *         name: doctorId
  *         required: true
  *         schema:
  *           type: string
  *           format: uuid
- *         description: Staff ID
+ *         description: Doctor ID
  *     responses:
  *       200:
- *         description: Staff details retrieved successfully
+ *         description: Doctor's appointments retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1756,12 +1806,17 @@
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Doctor appointments retrieved successfully
  *                 data:
- *                   $ref: '#/components/schemas/Staff'
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Appointment'
+ *       400:
+ *         description: Invalid doctor ID
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -1770,58 +1825,16 @@
 
 /**
  * @swagger
- * /staff/{id}:
- *   put:
- *     summary: Update staff member
- *     description: Update information for a specific staff member
- *     tags: [Staff]
+ * /appointments/stats:
+ *   get:
+ *     summary: Get appointment statistics
+ *     description: Retrieve statistics about appointments including counts by status
+ *     tags: [Appointments]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: Staff ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               firstName:
- *                 type: string
- *                 example: John
- *               lastName:
- *                 type: string
- *                 example: Doe
- *               email:
- *                 type: string
- *                 format: email
- *                 example: john.doe@hospital.com
- *               contactNumber:
- *                 type: string
- *                 example: 555-987-6543
- *               role:
- *                 type: string
- *                 enum: [doctor, nurse, admin, receptionist, pharmacist]
- *                 example: doctor
- *               specialization:
- *                 type: string
- *                 example: Cardiology
- *               department:
- *                 type: string
- *                 example: Medical
- *               status:
- *                 type: string
- *                 enum: [active, on-leave, inactive]
- *                 example: active
  *     responses:
  *       200:
- *         description: Staff member updated successfully
+ *         description: Appointment statistics retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1830,74 +1843,110 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Staff member updated successfully
  *                 data:
- *                   $ref: '#/components/schemas/Staff'
- *       400:
- *         $ref: '#/components/responses/BadRequest'
+ *                   $ref: '#/components/schemas/AppointmentStats'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
- *       403:
- *         $ref: '#/components/responses/Forbidden'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
+/**
+ * Patient Controller
+ */
+
 /**
  * @swagger
- * /staff:
- *   post:
- *     summary: Create a new staff member
- *     description: Add a new staff member to the system
- *     tags: [Staff]
+ * /patients:
+ *   get:
+ *     summary: List patients
+ *     description: Retrieve one page of patients matching the filters. Only unencrypted columns can be sorted on.
+ *     tags: [Patients]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [firstName, lastName, email, role]
- *             properties:
- *               firstName:
- *                 type: string
- *                 example: John
- *               lastName:
- *                 type: string
- *                 example: Doe
- *               email:
- *                 type: string
- *                 format: email
- *                 example: john.doe@hospital.com
- *               contactNumber:
- *                 type: string
- *                 example: 555-987-6543
- *               role:
- *                 type: string
- *                 enum: [doctor, nurse, admin, receptionist, pharmacist]
- *                 example: doctor
- *               specialization:
- *                 type: string
- *                 example: Cardiology
- *               department:
- *                 type: string
- *                 example: Medical
- *               joinDate:
- *                 type: string
- *                 format: date
- *                 example: 2023-01-15
- *               status:
- *                 type: string
- *                 enum: [active, on-leave, inactive]
- *                 example: active
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Partial match on first or last name, or exact match on email or contact number
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *         description: Gender, case-insensitive
+ *       - in: query
+ *         name: ageMin
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Minimum age in years
+ *       - in: query
+ *         name: ageMax
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Maximum age in years
+ *       - in: query
+ *         name: bloodType
+ *         schema:
+ *           type: string
+ *         description: Blood type, e.g. O+
+ *       - in: query
+ *         name: insuranceProvider
+ *         schema:
+ *           type: string
+ *         description: Insurance provider, case-insensitive
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only patients created at or after this time
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only patients created at or before this time. A date without a time covers the whole day.
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [id, firstName, lastName, dateOfBirth, gender, bloodType, insuranceProvider, createdAt, updatedAt]
+ *           default: lastName
+ *         description: Column to sort by
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *         description: Sort direction
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include soft-deleted patients. Requires the restore:patients permission.
  *     responses:
- *       201:
- *         description: Staff member created successfully
+ *       200:
+ *         description: List of patients retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1908,9 +1957,13 @@
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Staff member created successfully
+ *                   example: Patients retrieved successfully
  *                 data:
- *                   $ref: '#/components/schemas/Staff'
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Patient'
+ *                 meta:
+ *                   $ref: '#/components/schemas/Pagination'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
@@ -1924,9 +1977,9 @@
 /**
  * @swagger
  * /patients/{id}:
- *   put:
- *     summary: Update a patient
- *     description: Update an existing patient's information
+ *   get:
+ *     summary: Get patient by ID
+ *     description: Retrieve detailed information for a specific patient, with fullName, age, medicalRecordCount, appointmentCount and lastVisit computed from the patient's records. allergies, medicalHistory, activeAllergies and activeProblems are only included for users who may read the patient's chart
  *     tags: [Patients]
  *     security:
  *       - bearerAuth: []
@@ -1938,12 +1991,51 @@
  *           type: string
  *           format: uuid
  *         description: Patient ID
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include soft-deleted patients. Requires the restore:patients permission.
+ *     responses:
+ *       200:
+ *         description: Patient details retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Patient'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /patients:
+ *   post:
+ *     summary: Create a new patient
+ *     description: Add a new patient to the system
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [firstName, lastName, dateOfBirth, gender]
  *             properties:
  *               firstName:
  *                 type: string
@@ -1951,6 +2043,14 @@
  *               lastName:
  *                 type: string
  *                 example: Smith
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *                 example: 1985-06-15
+ *               gender:
+ *                 type: string
+ *                 enum: [male, female, other]
+ *                 example: female
  *               contactNumber:
  *                 type: string
  *                 example: 555-123-4567
@@ -1967,15 +2067,23 @@
  *               emergencyContactNumber:
  *                 type: string
  *                 example: 555-987-6543
+ *               bloodType:
+ *                 type: string
+ *                 example: A+
  *               allergies:
  *                 type: string
  *                 example: Penicillin, Peanuts
+ *                 description: Free text. Allergens not yet active in the allergy registry are added to it; allergens left out of the text stay in the registry.
  *               medicalHistory:
  *                 type: string
  *                 example: Prior heart surgery, Asthma
+ *               ignoreDuplicates:
+ *                 type: boolean
+ *                 description: Create the patient even if possible duplicates exist
+ *                 example: false
  *     responses:
- *       200:
- *         description: Patient updated successfully
+ *       201:
+ *         description: Patient created successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1986,41 +2094,73 @@
  *                   example: true
  *                 message:
  *                   type: string
- *                   example: Patient updated successfully
+ *                   example: Patient created successfully
  *                 data:
  *                   $ref: '#/components/schemas/Patient'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       409:
+ *         description: Possible duplicates of an existing patient were found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DuplicateCandidate'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
+/**
+ * Staff Controller
+ */
+
 /**
  * @swagger
- * /patients/{id}:
- *   delete:
- *     summary: Delete a patient
- *     description: Mark a patient as deleted (soft delete)
- *     tags: [Patients]
+ * /staff:
+ *   get:
+ *     summary: Get all staff
+ *     description: Retrieve a list of all staff members with optional pagination
+ *     tags: [Staff]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Number of items per page
+ *       - in: query
+ *         name: role
  *         schema:
  *           type: string
- *           format: uuid
- *         description: Patient ID
+ *           enum: [doctor, nurse, admin, receptionist, pharmacist]
+ *         description: Filter staff by role
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search term for filtering staff by name, email, etc.
  *     responses:
  *       200:
- *         description: Patient deleted successfully
+ *         description: List of staff retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -2029,26 +2169,31 @@
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: Patient deleted successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Staff'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
- *       404:
- *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
+/**
+ * Medical Record Controller
+ */
+
 /**
  * @swagger
- * /billing:
+ * /medical-records:
  *   get:
- *     summary: Get all billing records
- *     description: Retrieve a list of all billing records with optional pagination
- *     tags: [Billing]
+ *     summary: Get medical records
+ *     description: Retrieve a page of the medical records in the charts the user may read, newest first, optionally for one doctor. With patientId, all of that patient's records are returned instead, without paging.
+ *     tags: [Medical Records]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -2056,29 +2201,30 @@
  *         name: page
  *         schema:
  *           type: integer
+ *           minimum: 1
  *           default: 1
  *         description: Page number for pagination
  *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
- *           default: 10
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
  *         description: Number of items per page
  *       - in: query
- *         name: patientId
+ *         name: doctorId
  *         schema:
  *           type: string
- *           format: uuid
- *         description: Filter by patient ID
+ *         description: Filter records by the staff ID of the doctor who wrote them
  *       - in: query
- *         name: status
+ *         name: patientId
  *         schema:
- *           type: string
- *           enum: [paid, pending, overdue]
- *         description: Filter by payment status
+ *           type: integer
+ *         description: Get all records of one patient. Each record then includes the patient's activeAllergies.
  *     responses:
  *       200:
- *         description: List of billing records retrieved successfully
+ *         description: List of medical records retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -2090,308 +2236,4466 @@
  *                 data:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/BillingRecord'
- *                 pagination:
+ *                     $ref: '#/components/schemas/MedicalRecord'
+ *                 meta:
  *                   $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patient or doctor not found
  *       500:
  *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * components:
- *   schemas:
- *     BillingRecord:
+ * /medical-records/search:
+ *   get:
+ *     summary: Search medical records
+ *     description: Search the charts the user may read by patient or doctor name, diagnosis code or description, and the decrypted chief complaint, SOAP note and notes. Only the 500 most recent visits within the filters are searched; filter by patient or visit date range to reach older visits.
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Text to search for
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: integer
+ *         description: Only search this patient's records
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Earliest visit date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Latest visit date
+ *     responses:
+ *       200:
+ *         description: Matching medical records, most recent first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MedicalRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}:
+ *   get:
+ *     summary: Get medical record by ID
+ *     description: Retrieve detailed information for a specific medical record, including the patient's activeAllergies
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Medical Record ID
+ *     responses:
+ *       200:
+ *         description: Medical record details retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/MedicalRecord'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}/update:
+ *   put:
+ *     summary: Update a medical record
+ *     description: Update an existing medical record with new information. Replacement prescriptions are checked for drug interactions as on create.
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Medical Record ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               chiefComplaint:
+ *                 type: string
+ *                 example: Persistent cough and fever for 5 days
+ *               diagnosis:
+ *                 type: string
+ *                 example: Acute bronchitis
+ *               treatment:
+ *                 type: string
+ *                 example: Prescribed antibiotics and rest
+ *               notes:
+ *                 type: string
+ *                 example: Patient should avoid strenuous activity
+ *               followUpRecommended:
+ *                 type: boolean
+ *                 example: true
+ *               followUpDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2023-12-15
+ *               vitals:
+ *                 type: string
+ *                 example: '{"temperature":"38.2°C","heartRate":"88 bpm","bloodPressure":"122/80 mmHg"}'
+ *     responses:
+ *       200:
+ *         description: Medical record updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Medical record updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/MedicalRecord'
+ *       409:
+ *         description: A major drug interaction was found for a medication without an overrideReason. The warnings are returned in data.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InteractionWarning'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /medical-records/create:
+ *   post:
+ *     summary: Create a new medical record
+ *     description: Create a new medical record for a patient. Each entry of treatment.medications is checked against the patient's active allergies, the medications still active from their other records and the rest of the prescription. A medication with a major warning is only saved with an overrideReason, which is kept on the medication. Diagnosis codes must be ICD-10 codes from the code catalog, and procedure codes active codes from the charge master.
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [patientId, doctorId, visitDate, chiefComplaint]
+ *             properties:
+ *               patientId:
+ *                 type: number
+ *                 example: 5
+ *               doctorId:
+ *                 type: string
+ *                 example: STAFF-001
+ *               appointmentId:
+ *                 type: number
+ *                 example: 1
+ *                 nullable: true
+ *               visitDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2023-12-01T09:00:00Z
+ *               chiefComplaint:
+ *                 type: string
+ *                 example: Fever and cough for 3 days
+ *               diagnosis:
+ *                 type: string
+ *                 example: Upper respiratory infection
+ *               treatment:
+ *                 type: string
+ *                 example: Rest, fluids, acetaminophen
+ *               notes:
+ *                 type: string
+ *                 example: Patient advised to return if symptoms worsen
+ *               followUpRecommended:
+ *                 type: boolean
+ *                 example: true
+ *               followUpDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2023-12-15
+ *               vitals:
+ *                 type: string
+ *                 example: '{"temperature":"38.5°C","heartRate":"85 bpm","bloodPressure":"120/80 mmHg"}'
+ *     responses:
+ *       201:
+ *         description: Medical record created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Medical record created successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/MedicalRecord'
+ *       409:
+ *         description: A major drug interaction was found for a medication without an overrideReason. The warnings are returned in data.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InteractionWarning'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /medical-records/patient/{patientId}/history:
+ *   get:
+ *     summary: Get patient medical history
+ *     description: Retrieve complete medical history for a specific patient
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Patient medical history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     medicalRecords:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/MedicalRecord'
+ *                     diagnoses:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: number
+ *                             example: 1
+ *                           diagnosisCode:
+ *                             type: string
+ *                             example: J20.9
+ *                           description:
+ *                             type: string
+ *                             example: Acute bronchitis, unspecified
+ *                           diagnosisDate:
+ *                             type: string
+ *                             format: date
+ *                             example: 2023-10-15
+ *                     medications:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: number
+ *                             example: 1
+ *                           name:
+ *                             type: string
+ *                             example: Amoxicillin
+ *                           dosage:
+ *                             type: string
+ *                             example: 500mg
+ *                           frequency:
+ *                             type: string
+ *                             example: 3 times daily
+ *                           startDate:
+ *                             type: string
+ *                             format: date
+ *                             example: 2023-10-15
+ *                           endDate:
+ *                             type: string
+ *                             format: date
+ *                             example: 2023-10-25
+ *                     allergies:
+ *                       type: string
+ *                       example: Penicillin, Peanuts
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /staff/{id}:
+ *   get:
+ *     summary: Get staff member by ID
+ *     description: Retrieve detailed information for a specific staff member
+ *     tags: [Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Staff ID
+ *     responses:
+ *       200:
+ *         description: Staff details retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Staff'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /staff/{id}:
+ *   put:
+ *     summary: Update staff member
+ *     description: Update information for a specific staff member
+ *     tags: [Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Staff ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *                 example: John
+ *               lastName:
+ *                 type: string
+ *                 example: Doe
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@hospital.com
+ *               contactNumber:
+ *                 type: string
+ *                 example: 555-987-6543
+ *               role:
+ *                 type: string
+ *                 enum: [doctor, nurse, admin, receptionist, pharmacist]
+ *                 example: doctor
+ *               specialization:
+ *                 type: string
+ *                 example: Cardiology
+ *               department:
+ *                 type: string
+ *                 example: Medical
+ *               status:
+ *                 type: string
+ *                 enum: [active, on-leave, inactive]
+ *                 example: active
+ *     responses:
+ *       200:
+ *         description: Staff member updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Staff member updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Staff'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /staff:
+ *   post:
+ *     summary: Create a new staff member
+ *     description: Add a new staff member to the system
+ *     tags: [Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [firstName, lastName, email, role]
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *                 example: John
+ *               lastName:
+ *                 type: string
+ *                 example: Doe
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@hospital.com
+ *               contactNumber:
+ *                 type: string
+ *                 example: 555-987-6543
+ *               role:
+ *                 type: string
+ *                 enum: [doctor, nurse, admin, receptionist, pharmacist]
+ *                 example: doctor
+ *               specialization:
+ *                 type: string
+ *                 example: Cardiology
+ *               department:
+ *                 type: string
+ *                 example: Medical
+ *               joinDate:
+ *                 type: string
+ *                 format: date
+ *                 example: 2023-01-15
+ *               status:
+ *                 type: string
+ *                 enum: [active, on-leave, inactive]
+ *                 example: active
+ *     responses:
+ *       201:
+ *         description: Staff member created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Staff member created successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Staff'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}:
+ *   put:
+ *     summary: Update a patient
+ *     description: Update an existing patient's information
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *                 example: Jane
+ *               lastName:
+ *                 type: string
+ *                 example: Smith
+ *               contactNumber:
+ *                 type: string
+ *                 example: 555-123-4567
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: jane.smith@example.com
+ *               address:
+ *                 type: string
+ *                 example: 123 Main St, Anytown, CA 12345
+ *               emergencyContactName:
+ *                 type: string
+ *                 example: John Smith
+ *               emergencyContactNumber:
+ *                 type: string
+ *                 example: 555-987-6543
+ *               allergies:
+ *                 type: string
+ *                 example: Penicillin, Peanuts
+ *                 description: Free text. Allergens not yet active in the allergy registry are added to it; allergens left out of the text stay in the registry.
+ *               medicalHistory:
+ *                 type: string
+ *                 example: Prior heart surgery, Asthma
+ *     responses:
+ *       200:
+ *         description: Patient updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Patient updated successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Patient'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}:
+ *   delete:
+ *     summary: Delete a patient
+ *     description: Mark a patient as deleted (soft delete)
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Patient deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Patient deleted successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted patient
+ *     description: Undo a soft delete. Requires the restore:patients permission.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Patient restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Patient'
+ *       400:
+ *         description: Patient is not deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/purge:
+ *   delete:
+ *     summary: Permanently delete a patient
+ *     description: Erase a soft-deleted patient together with their appointments, medical records and invoices. The patient must be deleted first. The purge is recorded in the audit log, which is kept. Requires the purge:patients permission.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Patient ID
+ *     responses:
+ *       200:
+ *         description: Patient purged successfully
+ *       400:
+ *         description: Patient must be deleted before it can be purged
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /billing:
+ *   get:
+ *     summary: Get all billing records
+ *     description: Retrieve a list of all billing records with optional pagination
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Number of items per page
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by patient ID
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [paid, pending, overdue]
+ *         description: Filter by payment status
+ *     responses:
+ *       200:
+ *         description: List of billing records retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BillingRecord'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BillingRecord:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: INV-123456
+ *         patientId:
+ *           type: number
+ *           example: 5
+ *         appointmentId:
+ *           type: number
+ *           example: 10
+ *           nullable: true
+ *         invoiceDate:
+ *           type: string
+ *           format: date-time
+ *           example: 2023-10-15T10:30:00Z
+ *         dueDate:
+ *           type: string
+ *           format: date
+ *           example: 2023-11-15
+ *         amount:
+ *           type: number
+ *           format: float
+ *           example: 150.00
+ *         status:
+ *           type: string
+ *           enum: [paid, pending, overdue]
+ *           example: pending
+ *         source:
+ *           type: string
+ *           enum: [manual, generated]
+ *           description: generated invoices are drafted when an appointment is completed or a medical record is signed
+ *         medicalRecordId:
+ *           type: number
+ *           nullable: true
+ *         reviewedBy:
+ *           type: number
+ *           nullable: true
+ *           description: User who approved a generated invoice
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 example: Office Visit - New Patient
+ *               code:
+ *                 type: string
+ *                 example: 99201
+ *               amount:
+ *                 type: number
+ *                 format: float
+ *                 example: 85.00
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     PaymentRecord:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: PMT-789012
+ *         invoiceId:
+ *           type: string
+ *           example: INV-123456
+ *         patientId:
+ *           type: number
+ *           example: 5
+ *         amount:
+ *           type: number
+ *           format: float
+ *           example: 150.00
+ *         paymentDate:
+ *           type: string
+ *           format: date-time
+ *           example: 2023-10-20T14:30:00Z
+ *         paymentMethod:
+ *           type: string
+ *           enum: [Credit Card, Cash, Insurance, Bank Transfer]
+ *           example: Credit Card
+ *         transactionId:
+ *           type: string
+ *           example: TXN-456789
+ *         status:
+ *           type: string
+ *           enum: [completed, pending, failed]
+ *           example: completed
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: number
+ *           example: 1
+ *         userId:
+ *           type: number
+ *           example: 5
+ *         type:
+ *           type: string
+ *           enum: [appointment, system, billing, message]
+ *           example: appointment
+ *         title:
+ *           type: string
+ *           example: Upcoming Appointment
+ *         content:
+ *           type: string
+ *           example: You have an appointment scheduled for tomorrow at 10:00 AM
+ *         isRead:
+ *           type: boolean
+ *           example: false
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Billing
+ *     description: Billing and payment management endpoints
+ *   - name: Notifications
+ *     description: User notification endpoints
+ */
+
+/**
+ * @swagger
+ * /billing/{id}:
+ *   get:
+ *     summary: Get billing record by ID
+ *     description: Retrieve details for a specific billing record
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Billing record ID (invoice number)
+ *     responses:
+ *       200:
+ *         description: Billing record retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BillingRecord'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /billing/{id}/payment:
+ *   post:
+ *     summary: Record a payment for a billing record
+ *     description: Process and record a payment for an existing billing record
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Billing record ID (invoice number)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, paymentMethod]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 format: float
+ *                 example: 150.00
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [Credit Card, Cash, Insurance, Bank Transfer]
+ *                 example: Credit Card
+ *               transactionId:
+ *                 type: string
+ *                 example: TXN-456789
+ *               notes:
+ *                 type: string
+ *                 example: Payment for initial consultation
+ *     responses:
+ *       200:
+ *         description: Payment recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Payment recorded successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/PaymentRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /notifications:
+ *   get:
+ *     summary: Get user notifications
+ *     description: Retrieve notifications for the current authenticated user
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unreadOnly
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only fetch unread notifications
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Maximum number of notifications to return
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /notifications/{id}/read:
+ *   post:
+ *     summary: Mark notification as read
+ *     description: Mark a specific notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           format: int64
+ *         description: Notification ID
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Notification marked as read
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /notifications/read-all:
+ *   post:
+ *     summary: Mark all notifications as read
+ *     description: Mark all of the current user's notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: All notifications marked as read
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *                       example: 5
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Users
+ *     description: User account administration endpoints (requires manage:users)
+ */
+
+/**
+ * User Controller
+ */
+
+/**
+ * @swagger
+ * /users:
+ *   get:
+ *     summary: Get all users
+ *     description: List user accounts with optional filters
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [admin, doctor, nurse, receptionist, patient]
+ *         description: Filter users by role
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, disabled]
+ *         description: Filter users by account status
+ *       - in: query
+ *         name: staffId
+ *         schema:
+ *           type: string
+ *         description: Filter users by linked staff member
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: integer
+ *         description: Filter users by linked patient record
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search term matched against username, email and name
+ *     responses:
+ *       200:
+ *         description: List of users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/User'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   get:
+ *     summary: Get user by ID
+ *     description: Retrieve a single user account
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   put:
+ *     summary: Update a user
+ *     description: Update a user's profile, role, per-user permission overrides or staff link. Permission entries prefixed with '-' deny the permission. The last active admin cannot be demoted.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               username:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [admin, doctor, nurse, receptionist, patient]
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [manage:staff, -view:billing]
+ *               staffId:
+ *                 type: string
+ *                 nullable: true
+ *               patientId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Link a patient account to its patient record (patient role only)
+ *     responses:
+ *       200:
+ *         description: User updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   delete:
+ *     summary: Delete a user
+ *     description: Delete a user account. Admins cannot delete themselves or the last active admin.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/disable:
+ *   put:
+ *     summary: Disable a user
+ *     description: Disable a user account and revoke all of its sessions. Disabled users cannot log in.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User disabled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/enable:
+ *   put:
+ *     summary: Enable a user
+ *     description: Re-enable a disabled user account
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User enabled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/unlock:
+ *   put:
+ *     summary: Unlock a user
+ *     description: Clear failed login attempts and lift a login lockout on the account
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: User unlocked
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/force-password-reset:
+ *   post:
+ *     summary: Force a password reset
+ *     description: Revoke the user's sessions and block login until the password has been reset
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Password reset required for user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/password:
+ *   put:
+ *     summary: Set a user's password
+ *     description: Set a password that satisfies the password policy. By default it is temporary and expires immediately, so the user must change it on next login. The user's sessions are revoked.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               temporary:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Password set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/mfa:
+ *   delete:
+ *     summary: Reset MFA
+ *     description: Remove a user's MFA enrolment and recovery codes (e.g. after a lost device). If MFA is mandatory for their role they enrol again at next login.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: MFA reset successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Patient Portal
+ *     description: Self-service endpoints for patient accounts. Every endpoint only reads or changes the patient record linked to the authenticated account.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     VisitSummary:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         visitDate:
+ *           type: string
+ *           format: date-time
+ *         doctorName:
+ *           type: string
+ *         chiefComplaint:
+ *           type: string
+ *         diagnoses:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *         medications:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               dosage:
+ *                 type: string
+ *               frequency:
+ *                 type: string
+ *               duration:
+ *                 type: string
+ *               instructions:
+ *                 type: string
+ *         instructions:
+ *           type: string
+ *         followUpRecommended:
+ *           type: boolean
+ *         followUpDate:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /portal/profile:
+ *   get:
+ *     summary: Get my patient record
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Patient'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         description: Not a patient account, or no patient record is linked
+ */
+
+/**
+ * @swagger
+ * /portal/profile/contact:
+ *   put:
+ *     summary: Update my contact details
+ *     description: Only contact fields can be changed; other fields are ignored.
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               contactNumber:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               address:
+ *                 type: string
+ *               emergencyContactName:
+ *                 type: string
+ *               emergencyContactNumber:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Contact details updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /portal/appointments:
+ *   get:
+ *     summary: List my appointments
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Appointments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Appointment'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *   post:
+ *     summary: Request an appointment
+ *     description: Creates a scheduled appointment for staff to confirm. The time must be in the future and free for the doctor.
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [doctorId, startTime, endTime, type]
+ *             properties:
+ *               doctorId:
+ *                 type: string
+ *                 example: STAFF-001
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *               type:
+ *                 type: string
+ *                 enum: [initial-consultation, follow-up, procedure, checkup, urgent, telehealth, other]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Appointment requested successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Doctor not found
+ */
+
+/**
+ * @swagger
+ * /portal/appointments/{id}:
+ *   get:
+ *     summary: Get one of my appointments
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Appointment retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Appointment not found (including appointments of other patients)
+ */
+
+/**
+ * @swagger
+ * /portal/appointments/{id}/cancel:
+ *   put:
+ *     summary: Cancel one of my upcoming appointments
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Appointment cancelled successfully
+ *       400:
+ *         description: Only upcoming appointments can be cancelled
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Appointment not found
+ */
+
+/**
+ * @swagger
+ * /portal/invoices:
+ *   get:
+ *     summary: List my invoices
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoices retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /portal/invoices/{id}:
+ *   get:
+ *     summary: Get one of my invoices
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Invoice not found
+ */
+
+/**
+ * @swagger
+ * /portal/visits:
+ *   get:
+ *     summary: List my visit summaries
+ *     description: Diagnoses, prescriptions and instructions from each visit, newest first. Clinicians' working notes are not included.
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Visit summaries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/VisitSummary'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /portal/visits/{id}:
+ *   get:
+ *     summary: Get one of my visit summaries
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Visit summary retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Visit not found
+ */
+
+/**
+ * @swagger
+ * /portal/notifications:
+ *   get:
+ *     summary: List my notifications
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /portal/access-report:
+ *   get:
+ *     summary: See who has accessed my record
+ *     tags: [Patient Portal]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Access report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PatientAccessReportEntry'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Audit
+ *     description: Append-only trail of reads and changes to patient records, medical records, appointments and billing
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLogEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         actorId:
+ *           type: integer
+ *           nullable: true
+ *         actorRole:
+ *           type: string
+ *           nullable: true
+ *         action:
+ *           type: string
+ *           enum: [read, create, update, delete]
+ *         resourceType:
+ *           type: string
+ *           enum: [patient, medical_record, appointment, invoice, break_glass, lab_result]
+ *         resourceId:
+ *           type: string
+ *           nullable: true
+ *         patientId:
+ *           type: integer
+ *           nullable: true
+ *         method:
+ *           type: string
+ *           example: GET
+ *         path:
+ *           type: string
+ *           example: /api/patients/1
+ *         statusCode:
+ *           type: integer
+ *           example: 200
+ *         ipAddress:
+ *           type: string
+ *           nullable: true
+ *         requestId:
+ *           type: string
+ *           nullable: true
+ *           description: Matches the X-Request-Id response header
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     PatientAccessReportEntry:
+ *       type: object
+ *       properties:
+ *         accessedAt:
+ *           type: string
+ *           format: date-time
+ *         actorId:
+ *           type: integer
+ *           nullable: true
+ *         actorName:
+ *           type: string
+ *           nullable: true
+ *         actorRole:
+ *           type: string
+ *           nullable: true
+ *         action:
+ *           type: string
+ *           enum: [read, create, update, delete]
+ *         resourceType:
+ *           type: string
+ *         resourceId:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Query the audit log
+ *     description: Entries are returned newest first. Requires the view:audit permission.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: resourceType
+ *         schema:
+ *           type: string
+ *           enum: [patient, medical_record, appointment, invoice, break_glass, lab_result]
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [read, create, update, delete]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: Audit log retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditLogEntry'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * /audit/patients/{patientId}/access:
+ *   get:
+ *     summary: Report who has accessed a patient's record
+ *     description: Lists successful requests that read or changed the patient's data, newest first, including lists and searches that returned the patient and the patient's own portal requests.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Access report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PatientAccessReportEntry'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Care Team
+ *     description: Staff assigned to a patient may read the patient's medical records. Other clinicians can get time-boxed break-glass access in an emergency; every grant is audited and reported to admins for review.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CareTeamAssignment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         patientId:
+ *           type: integer
+ *         staffId:
+ *           type: string
+ *           example: STAFF-001
+ *         staffName:
+ *           type: string
+ *         staffRole:
+ *           type: string
+ *         role:
+ *           type: string
+ *           nullable: true
+ *           example: attending
+ *         assignedBy:
+ *           type: integer
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     BreakGlassGrant:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         userId:
+ *           type: integer
+ *         userName:
+ *           type: string
+ *         patientId:
+ *           type: integer
+ *         reason:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         reviewedBy:
+ *           type: integer
+ *           nullable: true
+ *         reviewNotes:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/care-team:
+ *   get:
+ *     summary: Get a patient's care team
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Care team retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CareTeamAssignment'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   post:
+ *     summary: Assign a staff member to a patient's care team
+ *     description: Assigning someone already on the team updates their role. Requires the manage:care-teams permission.
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - staffId
+ *             properties:
+ *               staffId:
+ *                 type: string
+ *                 example: STAFF-001
+ *               role:
+ *                 type: string
+ *                 example: attending
+ *     responses:
+ *       200:
+ *         description: Staff member assigned; returns the updated care team
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patient or staff member not found
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/care-team/{staffId}:
+ *   delete:
+ *     summary: Remove a staff member from a patient's care team
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: staffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staff member removed successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Care team assignment not found
+ */
+
+/**
+ * @swagger
+ * /break-glass:
+ *   post:
+ *     summary: Get emergency access to a patient's chart
+ *     description: Grants the caller read access to the patient's medical records for a limited time (BREAK_GLASS_MINUTES, 60 by default). The grant is written to the audit log and every admin is notified.
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - patientId
+ *               - reason
+ *             properties:
+ *               patientId:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *                 minLength: 10
+ *                 example: Patient arrived unconscious in the ER
+ *     responses:
+ *       201:
+ *         description: Break-glass access granted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BreakGlassGrant'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   get:
+ *     summary: List break-glass grants for review
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: reviewed
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Break-glass grants retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BreakGlassGrant'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /break-glass/{id}/review:
+ *   put:
+ *     summary: Record the review of a break-glass grant
+ *     tags: [Care Team]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Break-glass grant reviewed successfully
+ *       400:
+ *         description: Grant has already been reviewed
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Patient Merges
+ *     description: Duplicate charts are detected when a patient is created and can be merged into a surviving chart. A merge moves appointments, medical records, invoices, allergies, problems, lab results, patient credit and portal notifications, gives the survivor the duplicate's care team, and can be undone.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DuplicateCandidate:
+ *       type: object
+ *       properties:
+ *         patient:
+ *           $ref: '#/components/schemas/Patient'
+ *         score:
+ *           type: integer
+ *           description: Match score from 0 to 100. Name 35, date of birth 30, contact number 25, email 25 and insurance policy number 40 points.
+ *           example: 65
+ *         matchedOn:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [name, dateOfBirth, contactNumber, email, insurancePolicyNumber]
+ *     PatientMerge:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         survivorId:
+ *           type: integer
+ *         duplicateId:
+ *           type: integer
+ *         movedRecords:
+ *           type: object
+ *           properties:
+ *             appointments:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             medical_records:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             invoices:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             patient_allergies:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             patient_problems:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             lab_results:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             patient_credits:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             care_team_assignments:
+ *               type: array
+ *               description: Care team assignments copied from the duplicate to the survivor
+ *               items:
+ *                 type: integer
+ *             notifications:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             notificationRecipientId:
+ *               type: integer
+ *               nullable: true
+ *             portalUserId:
+ *               type: integer
+ *               nullable: true
+ *         mergedBy:
+ *           type: integer
+ *         mergedAt:
+ *           type: string
+ *           format: date-time
+ *         undoneAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         undoneBy:
+ *           type: integer
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/duplicates:
+ *   get:
+ *     summary: Find possible duplicates of a patient
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Duplicate candidates, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DuplicateCandidate'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/merge:
+ *   post:
+ *     summary: Merge a duplicate patient into this one
+ *     description: Moves the duplicate's appointments, medical records, invoices, allergies, problems, lab results and patient credit to this patient, and assigns the duplicate's care team to this patient as well. If both have portal accounts the duplicate's notifications move to this patient's account; if only the duplicate has one, the account is linked to this patient. The duplicate is soft-deleted. Requires the merge:patients permission.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Surviving patient ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [duplicateId]
+ *             properties:
+ *               duplicateId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Patients merged successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/PatientMerge'
+ *       400:
+ *         description: A patient cannot be merged into itself
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/merges:
+ *   get:
+ *     summary: Get a patient's merge history
+ *     description: Merges the patient took part in as survivor or duplicate, newest first
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Merge history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PatientMerge'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/merges/{mergeId}/undo:
+ *   post:
+ *     summary: Undo a merge
+ *     description: Moves the rows the merge moved back to the duplicate, removes the care team assignments it copied and restores the duplicate. Rows added to the survivor since are left in place. Requires the merge:patients permission.
+ *     tags: [Patient Merges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Surviving patient ID
+ *       - in: path
+ *         name: mergeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Merge undone successfully
+ *       400:
+ *         description: Merge has already been undone, or the survivor has since been deleted or merged
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TimelineEntry:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [appointment, visit, diagnosis, prescription, lab, invoice, payment]
+ *         id:
+ *           type: string
+ *         occurredAt:
+ *           type: string
+ *           format: date-time
+ *         title:
+ *           type: string
+ *           example: Essential hypertension
+ *         detail:
+ *           type: string
+ *           nullable: true
+ *           example: I10
+ *         status:
+ *           type: string
+ *           nullable: true
+ *         amount:
+ *           type: number
+ *           nullable: true
+ *         staffName:
+ *           type: string
+ *           nullable: true
+ *         relatedId:
+ *           type: string
+ *           nullable: true
+ *           description: Medical record of a diagnosis or prescription, appointment of an invoice, or invoice of a payment
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/timeline:
+ *   get:
+ *     summary: Get a patient's clinical timeline
+ *     description: Appointments, visits, diagnoses, prescriptions, invoices and payments in one feed, newest first. Limited to the patient's care team and break-glass holders. Appointments need view:appointments; invoices and payments need view:billing.
+ *     tags: [Patients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *         description: Comma-separated entry types to include (default all the user may see)
+ *         example: visit,diagnosis
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Timeline retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TimelineEntry'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Unknown entry type, invalid date or paging values
+ *       403:
+ *         description: The user may not read the chart or see one of the requested entry types
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Allergies
+ *     description: Structured allergy registry per patient. Active allergies are also included in patient and medical record responses.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Allergy:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         patientId:
+ *           type: integer
+ *         allergen:
+ *           type: string
+ *           example: Penicillin
+ *         reaction:
+ *           type: string
+ *           example: Hives
+ *         severity:
+ *           type: string
+ *           enum: [mild, moderate, severe, life-threatening]
+ *         status:
+ *           type: string
+ *           enum: [active, inactive]
+ *         onsetDate:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     AllergyInput:
+ *       type: object
+ *       properties:
+ *         allergen:
+ *           type: string
+ *         reaction:
+ *           type: string
+ *         severity:
+ *           type: string
+ *           enum: [mild, moderate, severe, life-threatening]
+ *           default: moderate
+ *         status:
+ *           type: string
+ *           enum: [active, inactive]
+ *           default: active
+ *         onsetDate:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/allergies:
+ *   get:
+ *     summary: Get a patient's allergies
+ *     description: Allergies are listed most severe first. Reading or changing the allergy list requires access to the patient's chart (care team or break-glass).
+ *     tags: [Allergies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, inactive]
+ *     responses:
+ *       200:
+ *         description: Allergies retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Allergy'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   post:
+ *     summary: Record an allergy
+ *     description: A patient can have only one active entry per allergen.
+ *     tags: [Allergies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/AllergyInput'
+ *               - required: [allergen, reaction]
+ *     responses:
+ *       201:
+ *         description: Allergy recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Allergy'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/allergies/{allergyId}:
+ *   put:
+ *     summary: Update an allergy
+ *     description: Set the status to inactive when an allergy no longer applies.
+ *     tags: [Allergies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: allergyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllergyInput'
+ *     responses:
+ *       200:
+ *         description: Allergy updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Allergy'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: Delete an allergy recorded in error
+ *     tags: [Allergies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: allergyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Allergy deleted successfully
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Problem List
+ *     description: The patient's conditions and their resolution. Entries can be created from diagnoses recorded in the patient's medical records. Reading the list requires access to the patient's chart.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Problem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         patientId:
+ *           type: integer
+ *         condition:
+ *           type: string
+ *           example: Essential hypertension
+ *         icdCode:
+ *           type: string
+ *           example: I10
+ *         status:
+ *           type: string
+ *           enum: [active, resolved, recurring]
+ *         diagnosedAt:
+ *           type: string
+ *           format: date-time
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *         resolvedBy:
+ *           type: integer
+ *           description: ID of the user who resolved the problem
+ *         notes:
+ *           type: string
+ *         sourceDiagnosisId:
+ *           type: integer
+ *           description: Diagnosis the entry was created from
+ *         createdBy:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     ProblemInput:
+ *       type: object
+ *       properties:
+ *         condition:
+ *           type: string
+ *         icdCode:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [active, resolved, recurring]
+ *         diagnosedAt:
+ *           type: string
+ *           format: date-time
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Defaults to now when the problem is resolved
+ *         notes:
+ *           type: string
+ *     ProblemSuggestion:
+ *       type: object
+ *       properties:
+ *         diagnosisId:
+ *           type: integer
+ *           description: Most recent diagnosis of the condition
+ *         condition:
+ *           type: string
+ *         icdCode:
+ *           type: string
+ *         firstDiagnosedAt:
+ *           type: string
+ *           format: date-time
+ *         lastDiagnosedAt:
+ *           type: string
+ *           format: date-time
+ *         occurrences:
+ *           type: integer
+ *         resolvedProblemId:
+ *           type: integer
+ *           nullable: true
+ *           description: Resolved problem for the condition that has been diagnosed again since, and may be recurring
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/problems:
+ *   get:
+ *     summary: Get a patient's problem list
+ *     description: Unresolved problems come first, then by diagnosis date, newest first.
+ *     tags: [Problem List]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, resolved, recurring]
+ *     responses:
+ *       200:
+ *         description: Problem list retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Problem'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   post:
+ *     summary: Add a problem
+ *     description: Pass diagnosisId to create the entry from a diagnosis in the patient's medical records; its description, code and visit date are used unless given. A condition can be on the list only once while unresolved.
+ *     tags: [Problem List]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ProblemInput'
+ *               - type: object
+ *                 properties:
+ *                   diagnosisId:
+ *                     type: integer
+ *     responses:
+ *       201:
+ *         description: Problem added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Problem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/problems/suggestions:
+ *   get:
+ *     summary: Suggest problems from recorded diagnoses
+ *     description: Lists conditions diagnosed in the patient's medical records that are not on the problem list, and resolved conditions diagnosed again since their resolution.
+ *     tags: [Problem List]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Problem suggestions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProblemSuggestion'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/problems/{problemId}:
+ *   put:
+ *     summary: Update a problem
+ *     description: Setting the status to resolved records the resolution date and the user; setting it back to active or recurring clears them.
+ *     tags: [Problem List]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: problemId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProblemInput'
+ *     responses:
+ *       200:
+ *         description: Problem updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Problem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: Delete a problem entered in error
+ *     tags: [Problem List]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: problemId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Problem deleted successfully
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Labs
+ *     description: Lab orders placed in a medical record, result entry by lab staff and result trends. Results are flagged against their reference range, and the ordering clinician is notified when a result is entered, with critical results called out.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LabResult:
+ *       type: object
+ *       description: A lab test ordered in a medical record. A pending result is an open order on the lab worklist.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         medicalRecordId:
+ *           type: integer
+ *         patientId:
+ *           type: integer
+ *         testName:
+ *           type: string
+ *           example: Potassium
+ *         testCode:
+ *           type: string
+ *           example: K
+ *         result:
+ *           type: string
+ *           example: "5.8"
+ *         unit:
+ *           type: string
+ *           example: mmol/L
+ *         referenceRange:
+ *           type: string
+ *           description: Numeric ranges such as "3.5-5.1", "<5.7" or ">=60" are used to flag results
+ *           example: 3.5-5.1
+ *         criticalRange:
+ *           type: string
+ *           description: Results outside this range are critical
+ *           example: 2.5-6.5
+ *         status:
+ *           type: string
+ *           enum: [pending, completed, cancelled]
+ *         abnormal:
+ *           type: boolean
+ *         flag:
+ *           type: string
+ *           nullable: true
+ *           enum: [low, normal, high]
+ *           description: Null when the result or reference range is not numeric
+ *         critical:
+ *           type: boolean
+ *         performedAt:
+ *           type: string
+ *           format: date-time
+ *         performedBy:
+ *           type: string
+ *           description: Lab or technician that performed the test
+ *         orderedBy:
+ *           type: integer
+ *           description: ID of the user who ordered the test
+ *         resultedBy:
+ *           type: integer
+ *           description: ID of the user who entered the result
+ *         notes:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     LabOrderInput:
+ *       type: object
+ *       required: [testName]
+ *       properties:
+ *         testName:
+ *           type: string
+ *         testCode:
+ *           type: string
+ *         unit:
+ *           type: string
+ *         referenceRange:
+ *           type: string
+ *         criticalRange:
+ *           type: string
+ *         notes:
+ *           type: string
+ *     LabResultInput:
+ *       type: object
+ *       required: [result]
+ *       properties:
+ *         result:
+ *           type: string
+ *         unit:
+ *           type: string
+ *         referenceRange:
+ *           type: string
+ *           description: Replaces the range given with the order
+ *         criticalRange:
+ *           type: string
+ *           description: Replaces the range given with the order
+ *         performedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Defaults to now
+ *         performedBy:
+ *           type: string
+ *         critical:
+ *           type: boolean
+ *           description: Mark the result critical even when no critical range applies
+ *         notes:
+ *           type: string
+ *     LabTrend:
+ *       type: object
+ *       properties:
+ *         testCode:
+ *           type: string
+ *         testName:
+ *           type: string
+ *         points:
+ *           type: array
+ *           description: Completed results, oldest first
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               medicalRecordId:
+ *                 type: integer
+ *               result:
+ *                 type: string
+ *               value:
+ *                 type: number
+ *                 nullable: true
+ *               unit:
+ *                 type: string
+ *               referenceRange:
+ *                 type: string
+ *               flag:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [low, normal, high]
+ *               abnormal:
+ *                 type: boolean
+ *               critical:
+ *                 type: boolean
+ *               performedAt:
+ *                 type: string
+ *                 format: date-time
+ *         latest:
+ *           type: object
+ *           description: The most recent point
+ *         direction:
+ *           type: string
+ *           nullable: true
+ *           enum: [rising, falling, stable]
+ *           description: Change between the last two numeric results
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}/labs:
+ *   get:
+ *     summary: Get the labs ordered in a medical record
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Lab results retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LabResult'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   post:
+ *     summary: Order lab tests
+ *     description: Each test becomes a pending result on the lab worklist.
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tests]
+ *             properties:
+ *               tests:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   $ref: '#/components/schemas/LabOrderInput'
+ *     responses:
+ *       201:
+ *         description: Labs ordered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LabResult'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /labs:
+ *   get:
+ *     summary: Get the lab worklist
+ *     description: Oldest orders first. Only pending orders are listed unless a status is given.
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, cancelled]
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: critical
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Lab worklist retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LabResult'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /labs/{id}:
+ *   get:
+ *     summary: Get a lab order or result
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Lab result retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/LabResult'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /labs/{id}/result:
+ *   put:
+ *     summary: Enter or correct a lab result
+ *     description: The result is flagged against the reference range and is critical when it falls outside the critical range or is marked critical. The ordering clinician is notified. Cancelled orders cannot be resulted.
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabResultInput'
+ *     responses:
+ *       200:
+ *         description: Lab result entered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/LabResult'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /labs/{id}/cancel:
+ *   put:
+ *     summary: Cancel a pending lab order
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Lab order cancelled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/LabResult'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /patients/{id}/labs/trends:
+ *   get:
+ *     summary: Trend a patient's lab results
+ *     description: Completed results grouped per test (by code, or by name when there is no code), oldest first.
+ *     tags: [Labs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: testCode
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lab trends retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LabTrend'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MedicalRecordVersion:
+ *       type: object
+ *       description: A medical record as signed (version 1) or after an amendment. Versions are never changed once written.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         medicalRecordId:
+ *           type: integer
+ *         version:
+ *           type: integer
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           description: Reason for the amendment; null for the signed original
+ *         authorId:
+ *           type: integer
+ *         authorName:
+ *           type: string
+ *           nullable: true
+ *         snapshot:
+ *           $ref: '#/components/schemas/MedicalRecord'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InteractionWarning:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [drug-allergy, drug-drug]
+ *         severity:
+ *           type: string
+ *           enum: [minor, moderate, major]
+ *         medication:
+ *           type: string
+ *           description: The new prescription
+ *           example: Ibuprofen
+ *         conflictsWith:
+ *           type: string
+ *           description: The allergen or the other medication
+ *           example: Warfarin
+ *         description:
+ *           type: string
+ *           example: Increased risk of serious bleeding, including gastrointestinal bleeding.
+ *         overridden:
+ *           type: boolean
+ *           description: An overrideReason was given for the medication
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}/sign:
+ *   post:
+ *     summary: Sign a medical record
+ *     description: Only the doctor the record belongs to can sign it. The signed content is kept as version 1 and the record can then only change through amendments; updates, deletion and new attachments are refused with 409. Signing drafts the visit's invoice for billing review (see /billing/invoices/review-queue).
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Medical record signed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/MedicalRecord'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The record is already signed
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}/amendments:
+ *   post:
+ *     summary: Amend a signed medical record
+ *     description: Applies the changes, marks the record amended and records the amended content as a new version with its author and reason. The signed original is kept unchanged. Amended prescriptions are checked for drug interactions as on create, and a major warning without an overrideReason is refused with 409.
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Corrected the dosage in the plan
+ *               visitType:
+ *                 type: string
+ *               chiefComplaint:
+ *                 type: string
+ *               subjective:
+ *                 type: string
+ *               objective:
+ *                 type: string
+ *               assessment:
+ *                 type: string
+ *               plan:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               diagnosis:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               treatment:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Medical record amended successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/MedicalRecord'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The record has not been signed
+ */
+
+/**
+ * @swagger
+ * /medical-records/{id}/versions:
+ *   get:
+ *     summary: Get the signed original and amendments of a medical record
+ *     tags: [Medical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Medical record versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MedicalRecordVersion'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Diagnosis Codes
+ *     description: ICD-10 code catalog used to validate diagnosis codes on medical records. The catalog is loaded with `npm run codes:import`, from the bundled file or a CMS code list.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Icd10Code:
  *       type: object
  *       properties:
- *         id:
+ *         code:
  *           type: string
- *           example: INV-123456
- *         patientId:
- *           type: number
- *           example: 5
- *         appointmentId:
- *           type: number
- *           example: 10
+ *           example: J06.9
+ *         description:
+ *           type: string
+ *           example: Acute upper respiratory infection, unspecified
+ *         chapter:
+ *           type: integer
  *           nullable: true
- *         invoiceDate:
+ *           example: 10
+ *         updatedAt:
  *           type: string
  *           format: date-time
- *           example: 2023-10-15T10:30:00Z
- *         dueDate:
+ *     DiagnosisChapterStats:
+ *       type: object
+ *       properties:
+ *         chapter:
+ *           type: integer
+ *           nullable: true
+ *           description: Null for codes outside the classification
+ *           example: 10
+ *         range:
  *           type: string
- *           format: date
- *           example: 2023-11-15
- *         amount:
- *           type: number
- *           format: float
- *           example: 150.00
- *         status:
+ *           nullable: true
+ *           example: J00-J99
+ *         title:
  *           type: string
- *           enum: [paid, pending, overdue]
- *           example: pending
- *         items:
+ *           example: Diseases of the respiratory system
+ *         count:
+ *           type: integer
+ *           example: 12
+ *         codes:
  *           type: array
  *           items:
  *             type: object
  *             properties:
- *               description:
- *                 type: string
- *                 example: Office Visit - New Patient
  *               code:
  *                 type: string
- *                 example: 99201
- *               amount:
- *                 type: number
- *                 format: float
- *                 example: 85.00
- *         createdAt:
+ *                 example: J06.9
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               count:
+ *                 type: integer
+ */
+
+/**
+ * @swagger
+ * /codes/icd10:
+ *   get:
+ *     summary: Search ICD-10 codes
+ *     description: Typeahead search by code prefix (with or without the dot) or description text. Codes starting with the query come first.
+ *     tags: [Diagnosis Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
  *           type: string
- *           format: date-time
- *         updatedAt:
+ *         example: J06
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: ICD-10 codes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Icd10Code'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /dashboard/diagnoses:
+ *   get:
+ *     summary: Get diagnosis frequency by ICD-10 chapter
+ *     description: Diagnoses recorded in medical records, counted per ICD-10 chapter and code, most frequent first. Codes outside the classification are counted under "Unclassified".
+ *     tags: [Dashboard]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
  *           type: string
- *           format: date-time
- *
- *     PaymentRecord:
+ *           format: date
+ *         description: Only count visits from this date (used together with endDate)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Diagnosis statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DiagnosisChapterStats'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Charge Master
+ *     description: Catalog of billable services, procedures and supplies with their prices. Procedure codes on medical records must be active codes from the catalog, and invoice items with a serviceCode take their description, price and tax rate from it. The bundled catalog is loaded with `npm run charges:import`.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ChargeMasterItemInput:
  *       type: object
+ *       required: [code, description, category, defaultPrice]
  *       properties:
- *         id:
- *           type: string
- *           example: PMT-789012
- *         invoiceId:
- *           type: string
- *           example: INV-123456
- *         patientId:
- *           type: number
- *           example: 5
- *         amount:
- *           type: number
- *           format: float
- *           example: 150.00
- *         paymentDate:
- *           type: string
- *           format: date-time
- *           example: 2023-10-20T14:30:00Z
- *         paymentMethod:
+ *         code:
  *           type: string
- *           enum: [Credit Card, Cash, Insurance, Bank Transfer]
- *           example: Credit Card
- *         transactionId:
- *           type: string
- *           example: TXN-456789
- *         status:
- *           type: string
- *           enum: [completed, pending, failed]
- *           example: completed
- *         createdAt:
+ *           description: CPT, HCPCS or in-house code; stored in upper case. Cannot be changed after creation.
+ *           example: "99213"
+ *         description:
  *           type: string
- *           format: date-time
- *         updatedAt:
+ *           example: Office Visit - Established Patient
+ *         category:
  *           type: string
- *           format: date-time
- *
- *     Notification:
- *       type: object
- *       properties:
- *         id:
+ *           enum: [visit, procedure, laboratory, imaging, medication, supply, other]
+ *         defaultPrice:
  *           type: number
- *           example: 1
- *         userId:
+ *           minimum: 0
+ *           example: 65.00
+ *         taxRate:
  *           type: number
- *           example: 5
- *         type:
- *           type: string
- *           enum: [appointment, system, billing, message]
- *           example: appointment
- *         title:
- *           type: string
- *           example: Upcoming Appointment
- *         content:
+ *           minimum: 0
+ *           maximum: 100
+ *           default: 0
+ *           description: Percentage added to the price on invoices
+ *           example: 8.25
+ *         activeFrom:
  *           type: string
- *           example: You have an appointment scheduled for tomorrow at 10:00 AM
- *         isRead:
- *           type: boolean
- *           example: false
- *         readAt:
+ *           format: date
+ *           nullable: true
+ *           description: First date the code can be billed; null for no start date
+ *         activeTo:
  *           type: string
- *           format: date-time
+ *           format: date
  *           nullable: true
- *         createdAt:
+ *           description: Last date the code can be billed; null for no end date
+ *     ChargeMasterItem:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ChargeMasterItemInput'
+ *         - type: object
+ *           properties:
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ *             updatedAt:
+ *               type: string
+ *               format: date-time
+ */
+
+/**
+ * @swagger
+ * /billing/charge-master:
+ *   get:
+ *     summary: List the charge master
+ *     tags: [Charge Master]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
  *           type: string
- *           format: date-time
- *         updatedAt:
+ *         description: Code prefix or description text
+ *       - in: query
+ *         name: category
+ *         schema:
  *           type: string
- *           format: date-time
+ *           enum: [visit, procedure, laboratory, imaging, medication, supply, other]
+ *       - in: query
+ *         name: activeOn
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only entries that can be billed on this date
+ *     responses:
+ *       200:
+ *         description: Charge master retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChargeMasterItem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *   post:
+ *     summary: Add a charge master entry
+ *     tags: [Charge Master]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChargeMasterItemInput'
+ *     responses:
+ *       201:
+ *         description: Charge master entry created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ChargeMasterItem'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: The code already exists
  */
 
 /**
  * @swagger
- * tags:
- *   - name: Billing
- *     description: Billing and payment management endpoints
- *   - name: Notifications
- *     description: User notification endpoints
+ * /billing/charge-master/import:
+ *   post:
+ *     summary: Import charge master entries from CSV
+ *     description: The header must name the code, description, category and defaultPrice columns; taxRate, activeFrom and activeTo are optional. Entries already in the catalog are replaced and no entries are removed. A file with any invalid line is rejected without importing anything.
+ *     tags: [Charge Master]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               code,description,category,defaultPrice,taxRate,activeFrom,activeTo
+ *               99213,Office Visit - Established Patient,visit,65.00,0,,
+ *     responses:
+ *       200:
+ *         description: Charge master imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     imported:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                       description: Entries in the catalog after the import
+ *       400:
+ *         description: Invalid file, with the problem on each invalid line
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  */
 
 /**
  * @swagger
- * /billing/{id}:
+ * /billing/charge-master/{code}:
+ *   parameters:
+ *     - in: path
+ *       name: code
+ *       required: true
+ *       schema:
+ *         type: string
  *   get:
- *     summary: Get billing record by ID
- *     description: Retrieve details for a specific billing record
- *     tags: [Billing]
+ *     summary: Get a charge master entry
+ *     tags: [Charge Master]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Billing record ID (invoice number)
  *     responses:
  *       200:
- *         description: Billing record retrieved successfully
+ *         description: Charge master entry retrieved successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/BillingRecord'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
+ *                   $ref: '#/components/schemas/ChargeMasterItem'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   put:
+ *     summary: Update a charge master entry
+ *     description: Invoices already created keep the prices they were created with.
+ *     tags: [Charge Master]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 enum: [visit, procedure, laboratory, imaging, medication, supply, other]
+ *               defaultPrice:
+ *                 type: number
+ *               taxRate:
+ *                 type: number
+ *               activeFrom:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               activeTo:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Charge master entry updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: Delete a charge master entry
+ *     description: To stop billing a code while keeping it in the catalog, set activeTo instead.
+ *     tags: [Charge Master]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Charge master entry deleted successfully
  *       403:
  *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /billing/{id}/payment:
+ * /billing/invoices:
  *   post:
- *     summary: Record a payment for a billing record
- *     description: Process and record a payment for an existing billing record
+ *     summary: Create an invoice
+ *     description: Items with a serviceCode must use an active charge master code and take their description, unit price and tax rate from the catalog unless given. Each item amount is quantity times unit price plus tax.
  *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *         description: Billing record ID (invoice number)
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required: [amount, paymentMethod]
+ *             required: [patientId, dueDate, items]
  *             properties:
- *               amount:
- *                 type: number
- *                 format: float
- *                 example: 150.00
- *               paymentMethod:
+ *               patientId:
+ *                 type: integer
+ *               appointmentId:
  *                 type: string
- *                 enum: [Credit Card, Cash, Insurance, Bank Transfer]
- *                 example: Credit Card
- *               transactionId:
+ *               status:
  *                 type: string
- *                 example: TXN-456789
+ *                 enum: [draft, sent, overdue, cancelled]
+ *                 description: paid and partially_paid are set by recording payments
+ *               dueDate:
+ *                 type: string
+ *                 format: date
  *               notes:
  *                 type: string
- *                 example: Payment for initial consultation
+ *               items:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: object
+ *                   required: [quantity]
+ *                   properties:
+ *                     serviceCode:
+ *                       type: string
+ *                       example: "99213"
+ *                     description:
+ *                       type: string
+ *                       description: Required without a serviceCode
+ *                     quantity:
+ *                       type: integer
+ *                       minimum: 1
+ *                     unitPrice:
+ *                       type: number
+ *                       description: Required without a serviceCode
+ *                     taxRate:
+ *                       type: number
+ *                       description: Percentage
  *     responses:
- *       200:
- *         description: Payment recorded successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: Payment recorded successfully
- *                 data:
- *                   $ref: '#/components/schemas/PaymentRecord'
+ *       201:
+ *         description: Invoice created successfully
  *       400:
  *         $ref: '#/components/responses/BadRequest'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
  *       403:
  *         $ref: '#/components/responses/Forbidden'
- *       404:
- *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/ServerError'
  */
 
 /**
  * @swagger
- * /notifications:
+ * /billing/invoices/review-queue:
  *   get:
- *     summary: Get user notifications
- *     description: Retrieve notifications for the current authenticated user
- *     tags: [Notifications]
+ *     summary: Get the invoice review queue
+ *     description: Draft invoices generated when an appointment is completed or a medical record is signed, oldest first. Each is priced from the fee schedule and charge master; codes that could not be billed are listed in its notes. Generated invoices are hidden from the patient portal and cannot be sent until approved.
+ *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: unreadOnly
- *         schema:
- *           type: boolean
- *           default: false
- *         description: Only fetch unread notifications
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 20
- *         description: Maximum number of notifications to return
  *     responses:
  *       200:
- *         description: Notifications retrieved successfully
+ *         description: Invoice review queue retrieved successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
  *                 data:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/Notification'
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       500:
- *         $ref: '#/components/responses/ServerError'
+ *                     $ref: '#/components/schemas/BillingRecord'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  */
 
 /**
  * @swagger
- * /notifications/{id}/read:
+ * /billing/invoices/{id}/approve:
  *   post:
- *     summary: Mark notification as read
- *     description: Mark a specific notification as read
- *     tags: [Notifications]
+ *     summary: Approve a generated invoice
+ *     description: Records the reviewer and sends the invoice, which removes it from the review queue.
+ *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -2400,63 +6704,151 @@
  *         required: true
  *         schema:
  *           type: integer
- *           format: int64
- *         description: Notification ID
  *     responses:
  *       200:
- *         description: Notification marked as read
+ *         description: Invoice approved and sent successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: Notification marked as read
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
+ *                 data:
+ *                   $ref: '#/components/schemas/BillingRecord'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
- *       500:
- *         $ref: '#/components/responses/ServerError'
+ *       409:
+ *         description: The invoice is not a generated draft awaiting review
  */
 
 /**
  * @swagger
- * /notifications/read-all:
+ * /billing/payments:
  *   post:
- *     summary: Mark all notifications as read
- *     description: Mark all of the current user's notifications as read
- *     tags: [Notifications]
+ *     summary: Record a payment
+ *     description: The balance check, the payment and the invoice update happen in one transaction. The invoice's amountPaid, balance and paid or partially_paid status are recalculated from its payments; they cannot be set through PUT /billing/invoices/{id}. An amount above the balance is refused unless overpayment is credit, when the invoice is paid in full and the excess is added to the patient's credit balance.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Client-chosen key for the payment. Sending the same request again with the key returns the payment already recorded with status 200 instead of recording it twice.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [invoiceId, amount, paymentMethod]
+ *             properties:
+ *               invoiceId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 minimum: 0.01
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [cash, credit_card, debit_card, insurance, bank_transfer, check]
+ *               transactionId:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               overpayment:
+ *                 type: string
+ *                 enum: [reject, credit]
+ *                 default: reject
+ *     responses:
+ *       200:
+ *         description: Payment already recorded for this Idempotency-Key
+ *       201:
+ *         description: Payment recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     invoiceId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                       description: Amount applied to the invoice
+ *                     creditedAmount:
+ *                       type: number
+ *                       description: Amount added to the patient's credit balance
+ *                     idempotencyKey:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         description: The amount exceeds the balance or the invoice is already paid in full
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The Idempotency-Key was already used for a different payment, the invoice is cancelled, or it is a generated invoice not yet approved from the review queue
+ */
+
+/**
+ * @swagger
+ * /billing/patients/{patientId}/credit:
+ *   get:
+ *     summary: Get a patient's credit balance
+ *     description: The balance is the sum of the patient's credit entries, newest listed first.
+ *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
- *         description: All notifications marked as read
+ *         description: Patient credit retrieved successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: All notifications marked as read
  *                 data:
  *                   type: object
  *                   properties:
- *                     count:
+ *                     patientId:
  *                       type: integer
- *                       example: 5
- *       401:
- *         $ref: '#/components/responses/Unauthorized'
- *       500:
- *         $ref: '#/components/responses/ServerError'
+ *                     balance:
+ *                       type: number
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           amount:
+ *                             type: number
+ *                           paymentId:
+ *                             type: string
+ *                           invoiceId:
+ *                             type: string
+ *                           notes:
+ *                             type: string
+ *                           createdBy:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 
 /**
@@ -0,0 +1,156 @@
+import { Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+import auditService from "../services/auditService";
+import AuditLogModel from "../models/AuditLog";
+import { AuditResourceType } from "../types/audit";
+
+// Extend Express Request type
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Accept caller-supplied request IDs only when they look like an identifier
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Parse a patient ID from a request value
+ * @private
+ */
+const toPatientId = (value: unknown): number | null => {
+  const id = parseInt(String(value ?? ""));
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * Get the distinct patients behind the items of a list response
+ * @private
+ */
+const listedPatientIds = (
+  resourceType: AuditResourceType,
+  items: any[]
+): number[] => {
+  const ids = items
+    .map((item) =>
+      toPatientId(resourceType === "patient" ? item?.id : item?.patientId)
+    )
+    .filter((id): id is number => id !== null);
+
+  return Array.from(new Set(ids));
+};
+
+/**
+ * Tag each request with an ID, reusing the caller's X-Request-Id if valid,
+ * and echo it back so log lines and audit entries can be correlated
+ */
+export const assignRequestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.header("x-request-id");
+  req.requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+  res.setHeader("X-Request-Id", req.requestId);
+  next();
+};
+
+/**
+ * Router param handler that looks up which patient a medical record,
+ * appointment or invoice belongs to before the route runs, so the audit
+ * entry still names the patient after the resource is deleted
+ */
+export const resolveAuditPatient = (
+  resourceType: Exclude<AuditResourceType, "patient">
+) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    id: string
+  ): Promise<void> => {
+    res.locals.auditPatientId = await AuditLogModel.findResourcePatientId(
+      resourceType,
+      id
+    );
+    next();
+  };
+};
+
+/**
+ * Write an audit entry for every request to a router serving patient data.
+ * The entry is written once the response is sent so the outcome is known;
+ * it must run after authenticate so the actor is available. A list spanning
+ * several patients is written as one entry per patient, so each patient's
+ * access report includes it.
+ */
+export const auditAccess = (resourceType: AuditResourceType) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Remember the ID of anything the handler creates and the patients
+    // behind any list it returns
+    let createdId: string | null = null;
+    let listedPatients: number[] = [];
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (Array.isArray(body?.data)) {
+        listedPatients = listedPatientIds(resourceType, body.data);
+      } else if (body?.data?.id !== undefined && body.data.id !== null) {
+        createdId = String(body.data.id);
+      }
+      return json(body);
+    };
+
+    res.on("finish", () => {
+      const params = req.params || {};
+      const body = req.body || {};
+
+      let resourceId: string | null = params.id ?? null;
+      if (!resourceId && resourceType === "invoice" && body.invoiceId) {
+        // Payments are recorded against the invoice they settle
+        resourceId = String(body.invoiceId);
+      }
+      if (!resourceId && req.method === "POST" && res.statusCode < 400) {
+        resourceId = createdId;
+      }
+
+      const patientId =
+        toPatientId(res.locals.auditPatientId) ??
+        toPatientId(params.patientId) ??
+        (resourceType === "patient" ? toPatientId(resourceId) : null) ??
+        toPatientId(body.patientId) ??
+        toPatientId(req.query.patientId) ??
+        // Portal requests only ever touch the account's own patient
+        toPatientId(req.user?.patientId);
+
+      const context = {
+        actorId: req.user?.userId ?? null,
+        actorRole: req.user?.role ?? null,
+        resourceType,
+        resourceId,
+        patientId,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        requestId: req.requestId ?? null,
+      };
+
+      if (patientId === null && listedPatients.length > 0) {
+        for (const listedPatientId of listedPatients) {
+          void auditService.recordAccess({
+            ...context,
+            patientId: listedPatientId,
+          });
+        }
+        return;
+      }
+
+      void auditService.recordAccess(context);
+    });
+
+    next();
+  };
+};
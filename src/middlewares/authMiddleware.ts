@@ -3,6 +3,14 @@ import jwt from "jsonwebtoken";
 import { TokenPayload } from "../utils/tokenUtils";
 import { errorResponse } from "../utils/apiResponse";
 import { env } from "../config/env";
+import sessionService from "../services/sessionService";
+import permissionService from "../services/permissionService";
+import careTeamService, {
+  CHART_ACCESS_DENIED_MESSAGE,
+} from "../services/careTeamService";
+import UserModel from "../models/User";
+import PatientModel from "../models/Patient";
+import { Permission, UserRole } from "../types/auth";
 
 // Extend Express Request type
 declare global {
@@ -42,6 +50,12 @@ export const authenticate = async (
     // Use a proper type assertion with non-null assertion for JWT_SECRET
     const decoded = jwt.verify(token, env.JWT_SECRET) as jwt.JwtPayload;
 
+    // Tokens must belong to a session that has not been revoked
+    if (!decoded.jti || !(await sessionService.isSessionActive(decoded.jti))) {
+      res.status(401).json(errorResponse("Unauthorized - Session revoked"));
+      return;
+    }
+
     // Normalize the token data structure based on what might be available
     req.user = {
       userId:
@@ -57,6 +71,7 @@ export const authenticate = async (
       permissions: Array.isArray(decoded.permissions)
         ? decoded.permissions
         : [],
+      sessionId: decoded.jti,
     };
 
     next();
@@ -85,3 +100,126 @@ export const authorize = (roles: string[]) => {
     next();
   };
 };
+
+/**
+ * Require the authenticated user to hold every listed permission.
+ * Permissions are resolved from the user's current role and per-user
+ * grants/denials, so changes take effect without re-issuing tokens.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res
+        .status(401)
+        .json(errorResponse("Unauthorized - Authentication required"));
+      return;
+    }
+
+    try {
+      const effective = await permissionService.getUserPermissions(
+        req.user.userId
+      );
+      req.user.permissions = effective;
+
+      if (!permissions.every((permission) => effective.includes(permission))) {
+        res
+          .status(403)
+          .json(errorResponse("Forbidden - Insufficient permissions"));
+        return;
+      }
+
+      next();
+    } catch (err) {
+      console.error("Permission check failed:", err);
+      res.status(500).json(errorResponse("Failed to verify permissions"));
+    }
+  };
+};
+
+/**
+ * Check that the authenticated user may access a patient's chart - they are
+ * on its care team, hold break-glass access or may view all records -
+ * sending a 403 if not. Handlers that only learn the patient from the
+ * resource they load call this directly.
+ * @returns Whether the request may go on
+ */
+export const ensureChartAccess = async (
+  req: Request,
+  res: Response,
+  patientId: number
+): Promise<boolean> => {
+  if (
+    await careTeamService.canAccessChart(req.user?.userId as number, patientId)
+  ) {
+    return true;
+  }
+
+  res.status(403).json(errorResponse(CHART_ACCESS_DENIED_MESSAGE));
+  return false;
+};
+
+/**
+ * Require access to the chart of the patient in the :id route parameter.
+ * Must run after authenticate.
+ */
+export const requireChartAccess = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (await ensureChartAccess(req, res, parseInt(req.params.id))) {
+      next();
+    }
+  } catch (err) {
+    console.error("Chart access check failed:", err);
+    res.status(500).json(errorResponse("Failed to verify chart access"));
+  }
+};
+
+/**
+ * Require a patient-portal account linked to a patient record.
+ * The linked record is read from the database and exposed as
+ * req.user.patientId; portal handlers must only ever use that ID.
+ */
+export const requirePatientAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    res
+      .status(401)
+      .json(errorResponse("Unauthorized - Authentication required"));
+    return;
+  }
+
+  try {
+    const user = await UserModel.findById(req.user.userId);
+    if (!user || user.role !== UserRole.PATIENT) {
+      res
+        .status(403)
+        .json(errorResponse("Forbidden - Patient account required"));
+      return;
+    }
+
+    if (!user.patientId || !(await PatientModel.findById(user.patientId))) {
+      res
+        .status(403)
+        .json(
+          errorResponse("Forbidden - No patient record linked to this account")
+        );
+      return;
+    }
+
+    req.user.patientId = user.patientId;
+    next();
+  } catch (err) {
+    console.error("Patient account check failed:", err);
+    res.status(500).json(errorResponse("Failed to verify patient account"));
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { body, param, query, validationResult } from "express-validator";
+import { validatePassword } from "../services/passwordPolicyService";
 
 /**
  * Apply validation rules and handle errors
@@ -108,12 +109,13 @@ export const validateUserRegistration = validate([
   body("password")
     .notEmpty()
     .withMessage("Password is required")
-    .isLength({ min: 8 })
-    .withMessage("Password must be at least 8 characters long")
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage(
-      "Password must contain at least one uppercase letter, one lowercase letter, and one number"
-    ),
+    .custom((value, { req }) => {
+      const errors = validatePassword(value, req.body);
+      if (errors.length > 0) {
+        throw new Error(errors.join(". "));
+      }
+      return true;
+    }),
 
   body("firstName")
     .notEmpty()
@@ -1,5 +1,6 @@
 import db from "../config/database";
 import { logger } from "../utils/logger";
+import { decryptField } from "../utils/fieldEncryption";
 import {
   Appointment,
   AppointmentWithNames,
@@ -36,6 +37,17 @@ export const createAppointmentsTable = async (): Promise<void> => {
   }
 };
 
+/**
+ * Decrypt the patient phone number joined from the patients table
+ * @private
+ */
+const withPatientPhone = (
+  appointment: AppointmentWithNames
+): AppointmentWithNames => ({
+  ...appointment,
+  patientPhone: decryptField(appointment.patientPhone),
+});
+
 /**
  * Get all appointments
  */
@@ -51,11 +63,12 @@ export const getAllAppointments = async (): Promise<AppointmentWithNames[]> => {
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
+      WHERE p.deletedAt IS NULL
       ORDER BY a.startTime DESC
     `;
 
     const appointments = db.prepare(query).all() as AppointmentWithNames[];
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error("Error getting all appointments:", error);
     return [];
@@ -81,13 +94,14 @@ export const getAppointmentsByDateRange = async (
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
       WHERE date(a.startTime) >= date(?) AND date(a.startTime) <= date(?)
+        AND p.deletedAt IS NULL
       ORDER BY a.startTime
     `;
 
     const appointments = db
       .prepare(query)
       .all(startDate, endDate) as AppointmentWithNames[];
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error(
       `Error getting appointments between ${startDate} and ${endDate}:`,
@@ -114,11 +128,11 @@ export const getAppointmentById = async (
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
-      WHERE a.id = ?
+      WHERE a.id = ? AND p.deletedAt IS NULL
     `;
 
     const appointment = db.prepare(query).get(id) as AppointmentWithNames;
-    return appointment || null;
+    return appointment ? withPatientPhone(appointment) : null;
   } catch (error) {
     logger.error(`Error getting appointment with id ${id}:`, error);
     return null;
@@ -142,14 +156,14 @@ export const getAppointmentsByPatientId = async (
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
-      WHERE a.patientId = ?
+      WHERE a.patientId = ? AND p.deletedAt IS NULL
       ORDER BY a.startTime DESC
     `;
 
     const appointments = db
       .prepare(query)
       .all(patientId) as AppointmentWithNames[];
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error(`Error getting appointments for patient ${patientId}:`, error);
     return [];
@@ -173,14 +187,14 @@ export const getAppointmentsByDoctorId = async (
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
-      WHERE a.doctorId = ?
+      WHERE a.doctorId = ? AND p.deletedAt IS NULL
       ORDER BY a.startTime DESC
     `;
 
     const appointments = db
       .prepare(query)
       .all(doctorId) as AppointmentWithNames[];
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error(`Error getting appointments for doctor ${doctorId}:`, error);
     return [];
@@ -337,13 +351,14 @@ export const searchAppointments = async (
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
-      WHERE 
+      WHERE p.deletedAt IS NULL AND (
         a.title LIKE ? OR
         a.notes LIKE ? OR
         p.firstName LIKE ? OR
         p.lastName LIKE ? OR
         s.firstName LIKE ? OR
         s.lastName LIKE ?
+      )
       ORDER BY a.startTime DESC
     `;
 
@@ -359,7 +374,7 @@ export const searchAppointments = async (
         searchPattern
       ) as AppointmentWithNames[];
 
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error(
       `Error searching appointments with term '${searchTerm}':`,
@@ -434,6 +449,7 @@ export const getUpcomingAppointments = async (
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
       WHERE a.startTime >= ? AND a.status = 'scheduled'
+        AND p.deletedAt IS NULL
       ORDER BY a.startTime ASC
       LIMIT ?
     `;
@@ -441,7 +457,7 @@ export const getUpcomingAppointments = async (
     const appointments = db
       .prepare(query)
       .all(now, limit) as AppointmentWithNames[];
-    return appointments;
+    return appointments.map(withPatientPhone);
   } catch (error) {
     logger.error(`Error getting upcoming appointments:`, error);
     return [];
@@ -0,0 +1,209 @@
+import db, { DbAuditLogRow, CountResult } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import {
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditResourceType,
+  PatientAccessReportEntry,
+} from "../types/audit";
+
+// Tables holding the patient ID of each audited resource that is not a patient
+const PATIENT_LOOKUP_TABLES: Record<
+  Exclude<AuditResourceType, "patient">,
+  string
+> = {
+  medical_record: "medical_records",
+  appointment: "appointments",
+  invoice: "invoices",
+  break_glass: "break_glass_grants",
+  lab_result: "lab_results",
+};
+
+/**
+ * Build the WHERE clause for audit log filters
+ * @private
+ */
+const buildWhere = (
+  filters: AuditLogFilters
+): { where: string; params: (string | number)[] } => {
+  let where = " WHERE 1 = 1";
+  const params: (string | number)[] = [];
+
+  if (filters.actorId) {
+    where += " AND a.actorId = ?";
+    params.push(filters.actorId);
+  }
+
+  if (filters.patientId) {
+    where += " AND a.patientId = ?";
+    params.push(filters.patientId);
+  }
+
+  if (filters.resourceType) {
+    where += " AND a.resourceType = ?";
+    params.push(filters.resourceType);
+  }
+
+  if (filters.resourceId) {
+    where += " AND a.resourceId = ?";
+    params.push(filters.resourceId);
+  }
+
+  if (filters.action) {
+    where += " AND a.action = ?";
+    params.push(filters.action);
+  }
+
+  if (filters.from) {
+    where += " AND a.createdAt >= ?";
+    params.push(filters.from);
+  }
+
+  if (filters.to) {
+    where += " AND a.createdAt <= ?";
+    params.push(filters.to);
+  }
+
+  return { where, params };
+};
+
+/**
+ * Append an entry to the audit log
+ */
+export const create = async (
+  entry: Omit<AuditLogEntry, "id" | "createdAt">
+): Promise<boolean> => {
+  try {
+    db.prepare(
+      `INSERT INTO audit_log (
+        actorId, actorRole, action, resourceType, resourceId, patientId,
+        method, path, statusCode, ipAddress, requestId, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      entry.actorId,
+      entry.actorRole,
+      entry.action,
+      entry.resourceType,
+      entry.resourceId,
+      entry.patientId,
+      entry.method,
+      entry.path,
+      entry.statusCode,
+      entry.ipAddress,
+      entry.requestId,
+      new Date().toISOString()
+    );
+
+    return true;
+  } catch (error) {
+    logger.error("Error writing audit log entry:", error);
+    return false;
+  }
+};
+
+/**
+ * Find audit log entries matching the filters, newest first
+ */
+export const find = async (
+  filters: AuditLogFilters = {}
+): Promise<AuditLogEntry[]> => {
+  try {
+    const { where, params } = buildWhere(filters);
+    let query = `SELECT a.* FROM audit_log a${where} ORDER BY a.id DESC`;
+
+    if (filters.limit) {
+      query += " LIMIT ? OFFSET ?";
+      params.push(filters.limit, ((filters.page || 1) - 1) * filters.limit);
+    }
+
+    return db.prepare(query).all(...params) as DbAuditLogRow[];
+  } catch (error) {
+    logger.error("Error finding audit log entries:", error);
+    return [];
+  }
+};
+
+/**
+ * Count audit log entries matching the filters
+ */
+export const count = async (filters: AuditLogFilters = {}): Promise<number> => {
+  try {
+    const { where, params } = buildWhere(filters);
+    const result = db
+      .prepare(`SELECT COUNT(*) as count FROM audit_log a${where}`)
+      .get(...params) as CountResult;
+
+    return result.count;
+  } catch (error) {
+    logger.error("Error counting audit log entries:", error);
+    return 0;
+  }
+};
+
+/**
+ * Find successful accesses to a patient's data with the name of each actor,
+ * newest first
+ */
+export const findPatientAccess = async (
+  patientId: number
+): Promise<PatientAccessReportEntry[]> => {
+  try {
+    return db
+      .prepare(
+        `SELECT
+          a.createdAt as accessedAt,
+          a.actorId,
+          CASE WHEN u.id IS NULL THEN NULL
+            ELSE u.firstName || ' ' || u.lastName END as actorName,
+          a.actorRole,
+          a.action,
+          a.resourceType,
+          a.resourceId
+        FROM audit_log a
+        LEFT JOIN users u ON u.id = a.actorId
+        WHERE a.patientId = ? AND a.statusCode < 400
+        ORDER BY a.id DESC`
+      )
+      .all(patientId) as PatientAccessReportEntry[];
+  } catch (error) {
+    logger.error(
+      `Error finding access report for patient ${patientId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Look up the patient a medical record, appointment or invoice belongs to
+ */
+export const findResourcePatientId = async (
+  resourceType: Exclude<AuditResourceType, "patient">,
+  resourceId: string
+): Promise<number | null> => {
+  try {
+    const row = db
+      .prepare(
+        `SELECT patientId FROM ${PATIENT_LOOKUP_TABLES[resourceType]} WHERE id = ?`
+      )
+      .get(resourceId) as { patientId: number } | undefined;
+
+    return row ? row.patientId : null;
+  } catch (error) {
+    logger.error(
+      `Error finding patient for ${resourceType} ${resourceId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+export const AuditLogModel = {
+  create,
+  find,
+  count,
+  findPatientAccess,
+  findResourcePatientId,
+};
+
+export default AuditLogModel;
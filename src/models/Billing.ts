@@ -7,7 +7,12 @@ import {
   Payment,
   InvoiceWithItems,
   InvoiceStatus,
+  OverpaymentHandling,
+  PatientCredit,
+  PatientCreditBalance,
   PaymentMethod,
+  PaymentPostingResult,
+  RecordedPayment,
 } from "../types/billing";
 
 /**
@@ -204,6 +209,39 @@ export const getInvoiceItems = async (
   }
 };
 
+/**
+ * Insert the items of an invoice
+ * @private
+ */
+const insertInvoiceItems = (
+  invoiceId: string,
+  items: Omit<InvoiceItem, "id" | "invoiceId" | "createdAt" | "updatedAt">[],
+  now: string
+): void => {
+  const itemInsertStmt = db.prepare(`
+    INSERT INTO invoice_items (
+      id, invoiceId, description, quantity, unitPrice, amount,
+      serviceCode, taxRate, createdAt, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const item of items) {
+    const itemId = `ITEM-${uuidv4().split("-")[0]}`;
+    itemInsertStmt.run(
+      itemId,
+      invoiceId,
+      item.description,
+      item.quantity,
+      item.unitPrice,
+      item.amount,
+      item.serviceCode || null,
+      item.taxRate || null,
+      now,
+      now
+    );
+  }
+};
+
 /**
  * Create a new invoice
  */
@@ -216,53 +254,37 @@ export const createInvoice = async (
     const now = new Date().toISOString();
     const invoiceId = `INV-${uuidv4().split("-")[0]}`;
 
-    // Insert invoice
-    db.prepare(
+    db.transaction(() => {
+      // Insert invoice
+      db.prepare(
+        `
+        INSERT INTO invoices (
+          id, patientId, appointmentId, totalAmount, amountPaid, balance,
+          status, dueDate, paidDate, paymentMethod, notes, source,
+          medicalRecordId, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
-      INSERT INTO invoices (
-        id, patientId, appointmentId, totalAmount, amountPaid, balance,
-        status, dueDate, paidDate, paymentMethod, notes, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `
-    ).run(
-      invoiceId,
-      data.patientId,
-      data.appointmentId || null,
-      data.totalAmount,
-      data.amountPaid,
-      data.balance,
-      data.status,
-      data.dueDate,
-      data.paidDate || null,
-      data.paymentMethod || null,
-      data.notes || null,
-      now,
-      now
-    );
-
-    // Insert invoice items
-    const itemInsertStmt = db.prepare(`
-      INSERT INTO invoice_items (
-        id, invoiceId, description, quantity, unitPrice, amount,
-        serviceCode, taxRate, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    for (const item of data.items) {
-      const itemId = `ITEM-${uuidv4().split("-")[0]}`;
-      itemInsertStmt.run(
-        itemId,
+      ).run(
         invoiceId,
-        item.description,
-        item.quantity,
-        item.unitPrice,
-        item.amount,
-        item.serviceCode || null,
-        item.taxRate || null,
+        data.patientId,
+        data.appointmentId || null,
+        data.totalAmount,
+        data.amountPaid,
+        data.balance,
+        data.status,
+        data.dueDate,
+        data.paidDate || null,
+        data.paymentMethod || null,
+        data.notes || null,
+        data.source || "manual",
+        data.medicalRecordId || null,
         now,
         now
       );
-    }
+
+      // Insert invoice items
+      insertInvoiceItems(invoiceId, data.items, now);
+    })();
 
     return (await getInvoiceById(invoiceId)) as InvoiceWithItems;
   } catch (error) {
@@ -271,6 +293,112 @@ export const createInvoice = async (
   }
 };
 
+/**
+ * Find the invoice billing a visit, by its appointment or medical record
+ * @returns The most recent such invoice, or null if the visit has none
+ */
+export const getVisitInvoice = async (
+  appointmentId: number | null,
+  medicalRecordId: number | null
+): Promise<InvoiceWithItems | null> => {
+  try {
+    // Older invoices store the appointment ID as text such as "2.0"
+    const invoice = db
+      .prepare(
+        `
+      SELECT * FROM invoices
+      WHERE CAST(appointmentId AS INTEGER) = ? OR medicalRecordId = ?
+      ORDER BY createdAt DESC
+      LIMIT 1
+    `
+      )
+      .get(appointmentId ?? -1, medicalRecordId ?? -1) as Invoice | undefined;
+
+    if (!invoice) {
+      return null;
+    }
+
+    return { ...invoice, items: await getInvoiceItems(invoice.id) };
+  } catch (error) {
+    logger.error("Error getting visit invoice:", error);
+    throw new Error("Failed to retrieve invoice");
+  }
+};
+
+/**
+ * Replace the items and totals of an invoice that has no payments, along
+ * with the visit it bills
+ */
+export const replaceInvoiceItems = async (
+  id: string,
+  data: Pick<
+    Invoice,
+    "totalAmount" | "appointmentId" | "medicalRecordId" | "dueDate" | "notes"
+  > & {
+    items: Omit<InvoiceItem, "id" | "invoiceId" | "createdAt" | "updatedAt">[];
+  }
+): Promise<InvoiceWithItems | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare("DELETE FROM invoice_items WHERE invoiceId = ?").run(id);
+      insertInvoiceItems(id, data.items, now);
+
+      db.prepare(
+        `
+        UPDATE invoices
+        SET totalAmount = ?, balance = ? - amountPaid, appointmentId = ?,
+            medicalRecordId = ?, dueDate = ?, notes = ?, updatedAt = ?
+        WHERE id = ?
+      `
+      ).run(
+        data.totalAmount,
+        data.totalAmount,
+        data.appointmentId || null,
+        data.medicalRecordId || null,
+        data.dueDate,
+        data.notes || null,
+        now,
+        id
+      );
+    })();
+
+    return await getInvoiceById(id);
+  } catch (error) {
+    logger.error(`Error replacing items of invoice ${id}:`, error);
+    throw new Error("Failed to update invoice");
+  }
+};
+
+/**
+ * Get the generated draft invoices waiting for billing staff to review,
+ * oldest first
+ */
+export const getReviewQueue = async (): Promise<InvoiceWithItems[]> => {
+  try {
+    const invoices = db
+      .prepare(
+        `
+      SELECT * FROM invoices
+      WHERE source = 'generated' AND status = 'draft' AND reviewedAt IS NULL
+      ORDER BY createdAt ASC
+    `
+      )
+      .all() as Invoice[];
+
+    return await Promise.all(
+      invoices.map(async (invoice) => {
+        const items = await getInvoiceItems(invoice.id);
+        return { ...invoice, items };
+      })
+    );
+  } catch (error) {
+    logger.error("Error getting the invoice review queue:", error);
+    throw new Error("Failed to retrieve the invoice review queue");
+  }
+};
+
 /**
  * Update an invoice
  */
@@ -367,78 +495,234 @@ export const getInvoicePayments = async (
   }
 };
 
+export const CANCELLED_INVOICE_PAYMENT_MESSAGE =
+  "Cancelled invoices cannot take payments";
+
+export const UNREVIEWED_INVOICE_PAYMENT_MESSAGE =
+  "Generated invoices must be approved from the review queue before they are paid";
+
+/**
+ * Round an amount to cents, so sums of payments compare exactly
+ * @private
+ */
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Get a payment with the amount credited to the patient from it
+ * @private
+ */
+const getRecordedPayment = (paymentId: string): RecordedPayment => {
+  const payment = db
+    .prepare("SELECT * FROM payments WHERE id = ?")
+    .get(paymentId) as Payment;
+  const { credited } = db
+    .prepare(
+      "SELECT COALESCE(SUM(amount), 0) as credited FROM patient_credits WHERE paymentId = ?"
+    )
+    .get(paymentId) as { credited: number };
+
+  return { ...payment, creditedAmount: roundAmount(credited) };
+};
+
+/**
+ * Set an invoice's amount paid, balance and status from its payments.
+ * Must run inside the transaction that changed the payments.
+ * @private
+ */
+const applyPaymentTotals = (
+  invoiceId: string,
+  paymentMethod: PaymentMethod,
+  now: string
+): void => {
+  const invoice = db
+    .prepare("SELECT totalAmount, status, paidDate FROM invoices WHERE id = ?")
+    .get(invoiceId) as Pick<Invoice, "totalAmount" | "status" | "paidDate">;
+  const { paid } = db
+    .prepare(
+      "SELECT COALESCE(SUM(amount), 0) as paid FROM payments WHERE invoiceId = ?"
+    )
+    .get(invoiceId) as { paid: number };
+
+  const amountPaid = roundAmount(paid);
+  const balance = roundAmount(invoice.totalAmount - amountPaid);
+  let status: InvoiceStatus = invoice.status;
+  if (balance <= 0) {
+    status = "paid";
+  } else if (amountPaid > 0) {
+    status = "partially_paid";
+  }
+
+  db.prepare(
+    `UPDATE invoices
+     SET amountPaid = ?, balance = ?, status = ?, paidDate = ?,
+         paymentMethod = ?, updatedAt = ?
+     WHERE id = ?`
+  ).run(
+    amountPaid,
+    balance,
+    status,
+    status === "paid" ? invoice.paidDate || now : null,
+    paymentMethod,
+    now,
+    invoiceId
+  );
+};
+
 /**
- * Record a payment
+ * Record a payment. The balance is checked, the payment and any patient
+ * credit are inserted and the invoice totals are recalculated from its
+ * payments in one transaction, so concurrent payments cannot lose updates.
+ * A payment with an idempotency key already used returns the payment
+ * recorded for it.
  */
 export const recordPayment = async (
-  data: Omit<Payment, "id" | "createdAt" | "updatedAt">
-): Promise<Payment> => {
+  data: Omit<Payment, "id" | "createdAt" | "updatedAt">,
+  overpayment: OverpaymentHandling = "reject"
+): Promise<PaymentPostingResult> => {
   try {
     const now = new Date().toISOString();
-    const paymentId = `PAY-${uuidv4().split("-")[0]}`;
 
-    // Insert payment
-    db.prepare(
+    const post = db.transaction((): PaymentPostingResult => {
+      if (data.idempotencyKey) {
+        const existing = db
+          .prepare("SELECT id FROM payments WHERE idempotencyKey = ?")
+          .get(data.idempotencyKey) as { id: string } | undefined;
+
+        if (existing) {
+          const payment = getRecordedPayment(existing.id);
+          const tendered = roundAmount(payment.amount + payment.creditedAmount);
+          if (
+            payment.invoiceId !== data.invoiceId ||
+            tendered !== roundAmount(data.amount) ||
+            payment.paymentMethod !== data.paymentMethod
+          ) {
+            return {
+              rejection:
+                "Idempotency-Key has already been used for a different payment",
+            };
+          }
+          return { payment, replayed: true };
+        }
+      }
+
+      const invoice = db
+        .prepare(
+          `SELECT patientId, totalAmount, status, source, reviewedAt
+           FROM invoices WHERE id = ?`
+        )
+        .get(data.invoiceId) as
+        | Pick<
+            Invoice,
+            "patientId" | "totalAmount" | "status" | "source" | "reviewedAt"
+          >
+        | undefined;
+      if (!invoice) {
+        return { rejection: "Invoice not found" };
+      }
+      if (invoice.status === "cancelled") {
+        return { rejection: CANCELLED_INVOICE_PAYMENT_MESSAGE };
+      }
+      if (invoice.source === "generated" && !invoice.reviewedAt) {
+        return { rejection: UNREVIEWED_INVOICE_PAYMENT_MESSAGE };
+      }
+
+      const { paid } = db
+        .prepare(
+          "SELECT COALESCE(SUM(amount), 0) as paid FROM payments WHERE invoiceId = ?"
+        )
+        .get(data.invoiceId) as { paid: number };
+      const balance = roundAmount(invoice.totalAmount - paid);
+      const amount = roundAmount(data.amount);
+
+      if (balance <= 0) {
+        return { rejection: "Invoice is already paid in full" };
+      }
+      if (amount > balance && overpayment === "reject") {
+        return {
+          rejection: `Payment amount cannot exceed the invoice balance (${balance})`,
+        };
+      }
+
+      const applied = Math.min(amount, balance);
+      const paymentId = `PAY-${uuidv4().split("-")[0]}`;
+
+      db.prepare(
+        `
+        INSERT INTO payments (
+          id, invoiceId, amount, paymentMethod, transactionId, notes,
+          processedBy, processedDate, idempotencyKey, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
-      INSERT INTO payments (
-        id, invoiceId, amount, paymentMethod, transactionId,
-        notes, processedBy, processedDate, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `
-    ).run(
-      paymentId,
-      data.invoiceId,
-      data.amount,
-      data.paymentMethod,
-      data.transactionId || null,
-      data.notes || null,
-      data.processedBy,
-      data.processedDate,
-      now,
-      now
-    );
-
-    // Get the invoice to update its balance
-    const invoice = await getInvoiceById(data.invoiceId);
-    if (!invoice) {
-      throw new Error("Invoice not found");
-    }
-
-    // Update invoice balance
-    const newAmountPaid = invoice.amountPaid + data.amount;
-    const newBalance = invoice.totalAmount - newAmountPaid;
-
-    // Determine new status
-    let newStatus: InvoiceStatus = invoice.status;
-    if (newBalance <= 0) {
-      newStatus = "paid";
-    } else if (newBalance < invoice.totalAmount) {
-      newStatus = "partially_paid";
-    }
+      ).run(
+        paymentId,
+        data.invoiceId,
+        applied,
+        data.paymentMethod,
+        data.transactionId || null,
+        data.notes || null,
+        data.processedBy,
+        data.processedDate,
+        data.idempotencyKey || null,
+        now,
+        now
+      );
 
-    // Update the invoice
-    await updateInvoice(data.invoiceId, {
-      amountPaid: newAmountPaid,
-      balance: newBalance,
-      status: newStatus,
-      paidDate: newBalance <= 0 ? now : undefined,
-      paymentMethod: data.paymentMethod,
+      if (amount > applied) {
+        db.prepare(
+          `INSERT INTO patient_credits (
+            patientId, amount, paymentId, invoiceId, notes, createdBy, createdAt
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          invoice.patientId,
+          roundAmount(amount - applied),
+          paymentId,
+          data.invoiceId,
+          `Overpayment of invoice ${data.invoiceId}`,
+          data.processedBy,
+          now
+        );
+      }
+
+      applyPaymentTotals(data.invoiceId, data.paymentMethod, now);
+
+      return { payment: getRecordedPayment(paymentId), replayed: false };
     });
 
-    // Get the created payment
-    const payment = db
+    // Take the write lock before reading the balance
+    return post.immediate();
+  } catch (error) {
+    logger.error("Error recording payment:", error);
+    throw new Error("Failed to record payment");
+  }
+};
+
+/**
+ * Get a patient's credit ledger, newest first, with its balance
+ */
+export const getPatientCredit = async (
+  patientId: number
+): Promise<PatientCreditBalance> => {
+  try {
+    const entries = db
       .prepare(
         `
-      SELECT * FROM payments
-      WHERE id = ?
+      SELECT * FROM patient_credits
+      WHERE patientId = ?
+      ORDER BY createdAt DESC, id DESC
     `
       )
-      .get(paymentId) as Payment;
+      .all(patientId) as PatientCredit[];
 
-    return payment;
+    return {
+      patientId,
+      balance: roundAmount(
+        entries.reduce((sum, entry) => sum + entry.amount, 0)
+      ),
+      entries,
+    };
   } catch (error) {
-    logger.error("Error recording payment:", error);
-    throw new Error("Failed to record payment");
+    logger.error(`Error getting credit for patient ${patientId}:`, error);
+    throw new Error("Failed to retrieve patient credit");
   }
 };
 
@@ -542,9 +826,13 @@ export default {
   getInvoicesByPatientId,
   getInvoiceItems,
   createInvoice,
+  getVisitInvoice,
+  replaceInvoiceItems,
+  getReviewQueue,
   updateInvoice,
   deleteInvoice,
   getInvoicePayments,
   recordPayment,
+  getPatientCredit,
   getBillingStats,
 };
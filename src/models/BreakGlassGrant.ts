@@ -0,0 +1,140 @@
+import db, { DbBreakGlassGrantRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { BreakGlassGrant, BreakGlassGrantFilters } from "../types/careTeam";
+
+/**
+ * Record a break-glass grant
+ */
+export const create = async (
+  userId: number,
+  patientId: number,
+  reason: string,
+  expiresAt: string
+): Promise<BreakGlassGrant | null> => {
+  try {
+    const result = db
+      .prepare(
+        `INSERT INTO break_glass_grants (userId, patientId, reason, expiresAt, createdAt)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(userId, patientId, reason, expiresAt, new Date().toISOString());
+
+    return findById(result.lastInsertRowid as number);
+  } catch (error) {
+    logger.error(
+      `Error creating break-glass grant for user ${userId} on patient ${patientId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+/**
+ * Find a grant by ID
+ */
+export const findById = async (id: number): Promise<BreakGlassGrant | null> => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM break_glass_grants WHERE id = ?")
+      .get(id) as DbBreakGlassGrantRow | undefined;
+
+    return row || null;
+  } catch (error) {
+    logger.error(`Error finding break-glass grant ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Get the IDs of patients a user holds an unexpired grant for
+ */
+export const findActivePatientIds = async (
+  userId: number
+): Promise<number[]> => {
+  try {
+    const rows = db
+      .prepare(
+        "SELECT DISTINCT patientId FROM break_glass_grants WHERE userId = ? AND expiresAt > ?"
+      )
+      .all(userId, new Date().toISOString()) as { patientId: number }[];
+
+    return rows.map((row) => row.patientId);
+  } catch (error) {
+    logger.error(
+      `Error finding active break-glass grants for user ${userId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Find grants matching the filters with the requesting user's name,
+ * newest first
+ */
+export const find = async (
+  filters: BreakGlassGrantFilters = {}
+): Promise<BreakGlassGrant[]> => {
+  try {
+    let query = `SELECT g.*, u.firstName || ' ' || u.lastName as userName
+      FROM break_glass_grants g
+      LEFT JOIN users u ON u.id = g.userId
+      WHERE 1 = 1`;
+    const params: (string | number)[] = [];
+
+    if (filters.patientId) {
+      query += " AND g.patientId = ?";
+      params.push(filters.patientId);
+    }
+
+    if (filters.userId) {
+      query += " AND g.userId = ?";
+      params.push(filters.userId);
+    }
+
+    if (filters.reviewed === true) {
+      query += " AND g.reviewedAt IS NOT NULL";
+    } else if (filters.reviewed === false) {
+      query += " AND g.reviewedAt IS NULL";
+    }
+
+    query += " ORDER BY g.id DESC";
+
+    return db.prepare(query).all(...params) as BreakGlassGrant[];
+  } catch (error) {
+    logger.error("Error finding break-glass grants:", error);
+    return [];
+  }
+};
+
+/**
+ * Mark a grant as reviewed
+ */
+export const markReviewed = async (
+  id: number,
+  reviewedBy: number,
+  notes: string | null
+): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        "UPDATE break_glass_grants SET reviewedAt = ?, reviewedBy = ?, reviewNotes = ? WHERE id = ?"
+      )
+      .run(new Date().toISOString(), reviewedBy, notes, id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error reviewing break-glass grant ${id}:`, error);
+    return false;
+  }
+};
+
+export const BreakGlassGrantModel = {
+  create,
+  findById,
+  findActivePatientIds,
+  find,
+  markReviewed,
+};
+
+export default BreakGlassGrantModel;
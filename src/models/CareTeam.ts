@@ -0,0 +1,128 @@
+import db from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { CareTeamAssignment } from "../types/careTeam";
+
+/**
+ * Get a patient's care team with staff names
+ */
+export const findByPatient = async (
+  patientId: number
+): Promise<CareTeamAssignment[]> => {
+  try {
+    return db
+      .prepare(
+        `SELECT c.*, s.firstName || ' ' || s.lastName as staffName, s.role as staffRole
+         FROM care_team_assignments c
+         JOIN staff s ON s.id = c.staffId
+         WHERE c.patientId = ?
+         ORDER BY c.createdAt ASC`
+      )
+      .all(patientId) as CareTeamAssignment[];
+  } catch (error) {
+    logger.error(`Error finding care team for patient ${patientId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Get the IDs of patients a staff member is assigned to
+ */
+export const findPatientIdsByStaff = async (
+  staffId: string
+): Promise<number[]> => {
+  try {
+    const rows = db
+      .prepare("SELECT patientId FROM care_team_assignments WHERE staffId = ?")
+      .all(staffId) as { patientId: number }[];
+
+    return rows.map((row) => row.patientId);
+  } catch (error) {
+    logger.error(`Error finding patients for staff ${staffId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Check whether a staff member is on a patient's care team
+ */
+export const isAssigned = async (
+  patientId: number,
+  staffId: string
+): Promise<boolean> => {
+  try {
+    const row = db
+      .prepare(
+        "SELECT 1 FROM care_team_assignments WHERE patientId = ? AND staffId = ?"
+      )
+      .get(patientId, staffId);
+
+    return !!row;
+  } catch (error) {
+    logger.error(
+      `Error checking care team of patient ${patientId} for staff ${staffId}:`,
+      error
+    );
+    return false;
+  }
+};
+
+/**
+ * Assign a staff member to a patient's care team, updating their role if
+ * already assigned
+ */
+export const assign = async (
+  patientId: number,
+  staffId: string,
+  role: string | null,
+  assignedBy: number | null
+): Promise<boolean> => {
+  try {
+    db.prepare(
+      `INSERT INTO care_team_assignments (patientId, staffId, role, assignedBy, createdAt)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (patientId, staffId) DO UPDATE SET role = excluded.role`
+    ).run(patientId, staffId, role, assignedBy, new Date().toISOString());
+
+    return true;
+  } catch (error) {
+    logger.error(
+      `Error assigning staff ${staffId} to patient ${patientId}:`,
+      error
+    );
+    return false;
+  }
+};
+
+/**
+ * Remove a staff member from a patient's care team
+ */
+export const remove = async (
+  patientId: number,
+  staffId: string
+): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        "DELETE FROM care_team_assignments WHERE patientId = ? AND staffId = ?"
+      )
+      .run(patientId, staffId);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(
+      `Error removing staff ${staffId} from patient ${patientId}:`,
+      error
+    );
+    return false;
+  }
+};
+
+export const CareTeamModel = {
+  findByPatient,
+  findPatientIdsByStaff,
+  isAssigned,
+  assign,
+  remove,
+};
+
+export default CareTeamModel;
@@ -0,0 +1,266 @@
+import db, { CountResult, DbChargeMasterRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import {
+  ChargeCategory,
+  ChargeMasterFilters,
+  ChargeMasterItem,
+  ChargeMasterItemInput,
+} from "../types/chargeMaster";
+
+/**
+ * Escape LIKE wildcards in user input
+ * @private
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * Format a catalog row
+ * @private
+ */
+const formatItem = (row: DbChargeMasterRow): ChargeMasterItem => ({
+  ...row,
+  category: row.category as ChargeCategory,
+});
+
+/**
+ * List the catalog in code order
+ */
+export const findAll = async (
+  filters: ChargeMasterFilters = {}
+): Promise<ChargeMasterItem[]> => {
+  try {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.q) {
+      conditions.push(
+        "(code LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')"
+      );
+      params.push(
+        `${escapeLike(filters.q.trim().toUpperCase())}%`,
+        `%${escapeLike(filters.q.trim())}%`
+      );
+    }
+    if (filters.category) {
+      conditions.push("category = ?");
+      params.push(filters.category);
+    }
+    if (filters.activeOn) {
+      conditions.push(
+        "(activeFrom IS NULL OR activeFrom <= ?) AND (activeTo IS NULL OR activeTo >= ?)"
+      );
+      params.push(filters.activeOn, filters.activeOn);
+    }
+
+    const rows = db
+      .prepare(
+        `SELECT * FROM charge_master
+         ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY code ASC`
+      )
+      .all(...params) as DbChargeMasterRow[];
+
+    return rows.map(formatItem);
+  } catch (error) {
+    logger.error("Error listing the charge master:", error);
+    return [];
+  }
+};
+
+/**
+ * Find a catalog entry by its code
+ */
+export const findByCode = async (
+  code: string
+): Promise<ChargeMasterItem | null> => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM charge_master WHERE code = ?")
+      .get(code) as DbChargeMasterRow | undefined;
+
+    return row ? formatItem(row) : null;
+  } catch (error) {
+    logger.error(`Error finding charge master code ${code}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find the catalog entries for the given codes
+ */
+export const findByCodes = async (
+  codes: string[]
+): Promise<ChargeMasterItem[]> => {
+  try {
+    if (codes.length === 0) return [];
+
+    const rows = db
+      .prepare(
+        `SELECT * FROM charge_master WHERE code IN (${codes
+          .map(() => "?")
+          .join(", ")})`
+      )
+      .all(...codes) as DbChargeMasterRow[];
+
+    return rows.map(formatItem);
+  } catch (error) {
+    logger.error("Error finding charge master codes:", error);
+    return [];
+  }
+};
+
+/**
+ * Count the entries in the catalog
+ */
+export const count = async (): Promise<number> => {
+  try {
+    return (
+      db
+        .prepare("SELECT COUNT(*) as count FROM charge_master")
+        .get() as CountResult
+    ).count;
+  } catch (error) {
+    logger.error("Error counting charge master entries:", error);
+    return 0;
+  }
+};
+
+/**
+ * Add an entry to the catalog
+ */
+export const create = async (
+  item: ChargeMasterItemInput
+): Promise<ChargeMasterItem | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO charge_master (
+        code, description, category, defaultPrice, taxRate,
+        activeFrom, activeTo, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      item.code,
+      item.description,
+      item.category,
+      item.defaultPrice,
+      item.taxRate,
+      item.activeFrom,
+      item.activeTo,
+      now,
+      now
+    );
+
+    return await findByCode(item.code);
+  } catch (error) {
+    logger.error(`Error creating charge master code ${item.code}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Replace the details of a catalog entry; the code itself never changes
+ */
+export const update = async (
+  code: string,
+  item: Omit<ChargeMasterItemInput, "code">
+): Promise<ChargeMasterItem | null> => {
+  try {
+    db.prepare(
+      `UPDATE charge_master
+       SET description = ?, category = ?, defaultPrice = ?, taxRate = ?,
+           activeFrom = ?, activeTo = ?, updatedAt = ?
+       WHERE code = ?`
+    ).run(
+      item.description,
+      item.category,
+      item.defaultPrice,
+      item.taxRate,
+      item.activeFrom,
+      item.activeTo,
+      new Date().toISOString(),
+      code
+    );
+
+    return await findByCode(code);
+  } catch (error) {
+    logger.error(`Error updating charge master code ${code}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Remove an entry from the catalog
+ */
+export const remove = async (code: string): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM charge_master WHERE code = ?")
+      .run(code);
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error deleting charge master code ${code}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Add entries to the catalog in a single transaction, replacing the details
+ * of codes already present
+ * @returns The number of entries written, or null on error
+ */
+export const upsertMany = async (
+  items: ChargeMasterItemInput[]
+): Promise<number | null> => {
+  try {
+    const now = new Date().toISOString();
+    const upsert = db.prepare(
+      `INSERT INTO charge_master (
+        code, description, category, defaultPrice, taxRate,
+        activeFrom, activeTo, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (code) DO UPDATE SET
+        description = excluded.description,
+        category = excluded.category,
+        defaultPrice = excluded.defaultPrice,
+        taxRate = excluded.taxRate,
+        activeFrom = excluded.activeFrom,
+        activeTo = excluded.activeTo,
+        updatedAt = excluded.updatedAt`
+    );
+
+    db.transaction(() => {
+      for (const item of items) {
+        upsert.run(
+          item.code,
+          item.description,
+          item.category,
+          item.defaultPrice,
+          item.taxRate,
+          item.activeFrom,
+          item.activeTo,
+          now,
+          now
+        );
+      }
+    })();
+
+    return items.length;
+  } catch (error) {
+    logger.error("Error importing charge master entries:", error);
+    return null;
+  }
+};
+
+export const ChargeMasterModel = {
+  findAll,
+  findByCode,
+  findByCodes,
+  count,
+  create,
+  update,
+  remove,
+  upsertMany,
+};
+
+export default ChargeMasterModel;
@@ -58,7 +58,7 @@ export const getDashboardStats = async (): Promise<DashboardStats> => {
         strftime('%m', createdAt) as month,
         COUNT(*) as newPatients
       FROM patients
-      WHERE createdAt >= date('now', '-6 months')
+      WHERE createdAt >= date('now', '-6 months') AND deletedAt IS NULL
       GROUP BY strftime('%m', createdAt)
       ORDER BY month ASC
     `;
@@ -91,6 +91,7 @@ export const getDashboardStats = async (): Promise<DashboardStats> => {
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
+      WHERE p.deletedAt IS NULL
       ORDER BY a.startTime DESC
       LIMIT 5
     `;
@@ -187,7 +188,7 @@ export const getPatientStats = async () => {
         strftime('%Y-%m', createdAt) as month,
         COUNT(*) as count
       FROM patients
-      WHERE createdAt >= date('now', '-12 months')
+      WHERE createdAt >= date('now', '-12 months') AND deletedAt IS NULL
       GROUP BY strftime('%Y-%m', createdAt)
       ORDER BY month ASC
     `;
@@ -324,6 +325,36 @@ export const getRevenueStats = async (startDate?: string, endDate?: string) => {
   }
 };
 
+/**
+ * Count diagnoses by code, optionally for visits between two dates
+ */
+export const getDiagnosisCounts = async (
+  startDate?: string,
+  endDate?: string
+): Promise<{ code: string; count: number }[]> => {
+  try {
+    const dateFilter =
+      startDate && endDate ? `WHERE date(mr.visitDate) BETWEEN ? AND ?` : "";
+    const params = startDate && endDate ? [startDate, endDate] : [];
+
+    const query = `
+      SELECT UPPER(TRIM(d.code)) as code, COUNT(*) as count
+      FROM diagnoses d
+      JOIN medical_records mr ON mr.id = d.medicalRecordId
+      ${dateFilter}
+      GROUP BY UPPER(TRIM(d.code))
+    `;
+
+    return db.prepare(query).all(...params) as {
+      code: string;
+      count: number;
+    }[];
+  } catch (error) {
+    logger.error("Error getting diagnosis counts:", error);
+    throw new Error("Failed to retrieve diagnosis statistics");
+  }
+};
+
 /**
  * Get staff performance metrics
  */
@@ -367,6 +398,7 @@ export const getRecentActivity = async (limit: number = 10) => {
       FROM appointments a
       LEFT JOIN patients p ON a.patientId = p.id
       LEFT JOIN staff s ON a.doctorId = s.id
+      WHERE p.deletedAt IS NULL
       ORDER BY a.createdAt DESC
       LIMIT ?
     `
@@ -384,6 +416,7 @@ export const getRecentActivity = async (limit: number = 10) => {
         p.firstName || ' ' || p.lastName as patientName,
         NULL as staffName
       FROM patients p
+      WHERE p.deletedAt IS NULL
       ORDER BY p.createdAt DESC
       LIMIT ?
     `
@@ -402,6 +435,7 @@ export const getRecentActivity = async (limit: number = 10) => {
         NULL as staffName
       FROM invoices i
       LEFT JOIN patients p ON i.patientId = p.id
+      WHERE p.deletedAt IS NULL
       ORDER BY i.createdAt DESC
       LIMIT ?
     `
@@ -432,6 +466,7 @@ export default {
   getPatientStats,
   getAppointmentStats,
   getRevenueStats,
+  getDiagnosisCounts,
   getStaffPerformance,
   getRecentActivity,
 };
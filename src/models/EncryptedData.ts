@@ -0,0 +1,51 @@
+import db from "../db/dbClient";
+import { logger } from "../utils/logger";
+
+// Row of an encrypted table: its ID and the requested column values
+export type EncryptedRow = { id: number } & Record<string, string | null>;
+
+/**
+ * Read the ID and the given columns of every row of a table
+ */
+export const findRows = (table: string, columns: string[]): EncryptedRow[] => {
+  try {
+    return db
+      .prepare(`SELECT id, ${columns.join(", ")} FROM ${table}`)
+      .all() as EncryptedRow[];
+  } catch (error) {
+    logger.error(`Error reading encrypted columns of ${table}:`, error);
+    throw new Error(`Failed to read ${table}`);
+  }
+};
+
+/**
+ * Write the given column values back to their rows in a single transaction
+ */
+export const updateRows = (table: string, rows: EncryptedRow[]): void => {
+  if (rows.length === 0) return;
+
+  try {
+    const columns = Object.keys(rows[0]).filter((column) => column !== "id");
+    const update = db.prepare(
+      `UPDATE ${table} SET ${columns
+        .map((column) => `${column} = ?`)
+        .join(", ")} WHERE id = ?`
+    );
+
+    db.transaction(() => {
+      for (const row of rows) {
+        update.run(...columns.map((column) => row[column]), row.id);
+      }
+    })();
+  } catch (error) {
+    logger.error(`Error writing encrypted columns of ${table}:`, error);
+    throw new Error(`Failed to update ${table}`);
+  }
+};
+
+export const EncryptedDataModel = {
+  findRows,
+  updateRows,
+};
+
+export default EncryptedDataModel;
@@ -0,0 +1,117 @@
+import db, { DbEncryptionKeyRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+
+/*
+ * These functions are synchronous because field decryption happens while
+ * rows are being formatted, which is synchronous throughout the models.
+ */
+
+/**
+ * Find the data key new values are encrypted with
+ */
+export const findActive = (): DbEncryptionKeyRow | null => {
+  try {
+    const row = db
+      .prepare(
+        "SELECT * FROM encryption_keys WHERE status = 'active' ORDER BY id DESC LIMIT 1"
+      )
+      .get() as DbEncryptionKeyRow | undefined;
+
+    return row || null;
+  } catch (error) {
+    logger.error("Error finding active encryption key:", error);
+    return null;
+  }
+};
+
+/**
+ * Find a data key by ID
+ */
+export const findById = (id: number): DbEncryptionKeyRow | null => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM encryption_keys WHERE id = ?")
+      .get(id) as DbEncryptionKeyRow | undefined;
+
+    return row || null;
+  } catch (error) {
+    logger.error(`Error finding encryption key ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Get every data key, oldest first
+ */
+export const findAll = (): DbEncryptionKeyRow[] => {
+  try {
+    return db
+      .prepare("SELECT * FROM encryption_keys ORDER BY id ASC")
+      .all() as DbEncryptionKeyRow[];
+  } catch (error) {
+    logger.error("Error finding encryption keys:", error);
+    return [];
+  }
+};
+
+/**
+ * Store a new wrapped data key as the active key, retiring the previous one
+ */
+export const create = (
+  wrappedKey: string,
+  masterKeyId: string
+): DbEncryptionKeyRow | null => {
+  try {
+    const now = new Date().toISOString();
+
+    const id = db.transaction(() => {
+      db.prepare(
+        "UPDATE encryption_keys SET status = 'retired', retiredAt = ? WHERE status = 'active'"
+      ).run(now);
+
+      return db
+        .prepare(
+          `INSERT INTO encryption_keys (wrappedKey, masterKeyId, status, createdAt)
+           VALUES (?, ?, 'active', ?)`
+        )
+        .run(wrappedKey, masterKeyId, now).lastInsertRowid as number;
+    })();
+
+    return findById(id);
+  } catch (error) {
+    logger.error("Error creating encryption key:", error);
+    return null;
+  }
+};
+
+/**
+ * Replace the wrapping of a data key after the master key changed
+ */
+export const updateWrapping = (
+  id: number,
+  wrappedKey: string,
+  masterKeyId: string
+): boolean => {
+  try {
+    const result = db
+      .prepare(
+        "UPDATE encryption_keys SET wrappedKey = ?, masterKeyId = ? WHERE id = ?"
+      )
+      .run(wrappedKey, masterKeyId, id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error re-wrapping encryption key ${id}:`, error);
+    return false;
+  }
+};
+
+export const EncryptionKeyModel = {
+  findActive,
+  findById,
+  findAll,
+  create,
+  updateWrapping,
+};
+
+export default EncryptionKeyModel;
@@ -0,0 +1,123 @@
+import db, { CountResult, DbIcd10CodeRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { Icd10Code, Icd10CodeInput } from "../types/icd10";
+import { getIcd10Chapter } from "../utils/icd10";
+
+/**
+ * Escape LIKE wildcards in user input
+ * @private
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * Search the catalog by code prefix ("J06", "j069") or description text.
+ * Codes starting with the query come first, then description matches, each
+ * in code order.
+ */
+export const search = async (
+  query: string,
+  limit: number
+): Promise<Icd10Code[]> => {
+  try {
+    const codePrefix = `${escapeLike(
+      query.trim().toUpperCase().replace(".", "")
+    )}%`;
+    const text = `%${escapeLike(query.trim())}%`;
+
+    return db
+      .prepare(
+        `SELECT * FROM icd10_codes
+         WHERE REPLACE(code, '.', '') LIKE ? ESCAPE '\\'
+            OR description LIKE ? ESCAPE '\\'
+         ORDER BY CASE WHEN REPLACE(code, '.', '') LIKE ? ESCAPE '\\' THEN 0 ELSE 1 END,
+                  code ASC
+         LIMIT ?`
+      )
+      .all(codePrefix, text, codePrefix, limit) as DbIcd10CodeRow[];
+  } catch (error) {
+    logger.error(`Error searching ICD-10 codes for "${query}":`, error);
+    return [];
+  }
+};
+
+/**
+ * Find the catalog entries for the given codes
+ */
+export const findByCodes = async (codes: string[]): Promise<Icd10Code[]> => {
+  try {
+    if (codes.length === 0) return [];
+
+    return db
+      .prepare(
+        `SELECT * FROM icd10_codes WHERE code IN (${codes
+          .map(() => "?")
+          .join(", ")})`
+      )
+      .all(...codes) as DbIcd10CodeRow[];
+  } catch (error) {
+    logger.error("Error finding ICD-10 codes:", error);
+    return [];
+  }
+};
+
+/**
+ * Count the codes in the catalog
+ */
+export const count = async (): Promise<number> => {
+  try {
+    return (
+      db
+        .prepare("SELECT COUNT(*) as count FROM icd10_codes")
+        .get() as CountResult
+    ).count;
+  } catch (error) {
+    logger.error("Error counting ICD-10 codes:", error);
+    return 0;
+  }
+};
+
+/**
+ * Add codes to the catalog in a single transaction, replacing the
+ * description of codes already present
+ * @returns The number of codes written, or null on error
+ */
+export const upsertMany = async (
+  codes: Icd10CodeInput[]
+): Promise<number | null> => {
+  try {
+    const now = new Date().toISOString();
+    const upsert = db.prepare(
+      `INSERT INTO icd10_codes (code, description, chapter, updatedAt)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (code) DO UPDATE SET
+         description = excluded.description,
+         chapter = excluded.chapter,
+         updatedAt = excluded.updatedAt`
+    );
+
+    db.transaction(() => {
+      for (const { code, description } of codes) {
+        upsert.run(
+          code,
+          description,
+          getIcd10Chapter(code)?.chapter ?? null,
+          now
+        );
+      }
+    })();
+
+    return codes.length;
+  } catch (error) {
+    logger.error("Error importing ICD-10 codes:", error);
+    return null;
+  }
+};
+
+export const Icd10CodeModel = {
+  search,
+  findByCodes,
+  count,
+  upsertMany,
+};
+
+export default Icd10CodeModel;
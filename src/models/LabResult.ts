@@ -0,0 +1,272 @@
+import db, { DbLabResultRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { decryptField, encryptField } from "../utils/fieldEncryption";
+import { EncryptedTable } from "../types/encryption";
+import {
+  LabOrderInput,
+  LabResult,
+  LabResultFlag,
+  LabResultStatus,
+  LabWorklistFilters,
+} from "../types/medicalRecord";
+
+// Lab notes are stored encrypted at rest
+export const LAB_RESULT_ENCRYPTED_TABLE: EncryptedTable = {
+  table: "lab_results",
+  columns: ["notes"],
+};
+
+// Columns lab staff set when entering or cancelling a result
+export type LabResultUpdate = Partial<
+  Pick<
+    LabResult,
+    | "result"
+    | "unit"
+    | "referenceRange"
+    | "criticalRange"
+    | "status"
+    | "abnormal"
+    | "flag"
+    | "critical"
+    | "performedAt"
+    | "performedBy"
+    | "resultedBy"
+    | "notes"
+  >
+>;
+
+/**
+ * Format a lab result row, decrypting its notes
+ * @private
+ */
+const formatLabResult = (row: DbLabResultRow): LabResult => ({
+  id: row.id,
+  medicalRecordId: row.medicalRecordId,
+  patientId: row.patientId,
+  testName: row.testName,
+  testCode: row.testCode || undefined,
+  result: row.result ?? undefined,
+  unit: row.unit || undefined,
+  referenceRange: row.referenceRange || undefined,
+  criticalRange: row.criticalRange || undefined,
+  status: row.status as LabResultStatus,
+  abnormal: row.abnormal === 1,
+  flag: (row.flag as LabResultFlag | null) ?? null,
+  critical: row.critical === 1,
+  performedAt: row.performedAt || undefined,
+  performedBy: row.performedBy || undefined,
+  orderedBy: row.orderedBy ?? undefined,
+  resultedBy: row.resultedBy ?? undefined,
+  notes: decryptField(row.notes) || undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Find a lab result by ID
+ */
+export const findById = async (id: number): Promise<LabResult | null> => {
+  try {
+    const row = db.prepare("SELECT * FROM lab_results WHERE id = ?").get(id) as
+      | DbLabResultRow
+      | undefined;
+
+    return row ? formatLabResult(row) : null;
+  } catch (error) {
+    logger.error(`Error finding lab result ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find the labs ordered in a medical record, in the order they were placed
+ */
+export const findByMedicalRecord = async (
+  medicalRecordId: number
+): Promise<LabResult[]> => {
+  try {
+    const rows = db
+      .prepare(
+        "SELECT * FROM lab_results WHERE medicalRecordId = ? ORDER BY id ASC"
+      )
+      .all(medicalRecordId) as DbLabResultRow[];
+
+    return rows.map(formatLabResult);
+  } catch (error) {
+    logger.error(
+      `Error finding lab results for medical record ${medicalRecordId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Find lab orders for the lab worklist, oldest first so the longest-waiting
+ * orders are worked first
+ */
+export const find = async (
+  filters: LabWorklistFilters = {}
+): Promise<LabResult[]> => {
+  try {
+    let query = "SELECT * FROM lab_results WHERE 1 = 1";
+    const params: (string | number)[] = [];
+
+    if (filters.status) {
+      query += " AND status = ?";
+      params.push(filters.status);
+    }
+
+    if (filters.patientId) {
+      query += " AND patientId = ?";
+      params.push(filters.patientId);
+    }
+
+    if (filters.critical !== undefined) {
+      query += " AND critical = ?";
+      params.push(filters.critical ? 1 : 0);
+    }
+
+    query += " ORDER BY createdAt ASC, id ASC";
+
+    const rows = db.prepare(query).all(...params) as DbLabResultRow[];
+    return rows.map(formatLabResult);
+  } catch (error) {
+    logger.error("Error finding lab results:", error);
+    return [];
+  }
+};
+
+/**
+ * Find a patient's completed results, oldest first
+ * @param testCode Only return results for this test code
+ */
+export const findCompletedByPatient = async (
+  patientId: number,
+  testCode?: string
+): Promise<LabResult[]> => {
+  try {
+    const rows = db
+      .prepare(
+        `SELECT * FROM lab_results
+         WHERE patientId = ? AND status = 'completed'${
+           testCode ? " AND UPPER(TRIM(testCode)) = ?" : ""
+         }
+         ORDER BY COALESCE(performedAt, updatedAt) ASC, id ASC`
+      )
+      .all(
+        ...(testCode ? [patientId, testCode.trim().toUpperCase()] : [patientId])
+      ) as DbLabResultRow[];
+
+    return rows.map(formatLabResult);
+  } catch (error) {
+    logger.error(
+      `Error finding completed lab results for patient ${patientId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Order lab tests in a medical record
+ * @returns The pending results, one per test
+ */
+export const createOrders = async (
+  medicalRecordId: number,
+  patientId: number,
+  tests: LabOrderInput[],
+  orderedBy: number
+): Promise<LabResult[]> => {
+  try {
+    const now = new Date().toISOString();
+    const insert = db.prepare(
+      `INSERT INTO lab_results (
+        medicalRecordId, patientId, testName, testCode, unit, referenceRange,
+        criticalRange, status, orderedBy, notes, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?)`
+    );
+
+    const ids: number[] = db.transaction(() =>
+      tests.map(
+        (test) =>
+          insert.run(
+            medicalRecordId,
+            patientId,
+            test.testName,
+            test.testCode || null,
+            test.unit || null,
+            test.referenceRange || null,
+            test.criticalRange || null,
+            orderedBy,
+            encryptField(test.notes || null),
+            now,
+            now
+          ).lastInsertRowid as number
+      )
+    )();
+
+    const created = await Promise.all(ids.map((id) => findById(id)));
+    return created.filter((result): result is LabResult => result !== null);
+  } catch (error) {
+    logger.error(
+      `Error ordering labs for medical record ${medicalRecordId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Update a lab result
+ */
+export const update = async (
+  id: number,
+  data: LabResultUpdate
+): Promise<LabResult | null> => {
+  try {
+    const updates: Record<string, string | number | null> = {};
+
+    if (data.result !== undefined) updates.result = data.result;
+    if (data.unit !== undefined) updates.unit = data.unit || null;
+    if (data.referenceRange !== undefined)
+      updates.referenceRange = data.referenceRange || null;
+    if (data.criticalRange !== undefined)
+      updates.criticalRange = data.criticalRange || null;
+    if (data.status !== undefined) updates.status = data.status;
+    if (data.abnormal !== undefined) updates.abnormal = data.abnormal ? 1 : 0;
+    if (data.flag !== undefined) updates.flag = data.flag;
+    if (data.critical !== undefined) updates.critical = data.critical ? 1 : 0;
+    if (data.performedAt !== undefined) updates.performedAt = data.performedAt;
+    if (data.performedBy !== undefined)
+      updates.performedBy = data.performedBy || null;
+    if (data.resultedBy !== undefined) updates.resultedBy = data.resultedBy;
+    if (data.notes !== undefined)
+      updates.notes = encryptField(data.notes || null);
+
+    updates.updatedAt = new Date().toISOString();
+
+    const columns = Object.keys(updates);
+    db.prepare(
+      `UPDATE lab_results SET ${columns
+        .map((column) => `${column} = ?`)
+        .join(", ")} WHERE id = ?`
+    ).run(...Object.values(updates), id);
+
+    return findById(id);
+  } catch (error) {
+    logger.error(`Error updating lab result ${id}:`, error);
+    return null;
+  }
+};
+
+export const LabResultModel = {
+  findById,
+  findByMedicalRecord,
+  find,
+  findCompletedByPatient,
+  createOrders,
+  update,
+};
+
+export default LabResultModel;
@@ -0,0 +1,84 @@
+import db, { DbLoginThrottleRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { LoginThrottle, LoginThrottleScope } from "../types/auth";
+
+/**
+ * Find the throttle record for an account or IP
+ */
+export const find = async (
+  scope: LoginThrottleScope,
+  identifier: string
+): Promise<LoginThrottle | null> => {
+  try {
+    const result = db
+      .prepare(
+        "SELECT * FROM login_throttles WHERE scope = ? AND identifier = ?"
+      )
+      .get(scope, identifier) as DbLoginThrottleRow | undefined;
+
+    return result || null;
+  } catch (error) {
+    logger.error(`Error finding login throttle ${scope}:${identifier}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Store the failure count and lockout for an account or IP
+ */
+export const save = async (
+  scope: LoginThrottleScope,
+  identifier: string,
+  failedCount: number,
+  lockedUntil: string | null
+): Promise<LoginThrottle | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO login_throttles (
+        scope, identifier, failedCount, lastFailedAt, lockedUntil, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(scope, identifier) DO UPDATE SET
+        failedCount = excluded.failedCount,
+        lastFailedAt = excluded.lastFailedAt,
+        lockedUntil = excluded.lockedUntil,
+        updatedAt = excluded.updatedAt`
+    ).run(scope, identifier, failedCount, now, lockedUntil, now, now);
+
+    return find(scope, identifier);
+  } catch (error) {
+    logger.error(`Error saving login throttle ${scope}:${identifier}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Clear the failure count and any lockout for an account or IP
+ */
+export const reset = async (
+  scope: LoginThrottleScope,
+  identifier: string
+): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM login_throttles WHERE scope = ? AND identifier = ?")
+      .run(scope, identifier);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(
+      `Error resetting login throttle ${scope}:${identifier}:`,
+      error
+    );
+    return false;
+  }
+};
+
+export const LoginThrottleModel = {
+  find,
+  save,
+  reset,
+};
+
+export default LoginThrottleModel;
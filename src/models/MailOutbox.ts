@@ -0,0 +1,67 @@
+import { v4 as uuidv4 } from "uuid";
+import db, { DbMailOutboxRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { OutboxMessage } from "../types/mail";
+
+/**
+ * Store an outgoing message in the outbox
+ */
+export const create = async (
+  data: Omit<OutboxMessage, "id" | "createdAt">
+): Promise<OutboxMessage | null> => {
+  try {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO mail_outbox (
+        id, toAddress, fromAddress, subject, textBody, htmlBody, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      data.toAddress,
+      data.fromAddress,
+      data.subject,
+      data.textBody,
+      data.htmlBody,
+      now
+    );
+
+    return { id, ...data, createdAt: now };
+  } catch (error) {
+    logger.error("Error storing outbox message:", error);
+    return null;
+  }
+};
+
+/**
+ * Get the most recent outbox messages, optionally for one recipient
+ */
+export const findRecent = async (
+  limit: number = 20,
+  toAddress?: string
+): Promise<OutboxMessage[]> => {
+  try {
+    if (toAddress) {
+      return db
+        .prepare(
+          "SELECT * FROM mail_outbox WHERE toAddress = ? ORDER BY createdAt DESC LIMIT ?"
+        )
+        .all(toAddress, limit) as DbMailOutboxRow[];
+    }
+
+    return db
+      .prepare("SELECT * FROM mail_outbox ORDER BY createdAt DESC LIMIT ?")
+      .all(limit) as DbMailOutboxRow[];
+  } catch (error) {
+    logger.error("Error finding outbox messages:", error);
+    return [];
+  }
+};
+
+export const MailOutboxModel = {
+  create,
+  findRecent,
+};
+
+export default MailOutboxModel;
@@ -1,5 +1,48 @@
 import db from "../config/database";
+import { DbMedicalRecordRow } from "../db/dbClient";
 import { logger } from "../utils/logger";
+import { decryptField, encryptField } from "../utils/fieldEncryption";
+import { EncryptedTable } from "../types/encryption";
+import {
+  Allergy,
+  InteractionWarning,
+  LabResult,
+  MedicalRecordListFilters,
+  MedicalRecordSearchFilters,
+  MedicalRecordStatus,
+  VisitType,
+} from "../types/medicalRecord";
+
+// Clinical free text stored encrypted at rest
+export const MEDICAL_RECORD_ENCRYPTED_TABLES: EncryptedTable[] = [
+  {
+    table: "medical_records",
+    columns: [
+      "chiefComplaint",
+      "notes",
+      "subjective",
+      "objective",
+      "assessment",
+      "plan",
+    ],
+  },
+  { table: "diagnoses", columns: ["notes"] },
+  { table: "procedures", columns: ["notes"] },
+  { table: "treatment_instructions", columns: ["instructions"] },
+  { table: "medications", columns: ["overrideReason"] },
+  { table: "medical_record_versions", columns: ["snapshot", "reason"] },
+];
+
+// Sections of the SOAP note
+const SOAP_FIELDS = ["subjective", "objective", "assessment", "plan"] as const;
+
+// Most recent records a search scans. The clinical text is encrypted, so
+// each scanned record is decrypted in memory; older visits are reached by
+// narrowing the search to a patient or visit date range.
+export const MEDICAL_RECORD_SEARCH_LIMIT = 500;
+
+// Statuses of a record that is locked against direct edits
+export const LOCKED_STATUSES: MedicalRecordStatus[] = ["signed", "amended"];
 
 // Define types for medical record and related entities
 export interface VitalSigns {
@@ -29,6 +72,16 @@ export interface PrescribedMedication {
   quantity: number;
   refills: number;
   instructions: string;
+  // Why the drug was prescribed despite a major interaction warning
+  overrideReason?: string | null;
+}
+
+// A medication prescribed in one of a patient's records
+export interface PatientMedication {
+  medicalRecordId: number;
+  visitDate: string;
+  name: string;
+  duration: string;
 }
 
 export interface Procedure {
@@ -55,8 +108,13 @@ export interface MedicalRecord {
   id?: number;
   patientId: number;
   doctorId: number;
+  visitType?: VisitType;
   visitDate: string;
   chiefComplaint: string;
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
   vitalSigns: VitalSigns;
   diagnosis: Diagnosis[];
   treatment: Treatment;
@@ -64,13 +122,39 @@ export interface MedicalRecord {
   followUpRecommended: boolean;
   followUpDate?: string;
   attachments: Attachment[];
+  status?: MedicalRecordStatus;
+  signedAt?: string | null;
+  signedBy?: number | null; // User ID
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Record content captured in a version: everything but the bookkeeping
+export type MedicalRecordSnapshot = Omit<
+  MedicalRecord,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+// A record as signed (version 1, no reason) or after an amendment
+export interface MedicalRecordVersion {
+  id: number;
+  medicalRecordId: number;
+  version: number;
+  reason: string | null;
+  authorId: number;
+  authorName: string | null;
+  snapshot: MedicalRecordSnapshot;
+  createdAt: string;
+}
+
 export interface MedicalRecordWithNames extends MedicalRecord {
   patientName?: string;
   doctorName?: string;
+  // The patient's active allergies, for records shown in a chart
+  activeAllergies?: Allergy[];
+  labResults?: LabResult[];
+  // Prescribing warnings for the medications just saved
+  interactionWarnings?: InteractionWarning[];
 }
 
 // Create medical records tables
@@ -183,10 +267,37 @@ export const createMedicalRecordsTable = async (): Promise<void> => {
   }
 };
 
-// Get all medical records with patient and doctor names
-export const getAllMedicalRecords = (): MedicalRecordWithNames[] => {
+// Build the WHERE clause shared by the medical record list and its count.
+// An empty chart scope matches no records.
+const buildListWhere = (
+  filters: MedicalRecordListFilters
+): { where: string; params: (string | number)[] } => {
+  const conditions = ["p.deletedAt IS NULL"];
+  const params: (string | number)[] = [];
+
+  if (filters.patientIds) {
+    conditions.push(
+      filters.patientIds.length > 0
+        ? `mr.patientId IN (${filters.patientIds.map(() => "?").join(", ")})`
+        : "0 = 1"
+    );
+    params.push(...filters.patientIds);
+  }
+  if (filters.doctorId) {
+    conditions.push("mr.doctorId = ?");
+    params.push(filters.doctorId);
+  }
+
+  return { where: ` WHERE ${conditions.join(" AND ")}`, params };
+};
+
+// Get a page of medical records with patient and doctor names, newest first
+export const getMedicalRecordsPage = (
+  filters: MedicalRecordListFilters = {}
+): MedicalRecordWithNames[] => {
   try {
-    const query = `
+    const { where, params } = buildListWhere(filters);
+    let query = `
       SELECT 
         mr.*,
         p.firstName || ' ' || p.lastName as patientName,
@@ -194,17 +305,43 @@ export const getAllMedicalRecords = (): MedicalRecordWithNames[] => {
       FROM medical_records mr
       LEFT JOIN patients p ON mr.patientId = p.id
       LEFT JOIN staff s ON mr.doctorId = s.id
-      ORDER BY mr.visitDate DESC
+      ${where}
+      ORDER BY mr.visitDate DESC, mr.id DESC
     `;
 
-    const records = db.prepare(query).all();
+    if (filters.limit) {
+      query += " LIMIT ? OFFSET ?";
+      params.push(filters.limit, ((filters.page || 1) - 1) * filters.limit);
+    }
+
+    const records = db.prepare(query).all(...params);
     return records.map((record: any) => enrichMedicalRecord(record));
   } catch (error) {
-    logger.error("Error getting all medical records:", error);
+    logger.error("Error getting page of medical records:", error);
     return [];
   }
 };
 
+// Count the medical records matching the list filters
+export const countMedicalRecords = (
+  filters: MedicalRecordListFilters = {}
+): number => {
+  try {
+    const { where, params } = buildListWhere(filters);
+    const result = db
+      .prepare(
+        `SELECT COUNT(*) as count FROM medical_records mr
+         LEFT JOIN patients p ON mr.patientId = p.id${where}`
+      )
+      .get(...params) as { count: number };
+
+    return result.count;
+  } catch (error) {
+    logger.error("Error counting medical records:", error);
+    return 0;
+  }
+};
+
 // Get medical record by ID with all related data
 export const getMedicalRecordById = (
   id: number
@@ -220,7 +357,7 @@ export const getMedicalRecordById = (
       FROM medical_records mr
       LEFT JOIN patients p ON mr.patientId = p.id
       LEFT JOIN staff s ON mr.doctorId = s.id
-      WHERE mr.id = ?
+      WHERE mr.id = ? AND p.deletedAt IS NULL
     `;
 
     const record = db.prepare(query).get(id);
@@ -263,28 +400,27 @@ export const getMedicalRecordsByPatientId = (
   }
 };
 
-// Get medical records by doctor ID
-export const getMedicalRecordsByDoctorId = (
-  doctorId: number
-): MedicalRecordWithNames[] => {
+// Get the medications prescribed in a patient's records, optionally leaving
+// out one record (e.g. the record whose prescriptions are being replaced)
+export const getPatientMedications = (
+  patientId: number,
+  excludeMedicalRecordId?: number
+): PatientMedication[] => {
   try {
-    if (!doctorId) return [];
-
-    const query = `
-      SELECT 
-        mr.*,
-        p.firstName || ' ' || p.lastName as patientName
-      FROM medical_records mr
-      LEFT JOIN patients p ON mr.patientId = p.id
-      WHERE mr.doctorId = ?
+    return db
+      .prepare(
+        `
+      SELECT m.medicalRecordId, mr.visitDate, m.name, m.duration
+      FROM medications m
+      JOIN medical_records mr ON mr.id = m.medicalRecordId
+      WHERE mr.patientId = ? AND mr.id != ?
       ORDER BY mr.visitDate DESC
-    `;
-
-    const records = db.prepare(query).all(doctorId);
-    return records.map((record: any) => enrichMedicalRecord(record));
+    `
+      )
+      .all(patientId, excludeMedicalRecordId ?? 0) as PatientMedication[];
   } catch (error) {
     logger.error(
-      `Error getting medical records by doctor ID ${doctorId}:`,
+      `Error getting medications for patient ID ${patientId}:`,
       error
     );
     return [];
@@ -305,20 +441,27 @@ export const createMedicalRecord = (
         .prepare(
           `
         INSERT INTO medical_records (
-          patientId, doctorId, visitDate, chiefComplaint,
-          notes, followUpRecommended, followUpDate,
+          patientId, doctorId, visitType, visitDate, chiefComplaint,
+          subjective, objective, assessment, plan,
+          notes, followUpRecommended, followUpDate, status,
           createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
         )
         .run(
           recordData.patientId,
           recordData.doctorId,
+          recordData.visitType || "routine",
           recordData.visitDate,
-          recordData.chiefComplaint,
-          recordData.notes || null,
+          encryptField(recordData.chiefComplaint),
+          encryptField(recordData.subjective || null),
+          encryptField(recordData.objective || null),
+          encryptField(recordData.assessment || null),
+          encryptField(recordData.plan || null),
+          encryptField(recordData.notes || null),
           recordData.followUpRecommended ? 1 : 0,
           recordData.followUpDate || null,
+          recordData.status || "draft",
           now,
           now
         );
@@ -360,7 +503,7 @@ export const createMedicalRecord = (
           diagnosis.code,
           diagnosis.description,
           diagnosis.type,
-          diagnosis.notes || null
+          encryptField(diagnosis.notes || null)
         );
       }
 
@@ -368,8 +511,9 @@ export const createMedicalRecord = (
       const insertMedication = db.prepare(`
         INSERT INTO medications (
           medicalRecordId, medicationId, name, dosage,
-          frequency, duration, quantity, refills, instructions
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          frequency, duration, quantity, refills, instructions,
+          overrideReason
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       for (const medication of recordData.treatment.medications) {
@@ -382,7 +526,8 @@ export const createMedicalRecord = (
           medication.duration,
           medication.quantity,
           medication.refills,
-          medication.instructions
+          medication.instructions,
+          encryptField(medication.overrideReason || null)
         );
       }
 
@@ -398,7 +543,7 @@ export const createMedicalRecord = (
           medicalRecordId,
           procedure.code,
           procedure.name,
-          procedure.notes || null
+          encryptField(procedure.notes || null)
         );
       }
 
@@ -409,7 +554,7 @@ export const createMedicalRecord = (
           medicalRecordId, instructions
         ) VALUES (?, ?)
       `
-      ).run(medicalRecordId, recordData.treatment.instructions);
+      ).run(medicalRecordId, encryptField(recordData.treatment.instructions));
 
       // Insert attachments
       const insertAttachment = db.prepare(`
@@ -466,6 +611,9 @@ export const updateMedicalRecord = (
         recordData.doctorId ||
         recordData.visitDate ||
         recordData.chiefComplaint ||
+        recordData.visitType ||
+        SOAP_FIELDS.some((field) => recordData[field] !== undefined) ||
+        recordData.status ||
         recordData.notes !== undefined ||
         recordData.followUpRecommended !== undefined ||
         recordData.followUpDate !== undefined
@@ -490,12 +638,29 @@ export const updateMedicalRecord = (
 
         if (recordData.chiefComplaint) {
           fields.push("chiefComplaint = ?");
-          values.push(recordData.chiefComplaint);
+          values.push(encryptField(recordData.chiefComplaint));
+        }
+
+        if (recordData.visitType) {
+          fields.push("visitType = ?");
+          values.push(recordData.visitType);
+        }
+
+        for (const field of SOAP_FIELDS) {
+          if (recordData[field] !== undefined) {
+            fields.push(`${field} = ?`);
+            values.push(encryptField(recordData[field] || null));
+          }
+        }
+
+        if (recordData.status) {
+          fields.push("status = ?");
+          values.push(recordData.status);
         }
 
         if (recordData.notes !== undefined) {
           fields.push("notes = ?");
-          values.push(recordData.notes);
+          values.push(encryptField(recordData.notes));
         }
 
         if (recordData.followUpRecommended !== undefined) {
@@ -566,7 +731,7 @@ export const updateMedicalRecord = (
             diagnosis.code,
             diagnosis.description,
             diagnosis.type,
-            diagnosis.notes || null
+            encryptField(diagnosis.notes || null)
           );
         }
       }
@@ -584,8 +749,9 @@ export const updateMedicalRecord = (
           const insertMedication = db.prepare(`
             INSERT INTO medications (
               medicalRecordId, medicationId, name, dosage,
-              frequency, duration, quantity, refills, instructions
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+              frequency, duration, quantity, refills, instructions,
+              overrideReason
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `);
 
           for (const medication of recordData.treatment.medications) {
@@ -598,7 +764,8 @@ export const updateMedicalRecord = (
               medication.duration,
               medication.quantity,
               medication.refills,
-              medication.instructions
+              medication.instructions,
+              encryptField(medication.overrideReason || null)
             );
           }
         }
@@ -622,7 +789,7 @@ export const updateMedicalRecord = (
               id,
               procedure.code,
               procedure.name,
-              procedure.notes || null
+              encryptField(procedure.notes || null)
             );
           }
         }
@@ -641,7 +808,7 @@ export const updateMedicalRecord = (
               medicalRecordId, instructions
             ) VALUES (?, ?)
           `
-          ).run(id, recordData.treatment.instructions);
+          ).run(id, encryptField(recordData.treatment.instructions));
         }
       }
 
@@ -742,39 +909,95 @@ export const addAttachment = (
   }
 };
 
-// Search medical records
+// Search medical records. The chief complaint, SOAP note and notes are
+// encrypted, so they are matched after decryption rather than in SQL. Only
+// the MEDICAL_RECORD_SEARCH_LIMIT most recent records within the filters are
+// scanned.
 export const searchMedicalRecords = (
-  searchTerm: string
+  searchTerm: string,
+  filters: MedicalRecordSearchFilters = {}
 ): MedicalRecordWithNames[] => {
   try {
+    const { patientIds, patientId, from, to } = filters;
+    if (patientIds && patientIds.length === 0) return [];
+
+    const conditions = ["p.deletedAt IS NULL"];
+    const params: (string | number)[] = [];
+
+    if (patientIds) {
+      conditions.push(
+        `mr.patientId IN (${patientIds.map(() => "?").join(", ")})`
+      );
+      params.push(...patientIds);
+    }
+    if (patientId) {
+      conditions.push("mr.patientId = ?");
+      params.push(patientId);
+    }
+    if (from) {
+      conditions.push("mr.visitDate >= ?");
+      params.push(from);
+    }
+    if (to) {
+      conditions.push("mr.visitDate <= ?");
+      params.push(to);
+    }
+
     const query = `
       SELECT 
         mr.*,
         p.firstName || ' ' || p.lastName as patientName,
-        s.firstName || ' ' || s.lastName as doctorName
+        s.firstName || ' ' || s.lastName as doctorName,
+        MAX(
+          p.firstName LIKE ? OR
+          p.lastName LIKE ? OR
+          s.firstName LIKE ? OR
+          s.lastName LIKE ? OR
+          d.description LIKE ? OR
+          d.code LIKE ?
+        ) as matchesPlaintext
       FROM medical_records mr
       LEFT JOIN patients p ON mr.patientId = p.id
       LEFT JOIN staff s ON mr.doctorId = s.id
       LEFT JOIN diagnoses d ON d.medicalRecordId = mr.id
-      WHERE 
-        p.firstName LIKE ? OR
-        p.lastName LIKE ? OR
-        s.firstName LIKE ? OR
-        s.lastName LIKE ? OR
-        mr.chiefComplaint LIKE ? OR
-        mr.notes LIKE ? OR
-        d.description LIKE ? OR
-        d.code LIKE ?
+      WHERE ${conditions.join(" AND ")}
       GROUP BY mr.id
       ORDER BY mr.visitDate DESC
+      LIMIT ?
     `;
 
     const term = `%${searchTerm}%`;
+    const needle = searchTerm.toLowerCase();
     const records = db
       .prepare(query)
-      .all(term, term, term, term, term, term, term, term) as any[];
-
-    return records.map((record) => enrichMedicalRecord(record));
+      .all(
+        term,
+        term,
+        term,
+        term,
+        term,
+        term,
+        ...params,
+        MEDICAL_RECORD_SEARCH_LIMIT
+      ) as (DbMedicalRecordRow & {
+      patientName: string;
+      doctorName: string;
+      matchesPlaintext: number;
+    })[];
+
+    return records
+      .filter(
+        (record) =>
+          record.matchesPlaintext ||
+          [
+            record.chiefComplaint,
+            record.notes,
+            ...SOAP_FIELDS.map((field) => record[field]),
+          ].some((value) =>
+            (decryptField(value) || "").toLowerCase().includes(needle)
+          )
+      )
+      .map(({ matchesPlaintext, ...record }) => enrichMedicalRecord(record));
   } catch (error) {
     logger.error(`Error searching medical records for "${searchTerm}":`, error);
     return [];
@@ -810,7 +1033,7 @@ const enrichMedicalRecord = (record: any): MedicalRecordWithNames => {
     const medications = db
       .prepare(
         `
-      SELECT medicationId, name, dosage, frequency, duration, quantity, refills, instructions 
+      SELECT medicationId, name, dosage, frequency, duration, quantity, refills, instructions, overrideReason
       FROM medications
       WHERE medicalRecordId = ?
     `
@@ -852,6 +1075,11 @@ const enrichMedicalRecord = (record: any): MedicalRecordWithNames => {
 
     return {
       ...record,
+      chiefComplaint: decryptField(record.chiefComplaint),
+      ...Object.fromEntries(
+        SOAP_FIELDS.map((field) => [field, decryptField(record[field])])
+      ),
+      notes: decryptField(record.notes),
       followUpRecommended: Boolean(record.followUpRecommended),
       vitalSigns: vitalSigns || {
         temperature: 0,
@@ -863,11 +1091,20 @@ const enrichMedicalRecord = (record: any): MedicalRecordWithNames => {
         height: 0,
         weight: 0,
       },
-      diagnosis: diagnoses,
+      diagnosis: diagnoses.map((diagnosis) => ({
+        ...diagnosis,
+        notes: decryptField(diagnosis.notes),
+      })),
       treatment: {
-        medications: medications,
-        procedures: procedures,
-        instructions: treatmentInstructions?.instructions || "",
+        medications: medications.map((medication) => ({
+          ...medication,
+          overrideReason: decryptField(medication.overrideReason),
+        })),
+        procedures: procedures.map((procedure) => ({
+          ...procedure,
+          notes: decryptField(procedure.notes),
+        })),
+        instructions: decryptField(treatmentInstructions?.instructions) || "",
       },
       attachments: attachments,
     };
@@ -897,15 +1134,164 @@ const enrichMedicalRecord = (record: any): MedicalRecordWithNames => {
   }
 };
 
+// Capture the content of a record for a version
+const toSnapshot = (record: MedicalRecordWithNames): MedicalRecordSnapshot => {
+  const {
+    id,
+    createdAt,
+    updatedAt,
+    patientName,
+    doctorName,
+    activeAllergies,
+    labResults,
+    ...snapshot
+  } = record;
+  return snapshot;
+};
+
+// Append the current content of a record as its next version
+const insertVersion = (
+  medicalRecordId: number,
+  reason: string | null,
+  authorId: number,
+  now: string
+): void => {
+  const record = getMedicalRecordById(medicalRecordId);
+  if (!record) {
+    throw new Error(`Medical record ${medicalRecordId} not found`);
+  }
+
+  const { next } = db
+    .prepare(
+      "SELECT COALESCE(MAX(version), 0) + 1 as next FROM medical_record_versions WHERE medicalRecordId = ?"
+    )
+    .get(medicalRecordId) as { next: number };
+
+  db.prepare(
+    `
+    INSERT INTO medical_record_versions (
+      medicalRecordId, version, snapshot, reason, authorId, createdAt
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    medicalRecordId,
+    next,
+    encryptField(JSON.stringify(toSnapshot(record))),
+    encryptField(reason),
+    authorId,
+    now
+  );
+};
+
+// Sign a record, locking it and keeping the signed content as version 1
+export const signMedicalRecord = (
+  id: number,
+  signedBy: number
+): MedicalRecordWithNames | null => {
+  try {
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      const result = db
+        .prepare(
+          `
+        UPDATE medical_records
+        SET status = 'signed', signedAt = ?, signedBy = ?, updatedAt = ?
+        WHERE id = ? AND status NOT IN (${LOCKED_STATUSES.map(() => "?").join(
+          ", "
+        )})
+      `
+        )
+        .run(now, signedBy, now, id, ...LOCKED_STATUSES);
+      if (result.changes === 0) {
+        throw new Error(`Medical record ${id} is not signable`);
+      }
+
+      insertVersion(id, null, signedBy, now);
+    })();
+
+    return getMedicalRecordById(id);
+  } catch (error) {
+    logger.error(`Error signing medical record ${id}:`, error);
+    return null;
+  }
+};
+
+// Amend a signed record. The change and a new version recording its author
+// and reason are written together; earlier versions are left untouched.
+export const amendMedicalRecord = (
+  id: number,
+  recordData: Partial<Omit<MedicalRecord, "id" | "createdAt" | "updatedAt">>,
+  reason: string,
+  amendedBy: number
+): MedicalRecordWithNames | null => {
+  try {
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      if (!updateMedicalRecord(id, { ...recordData, status: "amended" })) {
+        throw new Error(`Failed to amend medical record ${id}`);
+      }
+
+      insertVersion(id, reason, amendedBy, now);
+    })();
+
+    return getMedicalRecordById(id);
+  } catch (error) {
+    logger.error(`Error amending medical record ${id}:`, error);
+    return null;
+  }
+};
+
+// Get the signed and amended versions of a record, oldest first
+export const getMedicalRecordVersions = (
+  medicalRecordId: number
+): MedicalRecordVersion[] => {
+  try {
+    const rows = db
+      .prepare(
+        `
+      SELECT
+        v.*,
+        CASE WHEN u.id IS NULL THEN NULL
+          ELSE u.firstName || ' ' || u.lastName END as authorName
+      FROM medical_record_versions v
+      LEFT JOIN users u ON u.id = v.authorId
+      WHERE v.medicalRecordId = ?
+      ORDER BY v.version ASC
+    `
+      )
+      .all(medicalRecordId) as (Omit<MedicalRecordVersion, "snapshot"> & {
+      snapshot: string;
+    })[];
+
+    return rows.map((row) => ({
+      ...row,
+      reason: decryptField(row.reason),
+      snapshot: JSON.parse(decryptField(row.snapshot)),
+    }));
+  } catch (error) {
+    logger.error(
+      `Error getting versions of medical record ${medicalRecordId}:`,
+      error
+    );
+    return [];
+  }
+};
+
 export default {
   createMedicalRecordsTable,
-  getAllMedicalRecords,
+  getMedicalRecordsPage,
+  countMedicalRecords,
   getMedicalRecordById,
   getMedicalRecordsByPatientId,
-  getMedicalRecordsByDoctorId,
+  getPatientMedications,
   createMedicalRecord,
   updateMedicalRecord,
   deleteMedicalRecord,
   addAttachment,
   searchMedicalRecords,
+  signMedicalRecord,
+  amendMedicalRecord,
+  getMedicalRecordVersions,
 };
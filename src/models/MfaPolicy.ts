@@ -0,0 +1,82 @@
+import db, { DbMfaPolicyRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+
+/**
+ * Get the roles that must use MFA
+ */
+export const findRequiredRoles = async (): Promise<string[]> => {
+  try {
+    const rows = db
+      .prepare("SELECT * FROM mfa_policies WHERE required = 1 ORDER BY role")
+      .all() as DbMfaPolicyRow[];
+
+    return rows.map((row) => row.role);
+  } catch (error) {
+    logger.error("Error finding MFA policies:", error);
+    return [];
+  }
+};
+
+/**
+ * Check whether a role must use MFA
+ */
+export const isRequiredForRole = async (role: string): Promise<boolean> => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM mfa_policies WHERE role = ?")
+      .get(role) as DbMfaPolicyRow | undefined;
+
+    return row?.required === 1;
+  } catch (error) {
+    logger.error(`Error finding MFA policy for role ${role}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Replace the set of roles that must use MFA
+ */
+export const setRequiredRoles = async (
+  roles: string[],
+  updatedBy: number
+): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const upsert = db.prepare(
+      `INSERT INTO mfa_policies (role, required, updatedBy, updatedAt)
+       VALUES (?, 1, ?, ?)
+       ON CONFLICT(role) DO UPDATE SET
+         required = 1,
+         updatedBy = excluded.updatedBy,
+         updatedAt = excluded.updatedAt`
+    );
+
+    const replaceAll = db.transaction(() => {
+      const placeholders = roles.map(() => "?").join(", ");
+      db.prepare(
+        `UPDATE mfa_policies SET required = 0, updatedBy = ?, updatedAt = ?
+         WHERE required = 1${
+           roles.length > 0 ? ` AND role NOT IN (${placeholders})` : ""
+         }`
+      ).run(updatedBy, now, ...roles);
+
+      for (const role of roles) {
+        upsert.run(role, updatedBy, now);
+      }
+    });
+
+    replaceAll();
+    return true;
+  } catch (error) {
+    logger.error("Error updating MFA policies:", error);
+    return false;
+  }
+};
+
+export const MfaPolicyModel = {
+  findRequiredRoles,
+  isRequiredForRole,
+  setRequiredRoles,
+};
+
+export default MfaPolicyModel;
@@ -0,0 +1,70 @@
+import db, { DbPasswordHistoryRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { PasswordHistoryEntry } from "../types/auth";
+
+/**
+ * Record a password hash in a user's history
+ */
+export const add = async (
+  userId: number,
+  passwordHash: string
+): Promise<boolean> => {
+  try {
+    db.prepare(
+      "INSERT INTO password_history (userId, passwordHash, createdAt) VALUES (?, ?, ?)"
+    ).run(userId, passwordHash, new Date().toISOString());
+
+    return true;
+  } catch (error) {
+    logger.error(`Error adding password history for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Get a user's most recent password hashes, newest first
+ */
+export const findRecent = async (
+  userId: number,
+  limit: number
+): Promise<PasswordHistoryEntry[]> => {
+  try {
+    return db
+      .prepare(
+        "SELECT * FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?"
+      )
+      .all(userId, limit) as DbPasswordHistoryRow[];
+  } catch (error) {
+    logger.error(`Error finding password history for user ${userId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Delete all but a user's most recent password hashes
+ */
+export const prune = async (userId: number, keep: number): Promise<number> => {
+  try {
+    const result = db
+      .prepare(
+        `DELETE FROM password_history
+         WHERE userId = ? AND id NOT IN (
+           SELECT id FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?
+         )`
+      )
+      .run(userId, userId, keep);
+
+    return result.changes;
+  } catch (error) {
+    logger.error(`Error pruning password history for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+export const PasswordHistoryModel = {
+  add,
+  findRecent,
+  prune,
+};
+
+export default PasswordHistoryModel;
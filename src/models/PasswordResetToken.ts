@@ -0,0 +1,97 @@
+import db, { DbPasswordResetTokenRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { PasswordResetToken } from "../types/auth";
+
+/**
+ * Find an unused, unexpired reset token by its hash
+ */
+export const findValidByHash = async (
+  tokenHash: string
+): Promise<PasswordResetToken | null> => {
+  try {
+    const result = db
+      .prepare(
+        `SELECT * FROM password_reset_tokens
+         WHERE tokenHash = ? AND usedAt IS NULL AND expiresAt > ?`
+      )
+      .get(tokenHash, new Date().toISOString()) as
+      | DbPasswordResetTokenRow
+      | undefined;
+
+    return result || null;
+  } catch (error) {
+    logger.error("Error finding password reset token:", error);
+    return null;
+  }
+};
+
+/**
+ * Store a newly issued reset token
+ */
+export const create = async (
+  data: Pick<PasswordResetToken, "id" | "userId" | "tokenHash" | "expiresAt">
+): Promise<boolean> => {
+  try {
+    db.prepare(
+      `INSERT INTO password_reset_tokens (id, userId, tokenHash, expiresAt, createdAt)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run(
+      data.id,
+      data.userId,
+      data.tokenHash,
+      data.expiresAt,
+      new Date().toISOString()
+    );
+
+    return true;
+  } catch (error) {
+    logger.error("Error creating password reset token:", error);
+    return false;
+  }
+};
+
+/**
+ * Mark a reset token as used.
+ * Returns false if it was already used (e.g. a concurrent reset).
+ */
+export const markUsed = async (id: string): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        "UPDATE password_reset_tokens SET usedAt = ? WHERE id = ? AND usedAt IS NULL"
+      )
+      .run(new Date().toISOString(), id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error using password reset token ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Invalidate every outstanding reset token for a user
+ */
+export const invalidateAllForUser = async (userId: number): Promise<number> => {
+  try {
+    const result = db
+      .prepare(
+        "UPDATE password_reset_tokens SET usedAt = ? WHERE userId = ? AND usedAt IS NULL"
+      )
+      .run(new Date().toISOString(), userId);
+
+    return result.changes;
+  } catch (error) {
+    logger.error(`Error invalidating reset tokens for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+export const PasswordResetTokenModel = {
+  findValidByHash,
+  create,
+  markUsed,
+  invalidateAllForUser,
+};
+
+export default PasswordResetTokenModel;
@@ -4,8 +4,71 @@ import {
   PatientWithMetadata,
   CreatePatientRequest,
   UpdatePatientRequest,
+  PatientFilterOptions,
 } from "../types/patient";
 import { logger } from "../utils/logger";
+import {
+  blindIndex,
+  decryptField,
+  encryptField,
+  normalizeEmail,
+  normalizeIdentifier,
+  normalizePhone,
+} from "../utils/fieldEncryption";
+import { BlindIndexDefinition } from "../types/encryption";
+
+// Columns stored encrypted at rest
+export const PATIENT_ENCRYPTED_FIELDS = [
+  "contactNumber",
+  "email",
+  "address",
+  "emergencyContactName",
+  "emergencyContactNumber",
+  "allergies",
+  "medicalHistory",
+  "insurancePolicyNumber",
+] as const;
+
+// Keyed hashes of encrypted columns that still need exact-match lookups
+export const PATIENT_BLIND_INDEXES: BlindIndexDefinition[] = [
+  { column: "email", indexColumn: "emailIndex", normalize: normalizeEmail },
+  {
+    column: "contactNumber",
+    indexColumn: "contactNumberIndex",
+    normalize: normalizePhone,
+  },
+  {
+    column: "insurancePolicyNumber",
+    indexColumn: "insurancePolicyNumberIndex",
+    normalize: normalizeIdentifier,
+  },
+];
+
+/**
+ * Encrypt the sensitive columns among the given values and add the blind
+ * indexes of any indexed column present
+ * @private
+ */
+const toStoredValues = (values: Record<string, any>): Record<string, any> => {
+  const stored = { ...values };
+
+  for (const field of PATIENT_ENCRYPTED_FIELDS) {
+    if (stored[field] !== undefined) {
+      stored[field] = encryptField(stored[field]);
+    }
+  }
+
+  for (const index of PATIENT_BLIND_INDEXES) {
+    if (values[index.column] !== undefined) {
+      stored[index.indexColumn] = blindIndex(
+        values[index.column],
+        index.normalize
+      );
+    }
+  }
+
+  return stored;
+};
 
 /**
  * Initialize patients table if it doesn't exist
@@ -41,12 +104,19 @@ export const createPatientsTable = async (): Promise<void> => {
 };
 
 /**
- * Find patient by ID
+ * Find patient by ID. Soft-deleted patients are only returned when asked for.
  */
-export const findById = async (id: number): Promise<Patient | null> => {
+export const findById = async (
+  id: number,
+  includeDeleted = false
+): Promise<Patient | null> => {
   try {
     const result = db
-      .prepare("SELECT * FROM patients WHERE id = ?")
+      .prepare(
+        `SELECT * FROM patients WHERE id = ?${
+          includeDeleted ? "" : " AND deletedAt IS NULL"
+        }`
+      )
       .get(id) as any;
 
     if (!result) return null;
@@ -59,12 +129,16 @@ export const findById = async (id: number): Promise<Patient | null> => {
 };
 
 /**
- * Find all patients
+ * Find all patients, leaving out soft-deleted ones unless asked for
  */
-export const findAll = async (): Promise<Patient[]> => {
+export const findAll = async (includeDeleted = false): Promise<Patient[]> => {
   try {
     const results = db
-      .prepare("SELECT * FROM patients ORDER BY lastName, firstName")
+      .prepare(
+        `SELECT * FROM patients${
+          includeDeleted ? "" : " WHERE deletedAt IS NULL"
+        } ORDER BY lastName, firstName`
+      )
       .all() as any[];
 
     return results.map(formatPatientFromDb);
@@ -75,7 +149,9 @@ export const findAll = async (): Promise<Patient[]> => {
 };
 
 /**
- * Find patients by specific criteria
+ * Find patients by specific criteria. Encrypted columns with a blind index
+ * are matched through it; other encrypted columns are compared after
+ * decryption.
  */
 export const findByCriteria = async (
   criteria: Partial<Patient>
@@ -87,16 +163,39 @@ export const findByCriteria = async (
 
     if (keys.length === 0) return findAll();
 
-    const whereClause = keys.map((key) => `${key} = ?`).join(" AND ");
-    const values = keys
-      .map((key) => criteria[key as keyof Patient])
-      .filter((v) => v !== undefined);
+    const conditions: string[] = ["deletedAt IS NULL"];
+    const values: unknown[] = [];
+    const decryptedMatches: string[] = [];
+
+    for (const key of keys) {
+      const value = criteria[key as keyof Patient];
+      const index = PATIENT_BLIND_INDEXES.find((i) => i.column === key);
+
+      if (index) {
+        conditions.push(`${index.indexColumn} = ?`);
+        values.push(blindIndex(String(value), index.normalize));
+      } else if (
+        (PATIENT_ENCRYPTED_FIELDS as readonly string[]).includes(key)
+      ) {
+        decryptedMatches.push(key);
+      } else {
+        conditions.push(`${key} = ?`);
+        values.push(value);
+      }
+    }
 
     const results = db
-      .prepare(`SELECT * FROM patients WHERE ${whereClause}`)
+      .prepare(`SELECT * FROM patients WHERE ${conditions.join(" AND ")}`)
       .all(...values) as any[];
 
-    return results.map(formatPatientFromDb);
+    return results
+      .map(formatPatientFromDb)
+      .filter((patient) =>
+        decryptedMatches.every(
+          (key) =>
+            patient[key as keyof Patient] === criteria[key as keyof Patient]
+        )
+      );
   } catch (error) {
     logger.error("Error finding patients by criteria:", error);
     return [];
@@ -104,23 +203,33 @@ export const findByCriteria = async (
 };
 
 /**
- * Search patients by name, email, or contact number
+ * Search patients by partial name, or by exact email or contact number.
+ * Email and contact number are encrypted, so they are matched through
+ * their blind indexes. Soft-deleted patients are left out unless asked for.
  */
 export const searchPatients = async (
-  searchTerm: string
+  searchTerm: string,
+  includeDeleted = false
 ): Promise<Patient[]> => {
   try {
     const searchPattern = `%${searchTerm}%`;
     const results = db
       .prepare(
         `SELECT * FROM patients 
-         WHERE firstName LIKE ? 
+         WHERE (firstName LIKE ? 
          OR lastName LIKE ? 
-         OR email LIKE ? 
-         OR contactNumber LIKE ?
+         OR emailIndex = ? 
+         OR contactNumberIndex = ?)${
+           includeDeleted ? "" : " AND deletedAt IS NULL"
+         }
          ORDER BY lastName, firstName`
       )
-      .all(searchPattern, searchPattern, searchPattern, searchPattern) as any[];
+      .all(
+        searchPattern,
+        searchPattern,
+        blindIndex(searchTerm, normalizeEmail),
+        blindIndex(searchTerm, normalizePhone)
+      ) as any[];
 
     return results.map(formatPatientFromDb);
   } catch (error) {
@@ -129,6 +238,183 @@ export const searchPatients = async (
   }
 };
 
+/**
+ * Get the date of birth of someone turning the given age today
+ * @private
+ */
+const birthDateForAge = (years: number): string => {
+  const date = new Date();
+  date.setUTCFullYear(date.getUTCFullYear() - years);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Build the WHERE clause for patient list filters. Age bounds become date of
+ * birth bounds so the dateOfBirth index can be used.
+ * @private
+ */
+const buildListWhere = (
+  filters: PatientFilterOptions
+): { where: string; params: (string | number | null)[] } => {
+  let where = filters.includeDeleted
+    ? " WHERE 1 = 1"
+    : " WHERE deletedAt IS NULL";
+  const params: (string | number | null)[] = [];
+
+  if (filters.search) {
+    where +=
+      " AND (firstName LIKE ? OR lastName LIKE ? OR emailIndex = ? OR contactNumberIndex = ?)";
+    params.push(
+      `%${filters.search}%`,
+      `%${filters.search}%`,
+      blindIndex(filters.search, normalizeEmail),
+      blindIndex(filters.search, normalizePhone)
+    );
+  }
+
+  if (filters.gender) {
+    where += " AND gender = ? COLLATE NOCASE";
+    params.push(filters.gender);
+  }
+
+  if (filters.ageMin !== undefined) {
+    where += " AND dateOfBirth <= ?";
+    params.push(birthDateForAge(filters.ageMin));
+  }
+
+  if (filters.ageMax !== undefined) {
+    where += " AND dateOfBirth > ?";
+    params.push(birthDateForAge(filters.ageMax + 1));
+  }
+
+  if (filters.bloodType) {
+    where += " AND bloodType = ? COLLATE NOCASE";
+    params.push(filters.bloodType);
+  }
+
+  if (filters.insuranceProvider) {
+    where += " AND insuranceProvider = ? COLLATE NOCASE";
+    params.push(filters.insuranceProvider);
+  }
+
+  if (filters.createdFrom) {
+    where += " AND createdAt >= ?";
+    params.push(filters.createdFrom);
+  }
+
+  if (filters.createdTo) {
+    // A bare date includes everything created that day
+    where += " AND createdAt <= ?";
+    params.push(
+      filters.createdTo.length === 10
+        ? `${filters.createdTo}T23:59:59.999Z`
+        : filters.createdTo
+    );
+  }
+
+  return { where, params };
+};
+
+/**
+ * Find a page of patients matching the list filters. Ties in the sort
+ * column are broken by ID so pages never overlap.
+ */
+export const findPage = async (
+  filters: PatientFilterOptions = {}
+): Promise<Patient[]> => {
+  try {
+    const { where, params } = buildListWhere(filters);
+    const sortBy = filters.sortBy || "lastName";
+    const sortOrder = filters.sortOrder === "desc" ? "DESC" : "ASC";
+
+    let query = `SELECT * FROM patients${where} ORDER BY ${sortBy} ${sortOrder}`;
+    if (sortBy === "lastName") {
+      query += `, firstName ${sortOrder}`;
+    }
+    if (sortBy !== "id") {
+      query += `, id ${sortOrder}`;
+    }
+
+    if (filters.limit) {
+      query += " LIMIT ? OFFSET ?";
+      params.push(filters.limit, ((filters.page || 1) - 1) * filters.limit);
+    }
+
+    const results = db.prepare(query).all(...params) as any[];
+    return results.map(formatPatientFromDb);
+  } catch (error) {
+    logger.error("Error finding page of patients:", error);
+    return [];
+  }
+};
+
+/**
+ * Count patients matching the list filters
+ */
+export const countByFilters = async (
+  filters: PatientFilterOptions = {}
+): Promise<number> => {
+  try {
+    const { where, params } = buildListWhere(filters);
+    const result = db
+      .prepare(`SELECT COUNT(*) as count FROM patients${where}`)
+      .get(...params) as { count: number };
+
+    return result.count;
+  } catch (error) {
+    logger.error("Error counting patients by filters:", error);
+    return 0;
+  }
+};
+
+/**
+ * Find active patients sharing the date of birth, email, contact number or
+ * insurance policy number with the given details. Encrypted details are
+ * matched through their blind indexes.
+ */
+export const findByIdentifiers = async (details: {
+  dateOfBirth?: string;
+  email?: string;
+  contactNumber?: string;
+  insurancePolicyNumber?: string;
+}): Promise<Patient[]> => {
+  try {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (details.dateOfBirth) {
+      conditions.push("dateOfBirth = ?");
+      values.push(details.dateOfBirth);
+    }
+
+    for (const index of PATIENT_BLIND_INDEXES) {
+      const hash = blindIndex(
+        details[index.column as keyof typeof details],
+        index.normalize
+      );
+      if (hash) {
+        conditions.push(`${index.indexColumn} = ?`);
+        values.push(hash);
+      }
+    }
+
+    if (conditions.length === 0) return [];
+
+    const results = db
+      .prepare(
+        `SELECT * FROM patients
+         WHERE deletedAt IS NULL AND (${conditions.join(" OR ")})
+         ORDER BY lastName, firstName`
+      )
+      .all(...values) as any[];
+
+    return results.map(formatPatientFromDb);
+  } catch (error) {
+    logger.error("Error finding patients by identifiers:", error);
+    return [];
+  }
+};
+
 /**
  * Create a new patient
  */
@@ -141,6 +427,17 @@ export const create = async (
     // Use type assertion to handle missing fields safely
     const data = patientData as any;
 
+    const stored = toStoredValues({
+      contactNumber: data.contactNumber || null,
+      email: data.email || null,
+      address: data.address || null,
+      emergencyContactName: data.emergencyContactName || null,
+      emergencyContactNumber: data.emergencyContactNumber || null,
+      allergies: data.allergies || null,
+      medicalHistory: data.medicalHistory || null,
+      insurancePolicyNumber: data.insurancePolicyNumber || null,
+    });
+
     const info = db
       .prepare(
         `INSERT INTO patients (
@@ -148,8 +445,9 @@ export const create = async (
           contactNumber, email, address, emergencyContactName,
           emergencyContactNumber, bloodType, allergies, 
           medicalHistory, insuranceProvider, insurancePolicyNumber,
+          emailIndex, contactNumberIndex, insurancePolicyNumberIndex,
           createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
       )
       .run(
@@ -157,16 +455,19 @@ export const create = async (
         data.lastName,
         data.dateOfBirth,
         data.gender,
-        data.contactNumber || null,
-        data.email || null,
-        data.address || null,
-        data.emergencyContactName || null,
-        data.emergencyContactNumber || null,
+        stored.contactNumber,
+        stored.email,
+        stored.address,
+        stored.emergencyContactName,
+        stored.emergencyContactNumber,
         data.bloodType || null,
-        data.allergies || null,
-        data.medicalHistory || null,
+        stored.allergies,
+        stored.medicalHistory,
         data.insuranceProvider || null,
-        data.insurancePolicyNumber || null,
+        stored.insurancePolicyNumber,
+        stored.emailIndex,
+        stored.contactNumberIndex,
+        stored.insurancePolicyNumberIndex,
         now,
         now
       );
@@ -228,11 +529,13 @@ export const update = async (
       return patient;
     }
 
-    const setClause = Object.keys(updates)
+    const stored = toStoredValues(updates);
+
+    const setClause = Object.keys(stored)
       .map((key) => `${key} = ?`)
       .join(", ");
 
-    const values = Object.values(updates);
+    const values = Object.values(stored);
     values.push(id);
 
     db.prepare(`UPDATE patients SET ${setClause} WHERE id = ?`).run(...values);
@@ -245,11 +548,17 @@ export const update = async (
 };
 
 /**
- * Delete a patient
+ * Soft-delete a patient. The row and everything linked to it are kept and
+ * can be restored.
  */
 export const remove = async (id: number): Promise<boolean> => {
   try {
-    const result = db.prepare("DELETE FROM patients WHERE id = ?").run(id);
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        "UPDATE patients SET deletedAt = ?, updatedAt = ? WHERE id = ? AND deletedAt IS NULL"
+      )
+      .run(now, now, id);
     return result.changes > 0;
   } catch (error) {
     logger.error(`Error deleting patient ${id}:`, error);
@@ -257,13 +566,46 @@ export const remove = async (id: number): Promise<boolean> => {
   }
 };
 
+/**
+ * Restore a soft-deleted patient
+ */
+export const restore = async (id: number): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        "UPDATE patients SET deletedAt = NULL, updatedAt = ? WHERE id = ? AND deletedAt IS NOT NULL"
+      )
+      .run(new Date().toISOString(), id);
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error restoring patient ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Permanently delete a soft-deleted patient. Appointments, medical records
+ * and invoices are removed with it.
+ */
+export const purge = async (id: number): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM patients WHERE id = ? AND deletedAt IS NOT NULL")
+      .run(id);
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error purging patient ${id}:`, error);
+    return false;
+  }
+};
+
 /**
  * Get patient count
  */
 export const count = (): number => {
   try {
     const result = db
-      .prepare("SELECT COUNT(*) as count FROM patients")
+      .prepare("SELECT COUNT(*) as count FROM patients WHERE deletedAt IS NULL")
       .get() as { count: number };
     return result.count;
   } catch (error) {
@@ -273,9 +615,14 @@ export const count = (): number => {
 };
 
 /**
- * Format patient object from database
+ * Format patient object from database, decrypting sensitive columns
  */
-const formatPatientFromDb = (dbPatient: any): Patient => {
+const formatPatientFromDb = (row: any): Patient => {
+  const dbPatient = { ...row };
+  for (const field of PATIENT_ENCRYPTED_FIELDS) {
+    dbPatient[field] = decryptField(dbPatient[field]);
+  }
+
   return {
     id: dbPatient.id,
     firstName: dbPatient.firstName,
@@ -294,16 +641,19 @@ const formatPatientFromDb = (dbPatient: any): Patient => {
     insurancePolicyNumber: dbPatient.insurancePolicyNumber || "",
     createdAt: dbPatient.createdAt,
     updatedAt: dbPatient.updatedAt,
+    deletedAt: dbPatient.deletedAt || null,
   };
 };
 
 /**
- * Get patient with additional metadata (age, appointment count, etc.)
+ * Get patient with additional metadata (age, record and appointment counts,
+ * last visit)
  */
 export const getPatientWithMetadata = async (
-  id: number
+  id: number,
+  includeDeleted = false
 ): Promise<PatientWithMetadata | null> => {
-  const patient = await findById(id);
+  const patient = await findById(id, includeDeleted);
   if (!patient) return null;
 
   // Calculate age
@@ -315,15 +665,31 @@ export const getPatientWithMetadata = async (
     age--;
   }
 
-  // In a real implementation, you would query related tables for this data
-  return {
-    ...patient,
-    fullName: `${patient.firstName} ${patient.lastName}`,
-    age,
-    medicalRecordCount: 0, // Placeholder - would come from medical_records table
-    appointmentCount: 0, // Placeholder - would come from appointments table
-    lastVisit: null, // Placeholder - would come from appointments table
-  };
+  try {
+    const counts = db
+      .prepare(
+        `SELECT
+          (SELECT COUNT(*) FROM medical_records WHERE patientId = ?) as medicalRecordCount,
+          (SELECT COUNT(*) FROM appointments WHERE patientId = ?) as appointmentCount,
+          (SELECT MAX(visitDate) FROM medical_records
+            WHERE patientId = ? AND visitDate <= ?) as lastVisit`
+      )
+      .get(id, id, id, today.toISOString()) as {
+      medicalRecordCount: number;
+      appointmentCount: number;
+      lastVisit: string | null;
+    };
+
+    return {
+      ...patient,
+      fullName: `${patient.firstName} ${patient.lastName}`,
+      age,
+      ...counts,
+    };
+  } catch (error) {
+    logger.error(`Error getting metadata for patient ${id}:`, error);
+    return null;
+  }
 };
 
 export default {
@@ -332,9 +698,14 @@ export default {
   findAll,
   findByCriteria,
   searchPatients,
+  findPage,
+  countByFilters,
+  findByIdentifiers,
   create,
   update,
   remove,
+  restore,
+  purge,
   count,
   getPatientWithMetadata,
 };
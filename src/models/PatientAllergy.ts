@@ -0,0 +1,180 @@
+import db, { DbPatientAllergyRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { decryptField, encryptField } from "../utils/fieldEncryption";
+import { EncryptedTable } from "../types/encryption";
+import {
+  Allergy,
+  AllergyInput,
+  AllergySeverity,
+  AllergyStatus,
+} from "../types/medicalRecord";
+
+// Allergy details stored encrypted at rest
+export const PATIENT_ALLERGY_ENCRYPTED_TABLE: EncryptedTable = {
+  table: "patient_allergies",
+  columns: ["allergen", "reaction", "notes"],
+};
+
+// Most severe allergies are listed first
+const SEVERITY_ORDER = `CASE severity
+  WHEN 'life-threatening' THEN 0
+  WHEN 'severe' THEN 1
+  WHEN 'moderate' THEN 2
+  ELSE 3 END`;
+
+/**
+ * Format an allergy row, decrypting its details
+ * @private
+ */
+const formatAllergy = (row: DbPatientAllergyRow): Allergy => ({
+  id: row.id,
+  patientId: row.patientId,
+  allergen: decryptField(row.allergen),
+  reaction: decryptField(row.reaction),
+  severity: row.severity as AllergySeverity,
+  status: row.status as AllergyStatus,
+  onsetDate: row.onsetDate || undefined,
+  notes: decryptField(row.notes) || undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Find a patient's allergies, most severe first
+ * @param status Only return allergies with this status
+ */
+export const findByPatient = async (
+  patientId: number,
+  status?: AllergyStatus
+): Promise<Allergy[]> => {
+  try {
+    const rows = db
+      .prepare(
+        `SELECT * FROM patient_allergies
+         WHERE patientId = ?${status ? " AND status = ?" : ""}
+         ORDER BY ${SEVERITY_ORDER}, id ASC`
+      )
+      .all(
+        ...(status ? [patientId, status] : [patientId])
+      ) as DbPatientAllergyRow[];
+
+    return rows.map(formatAllergy);
+  } catch (error) {
+    logger.error(`Error finding allergies for patient ${patientId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Find an allergy by ID
+ */
+export const findById = async (id: number): Promise<Allergy | null> => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM patient_allergies WHERE id = ?")
+      .get(id) as DbPatientAllergyRow | undefined;
+
+    return row ? formatAllergy(row) : null;
+  } catch (error) {
+    logger.error(`Error finding allergy ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Record an allergy for a patient
+ */
+export const create = async (
+  patientId: number,
+  data: AllergyInput
+): Promise<Allergy | null> => {
+  try {
+    const now = new Date().toISOString();
+    const info = db
+      .prepare(
+        `INSERT INTO patient_allergies (
+          patientId, allergen, reaction, severity, status, onsetDate, notes,
+          createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        patientId,
+        encryptField(data.allergen),
+        encryptField(data.reaction),
+        data.severity,
+        data.status,
+        data.onsetDate || null,
+        encryptField(data.notes || null),
+        now,
+        now
+      );
+
+    return findById(info.lastInsertRowid as number);
+  } catch (error) {
+    logger.error(`Error creating allergy for patient ${patientId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Update an allergy
+ */
+export const update = async (
+  id: number,
+  data: Partial<AllergyInput>
+): Promise<Allergy | null> => {
+  try {
+    const updates: Record<string, string | null> = {};
+
+    if (data.allergen !== undefined)
+      updates.allergen = encryptField(data.allergen);
+    if (data.reaction !== undefined)
+      updates.reaction = encryptField(data.reaction);
+    if (data.severity !== undefined) updates.severity = data.severity;
+    if (data.status !== undefined) updates.status = data.status;
+    if (data.onsetDate !== undefined)
+      updates.onsetDate = data.onsetDate || null;
+    if (data.notes !== undefined)
+      updates.notes = encryptField(data.notes || null);
+
+    updates.updatedAt = new Date().toISOString();
+
+    const columns = Object.keys(updates);
+    db.prepare(
+      `UPDATE patient_allergies SET ${columns
+        .map((column) => `${column} = ?`)
+        .join(", ")} WHERE id = ?`
+    ).run(...Object.values(updates), id);
+
+    return findById(id);
+  } catch (error) {
+    logger.error(`Error updating allergy ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Delete an allergy recorded in error
+ */
+export const remove = async (id: number): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM patient_allergies WHERE id = ?")
+      .run(id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error deleting allergy ${id}:`, error);
+    return false;
+  }
+};
+
+export const PatientAllergyModel = {
+  findByPatient,
+  findById,
+  create,
+  update,
+  remove,
+};
+
+export default PatientAllergyModel;
@@ -0,0 +1,266 @@
+import db, { DbPatientMergeRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { MergedRecords, PatientMerge } from "../types/patient";
+
+// Tables whose rows follow a patient into the surviving chart
+const MERGED_TABLES = [
+  "appointments",
+  "medical_records",
+  "invoices",
+  "patient_allergies",
+  "patient_problems",
+  "lab_results",
+  "patient_credits",
+] as const;
+
+/**
+ * Format a merge history row
+ * @private
+ */
+const formatMerge = (row: DbPatientMergeRow): PatientMerge => {
+  const movedRecords = JSON.parse(row.movedRecords) as MergedRecords;
+
+  // Merges recorded before these tables existed moved none of their rows
+  movedRecords.patient_allergies = movedRecords.patient_allergies || [];
+  movedRecords.patient_problems = movedRecords.patient_problems || [];
+  movedRecords.lab_results = movedRecords.lab_results || [];
+  movedRecords.patient_credits = movedRecords.patient_credits || [];
+  movedRecords.care_team_assignments = movedRecords.care_team_assignments || [];
+
+  return { ...row, movedRecords };
+};
+
+/**
+ * Update or delete the given rows by ID
+ * @private
+ */
+const updateByIds = (
+  sql: string,
+  ids: number[],
+  ...params: unknown[]
+): void => {
+  if (ids.length === 0) return;
+
+  db.prepare(`${sql} AND id IN (${ids.map(() => "?").join(", ")})`).run(
+    ...params,
+    ...ids
+  );
+};
+
+/**
+ * Merge a duplicate chart into a surviving one in a single transaction:
+ * move the duplicate's appointments, medical records and invoices, copy its
+ * care team to the survivor, move its portal notifications (or the portal
+ * link itself), soft-delete the duplicate and record what was moved
+ * @param portal Portal account changes decided by the caller
+ */
+export const merge = (
+  survivorId: number,
+  duplicateId: number,
+  mergedBy: number,
+  portal: {
+    notificationRecipientId: number | null;
+    notificationTargetId: number | null;
+    portalUserId: number | null;
+  }
+): PatientMerge | null => {
+  try {
+    const now = new Date().toISOString();
+
+    const id = db.transaction(() => {
+      const moved: MergedRecords = {
+        appointments: [],
+        medical_records: [],
+        invoices: [],
+        patient_allergies: [],
+        patient_problems: [],
+        lab_results: [],
+        patient_credits: [],
+        care_team_assignments: [],
+        notifications: [],
+        notificationRecipientId: portal.notificationRecipientId,
+        portalUserId: portal.portalUserId,
+      };
+
+      for (const table of MERGED_TABLES) {
+        moved[table] = (
+          db
+            .prepare(`SELECT id FROM ${table} WHERE patientId = ?`)
+            .all(duplicateId) as { id: number }[]
+        ).map((row) => row.id);
+
+        db.prepare(`UPDATE ${table} SET patientId = ? WHERE patientId = ?`).run(
+          survivorId,
+          duplicateId
+        );
+      }
+
+      // The duplicate keeps its own assignments so an undo leaves its care
+      // team as it was; staff already on the survivor's team are skipped
+      const assignments = db
+        .prepare(
+          `SELECT staffId, role FROM care_team_assignments
+           WHERE patientId = ?
+             AND staffId NOT IN (
+               SELECT staffId FROM care_team_assignments WHERE patientId = ?
+             )`
+        )
+        .all(duplicateId, survivorId) as {
+        staffId: string;
+        role: string | null;
+      }[];
+      const assign = db.prepare(
+        `INSERT INTO care_team_assignments (
+          patientId, staffId, role, assignedBy, createdAt
+        ) VALUES (?, ?, ?, ?, ?)`
+      );
+      moved.care_team_assignments = assignments.map(
+        ({ staffId, role }) =>
+          assign.run(survivorId, staffId, role, mergedBy, now)
+            .lastInsertRowid as number
+      );
+
+      if (portal.notificationRecipientId && portal.notificationTargetId) {
+        moved.notifications = (
+          db
+            .prepare("SELECT id FROM notifications WHERE recipientId = ?")
+            .all(portal.notificationRecipientId) as { id: number }[]
+        ).map((row) => row.id);
+
+        db.prepare(
+          "UPDATE notifications SET recipientId = ? WHERE recipientId = ?"
+        ).run(portal.notificationTargetId, portal.notificationRecipientId);
+      }
+
+      if (portal.portalUserId) {
+        db.prepare(
+          "UPDATE users SET patientId = ?, updatedAt = ? WHERE id = ?"
+        ).run(survivorId, now, portal.portalUserId);
+      }
+
+      db.prepare(
+        "UPDATE patients SET deletedAt = ?, updatedAt = ? WHERE id = ?"
+      ).run(now, now, duplicateId);
+
+      const info = db
+        .prepare(
+          `INSERT INTO patient_merges (
+            survivorId, duplicateId, movedRecords, mergedBy, mergedAt
+          ) VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(survivorId, duplicateId, JSON.stringify(moved), mergedBy, now);
+
+      return info.lastInsertRowid as number;
+    })();
+
+    return findById(id);
+  } catch (error) {
+    logger.error(
+      `Error merging patient ${duplicateId} into ${survivorId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+/**
+ * Undo a merge in a single transaction: move the recorded rows back to the
+ * duplicate, remove the care team assignments copied to the survivor and
+ * restore the duplicate
+ */
+export const undo = (mergeRecord: PatientMerge, undoneBy: number): boolean => {
+  try {
+    const { survivorId, duplicateId, movedRecords } = mergeRecord;
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      for (const table of MERGED_TABLES) {
+        updateByIds(
+          `UPDATE ${table} SET patientId = ? WHERE patientId = ?`,
+          movedRecords[table],
+          duplicateId,
+          survivorId
+        );
+      }
+
+      updateByIds(
+        "DELETE FROM care_team_assignments WHERE patientId = ?",
+        movedRecords.care_team_assignments,
+        survivorId
+      );
+
+      if (movedRecords.notificationRecipientId) {
+        updateByIds(
+          "UPDATE notifications SET recipientId = ? WHERE 1 = 1",
+          movedRecords.notifications,
+          movedRecords.notificationRecipientId
+        );
+      }
+
+      if (movedRecords.portalUserId) {
+        db.prepare(
+          "UPDATE users SET patientId = ?, updatedAt = ? WHERE id = ? AND patientId = ?"
+        ).run(duplicateId, now, movedRecords.portalUserId, survivorId);
+      }
+
+      db.prepare(
+        "UPDATE patients SET deletedAt = NULL, updatedAt = ? WHERE id = ?"
+      ).run(now, duplicateId);
+
+      db.prepare(
+        "UPDATE patient_merges SET undoneAt = ?, undoneBy = ? WHERE id = ?"
+      ).run(now, undoneBy, mergeRecord.id);
+    })();
+
+    return true;
+  } catch (error) {
+    logger.error(`Error undoing patient merge ${mergeRecord.id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Find a merge by ID
+ */
+export const findById = (id: number): PatientMerge | null => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM patient_merges WHERE id = ?")
+      .get(id) as DbPatientMergeRow | undefined;
+
+    return row ? formatMerge(row) : null;
+  } catch (error) {
+    logger.error(`Error finding patient merge ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find the merges a patient took part in, as survivor or duplicate, newest
+ * first
+ */
+export const findByPatient = (patientId: number): PatientMerge[] => {
+  try {
+    const rows = db
+      .prepare(
+        `SELECT * FROM patient_merges
+         WHERE survivorId = ? OR duplicateId = ?
+         ORDER BY id DESC`
+      )
+      .all(patientId, patientId) as DbPatientMergeRow[];
+
+    return rows.map(formatMerge);
+  } catch (error) {
+    logger.error(`Error finding merges for patient ${patientId}:`, error);
+    return [];
+  }
+};
+
+export const PatientMergeModel = {
+  merge,
+  undo,
+  findById,
+  findByPatient,
+};
+
+export default PatientMergeModel;
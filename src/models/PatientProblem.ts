@@ -0,0 +1,261 @@
+import db, { DbPatientProblemRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { decryptField, encryptField } from "../utils/fieldEncryption";
+import { EncryptedTable } from "../types/encryption";
+import {
+  MedicalHistory,
+  ProblemStatus,
+  ProblemSuggestion,
+} from "../types/medicalRecord";
+
+// Problem notes are clinical free text, stored encrypted at rest
+export const PATIENT_PROBLEM_ENCRYPTED_TABLE: EncryptedTable = {
+  table: "patient_problems",
+  columns: ["notes"],
+};
+
+// Columns of a problem that can be written directly
+type ProblemColumns = Omit<
+  MedicalHistory,
+  "id" | "patientId" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Format a problem row, decrypting its notes
+ * @private
+ */
+const formatProblem = (row: DbPatientProblemRow): MedicalHistory => ({
+  id: row.id,
+  patientId: row.patientId,
+  condition: row.condition,
+  icdCode: row.icdCode || undefined,
+  diagnosedAt: row.diagnosedAt || undefined,
+  status: row.status as ProblemStatus,
+  resolvedAt: row.resolvedAt || undefined,
+  resolvedBy: row.resolvedBy ?? undefined,
+  notes: decryptField(row.notes) || undefined,
+  sourceDiagnosisId: row.sourceDiagnosisId ?? undefined,
+  createdBy: row.createdBy ?? undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Find a patient's problems, unresolved ones first and then by diagnosis
+ * date, newest first
+ * @param statuses Only return problems with one of these statuses
+ */
+export const findByPatient = async (
+  patientId: number,
+  statuses: ProblemStatus[] = []
+): Promise<MedicalHistory[]> => {
+  try {
+    const rows = db
+      .prepare(
+        `SELECT * FROM patient_problems
+         WHERE patientId = ?${
+           statuses.length
+             ? ` AND status IN (${statuses.map(() => "?").join(", ")})`
+             : ""
+         }
+         ORDER BY status = 'resolved', COALESCE(diagnosedAt, createdAt) DESC, id DESC`
+      )
+      .all(patientId, ...statuses) as DbPatientProblemRow[];
+
+    return rows.map(formatProblem);
+  } catch (error) {
+    logger.error(`Error finding problems for patient ${patientId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Find a problem by ID
+ */
+export const findById = async (id: number): Promise<MedicalHistory | null> => {
+  try {
+    const row = db
+      .prepare("SELECT * FROM patient_problems WHERE id = ?")
+      .get(id) as DbPatientProblemRow | undefined;
+
+    return row ? formatProblem(row) : null;
+  } catch (error) {
+    logger.error(`Error finding problem ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Add a problem to a patient's problem list
+ */
+export const create = async (
+  patientId: number,
+  data: ProblemColumns
+): Promise<MedicalHistory | null> => {
+  try {
+    const now = new Date().toISOString();
+    const info = db
+      .prepare(
+        `INSERT INTO patient_problems (
+          patientId, condition, icdCode, status, diagnosedAt, resolvedAt,
+          resolvedBy, notes, sourceDiagnosisId, createdBy, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        patientId,
+        data.condition,
+        data.icdCode || null,
+        data.status,
+        data.diagnosedAt || null,
+        data.resolvedAt || null,
+        data.resolvedBy ?? null,
+        encryptField(data.notes || null),
+        data.sourceDiagnosisId ?? null,
+        data.createdBy ?? null,
+        now,
+        now
+      );
+
+    return findById(info.lastInsertRowid as number);
+  } catch (error) {
+    logger.error(`Error creating problem for patient ${patientId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Update a problem. Fields set to null are cleared.
+ */
+export const update = async (
+  id: number,
+  data: {
+    [K in keyof ProblemColumns]?: ProblemColumns[K] | null;
+  }
+): Promise<MedicalHistory | null> => {
+  try {
+    const updates: Record<string, string | number | null> = {};
+
+    for (const [column, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      updates[column] =
+        column === "notes" ? encryptField((value as string) || null) : value;
+    }
+
+    updates.updatedAt = new Date().toISOString();
+
+    const columns = Object.keys(updates);
+    db.prepare(
+      `UPDATE patient_problems SET ${columns
+        .map((column) => `${column} = ?`)
+        .join(", ")} WHERE id = ?`
+    ).run(...Object.values(updates), id);
+
+    return findById(id);
+  } catch (error) {
+    logger.error(`Error updating problem ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Delete a problem entered in error
+ */
+export const remove = async (id: number): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM patient_problems WHERE id = ?")
+      .run(id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error deleting problem ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Summarise the conditions diagnosed in a patient's medical records, one
+ * entry per diagnosis code with its most recent diagnosis, most recently
+ * diagnosed first
+ */
+export const findDiagnosedConditions = async (
+  patientId: number
+): Promise<Omit<ProblemSuggestion, "resolvedProblemId">[]> => {
+  try {
+    return db
+      .prepare(
+        `SELECT diagnosisId, condition, icdCode, firstDiagnosedAt,
+          lastDiagnosedAt, occurrences
+        FROM (
+          SELECT d.id as diagnosisId, d.description as condition,
+            UPPER(TRIM(d.code)) as icdCode,
+            MIN(mr.visitDate) OVER codes as firstDiagnosedAt,
+            MAX(mr.visitDate) OVER codes as lastDiagnosedAt,
+            COUNT(*) OVER codes as occurrences,
+            ROW_NUMBER() OVER (
+              PARTITION BY UPPER(TRIM(d.code))
+              ORDER BY mr.visitDate DESC, d.id DESC
+            ) as position
+          FROM diagnoses d
+          JOIN medical_records mr ON mr.id = d.medicalRecordId
+          WHERE mr.patientId = ?
+          WINDOW codes AS (PARTITION BY UPPER(TRIM(d.code)))
+        )
+        WHERE position = 1
+        ORDER BY lastDiagnosedAt DESC`
+      )
+      .all(patientId) as Omit<ProblemSuggestion, "resolvedProblemId">[];
+  } catch (error) {
+    logger.error(
+      `Error finding diagnosed conditions for patient ${patientId}:`,
+      error
+    );
+    return [];
+  }
+};
+
+/**
+ * Find a diagnosis recorded in one of a patient's medical records
+ */
+export const findPatientDiagnosis = async (
+  patientId: number,
+  diagnosisId: number
+): Promise<{
+  id: number;
+  code: string;
+  description: string;
+  visitDate: string;
+} | null> => {
+  try {
+    const row = db
+      .prepare(
+        `SELECT d.id, d.code, d.description, mr.visitDate
+         FROM diagnoses d
+         JOIN medical_records mr ON mr.id = d.medicalRecordId
+         WHERE d.id = ? AND mr.patientId = ?`
+      )
+      .get(diagnosisId, patientId) as
+      | { id: number; code: string; description: string; visitDate: string }
+      | undefined;
+
+    return row || null;
+  } catch (error) {
+    logger.error(
+      `Error finding diagnosis ${diagnosisId} for patient ${patientId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+export const PatientProblemModel = {
+  findByPatient,
+  findById,
+  create,
+  update,
+  remove,
+  findDiagnosedConditions,
+  findPatientDiagnosis,
+};
+
+export default PatientProblemModel;
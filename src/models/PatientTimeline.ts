@@ -0,0 +1,166 @@
+import db, { CountResult } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { decryptField } from "../utils/fieldEncryption";
+import {
+  TIMELINE_ENTRY_TYPES,
+  TimelineEntry,
+  TimelineEntryType,
+  TimelineFilters,
+} from "../types/patient";
+
+// One SELECT per entry type, each producing the TimelineEntry columns for a
+// single patient (bound as the only parameter)
+const TIMELINE_SOURCES: Record<TimelineEntryType, string> = {
+  appointment: `
+    SELECT 'appointment' as type, CAST(a.id AS TEXT) as id,
+      a.startTime as occurredAt, a.title, a.type as detail, a.status,
+      NULL as amount, s.firstName || ' ' || s.lastName as staffName,
+      NULL as relatedId
+    FROM appointments a
+    LEFT JOIN staff s ON s.id = a.doctorId
+    WHERE a.patientId = ?`,
+  visit: `
+    SELECT 'visit' as type, CAST(mr.id AS TEXT) as id,
+      mr.visitDate as occurredAt, mr.chiefComplaint as title,
+      CASE WHEN mr.followUpRecommended = 1
+        THEN 'Follow-up ' || COALESCE(mr.followUpDate, 'recommended')
+        ELSE NULL END as detail,
+      NULL as status, NULL as amount,
+      s.firstName || ' ' || s.lastName as staffName, NULL as relatedId
+    FROM medical_records mr
+    LEFT JOIN staff s ON s.id = mr.doctorId
+    WHERE mr.patientId = ?`,
+  diagnosis: `
+    SELECT 'diagnosis' as type, CAST(d.id AS TEXT) as id,
+      mr.visitDate as occurredAt, d.description as title, d.code as detail,
+      d.type as status, NULL as amount,
+      s.firstName || ' ' || s.lastName as staffName,
+      CAST(mr.id AS TEXT) as relatedId
+    FROM diagnoses d
+    JOIN medical_records mr ON mr.id = d.medicalRecordId
+    LEFT JOIN staff s ON s.id = mr.doctorId
+    WHERE mr.patientId = ?`,
+  prescription: `
+    SELECT 'prescription' as type, CAST(m.id AS TEXT) as id,
+      mr.visitDate as occurredAt, m.name as title,
+      m.dosage || ', ' || m.frequency || ' for ' || m.duration as detail,
+      NULL as status, NULL as amount,
+      s.firstName || ' ' || s.lastName as staffName,
+      CAST(mr.id AS TEXT) as relatedId
+    FROM medications m
+    JOIN medical_records mr ON mr.id = m.medicalRecordId
+    LEFT JOIN staff s ON s.id = mr.doctorId
+    WHERE mr.patientId = ?`,
+  lab: `
+    SELECT 'lab' as type, CAST(l.id AS TEXT) as id,
+      COALESCE(l.performedAt, l.createdAt) as occurredAt, l.testName as title,
+      CASE WHEN l.result IS NULL THEN NULL
+        ELSE l.result || COALESCE(' ' || l.unit, '') END as detail,
+      CASE WHEN l.critical = 1 THEN 'critical'
+        WHEN l.abnormal = 1 THEN 'abnormal'
+        ELSE l.status END as status,
+      NULL as amount, u.firstName || ' ' || u.lastName as staffName,
+      CAST(l.medicalRecordId AS TEXT) as relatedId
+    FROM lab_results l
+    LEFT JOIN users u ON u.id = l.orderedBy
+    WHERE l.patientId = ?`,
+  invoice: `
+    SELECT 'invoice' as type, i.id, i.createdAt as occurredAt,
+      'Invoice ' || i.id as title, 'Due ' || i.dueDate as detail,
+      i.status, i.totalAmount as amount, NULL as staffName,
+      i.appointmentId as relatedId
+    FROM invoices i
+    WHERE i.patientId = ?`,
+  payment: `
+    SELECT 'payment' as type, p.id, p.processedDate as occurredAt,
+      'Payment by ' || p.paymentMethod as title, p.transactionId as detail,
+      NULL as status, p.amount, NULL as staffName, p.invoiceId as relatedId
+    FROM payments p
+    JOIN invoices i ON i.id = p.invoiceId
+    WHERE i.patientId = ?`,
+};
+
+/**
+ * Build the combined timeline query for the requested entry types
+ * @private
+ */
+const buildTimeline = (
+  patientId: number,
+  filters: TimelineFilters
+): { query: string; params: (string | number)[] } => {
+  const types = filters.types?.length ? filters.types : TIMELINE_ENTRY_TYPES;
+  const params: (string | number)[] = types.map(() => patientId);
+
+  let query = `SELECT * FROM (${types
+    .map((type) => TIMELINE_SOURCES[type])
+    .join(" UNION ALL ")}) t WHERE 1 = 1`;
+
+  if (filters.from) {
+    query += " AND t.occurredAt >= ?";
+    params.push(filters.from);
+  }
+
+  if (filters.to) {
+    query += " AND t.occurredAt <= ?";
+    params.push(filters.to);
+  }
+
+  return { query, params };
+};
+
+/**
+ * Find a patient's timeline entries, newest first
+ */
+export const findByPatient = async (
+  patientId: number,
+  filters: TimelineFilters = {}
+): Promise<TimelineEntry[]> => {
+  try {
+    const { query, params } = buildTimeline(patientId, filters);
+    let paged = `${query} ORDER BY t.occurredAt DESC, t.type, t.id DESC`;
+
+    if (filters.limit) {
+      paged += " LIMIT ? OFFSET ?";
+      params.push(filters.limit, ((filters.page || 1) - 1) * filters.limit);
+    }
+
+    const rows = db.prepare(paged).all(...params) as TimelineEntry[];
+
+    // Chief complaints are encrypted at rest
+    return rows.map((row) =>
+      row.type === "visit"
+        ? { ...row, title: decryptField(row.title) as string }
+        : row
+    );
+  } catch (error) {
+    logger.error(`Error finding timeline for patient ${patientId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Count a patient's timeline entries
+ */
+export const countByPatient = async (
+  patientId: number,
+  filters: TimelineFilters = {}
+): Promise<number> => {
+  try {
+    const { query, params } = buildTimeline(patientId, filters);
+    const result = db
+      .prepare(`SELECT COUNT(*) as count FROM (${query})`)
+      .get(...params) as CountResult;
+
+    return result.count;
+  } catch (error) {
+    logger.error(`Error counting timeline for patient ${patientId}:`, error);
+    return 0;
+  }
+};
+
+export const PatientTimelineModel = {
+  findByPatient,
+  countByPatient,
+};
+
+export default PatientTimelineModel;
@@ -0,0 +1,148 @@
+import db, { DbRefreshTokenRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { RefreshTokenRecord } from "../types/auth";
+
+/**
+ * Find a refresh token by its ID (the token's jti claim)
+ */
+export const findById = async (
+  id: string
+): Promise<RefreshTokenRecord | null> => {
+  try {
+    const result = db
+      .prepare("SELECT * FROM refresh_tokens WHERE id = ?")
+      .get(id) as DbRefreshTokenRow | undefined;
+
+    return result || null;
+  } catch (error) {
+    logger.error(`Error finding refresh token ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Store a newly issued refresh token
+ */
+export const create = async (
+  data: Pick<
+    RefreshTokenRecord,
+    "id" | "userId" | "familyId" | "tokenHash" | "expiresAt"
+  >
+): Promise<RefreshTokenRecord | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO refresh_tokens (
+        id, userId, familyId, tokenHash, expiresAt, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      data.id,
+      data.userId,
+      data.familyId,
+      data.tokenHash,
+      data.expiresAt,
+      now,
+      now
+    );
+
+    return findById(data.id);
+  } catch (error) {
+    logger.error("Error creating refresh token:", error);
+    return null;
+  }
+};
+
+/**
+ * Mark a refresh token as used, recording the token that replaced it.
+ * Returns false if the token was already revoked (e.g. a concurrent rotation).
+ */
+export const markRotated = async (
+  id: string,
+  replacedBy: string
+): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE refresh_tokens
+         SET revokedAt = ?, replacedBy = ?, updatedAt = ?
+         WHERE id = ? AND revokedAt IS NULL`
+      )
+      .run(now, replacedBy, now, id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error rotating refresh token ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Revoke every token in a family
+ */
+export const revokeFamily = async (familyId: string): Promise<number> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE refresh_tokens
+         SET revokedAt = ?, updatedAt = ?
+         WHERE familyId = ? AND revokedAt IS NULL`
+      )
+      .run(now, now, familyId);
+
+    return result.changes;
+  } catch (error) {
+    logger.error(`Error revoking refresh token family ${familyId}:`, error);
+    return 0;
+  }
+};
+
+/**
+ * Revoke every active refresh token belonging to a user
+ */
+export const revokeAllForUser = async (userId: number): Promise<number> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE refresh_tokens
+         SET revokedAt = ?, updatedAt = ?
+         WHERE userId = ? AND revokedAt IS NULL`
+      )
+      .run(now, now, userId);
+
+    return result.changes;
+  } catch (error) {
+    logger.error(`Error revoking refresh tokens for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+/**
+ * Remove expired tokens
+ */
+export const removeExpired = async (): Promise<number> => {
+  try {
+    const result = db
+      .prepare("DELETE FROM refresh_tokens WHERE expiresAt < ?")
+      .run(new Date().toISOString());
+
+    return result.changes;
+  } catch (error) {
+    logger.error("Error removing expired refresh tokens:", error);
+    return 0;
+  }
+};
+
+export const RefreshTokenModel = {
+  findById,
+  create,
+  markRotated,
+  revokeFamily,
+  revokeAllForUser,
+  removeExpired,
+};
+
+export default RefreshTokenModel;
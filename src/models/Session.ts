@@ -0,0 +1,147 @@
+import db, { DbSessionRow } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { Session, SessionClientInfo } from "../types/auth";
+
+/**
+ * Find a session by ID
+ */
+export const findById = async (id: string): Promise<Session | null> => {
+  try {
+    const result = db.prepare("SELECT * FROM sessions WHERE id = ?").get(id) as
+      | DbSessionRow
+      | undefined;
+
+    return result || null;
+  } catch (error) {
+    logger.error(`Error finding session ${id}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find all active (not revoked, not expired) sessions for a user
+ */
+export const findActiveByUserId = async (
+  userId: number
+): Promise<Session[]> => {
+  try {
+    return db
+      .prepare(
+        `SELECT * FROM sessions
+         WHERE userId = ? AND revokedAt IS NULL AND expiresAt > ?
+         ORDER BY lastUsedAt DESC`
+      )
+      .all(userId, new Date().toISOString()) as DbSessionRow[];
+  } catch (error) {
+    logger.error(`Error finding sessions for user ${userId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Create a new session
+ */
+export const create = async (
+  id: string,
+  userId: number,
+  expiresAt: string,
+  client: SessionClientInfo = {}
+): Promise<Session | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO sessions (
+        id, userId, ipAddress, userAgent, expiresAt, lastUsedAt, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      userId,
+      client.ipAddress || null,
+      client.userAgent || null,
+      expiresAt,
+      now,
+      now,
+      now
+    );
+
+    return findById(id);
+  } catch (error) {
+    logger.error("Error creating session:", error);
+    return null;
+  }
+};
+
+/**
+ * Record session activity and extend its expiry (called on token refresh)
+ */
+export const touch = async (
+  id: string,
+  expiresAt: string
+): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE sessions SET lastUsedAt = ?, expiresAt = ?, updatedAt = ?
+         WHERE id = ? AND revokedAt IS NULL`
+      )
+      .run(now, expiresAt, now, id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error updating session ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Revoke a session
+ */
+export const revoke = async (id: string): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE sessions SET revokedAt = ?, updatedAt = ?
+         WHERE id = ? AND revokedAt IS NULL`
+      )
+      .run(now, now, id);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error revoking session ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Revoke every active session for a user
+ */
+export const revokeAllForUser = async (userId: number): Promise<number> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE sessions SET revokedAt = ?, updatedAt = ?
+         WHERE userId = ? AND revokedAt IS NULL`
+      )
+      .run(now, now, userId);
+
+    return result.changes;
+  } catch (error) {
+    logger.error(`Error revoking sessions for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+export const SessionModel = {
+  findById,
+  findActiveByUserId,
+  create,
+  touch,
+  revoke,
+  revokeAllForUser,
+};
+
+export default SessionModel;
@@ -5,6 +5,7 @@ import {
   SafeUser,
   CreateUserRequest,
   UpdateUserRequest,
+  UserFilterOptions,
 } from "../types/user";
 
 /**
@@ -107,6 +108,54 @@ export const findAll = async (
   }
 };
 
+/**
+ * Find users matching admin list filters (role, status, linked staff or patient, name/email search)
+ */
+export const findByFilters = async (
+  filters: UserFilterOptions = {}
+): Promise<UserType[]> => {
+  try {
+    let query = "SELECT * FROM users WHERE 1 = 1";
+    const params: (string | number)[] = [];
+
+    if (filters.role) {
+      query += " AND role = ?";
+      params.push(filters.role);
+    }
+
+    if (filters.status === "active") {
+      query += " AND disabledAt IS NULL";
+    } else if (filters.status === "disabled") {
+      query += " AND disabledAt IS NOT NULL";
+    }
+
+    if (filters.staffId) {
+      query += " AND staffId = ?";
+      params.push(filters.staffId);
+    }
+
+    if (filters.patientId) {
+      query += " AND patientId = ?";
+      params.push(filters.patientId);
+    }
+
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      query +=
+        " AND (username LIKE ? OR email LIKE ? OR firstName LIKE ? OR lastName LIKE ?)";
+      params.push(pattern, pattern, pattern, pattern);
+    }
+
+    query += " ORDER BY id ASC";
+
+    const results = db.prepare(query).all(...params);
+    return results.map(formatUserFromDb);
+  } catch (error) {
+    console.error("Error finding users by filters:", error);
+    return [];
+  }
+};
+
 /**
  * Create a new user
  */
@@ -134,8 +183,8 @@ export const create = async (
       .prepare(
         `INSERT INTO users (
         username, email, password, firstName, lastName,
-        role, permissions, staffId, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        role, permissions, staffId, passwordChangedAt, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `
       )
       .run(
@@ -148,6 +197,7 @@ export const create = async (
         permissionsJson,
         userData.staffId || null,
         now,
+        now,
         now
       );
 
@@ -181,12 +231,21 @@ export const update = async (
     if (userData.lastName !== undefined) updates.lastName = userData.lastName;
     if (userData.role !== undefined) updates.role = userData.role;
     if (userData.staffId !== undefined) updates.staffId = userData.staffId;
+    if (userData.patientId !== undefined)
+      updates.patientId = userData.patientId;
+    if (userData.disabledAt !== undefined)
+      updates.disabledAt = userData.disabledAt;
+    if (userData.passwordResetRequired !== undefined)
+      updates.passwordResetRequired = userData.passwordResetRequired ? 1 : 0;
+    if (userData.passwordExpiresAt !== undefined)
+      updates.passwordExpiresAt = userData.passwordExpiresAt;
 
     // Handle password separately for hashing
     if (userData.password) {
       updates.password = userData.password.startsWith("$2")
         ? userData.password
         : await bcryptjs.hash(userData.password, 10);
+      updates.passwordChangedAt = now;
     }
 
     // Handle permissions serialization
@@ -245,6 +304,23 @@ export const count = (): number => {
   }
 };
 
+/**
+ * Count active (not disabled) users with a role
+ */
+export const countActiveByRole = (role: string): number => {
+  try {
+    const result = db
+      .prepare(
+        "SELECT COUNT(*) as count FROM users WHERE role = ? AND disabledAt IS NULL"
+      )
+      .get(role) as CountResult;
+    return result.count;
+  } catch (error) {
+    console.error(`Error counting users with role ${role}:`, error);
+    return 0;
+  }
+};
+
 /**
  * Verify a user's password
  */
@@ -285,6 +361,11 @@ const formatUserFromDb = (dbUser: any): UserType => {
     role: dbUser.role,
     permissions,
     staffId: dbUser.staffId,
+    patientId: dbUser.patientId ?? null,
+    disabledAt: dbUser.disabledAt ?? null,
+    passwordResetRequired: Boolean(dbUser.passwordResetRequired),
+    passwordChangedAt: dbUser.passwordChangedAt ?? null,
+    passwordExpiresAt: dbUser.passwordExpiresAt ?? null,
     createdAt: dbUser.createdAt,
     updatedAt: dbUser.updatedAt,
   };
@@ -303,10 +384,12 @@ export const UserModel = {
   findById,
   findOne,
   findAll,
+  findByFilters,
   create,
   update,
   remove,
   count,
+  countActiveByRole,
   verifyPassword,
   getSafeUser,
 };
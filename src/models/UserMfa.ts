@@ -0,0 +1,193 @@
+import db, { DbUserMfaRow, CountResult } from "../db/dbClient";
+import { logger } from "../utils/logger";
+import { UserMfa } from "../types/auth";
+
+/**
+ * Find a user's MFA enrolment
+ */
+export const findByUserId = async (userId: number): Promise<UserMfa | null> => {
+  try {
+    const result = db
+      .prepare("SELECT * FROM user_mfa WHERE userId = ?")
+      .get(userId) as DbUserMfaRow | undefined;
+
+    return result || null;
+  } catch (error) {
+    logger.error(`Error finding MFA enrolment for user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Store a pending (not yet enabled) secret, replacing any previous pending one
+ */
+export const savePendingSecret = async (
+  userId: number,
+  secret: string
+): Promise<UserMfa | null> => {
+  try {
+    const now = new Date().toISOString();
+
+    db.prepare(
+      `INSERT INTO user_mfa (userId, secret, enabledAt, lastUsedStep, createdAt, updatedAt)
+       VALUES (?, ?, NULL, NULL, ?, ?)
+       ON CONFLICT(userId) DO UPDATE SET
+         secret = excluded.secret,
+         enabledAt = NULL,
+         lastUsedStep = NULL,
+         updatedAt = excluded.updatedAt`
+    ).run(userId, secret, now, now);
+
+    return findByUserId(userId);
+  } catch (error) {
+    logger.error(`Error saving MFA secret for user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Mark a user's enrolment as enabled
+ */
+export const enable = async (
+  userId: number,
+  usedStep: number
+): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare(
+        `UPDATE user_mfa SET enabledAt = ?, lastUsedStep = ?, updatedAt = ?
+         WHERE userId = ?`
+      )
+      .run(now, usedStep, now, userId);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error enabling MFA for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Record the time step of an accepted code so it cannot be replayed.
+ * Returns false if the same or a later step was already used.
+ */
+export const markStepUsed = async (
+  userId: number,
+  step: number
+): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        `UPDATE user_mfa SET lastUsedStep = ?, updatedAt = ?
+         WHERE userId = ? AND (lastUsedStep IS NULL OR lastUsedStep < ?)`
+      )
+      .run(step, new Date().toISOString(), userId, step);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error recording MFA code use for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Remove a user's enrolment and recovery codes
+ */
+export const remove = async (userId: number): Promise<boolean> => {
+  try {
+    const removeAll = db.transaction(() => {
+      db.prepare("DELETE FROM mfa_recovery_codes WHERE userId = ?").run(userId);
+      return db.prepare("DELETE FROM user_mfa WHERE userId = ?").run(userId);
+    });
+
+    return removeAll().changes > 0;
+  } catch (error) {
+    logger.error(`Error removing MFA enrolment for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Replace a user's recovery codes with a new set of hashed codes
+ */
+export const replaceRecoveryCodes = async (
+  userId: number,
+  codeHashes: string[]
+): Promise<boolean> => {
+  try {
+    const now = new Date().toISOString();
+    const insert = db.prepare(
+      "INSERT INTO mfa_recovery_codes (userId, codeHash, createdAt) VALUES (?, ?, ?)"
+    );
+
+    const replaceAll = db.transaction(() => {
+      db.prepare("DELETE FROM mfa_recovery_codes WHERE userId = ?").run(userId);
+      for (const codeHash of codeHashes) {
+        insert.run(userId, codeHash, now);
+      }
+    });
+
+    replaceAll();
+    return true;
+  } catch (error) {
+    logger.error(`Error storing recovery codes for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Mark an unused recovery code as used
+ * @returns true if the code existed and had not been used
+ */
+export const consumeRecoveryCode = async (
+  userId: number,
+  codeHash: string
+): Promise<boolean> => {
+  try {
+    const result = db
+      .prepare(
+        `UPDATE mfa_recovery_codes SET usedAt = ?
+         WHERE userId = ? AND codeHash = ? AND usedAt IS NULL`
+      )
+      .run(new Date().toISOString(), userId, codeHash);
+
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(`Error using recovery code for user ${userId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Count a user's unused recovery codes
+ */
+export const countUnusedRecoveryCodes = async (
+  userId: number
+): Promise<number> => {
+  try {
+    const result = db
+      .prepare(
+        "SELECT COUNT(*) as count FROM mfa_recovery_codes WHERE userId = ? AND usedAt IS NULL"
+      )
+      .get(userId) as CountResult;
+
+    return result.count;
+  } catch (error) {
+    logger.error(`Error counting recovery codes for user ${userId}:`, error);
+    return 0;
+  }
+};
+
+export const UserMfaModel = {
+  findByUserId,
+  savePendingSecret,
+  enable,
+  markStepUsed,
+  remove,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  countUnusedRecoveryCodes,
+};
+
+export default UserMfaModel;
@@ -1,6 +1,11 @@
 import { Router } from "express";
 import * as appointmentController from "../controllers/appointmentController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import {
+  auditAccess,
+  resolveAuditPatient,
+} from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
 import { validate } from "../middlewares/validationMiddleware";
 import { body, param, query } from "express-validator";
 
@@ -9,6 +14,10 @@ const router = Router();
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
+// Record every access to patient data in the audit log
+router.use(auditAccess("appointment"));
+router.param("id", resolveAuditPatient("appointment"));
+
 // Validation schemas
 const validateAppointmentInput = validate([
   body("patientId")
@@ -56,7 +65,7 @@ const validateIdParam = validate([
 // GET /api/appointments - Get all appointments or filtered by date range
 router.get(
   "/",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validateDateParams,
   appointmentController.getAllAppointments
 );
@@ -64,7 +73,7 @@ router.get(
 // GET /api/appointments/search - Search appointments
 router.get(
   "/search",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validateSearchQuery,
   appointmentController.searchAppointments
 );
@@ -72,21 +81,21 @@ router.get(
 // GET /api/appointments/upcoming - Get upcoming appointments
 router.get(
   "/upcoming",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   appointmentController.getUpcomingAppointments
 );
 
 // GET /api/appointments/stats - Get appointment statistics
 router.get(
   "/stats",
-  authorize(["admin", "doctor"]),
+  requirePermission(Permission.VIEW_REPORTS),
   appointmentController.getAppointmentStats
 );
 
 // GET /api/appointments/patient/:patientId - Get appointments for a specific patient
 router.get(
   "/patient/:patientId",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validate([
     param("patientId").isNumeric().withMessage("Patient ID must be a number"),
   ]),
@@ -96,7 +105,7 @@ router.get(
 // GET /api/appointments/doctor/:doctorId - Get appointments for a specific doctor
 router.get(
   "/doctor/:doctorId",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validate([
     param("doctorId").isNumeric().withMessage("Doctor ID must be a number"),
   ]),
@@ -106,7 +115,7 @@ router.get(
 // GET /api/appointments/:id - Get a single appointment
 router.get(
   "/:id",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validateIdParam,
   appointmentController.getAppointmentById
 );
@@ -114,7 +123,7 @@ router.get(
 // POST /api/appointments - Create a new appointment
 router.post(
   "/",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.CREATE_APPOINTMENTS),
   validateAppointmentInput,
   appointmentController.createAppointment
 );
@@ -122,7 +131,7 @@ router.post(
 // PUT /api/appointments/:id - Update an appointment
 router.put(
   "/:id",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.EDIT_APPOINTMENTS),
   validateIdParam,
   appointmentController.updateAppointment
 );
@@ -130,7 +139,7 @@ router.put(
 // DELETE /api/appointments/:id - Delete an appointment
 router.delete(
   "/:id",
-  authorize(["doctor", "admin"]),
+  requirePermission(Permission.DELETE_APPOINTMENTS),
   validateIdParam,
   appointmentController.deleteAppointment
 );
@@ -0,0 +1,58 @@
+import { Router } from "express";
+import * as auditController from "../controllers/auditController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { validate } from "../middlewares/validationMiddleware";
+import { Permission } from "../types/auth";
+import { param, query } from "express-validator";
+
+const router = Router();
+
+// The audit log is only readable by administrators
+router.use(authenticate);
+router.use(requirePermission(Permission.VIEW_AUDIT_LOG));
+
+const validateAuditQuery = validate([
+  query("actorId").optional().isInt().withMessage("Actor ID must be a number"),
+  query("patientId")
+    .optional()
+    .isInt()
+    .withMessage("Patient ID must be a number"),
+  query("resourceType")
+    .optional()
+    .isIn([
+      "patient",
+      "medical_record",
+      "appointment",
+      "invoice",
+      "break_glass",
+    ])
+    .withMessage("Invalid resource type"),
+  query("action")
+    .optional()
+    .isIn(["read", "create", "update", "delete"])
+    .withMessage("Invalid action"),
+  query("from").optional().isISO8601().withMessage("From must be a valid date"),
+  query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive number"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("Limit must be between 1 and 500"),
+]);
+
+// GET /api/audit - Query the audit log
+router.get("/", validateAuditQuery, auditController.getAuditLog);
+
+// GET /api/audit/patients/:patientId/access - Who accessed a patient's record
+router.get(
+  "/patients/:patientId/access",
+  validate([
+    param("patientId").isInt().withMessage("Patient ID must be a number"),
+  ]),
+  auditController.getPatientAccessReport
+);
+
+export default router;
@@ -1,15 +1,103 @@
 import { Router } from "express";
 import * as authController from "../controllers/authController";
-import { authenticate } from "../middlewares/authMiddleware"; // Updated import path
+import * as mfaController from "../controllers/mfaController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware"; // Updated import path
+import { Permission } from "../types/auth";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param } from "express-validator";
 
 const router = Router();
 
+const validateChallengeToken = body("challengeToken")
+  .notEmpty()
+  .withMessage("Challenge token is required");
+
+const validateSecondFactor = body()
+  .custom((value) => !!(value?.code || value?.recoveryCode))
+  .withMessage("A verification code or recovery code is required");
+
 router.post("/login", authController.login);
+router.post(
+  "/login/mfa",
+  validate([validateChallengeToken, validateSecondFactor]),
+  authController.verifyMfaLogin
+);
+router.post(
+  "/login/mfa/setup",
+  validate([validateChallengeToken]),
+  authController.setupMfaLogin
+);
 router.post("/register", authController.register);
 router.get("/me", authenticate, authController.getCurrentUser);
-router.post("/logout", authController.logout);
+router.post("/refresh", authController.refreshToken);
+router.post("/logout", authenticate, authController.logout);
+router.get("/sessions", authenticate, authController.getSessions);
+router.delete(
+  "/sessions/:id",
+  authenticate,
+  validate([param("id").notEmpty().withMessage("Session ID is required")]),
+  authController.revokeSession
+);
+router.delete(
+  "/users/:userId/sessions",
+  authenticate,
+  requirePermission(Permission.MANAGE_USERS),
+  validate([param("userId").isInt().withMessage("User ID must be a number")]),
+  authController.revokeUserSessions
+);
+router.get("/mfa", authenticate, mfaController.getMfaStatus);
+router.post("/mfa/setup", authenticate, mfaController.setupMfa);
+router.post(
+  "/mfa/enable",
+  authenticate,
+  validate([
+    body("code").notEmpty().withMessage("Verification code is required"),
+  ]),
+  mfaController.enableMfa
+);
+router.post(
+  "/mfa/disable",
+  authenticate,
+  validate([validateSecondFactor]),
+  mfaController.disableMfa
+);
+router.post(
+  "/mfa/recovery-codes",
+  authenticate,
+  validate([validateSecondFactor]),
+  mfaController.regenerateRecoveryCodes
+);
+router.get(
+  "/mfa/policy",
+  authenticate,
+  requirePermission(Permission.MANAGE_USERS),
+  mfaController.getMfaPolicy
+);
+router.put(
+  "/mfa/policy",
+  authenticate,
+  requirePermission(Permission.MANAGE_USERS),
+  validate([
+    body("requiredRoles")
+      .isArray()
+      .withMessage("requiredRoles must be an array of roles"),
+  ]),
+  mfaController.updateMfaPolicy
+);
 router.post("/password-reset-request", authController.requestPasswordReset);
 router.post("/password-reset", authController.resetPassword);
+router.post(
+  "/change-password",
+  validate([
+    body("email").isEmail().withMessage("Email must be valid"),
+    body("currentPassword")
+      .notEmpty()
+      .withMessage("Current password is required"),
+    body("newPassword").notEmpty().withMessage("New password is required"),
+  ]),
+  authController.changePassword
+);
+router.get("/password-policy", authController.getPasswordPolicy);
 router.get("/test-secret", authController.testSecret);
 
 export default router;
@@ -1,14 +1,23 @@
 import { Router } from "express";
 import * as billingController from "../controllers/billingController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import {
+  auditAccess,
+  resolveAuditPatient,
+} from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
 import { validate } from "../middlewares/validationMiddleware";
-import { body, param, query } from "express-validator";
+import { body, header, param, query } from "express-validator";
 
 const router = Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Record every access to patient data in the audit log
+router.use(auditAccess("invoice"));
+router.param("id", resolveAuditPatient("invoice"));
+
 // Input validation middleware
 const validateInvoiceInput = validate([
   body("patientId").isInt().withMessage("Patient ID must be a number"),
@@ -16,15 +25,26 @@ const validateInvoiceInput = validate([
   body("items")
     .isArray({ min: 1 })
     .withMessage("At least one item is required"),
-  body("items.*.description")
-    .notEmpty()
-    .withMessage("Item description is required"),
+  // Description, unit price and tax rate default from the charge master
+  // for items with a service code
+  body("items.*")
+    .custom((item) => Boolean(item?.description || item?.serviceCode))
+    .withMessage("Item description is required without a service code"),
   body("items.*.quantity")
     .isInt({ min: 1 })
     .withMessage("Quantity must be at least 1"),
   body("items.*.unitPrice")
+    .optional()
     .isFloat({ min: 0 })
     .withMessage("Unit price cannot be negative"),
+  body("items.*.serviceCode")
+    .optional()
+    .isString()
+    .withMessage("Service code must be a string"),
+  body("items.*.taxRate")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Tax rate must be a percentage between 0 and 100"),
 ]);
 
 const validatePaymentInput = validate([
@@ -42,6 +62,15 @@ const validatePaymentInput = validate([
       "check",
     ])
     .withMessage("Invalid payment method"),
+  body("overpayment")
+    .optional()
+    .isIn(["reject", "credit"])
+    .withMessage("Overpayment must be reject or credit"),
+  header("Idempotency-Key")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Idempotency-Key must be between 1 and 255 characters"),
 ]);
 
 const validateIdParam = validate([
@@ -55,14 +84,21 @@ const validatePatientIdParam = validate([
 // GET /api/billing/invoices
 router.get(
   "/invoices",
-  authorize(["admin", "receptionist", "accountant"]),
+  requirePermission(Permission.VIEW_BILLING),
   billingController.getAllInvoices
 );
 
+// GET /api/billing/invoices/review-queue - Generated drafts awaiting review
+router.get(
+  "/invoices/review-queue",
+  requirePermission(Permission.VIEW_BILLING),
+  billingController.getReviewQueue
+);
+
 // GET /api/billing/invoices/:id
 router.get(
   "/invoices/:id",
-  authorize(["admin", "receptionist", "accountant", "doctor"]),
+  requirePermission(Permission.VIEW_BILLING),
   validateIdParam,
   billingController.getInvoiceById
 );
@@ -70,15 +106,23 @@ router.get(
 // GET /api/billing/patients/:patientId/invoices
 router.get(
   "/patients/:patientId/invoices",
-  authorize(["admin", "receptionist", "accountant", "doctor"]),
+  requirePermission(Permission.VIEW_BILLING),
   validatePatientIdParam,
   billingController.getInvoicesByPatientId
 );
 
+// GET /api/billing/patients/:patientId/credit
+router.get(
+  "/patients/:patientId/credit",
+  requirePermission(Permission.VIEW_BILLING),
+  validatePatientIdParam,
+  billingController.getPatientCredit
+);
+
 // POST /api/billing/invoices
 router.post(
   "/invoices",
-  authorize(["admin", "receptionist", "accountant"]),
+  requirePermission(Permission.CREATE_BILLING),
   validateInvoiceInput,
   billingController.createInvoice
 );
@@ -86,15 +130,23 @@ router.post(
 // PUT /api/billing/invoices/:id
 router.put(
   "/invoices/:id",
-  authorize(["admin", "receptionist", "accountant"]),
+  requirePermission(Permission.EDIT_BILLING),
   validateIdParam,
   billingController.updateInvoice
 );
 
+// POST /api/billing/invoices/:id/approve - Approve and send a generated draft
+router.post(
+  "/invoices/:id/approve",
+  requirePermission(Permission.EDIT_BILLING),
+  validateIdParam,
+  billingController.approveInvoice
+);
+
 // DELETE /api/billing/invoices/:id
 router.delete(
   "/invoices/:id",
-  authorize(["admin"]),
+  requirePermission(Permission.DELETE_BILLING),
   validateIdParam,
   billingController.deleteInvoice
 );
@@ -102,7 +154,7 @@ router.delete(
 // GET /api/billing/invoices/:id/payments
 router.get(
   "/invoices/:id/payments",
-  authorize(["admin", "receptionist", "accountant"]),
+  requirePermission(Permission.VIEW_BILLING),
   validateIdParam,
   billingController.getInvoicePayments
 );
@@ -110,7 +162,7 @@ router.get(
 // POST /api/billing/payments
 router.post(
   "/payments",
-  authorize(["admin", "receptionist", "accountant"]),
+  requirePermission(Permission.PROCESS_PAYMENTS),
   validatePaymentInput,
   billingController.recordPayment
 );
@@ -118,7 +170,7 @@ router.post(
 // GET /api/billing/stats
 router.get(
   "/stats",
-  authorize(["admin", "accountant"]),
+  requirePermission(Permission.VIEW_BILLING, Permission.VIEW_REPORTS),
   billingController.getBillingStats
 );
 
@@ -0,0 +1,67 @@
+import { Router } from "express";
+import * as careTeamController from "../controllers/careTeamController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import {
+  auditAccess,
+  resolveAuditPatient,
+} from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param, query } from "express-validator";
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+// Every grant and review is part of the audit trail
+router.use(auditAccess("break_glass"));
+router.param("id", resolveAuditPatient("break_glass"));
+
+const validateBreakGlassRequest = validate([
+  body("patientId").isInt().withMessage("Patient ID must be a number"),
+  body("reason")
+    .isString()
+    .trim()
+    .isLength({ min: 10 })
+    .withMessage("A reason of at least 10 characters is required"),
+]);
+
+// POST /api/break-glass - Get emergency access to a patient's chart
+router.post(
+  "/",
+  requirePermission(Permission.BREAK_GLASS),
+  validateBreakGlassRequest,
+  careTeamController.requestBreakGlass
+);
+
+// GET /api/break-glass - List grants for after-the-fact review
+router.get(
+  "/",
+  requirePermission(Permission.MANAGE_CARE_TEAMS),
+  validate([
+    query("patientId")
+      .optional()
+      .isInt()
+      .withMessage("Patient ID must be a number"),
+    query("userId").optional().isInt().withMessage("User ID must be a number"),
+    query("reviewed")
+      .optional()
+      .isIn(["true", "false"])
+      .withMessage("Reviewed must be true or false"),
+  ]),
+  careTeamController.getBreakGlassGrants
+);
+
+// PUT /api/break-glass/:id/review - Record the review of a grant
+router.put(
+  "/:id/review",
+  requirePermission(Permission.MANAGE_CARE_TEAMS),
+  validate([
+    param("id").isInt().withMessage("Grant ID must be a number"),
+    body("notes").optional().isString().withMessage("Notes must be a string"),
+  ]),
+  careTeamController.reviewBreakGlassGrant
+);
+
+export default router;
@@ -0,0 +1,109 @@
+import express, { Router } from "express";
+import * as chargeMasterController from "../controllers/chargeMasterController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
+import { CHARGE_CATEGORIES } from "../types/chargeMaster";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param, query } from "express-validator";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+const validateCodeParam = validate([
+  param("code").trim().notEmpty().withMessage("Charge code is required"),
+]);
+
+// Entry fields, required on create and optional on update
+const itemValidators = (optional: boolean) => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+
+  return [
+    field("description")
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("Description is required"),
+    field("category")
+      .isIn(CHARGE_CATEGORIES)
+      .withMessage(`Category must be one of ${CHARGE_CATEGORIES.join(", ")}`),
+    field("defaultPrice")
+      .isFloat({ min: 0 })
+      .withMessage("Default price must be a number of at least 0")
+      .toFloat(),
+    body("taxRate")
+      .optional()
+      .isFloat({ min: 0, max: 100 })
+      .withMessage("Tax rate must be a percentage between 0 and 100")
+      .toFloat(),
+    body(["activeFrom", "activeTo"])
+      .optional({ nullable: true })
+      .isDate({ format: "YYYY-MM-DD", strictMode: true })
+      .withMessage("Active dates must be YYYY-MM-DD dates"),
+  ];
+};
+
+// GET /api/billing/charge-master - List the catalog
+router.get(
+  "/",
+  requirePermission(Permission.VIEW_BILLING),
+  validate([
+    query("category")
+      .optional()
+      .isIn(CHARGE_CATEGORIES)
+      .withMessage(`Category must be one of ${CHARGE_CATEGORIES.join(", ")}`),
+    query("activeOn")
+      .optional()
+      .isDate({ format: "YYYY-MM-DD", strictMode: true })
+      .withMessage("Active on must be a YYYY-MM-DD date"),
+  ]),
+  chargeMasterController.getChargeMaster
+);
+
+// POST /api/billing/charge-master/import - Import a CSV (text/csv body)
+router.post(
+  "/import",
+  requirePermission(Permission.MANAGE_CHARGE_MASTER),
+  express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+  chargeMasterController.importChargeMaster
+);
+
+// GET /api/billing/charge-master/:code - Get one entry
+router.get(
+  "/:code",
+  requirePermission(Permission.VIEW_BILLING),
+  validateCodeParam,
+  chargeMasterController.getChargeMasterItem
+);
+
+// POST /api/billing/charge-master - Add an entry
+router.post(
+  "/",
+  requirePermission(Permission.MANAGE_CHARGE_MASTER),
+  validate([
+    body("code").isString().trim().notEmpty().withMessage("Code is required"),
+    ...itemValidators(false),
+  ]),
+  chargeMasterController.createChargeMasterItem
+);
+
+// PUT /api/billing/charge-master/:code - Update an entry
+router.put(
+  "/:code",
+  requirePermission(Permission.MANAGE_CHARGE_MASTER),
+  validateCodeParam,
+  validate(itemValidators(true)),
+  chargeMasterController.updateChargeMasterItem
+);
+
+// DELETE /api/billing/charge-master/:code - Remove an entry
+router.delete(
+  "/:code",
+  requirePermission(Permission.MANAGE_CHARGE_MASTER),
+  validateCodeParam,
+  chargeMasterController.deleteChargeMasterItem
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import * as icd10Controller from "../controllers/icd10Controller";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
+import { validate } from "../middlewares/validationMiddleware";
+import { query } from "express-validator";
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// GET /api/codes/icd10?q= - Typeahead search by code prefix or description
+router.get(
+  "/icd10",
+  requirePermission(Permission.VIEW_RECORDS),
+  validate([
+    query("q").trim().notEmpty().withMessage("Search query is required"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage("Limit must be between 1 and 50"),
+  ]),
+  icd10Controller.searchIcd10Codes
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import * as dashboardController from "../controllers/dashboardController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
 import { validate } from "../middlewares/validationMiddleware";
 import { query } from "express-validator";
 
@@ -9,8 +10,8 @@ const router = Router();
 // Apply authentication to all dashboard routes
 router.use(authenticate);
 
-// Only allow admin and staff with appropriate permissions to access dashboard
-router.use(authorize(["admin", "manager", "doctor", "receptionist"]));
+// Only allow staff with the dashboard permission to access dashboard
+router.use(requirePermission(Permission.VIEW_DASHBOARD));
 
 // Validate date params
 const validateDateParams = validate([
@@ -48,6 +49,13 @@ router.get(
 // GET /api/dashboard/revenue - Get revenue statistics
 router.get("/revenue", validateDateParams, dashboardController.getRevenueStats);
 
+// GET /api/dashboard/diagnoses - Get diagnosis frequency by ICD-10 chapter
+router.get(
+  "/diagnoses",
+  validateDateParams,
+  dashboardController.getDiagnosisStats
+);
+
 // GET /api/dashboard/staff-performance - Get staff performance metrics
 router.get("/staff-performance", dashboardController.getStaffPerformance);
 
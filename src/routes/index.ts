@@ -6,8 +6,15 @@ import appointmentRoutes from "./appointmentRoutes";
 import staffRoutes from "./staffRoutes";
 import medicalRecordRoutes from "./medicalRecordRoutes";
 import billingRouter from "./billingRoutes";
+import chargeMasterRoutes from "./chargeMasterRoutes";
 import notificationRoutes from "./notificationRoutes";
 import dashboardRoutes from "./dashboardRoutes";
+import userRoutes from "./userRoutes";
+import portalRoutes from "./portalRoutes";
+import auditRoutes from "./auditRoutes";
+import breakGlassRoutes from "./breakGlassRoutes";
+import labRoutes from "./labRoutes";
+import codeRoutes from "./codeRoutes";
 // Import other routes here
 
 const router = Router();
@@ -30,9 +37,16 @@ router.use("/patients", patientRoutes);
 router.use("/appointments", appointmentRoutes);
 router.use("/staff", staffRoutes);
 router.use("/medical-records", medicalRecordRoutes);
+router.use("/billing/charge-master", chargeMasterRoutes);
 router.use("/billing", billingRouter);
 router.use("/notifications", notificationRoutes);
 router.use("/dashboard", dashboardRoutes);
+router.use("/users", userRoutes);
+router.use("/portal", portalRoutes);
+router.use("/audit", auditRoutes);
+router.use("/break-glass", breakGlassRoutes);
+router.use("/labs", labRoutes);
+router.use("/codes", codeRoutes);
 // Register other routes here
 
 export default router;
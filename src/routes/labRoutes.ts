@@ -0,0 +1,91 @@
+import { Router } from "express";
+import * as labController from "../controllers/labController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import {
+  auditAccess,
+  resolveAuditPatient,
+} from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
+import { LAB_RESULT_STATUSES } from "../types/medicalRecord";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param, query } from "express-validator";
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+// Lab results are patient data; record every access in the audit log
+router.use(auditAccess("lab_result"));
+router.param("id", resolveAuditPatient("lab_result"));
+
+const validateIdParam = validate([
+  param("id").isInt().withMessage("Lab result ID must be a number"),
+]);
+
+const validateResultInput = validate([
+  body("result").trim().notEmpty().withMessage("Result is required"),
+  body(["unit", "referenceRange", "criticalRange", "performedBy", "notes"])
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("Must be a string"),
+  body("performedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Performed date must be a valid date"),
+  body("critical")
+    .optional()
+    .isBoolean()
+    .withMessage("Critical must be a boolean"),
+]);
+
+// GET /api/labs - Lab worklist, pending orders unless a status is given
+router.get(
+  "/",
+  requirePermission(Permission.ENTER_LAB_RESULTS),
+  validate([
+    query("status")
+      .optional()
+      .isIn(LAB_RESULT_STATUSES)
+      .withMessage(`Status must be one of ${LAB_RESULT_STATUSES.join(", ")}`),
+    query("patientId")
+      .optional()
+      .isInt()
+      .withMessage("Patient ID must be a number"),
+    query("critical")
+      .optional()
+      .isIn(["true", "false"])
+      .withMessage("Critical must be true or false"),
+  ]),
+  labController.getWorklist
+);
+
+// GET /api/labs/:id - Get a lab order or result
+router.get(
+  "/:id",
+  requirePermission(Permission.ENTER_LAB_RESULTS),
+  validateIdParam,
+  labController.getLabResult
+);
+
+// PUT /api/labs/:id/result - Enter or correct a result
+router.put(
+  "/:id/result",
+  requirePermission(Permission.ENTER_LAB_RESULTS),
+  validateIdParam,
+  validateResultInput,
+  labController.enterResult
+);
+
+// PUT /api/labs/:id/cancel - Cancel a pending order
+router.put(
+  "/:id/cancel",
+  requirePermission(Permission.ORDER_LABS),
+  validateIdParam,
+  validate([
+    body("notes").optional().isString().withMessage("Notes must be a string"),
+  ]),
+  labController.cancelOrder
+);
+
+export default router;
@@ -1,6 +1,17 @@
 import { Router } from "express";
 import * as medicalRecordController from "../controllers/medicalRecordController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import * as labController from "../controllers/labController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import {
+  auditAccess,
+  resolveAuditPatient,
+} from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
+import { VISIT_TYPES } from "../types/medicalRecord";
+import icd10Service from "../services/icd10Service";
+import chargeMasterService from "../services/chargeMasterService";
+import { normalizeIcd10Code } from "../utils/icd10";
+import { normalizeChargeCode } from "../utils/chargeMaster";
 import { validate } from "../middlewares/validationMiddleware";
 import { body, param, query } from "express-validator";
 
@@ -9,8 +20,65 @@ const router = Router();
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
+// Record every access to patient data in the audit log
+router.use(auditAccess("medical_record"));
+router.param("id", resolveAuditPatient("medical_record"));
+
+// Visit type and SOAP note sections, optional on create, update and amend
+const noteValidators = [
+  body("visitType")
+    .optional()
+    .isIn(VISIT_TYPES)
+    .withMessage(`Visit type must be one of ${VISIT_TYPES.join(", ")}`),
+  body(["subjective", "objective", "assessment", "plan"])
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("SOAP note sections must be strings"),
+];
+
+// Diagnosis codes must be ICD-10 codes from the code catalog
+const diagnosisCodeValidator = body("diagnosis.*.code")
+  .notEmpty()
+  .withMessage("Diagnosis code is required")
+  .customSanitizer((code) => normalizeIcd10Code(String(code ?? "")))
+  .custom(async (code: string) => {
+    if (code && !(await icd10Service.isValidCode(code))) {
+      throw new Error(`${code} is not a valid ICD-10 code`);
+    }
+    return true;
+  });
+
+// Procedure codes must be codes that can be billed from the charge master
+const procedureCodeValidator = body("treatment.procedures.*.code")
+  .notEmpty()
+  .withMessage("Procedure code is required")
+  .customSanitizer((code) => normalizeChargeCode(String(code ?? "")))
+  .custom(async (code: string) => {
+    if (code && !(await chargeMasterService.isBillableCode(code))) {
+      throw new Error(`${code} is not an active charge master code`);
+    }
+    return true;
+  });
+
+// Reason for prescribing despite a major interaction warning
+const overrideReasonValidator = body("treatment.medications.*.overrideReason")
+  .optional({ nullable: true })
+  .isString()
+  .withMessage("Override reason must be a string");
+
+// Records are signed and amended through their own endpoints
+const statusValidator = body("status")
+  .optional()
+  .isIn(["draft", "completed"])
+  .withMessage(
+    "Status must be draft or completed - use the sign and amendment endpoints for signed records"
+  );
+
 // Validation schemas
 const validateMedicalRecordInput = validate([
+  ...noteValidators,
+  statusValidator,
+  overrideReasonValidator,
   body("patientId")
     .notEmpty()
     .withMessage("Patient ID is required")
@@ -43,7 +111,7 @@ const validateMedicalRecordInput = validate([
   body("vitalSigns.height").isNumeric().withMessage("Height must be a number"),
   body("vitalSigns.weight").isNumeric().withMessage("Weight must be a number"),
   body("diagnosis").isArray().withMessage("Diagnosis must be an array"),
-  body("diagnosis.*.code").notEmpty().withMessage("Diagnosis code is required"),
+  diagnosisCodeValidator,
   body("diagnosis.*.description")
     .notEmpty()
     .withMessage("Diagnosis description is required"),
@@ -57,6 +125,7 @@ const validateMedicalRecordInput = validate([
   body("treatment.procedures")
     .isArray()
     .withMessage("Procedures must be an array"),
+  procedureCodeValidator,
   body("followUpRecommended")
     .isBoolean()
     .withMessage("Follow-up recommended must be a boolean"),
@@ -72,19 +141,55 @@ const validateAttachmentInput = validate([
   body("url").notEmpty().withMessage("Attachment URL is required"),
 ]);
 
-// GET /api/medical-records - Get all medical records with optional filters
-router.get("/", medicalRecordController.getAllMedicalRecords);
+// GET /api/medical-records - Get a page of medical records with optional filters
+router.get(
+  "/",
+  requirePermission(Permission.VIEW_RECORDS),
+  validate([
+    query("patientId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Patient ID must be a positive integer"),
+    query("doctorId")
+      .optional()
+      .isString()
+      .notEmpty()
+      .withMessage("Doctor ID must not be empty"),
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive number"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ]),
+  medicalRecordController.getAllMedicalRecords
+);
 
 // GET /api/medical-records/search - Search medical records
 router.get(
   "/search",
-  validate([query("q").exists().withMessage("Search query is required")]),
+  requirePermission(Permission.VIEW_RECORDS),
+  validate([
+    query("q").exists().withMessage("Search query is required"),
+    query("patientId")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Patient ID must be a positive integer"),
+    query("from")
+      .optional()
+      .isISO8601()
+      .withMessage("From must be a valid date"),
+    query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  ]),
   medicalRecordController.searchMedicalRecords
 );
 
 // GET /api/medical-records/:id - Get a single medical record
 router.get(
   "/:id",
+  requirePermission(Permission.VIEW_RECORDS),
   validate([
     param("id").isNumeric().withMessage("Medical record ID must be a number"),
   ]),
@@ -94,25 +199,68 @@ router.get(
 // POST /api/medical-records - Create a new medical record
 router.post(
   "/",
-  authorize(["doctor", "admin"]),
+  requirePermission(Permission.CREATE_RECORDS),
   validateMedicalRecordInput,
   medicalRecordController.createMedicalRecord
 );
 
-// PUT /api/medical-records/:id - Update a medical record
+// PUT /api/medical-records/:id - Update a medical record that is not signed
 router.put(
   "/:id",
-  authorize(["doctor", "admin"]),
+  requirePermission(Permission.EDIT_RECORDS),
   validate([
     param("id").isNumeric().withMessage("Medical record ID must be a number"),
+    ...noteValidators,
+    statusValidator,
+    overrideReasonValidator,
+    diagnosisCodeValidator,
+    procedureCodeValidator,
   ]),
   medicalRecordController.updateMedicalRecord
 );
 
+// POST /api/medical-records/:id/sign - Sign and lock a record
+router.post(
+  "/:id/sign",
+  requirePermission(Permission.SIGN_RECORDS),
+  validate([
+    param("id").isNumeric().withMessage("Medical record ID must be a number"),
+  ]),
+  medicalRecordController.signMedicalRecord
+);
+
+// POST /api/medical-records/:id/amendments - Amend a signed record
+router.post(
+  "/:id/amendments",
+  requirePermission(Permission.EDIT_RECORDS),
+  validate([
+    param("id").isNumeric().withMessage("Medical record ID must be a number"),
+    body("reason")
+      .trim()
+      .notEmpty()
+      .withMessage("A reason for the amendment is required"),
+    ...noteValidators,
+    overrideReasonValidator,
+    diagnosisCodeValidator,
+    procedureCodeValidator,
+  ]),
+  medicalRecordController.amendMedicalRecord
+);
+
+// GET /api/medical-records/:id/versions - Signed original and amendments
+router.get(
+  "/:id/versions",
+  requirePermission(Permission.VIEW_RECORDS),
+  validate([
+    param("id").isNumeric().withMessage("Medical record ID must be a number"),
+  ]),
+  medicalRecordController.getMedicalRecordVersions
+);
+
 // DELETE /api/medical-records/:id - Delete a medical record
 router.delete(
   "/:id",
-  authorize(["doctor", "admin"]),
+  requirePermission(Permission.DELETE_RECORDS),
   validate([
     param("id").isNumeric().withMessage("Medical record ID must be a number"),
   ]),
@@ -122,7 +270,7 @@ router.delete(
 // POST /api/medical-records/:id/attachments - Add an attachment
 router.post(
   "/:id/attachments",
-  authorize(["doctor", "admin"]),
+  requirePermission(Permission.EDIT_RECORDS),
   validate([
     param("id").isNumeric().withMessage("Medical record ID must be a number"),
   ]),
@@ -130,4 +278,45 @@ router.post(
   medicalRecordController.addAttachment
 );
 
+const validateLabOrder = validate([
+  body("tests")
+    .isArray({ min: 1 })
+    .withMessage("At least one test is required"),
+  body("tests.*.testName")
+    .trim()
+    .notEmpty()
+    .withMessage("Test name is required"),
+  body([
+    "tests.*.testCode",
+    "tests.*.unit",
+    "tests.*.referenceRange",
+    "tests.*.criticalRange",
+    "tests.*.notes",
+  ])
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("Must be a string"),
+]);
+
+// GET /api/medical-records/:id/labs - Labs ordered in a medical record
+router.get(
+  "/:id/labs",
+  requirePermission(Permission.VIEW_RECORDS),
+  validate([
+    param("id").isNumeric().withMessage("Medical record ID must be a number"),
+  ]),
+  labController.getRecordLabs
+);
+
+// POST /api/medical-records/:id/labs - Order lab tests
+router.post(
+  "/:id/labs",
+  requirePermission(Permission.ORDER_LABS),
+  validate([
+    param("id").isNumeric().withMessage("Medical record ID must be a number"),
+  ]),
+  validateLabOrder,
+  labController.orderLabs
+);
+
 export default router;
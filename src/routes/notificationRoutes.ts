@@ -1,6 +1,7 @@
 import { Router } from "express";
 import * as notificationController from "../controllers/notificationController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
 import { validate } from "../middlewares/validationMiddleware";
 import { body, param, query } from "express-validator";
 
@@ -106,10 +107,10 @@ router.put(
   notificationController.updateNotificationPreferences
 );
 
-// POST /api/notifications - Create a new notification (admin only)
+// POST /api/notifications - Create a new notification for another user
 router.post(
   "/",
-  authorize(["admin"]),
+  requirePermission(Permission.SEND_NOTIFICATIONS),
   validateNotificationInput,
   notificationController.createNotification
 );
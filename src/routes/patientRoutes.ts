@@ -1,6 +1,23 @@
 import { Router } from "express";
 import * as patientController from "../controllers/patientController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import * as careTeamController from "../controllers/careTeamController";
+import * as patientMergeController from "../controllers/patientMergeController";
+import * as allergyController from "../controllers/allergyController";
+import * as problemListController from "../controllers/problemListController";
+import * as labController from "../controllers/labController";
+import {
+  authenticate,
+  requireChartAccess,
+  requirePermission,
+} from "../middlewares/authMiddleware";
+import { auditAccess } from "../middlewares/auditMiddleware";
+import { Permission } from "../types/auth";
+import { PATIENT_SORT_COLUMNS, TIMELINE_ENTRY_TYPES } from "../types/patient";
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_STATUSES,
+  PROBLEM_STATUSES,
+} from "../types/medicalRecord";
 import { body, param, query } from "express-validator";
 import { validate } from "../middlewares/validationMiddleware";
 
@@ -9,6 +26,9 @@ const router = Router();
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Record every access to patient data in the audit log
+router.use(auditAccess("patient"));
+
 // Input validation middleware
 const validatePatientInput = validate([
   body("firstName").notEmpty().withMessage("First name is required"),
@@ -16,6 +36,10 @@ const validatePatientInput = validate([
   body("dateOfBirth").notEmpty().withMessage("Date of birth is required"),
   body("gender").notEmpty().withMessage("Gender is required"),
   body("email").optional().isEmail().withMessage("Invalid email format"),
+  body("ignoreDuplicates")
+    .optional()
+    .isBoolean()
+    .withMessage("ignoreDuplicates must be a boolean"),
 ]);
 
 const validateIdParam = validate([
@@ -26,40 +50,92 @@ const validateSearchQuery = validate([
   query("q").notEmpty().withMessage("Search query is required"),
 ]);
 
+// Only honoured for users allowed to restore patients
+const validateIncludeDeleted = validate([
+  query("includeDeleted")
+    .optional()
+    .isBoolean()
+    .withMessage("includeDeleted must be true or false"),
+]);
+
+const validatePatientListQuery = validate([
+  query("ageMin")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("ageMin must be a non-negative number"),
+  query("ageMax")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("ageMax must be a non-negative number")
+    .custom(
+      (value: string, { req }) =>
+        !req.query?.ageMin || parseInt(value) >= parseInt(req.query.ageMin)
+    )
+    .withMessage("ageMax must not be less than ageMin"),
+  query("createdFrom")
+    .optional()
+    .isISO8601()
+    .withMessage("createdFrom must be a valid date"),
+  query("createdTo")
+    .optional()
+    .isISO8601()
+    .withMessage("createdTo must be a valid date"),
+  query("sortBy")
+    .optional()
+    .isIn(PATIENT_SORT_COLUMNS)
+    .withMessage(`sortBy must be one of ${PATIENT_SORT_COLUMNS.join(", ")}`),
+  query("sortOrder")
+    .optional()
+    .isIn(["asc", "desc"])
+    .withMessage("sortOrder must be asc or desc"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive number"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+]);
+
 // GET /api/patients
 router.get(
   "/",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_PATIENTS),
+  validatePatientListQuery,
+  validateIncludeDeleted,
   patientController.getAllPatients
 );
 
 // GET /api/patients/search
 router.get(
   "/search",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_PATIENTS),
   validateSearchQuery,
+  validateIncludeDeleted,
   patientController.searchPatients
 );
 
 // GET /api/patients/stats
 router.get(
   "/stats",
-  authorize(["admin", "doctor"]),
+  requirePermission(Permission.VIEW_REPORTS),
   patientController.getPatientStats
 );
 
 // GET /api/patients/:id
 router.get(
   "/:id",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_PATIENTS),
   validateIdParam,
+  validateIncludeDeleted,
   patientController.getPatientById
 );
 
 // GET /api/patients/:id/medical-records
 router.get(
   "/:id/medical-records",
-  authorize(["doctor", "nurse", "admin"]),
+  requirePermission(Permission.VIEW_RECORDS),
   validateIdParam,
   patientController.getPatientMedicalRecords
 );
@@ -67,15 +143,302 @@ router.get(
 // GET /api/patients/:id/appointments
 router.get(
   "/:id/appointments",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.VIEW_APPOINTMENTS),
   validateIdParam,
   patientController.getPatientAppointments
 );
 
+// GET /api/patients/:id/timeline
+router.get(
+  "/:id/timeline",
+  requirePermission(Permission.VIEW_RECORDS),
+  validateIdParam,
+  validate([
+    query("types")
+      .optional()
+      .custom((value: string) =>
+        String(value)
+          .split(",")
+          .every((type) =>
+            (TIMELINE_ENTRY_TYPES as string[]).includes(type.trim())
+          )
+      )
+      .withMessage(`Types must be among ${TIMELINE_ENTRY_TYPES.join(", ")}`),
+    query("from")
+      .optional()
+      .isISO8601()
+      .withMessage("From must be a valid date"),
+    query("to").optional().isISO8601().withMessage("To must be a valid date"),
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive number"),
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ]),
+  patientController.getPatientTimeline
+);
+
+// GET /api/patients/:id/care-team
+router.get(
+  "/:id/care-team",
+  requirePermission(Permission.VIEW_PATIENTS),
+  validateIdParam,
+  careTeamController.getCareTeam
+);
+
+// POST /api/patients/:id/care-team
+router.post(
+  "/:id/care-team",
+  requirePermission(Permission.MANAGE_CARE_TEAMS),
+  validateIdParam,
+  validate([
+    body("staffId").notEmpty().withMessage("Staff ID is required"),
+    body("role").optional().isString().withMessage("Role must be a string"),
+  ]),
+  careTeamController.assignStaff
+);
+
+// DELETE /api/patients/:id/care-team/:staffId
+router.delete(
+  "/:id/care-team/:staffId",
+  requirePermission(Permission.MANAGE_CARE_TEAMS),
+  validateIdParam,
+  careTeamController.removeStaff
+);
+
+// Allergy fields are required on create and optional on update
+const allergyValidators = (isUpdate: boolean) => [
+  (isUpdate ? body("allergen").optional() : body("allergen"))
+    .trim()
+    .notEmpty()
+    .withMessage("Allergen is required"),
+  (isUpdate ? body("reaction").optional() : body("reaction"))
+    .trim()
+    .notEmpty()
+    .withMessage("Reaction is required"),
+  body("severity")
+    .optional()
+    .isIn(ALLERGY_SEVERITIES)
+    .withMessage(`Severity must be one of ${ALLERGY_SEVERITIES.join(", ")}`),
+  body("status")
+    .optional()
+    .isIn(ALLERGY_STATUSES)
+    .withMessage(`Status must be one of ${ALLERGY_STATUSES.join(", ")}`),
+  body("onsetDate")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Onset date must be a valid date"),
+  body("notes")
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("Notes must be a string"),
+];
+
+const validateAllergyIdParam = validate([
+  param("allergyId").isInt().withMessage("Allergy ID must be a number"),
+]);
+
+// GET /api/patients/:id/allergies
+router.get(
+  "/:id/allergies",
+  requirePermission(Permission.VIEW_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validate([
+    query("status")
+      .optional()
+      .isIn(ALLERGY_STATUSES)
+      .withMessage(`Status must be one of ${ALLERGY_STATUSES.join(", ")}`),
+  ]),
+  allergyController.getAllergies
+);
+
+// POST /api/patients/:id/allergies
+router.post(
+  "/:id/allergies",
+  requirePermission(Permission.EDIT_PATIENTS),
+  validateIdParam,
+  requireChartAccess,
+  validate(allergyValidators(false)),
+  allergyController.createAllergy
+);
+
+// PUT /api/patients/:id/allergies/:allergyId
+router.put(
+  "/:id/allergies/:allergyId",
+  requirePermission(Permission.EDIT_PATIENTS),
+  validateIdParam,
+  requireChartAccess,
+  validateAllergyIdParam,
+  validate(allergyValidators(true)),
+  allergyController.updateAllergy
+);
+
+// DELETE /api/patients/:id/allergies/:allergyId
+router.delete(
+  "/:id/allergies/:allergyId",
+  requirePermission(Permission.EDIT_PATIENTS),
+  validateIdParam,
+  requireChartAccess,
+  validateAllergyIdParam,
+  allergyController.deleteAllergy
+);
+
+// A condition is required on create unless it comes from a diagnosis
+const problemValidators = (isUpdate: boolean) => [
+  (isUpdate
+    ? body("condition").optional()
+    : body("condition").if(body("diagnosisId").not().exists())
+  )
+    .trim()
+    .notEmpty()
+    .withMessage("Condition is required"),
+  body("diagnosisId")
+    .optional()
+    .isInt()
+    .withMessage("Diagnosis ID must be a number"),
+  body("icdCode")
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("ICD code must be a string"),
+  body("status")
+    .optional()
+    .isIn(PROBLEM_STATUSES)
+    .withMessage(`Status must be one of ${PROBLEM_STATUSES.join(", ")}`),
+  body("diagnosedAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Diagnosis date must be a valid date"),
+  body("resolvedAt")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Resolution date must be a valid date"),
+  body("notes")
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("Notes must be a string"),
+];
+
+const validateProblemIdParam = validate([
+  param("problemId").isInt().withMessage("Problem ID must be a number"),
+]);
+
+// GET /api/patients/:id/problems
+router.get(
+  "/:id/problems",
+  requirePermission(Permission.VIEW_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validate([
+    query("status")
+      .optional()
+      .isIn(PROBLEM_STATUSES)
+      .withMessage(`Status must be one of ${PROBLEM_STATUSES.join(", ")}`),
+  ]),
+  problemListController.getProblems
+);
+
+// GET /api/patients/:id/problems/suggestions
+router.get(
+  "/:id/problems/suggestions",
+  requirePermission(Permission.VIEW_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  problemListController.getProblemSuggestions
+);
+
+// POST /api/patients/:id/problems
+router.post(
+  "/:id/problems",
+  requirePermission(Permission.CREATE_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validate(problemValidators(false)),
+  problemListController.createProblem
+);
+
+// PUT /api/patients/:id/problems/:problemId
+router.put(
+  "/:id/problems/:problemId",
+  requirePermission(Permission.EDIT_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validateProblemIdParam,
+  validate(problemValidators(true)),
+  problemListController.updateProblem
+);
+
+// DELETE /api/patients/:id/problems/:problemId
+router.delete(
+  "/:id/problems/:problemId",
+  requirePermission(Permission.DELETE_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validateProblemIdParam,
+  problemListController.deleteProblem
+);
+
+// GET /api/patients/:id/labs/trends
+router.get(
+  "/:id/labs/trends",
+  requirePermission(Permission.VIEW_RECORDS),
+  validateIdParam,
+  requireChartAccess,
+  validate([
+    query("testCode")
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage("Test code must not be empty"),
+  ]),
+  labController.getLabTrends
+);
+
+// GET /api/patients/:id/duplicates
+router.get(
+  "/:id/duplicates",
+  requirePermission(Permission.VIEW_PATIENTS),
+  validateIdParam,
+  patientMergeController.getDuplicates
+);
+
+// POST /api/patients/:id/merge - merge another chart into this one
+router.post(
+  "/:id/merge",
+  requirePermission(Permission.MERGE_PATIENTS),
+  validateIdParam,
+  validate([
+    body("duplicateId")
+      .isInt()
+      .withMessage("Duplicate patient ID must be a number"),
+  ]),
+  patientMergeController.mergePatient
+);
+
+// GET /api/patients/:id/merges
+router.get(
+  "/:id/merges",
+  requirePermission(Permission.VIEW_PATIENTS),
+  validateIdParam,
+  patientMergeController.getMergeHistory
+);
+
+// POST /api/patients/:id/merges/:mergeId/undo
+router.post(
+  "/:id/merges/:mergeId/undo",
+  requirePermission(Permission.MERGE_PATIENTS),
+  validateIdParam,
+  validate([param("mergeId").isInt().withMessage("Merge ID must be a number")]),
+  patientMergeController.undoMerge
+);
+
 // POST /api/patients
 router.post(
   "/",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.CREATE_PATIENTS),
   validatePatientInput,
   patientController.createPatient
 );
@@ -83,7 +446,7 @@ router.post(
 // PUT /api/patients/:id
 router.put(
   "/:id",
-  authorize(["doctor", "nurse", "admin", "receptionist"]),
+  requirePermission(Permission.EDIT_PATIENTS),
   validateIdParam,
   validatePatientInput,
   patientController.updatePatient
@@ -92,9 +455,25 @@ router.put(
 // DELETE /api/patients/:id
 router.delete(
   "/:id",
-  authorize(["admin"]),
+  requirePermission(Permission.DELETE_PATIENTS),
   validateIdParam,
   patientController.deletePatient
 );
 
+// POST /api/patients/:id/restore
+router.post(
+  "/:id/restore",
+  requirePermission(Permission.RESTORE_PATIENTS),
+  validateIdParam,
+  patientController.restorePatient
+);
+
+// DELETE /api/patients/:id/purge - permanent, audited like every other access
+router.delete(
+  "/:id/purge",
+  requirePermission(Permission.PURGE_PATIENTS),
+  validateIdParam,
+  patientController.purgePatient
+);
+
 export default router;
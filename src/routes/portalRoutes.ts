@@ -0,0 +1,133 @@
+import { Router } from "express";
+import * as portalController from "../controllers/portalController";
+import {
+  authenticate,
+  requirePatientAccount,
+} from "../middlewares/authMiddleware";
+import { auditAccess } from "../middlewares/auditMiddleware";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param } from "express-validator";
+
+const router = Router();
+
+// Portal routes are for patient accounts and only ever touch the linked record.
+// Routes serving the record are audited like the staff routes.
+router.use(authenticate);
+router.use(requirePatientAccount);
+
+const validateIdParam = validate([
+  param("id").isInt().withMessage("ID must be a number"),
+]);
+
+const validateContactUpdate = validate([
+  body("email").optional().isEmail().withMessage("Email must be valid"),
+  body("contactNumber")
+    .optional()
+    .isString()
+    .withMessage("Contact number must be a string"),
+  body("address").optional().isString().withMessage("Address must be a string"),
+  body("emergencyContactName")
+    .optional()
+    .isString()
+    .withMessage("Emergency contact name must be a string"),
+  body("emergencyContactNumber")
+    .optional()
+    .isString()
+    .withMessage("Emergency contact number must be a string"),
+]);
+
+const validateAppointmentRequest = validate([
+  body("doctorId").notEmpty().withMessage("Doctor ID is required"),
+  body("startTime")
+    .isISO8601()
+    .withMessage("Start time must be a valid date-time"),
+  body("endTime").isISO8601().withMessage("End time must be a valid date-time"),
+  body("type")
+    .isIn([
+      "initial-consultation",
+      "follow-up",
+      "procedure",
+      "checkup",
+      "urgent",
+      "telehealth",
+      "other",
+    ])
+    .withMessage("Invalid appointment type"),
+  body("reason").optional().isString().withMessage("Reason must be a string"),
+]);
+
+// GET /api/portal/profile - Get the patient's own record
+router.get("/profile", auditAccess("patient"), portalController.getProfile);
+
+// PUT /api/portal/profile/contact - Update contact details
+router.put(
+  "/profile/contact",
+  auditAccess("patient"),
+  validateContactUpdate,
+  portalController.updateContactDetails
+);
+
+// GET /api/portal/appointments - List the patient's appointments
+router.get(
+  "/appointments",
+  auditAccess("appointment"),
+  portalController.getAppointments
+);
+
+// POST /api/portal/appointments - Request an appointment
+router.post(
+  "/appointments",
+  auditAccess("appointment"),
+  validateAppointmentRequest,
+  portalController.requestAppointment
+);
+
+// GET /api/portal/appointments/:id - Get one of the patient's appointments
+router.get(
+  "/appointments/:id",
+  auditAccess("appointment"),
+  validateIdParam,
+  portalController.getAppointment
+);
+
+// PUT /api/portal/appointments/:id/cancel - Cancel an upcoming appointment
+router.put(
+  "/appointments/:id/cancel",
+  auditAccess("appointment"),
+  validateIdParam,
+  portalController.cancelAppointment
+);
+
+// GET /api/portal/invoices - List the patient's invoices
+router.get("/invoices", auditAccess("invoice"), portalController.getInvoices);
+
+// GET /api/portal/invoices/:id - Get one of the patient's invoices
+router.get(
+  "/invoices/:id",
+  auditAccess("invoice"),
+  validate([param("id").notEmpty().withMessage("Invoice ID is required")]),
+  portalController.getInvoice
+);
+
+// GET /api/portal/visits - List visit summaries
+router.get(
+  "/visits",
+  auditAccess("medical_record"),
+  portalController.getVisitSummaries
+);
+
+// GET /api/portal/visits/:id - Get one visit summary
+router.get(
+  "/visits/:id",
+  auditAccess("medical_record"),
+  validateIdParam,
+  portalController.getVisitSummary
+);
+
+// GET /api/portal/notifications - List the patient's notifications
+router.get("/notifications", portalController.getNotifications);
+
+// GET /api/portal/access-report - Who has accessed the patient's record
+router.get("/access-report", portalController.getAccessReport);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import * as staffController from "../controllers/staffController";
-import { authenticate, authorize } from "../middlewares/authMiddleware";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
 import { validate } from "../middlewares/validationMiddleware";
 import { body, param, query } from "express-validator";
 
@@ -54,31 +55,53 @@ const validateStaffIdParam = validate([
 ]);
 
 // GET /api/staff - Get all staff members with optional filtering
-router.get("/", staffController.getAllStaff);
+router.get(
+  "/",
+  requirePermission(Permission.VIEW_STAFF),
+  staffController.getAllStaff
+);
 
 // GET /api/staff/doctors - Get all doctors (for appointment forms)
-router.get("/doctors", staffController.getDoctors);
+router.get(
+  "/doctors",
+  requirePermission(Permission.VIEW_STAFF),
+  staffController.getDoctors
+);
 
 // GET /api/staff/departments - Get unique departments for filtering
-router.get("/departments", staffController.getDepartments);
+router.get(
+  "/departments",
+  requirePermission(Permission.VIEW_STAFF),
+  staffController.getDepartments
+);
 
 // GET /api/staff/stats - Get staff statistics for dashboard
-router.get("/stats", staffController.getStaffStats);
+router.get(
+  "/stats",
+  requirePermission(Permission.VIEW_STAFF),
+  staffController.getStaffStats
+);
 
 // GET /api/staff/search - Search staff
 router.get(
   "/search",
+  requirePermission(Permission.VIEW_STAFF),
   validate([query("q").exists().withMessage("Search query is required")]),
   staffController.searchStaff
 );
 
 // GET /api/staff/:id - Get staff by ID
-router.get("/:id", validateStaffIdParam, staffController.getStaffById);
+router.get(
+  "/:id",
+  requirePermission(Permission.VIEW_STAFF),
+  validateStaffIdParam,
+  staffController.getStaffById
+);
 
 // POST /api/staff - Create new staff member
 router.post(
   "/",
-  authorize(["admin"]), // Only admins can create staff
+  requirePermission(Permission.MANAGE_STAFF),
   validateStaffInput,
   staffController.createStaff
 );
@@ -86,7 +109,7 @@ router.post(
 // PUT /api/staff/:id - Update staff member
 router.put(
   "/:id",
-  authorize(["admin"]), // Only admins can update staff
+  requirePermission(Permission.MANAGE_STAFF),
   validateStaffIdParam,
   validateStaffInput,
   staffController.updateStaff
@@ -95,7 +118,7 @@ router.put(
 // DELETE /api/staff/:id - Delete staff member
 router.delete(
   "/:id",
-  authorize(["admin"]), // Only admins can delete staff
+  requirePermission(Permission.MANAGE_STAFF),
   validateStaffIdParam,
   staffController.deleteStaff
 );
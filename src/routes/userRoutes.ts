@@ -0,0 +1,110 @@
+import { Router } from "express";
+import * as userController from "../controllers/userController";
+import { authenticate, requirePermission } from "../middlewares/authMiddleware";
+import { Permission } from "../types/auth";
+import { validate } from "../middlewares/validationMiddleware";
+import { body, param, query } from "express-validator";
+
+const router = Router();
+
+// All user administration routes require the manage:users permission
+router.use(authenticate);
+router.use(requirePermission(Permission.MANAGE_USERS));
+
+const validateIdParam = validate([
+  param("id").isInt().withMessage("User ID must be a number"),
+]);
+
+const validateListQuery = validate([
+  query("status")
+    .optional()
+    .isIn(["active", "disabled"])
+    .withMessage("Status must be one of: active, disabled"),
+  query("patientId")
+    .optional()
+    .isInt()
+    .withMessage("Patient ID must be a number"),
+]);
+
+const validateUserUpdate = validate([
+  body("email").optional().isEmail().withMessage("Email must be valid"),
+  body("username")
+    .optional()
+    .isLength({ min: 3, max: 30 })
+    .withMessage("Username must be between 3 and 30 characters"),
+  body("firstName")
+    .optional()
+    .notEmpty()
+    .withMessage("First name cannot be empty"),
+  body("lastName")
+    .optional()
+    .notEmpty()
+    .withMessage("Last name cannot be empty"),
+  body("role").optional().isString().withMessage("Role must be a string"),
+  body("permissions")
+    .optional()
+    .isArray()
+    .withMessage("Permissions must be an array"),
+  body("permissions.*").isString().withMessage("Permissions must be strings"),
+  body("staffId")
+    .optional({ nullable: true })
+    .isString()
+    .withMessage("Staff ID must be a string"),
+  body("patientId")
+    .optional({ nullable: true })
+    .isInt()
+    .withMessage("Patient ID must be a number")
+    .toInt(),
+]);
+
+// GET /api/users - List users (filters: role, status, staffId, patientId, search)
+router.get("/", validateListQuery, userController.getAllUsers);
+
+// GET /api/users/:id - Get a user
+router.get("/:id", validateIdParam, userController.getUserById);
+
+// PUT /api/users/:id - Update profile, role, permissions or staff link
+router.put(
+  "/:id",
+  validateIdParam,
+  validateUserUpdate,
+  userController.updateUser
+);
+
+// PUT /api/users/:id/disable - Disable an account and end its sessions
+router.put("/:id/disable", validateIdParam, userController.disableUser);
+
+// PUT /api/users/:id/enable - Re-enable an account
+router.put("/:id/enable", validateIdParam, userController.enableUser);
+
+// PUT /api/users/:id/unlock - Clear failed logins and lift a lockout
+router.put("/:id/unlock", validateIdParam, userController.unlockUser);
+
+// POST /api/users/:id/force-password-reset - Require a password reset on next login
+router.post(
+  "/:id/force-password-reset",
+  validateIdParam,
+  userController.forcePasswordReset
+);
+
+// PUT /api/users/:id/password - Set a password (temporary unless temporary=false)
+router.put(
+  "/:id/password",
+  validateIdParam,
+  validate([
+    body("password").notEmpty().withMessage("Password is required"),
+    body("temporary")
+      .optional()
+      .isBoolean()
+      .withMessage("Temporary must be a boolean"),
+  ]),
+  userController.setUserPassword
+);
+
+// DELETE /api/users/:id/mfa - Remove a user's MFA enrolment (lost device)
+router.delete("/:id/mfa", validateIdParam, userController.resetMfa);
+
+// DELETE /api/users/:id - Delete a user
+router.delete("/:id", validateIdParam, userController.deleteUser);
+
+export default router;
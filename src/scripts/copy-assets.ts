@@ -0,0 +1,20 @@
+import fs from "fs";
+import path from "path";
+
+// Data files read at runtime that tsc does not emit (JSON files are imported
+// and emitted with the code). Run after tsc by npm run build.
+const ASSETS = [
+  "config/password-denylist.txt",
+  "config/icd10-codes.csv",
+  "config/charge-master.csv",
+];
+
+const srcDir = path.join(__dirname, "..");
+const outDir = path.join(__dirname, "../../dist");
+
+for (const asset of ASSETS) {
+  const target = path.join(outDir, asset);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.copyFileSync(path.join(srcDir, asset), target);
+  console.log(`Copied ${asset} to ${path.relative(process.cwd(), target)}`);
+}
@@ -0,0 +1,27 @@
+import path from "path";
+import chargeMasterService from "../services/chargeMasterService";
+import { logger } from "../utils/logger";
+
+// Usage:
+//   npm run charges:import               Import the bundled charge master
+//   npm run charges:import -- <file>     Import a CSV with code, description,
+//                                        category and defaultPrice columns
+//                                        and optional taxRate, activeFrom
+//                                        and activeTo columns
+const [file] = process.argv.slice(2);
+
+(async () => {
+  try {
+    const result = await chargeMasterService.importFile(
+      file ? path.resolve(file) : undefined
+    );
+
+    console.log(
+      `Imported ${result.imported} charge master entries; the catalog now holds ${result.total}`
+    );
+    process.exit(0);
+  } catch (error) {
+    logger.error("Charge master import failed:", error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,26 @@
+import path from "path";
+import icd10Service from "../services/icd10Service";
+import { logger } from "../utils/logger";
+
+// Usage:
+//   npm run codes:import                 Import the bundled code catalog
+//   npm run codes:import -- <file>       Import a CSV with code and
+//                                        description columns, or the CMS
+//                                        code list (icd10cm_codes_YYYY.txt)
+const [file] = process.argv.slice(2);
+
+(async () => {
+  try {
+    const result = await icd10Service.importCodes(
+      file ? path.resolve(file) : undefined
+    );
+
+    console.log(
+      `Imported ${result.imported} ICD-10 codes; the catalog now holds ${result.total}`
+    );
+    process.exit(0);
+  } catch (error) {
+    logger.error("ICD-10 code import failed:", error);
+    process.exit(1);
+  }
+})();
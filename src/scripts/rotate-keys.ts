@@ -0,0 +1,47 @@
+import encryptionService from "../services/encryptionService";
+import { logger } from "../utils/logger";
+
+// Usage:
+//   npm run keys:rotate                 New data key, re-encrypt all fields
+//   npm run keys:rotate -- --reencrypt  Re-encrypt with the current key only
+//   npm run keys:rotate -- --rewrap     Re-wrap data keys after changing
+//                                       DATA_ENCRYPTION_KEY (set the old one
+//                                       as DATA_ENCRYPTION_KEY_PREVIOUS)
+//   npm run keys:rotate -- --status     Show keys and what they protect
+const args = process.argv.slice(2);
+
+(async () => {
+  try {
+    if (args.includes("--status")) {
+      const status = encryptionService.getKeyStatus();
+      for (const key of status.keys) {
+        console.log(
+          `Key ${key.id}: ${key.status}, created ${key.createdAt}${
+            key.retiredAt ? `, retired ${key.retiredAt}` : ""
+          }, ${key.values} values`
+        );
+      }
+      console.log(`Unencrypted values: ${status.plaintextValues}`);
+      process.exit(0);
+    }
+
+    if (args.includes("--rewrap")) {
+      const count = encryptionService.rotateMasterKey();
+      console.log(`Re-wrapped ${count} data keys under the current master key`);
+      process.exit(0);
+    }
+
+    const result = args.includes("--reencrypt")
+      ? encryptionService.reencryptAll()
+      : encryptionService.rotateDataKey();
+
+    for (const { table, rows } of result.tables) {
+      console.log(`${table}: ${rows} rows re-encrypted`);
+    }
+    console.log(`All fields are now encrypted with key ${result.keyId}`);
+    process.exit(0);
+  } catch (error) {
+    logger.error("Key rotation failed:", error);
+    process.exit(1);
+  }
+})();
@@ -1,4 +1,4 @@
-import { up as initMigration } from "../db/migrations/001_init";
+import { runMigrations as migrate } from "../db/migrations";
 import { runSeeds, refreshDatabase } from "../db/seeds";
 import { logger } from "../utils/logger";
 
@@ -27,7 +27,7 @@ const refreshMode = args.includes("--refresh");
     if (runMigrations) {
       logger.info("Running database migrations...");
       try {
-        initMigration();
+        migrate();
         logger.info("Migrations completed successfully");
       } catch (migrationError) {
         logger.error("Migration failed:", migrationError);
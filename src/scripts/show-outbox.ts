@@ -0,0 +1,38 @@
+import MailOutboxModel from "../models/MailOutbox";
+import { logger } from "../utils/logger";
+
+// Usage: npm run mail:outbox -- [--to user@example.com] [--limit 10]
+const args = process.argv.slice(2);
+const argValue = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+(async () => {
+  try {
+    const messages = await MailOutboxModel.findRecent(
+      Number(argValue("--limit") || 10),
+      argValue("--to")
+    );
+
+    if (messages.length === 0) {
+      console.log("Outbox is empty");
+      process.exit(0);
+    }
+
+    for (const message of messages) {
+      console.log("----------------------------------------");
+      console.log(`Date:    ${message.createdAt}`);
+      console.log(`From:    ${message.fromAddress}`);
+      console.log(`To:      ${message.toAddress}`);
+      console.log(`Subject: ${message.subject}`);
+      console.log("");
+      console.log(message.textBody);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Failed to read mail outbox:", error);
+    process.exit(1);
+  }
+})();
@@ -1,6 +1,9 @@
 import app from "./app";
 import { env } from "./config/env";
 import { logger } from "./utils/logger";
+import { loadKnowledgeBase } from "./services/drugInteractionService";
+import { loadDenylist } from "./services/passwordPolicyService";
+import { loadFeeSchedule } from "./services/invoiceGenerationService";
 
 // Define a custom interface for Node.js errors
 interface NodeJSError extends Error {
@@ -9,6 +12,18 @@ interface NodeJSError extends Error {
 
 const PORT = env.PORT || 5001; // Try alternative port if default is in use
 
+// Prescriptions are checked against the interaction knowledge base,
+// passwords against the breached-password denylist, and visits are billed from
+// the fee schedule, so do not serve requests without them
+try {
+  loadKnowledgeBase();
+  loadDenylist();
+  loadFeeSchedule();
+} catch (error) {
+  logger.error((error as Error).message);
+  process.exit(1);
+}
+
 const server = app
   .listen(PORT, () => {
     logger.info(`Server running on port ${PORT}`);
@@ -0,0 +1,225 @@
+import PatientAllergyModel from "../models/PatientAllergy";
+import PatientModel from "../models/Patient";
+import { Allergy, AllergyInput, AllergyStatus } from "../types/medicalRecord";
+import { parseAllergyText } from "../utils/allergyParser";
+import { logger } from "../utils/logger";
+
+/**
+ * Check that a patient exists
+ * @private
+ */
+const ensurePatient = async (patientId: number): Promise<void> => {
+  if (!(await PatientModel.findById(patientId))) {
+    throw new Error("Patient not found");
+  }
+};
+
+/**
+ * Get an allergy, checking that it belongs to the patient
+ * @private
+ */
+const findPatientAllergy = async (
+  patientId: number,
+  allergyId: number
+): Promise<Allergy> => {
+  const allergy = await PatientAllergyModel.findById(allergyId);
+  if (!allergy || allergy.patientId !== patientId) {
+    throw new Error("Allergy not found");
+  }
+
+  return allergy;
+};
+
+/**
+ * Refuse a second active entry for the same allergen
+ * @private
+ */
+const ensureNotRecorded = async (
+  patientId: number,
+  allergen: string,
+  exceptId?: number
+): Promise<void> => {
+  const active = await PatientAllergyModel.findByPatient(patientId, "active");
+  const key = allergen.trim().toLowerCase();
+
+  if (
+    active.some(
+      (allergy) =>
+        allergy.id !== exceptId && allergy.allergen.trim().toLowerCase() === key
+    )
+  ) {
+    throw new Error(
+      `An active allergy to ${allergen.trim()} is already recorded`
+    );
+  }
+};
+
+/**
+ * Get a patient's allergies, most severe first
+ */
+export const getAllergies = async (
+  patientId: number,
+  status?: AllergyStatus
+): Promise<Allergy[]> => {
+  try {
+    await ensurePatient(patientId);
+    return await PatientAllergyModel.findByPatient(patientId, status);
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.getAllergies for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get a patient's active allergies for inclusion in chart responses
+ */
+export const getActiveAllergies = async (
+  patientId: number
+): Promise<Allergy[]> => {
+  try {
+    return await PatientAllergyModel.findByPatient(patientId, "active");
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.getActiveAllergies for patient ${patientId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve allergies");
+  }
+};
+
+/**
+ * Record an allergy for a patient
+ */
+export const recordAllergy = async (
+  patientId: number,
+  data: AllergyInput
+): Promise<Allergy> => {
+  try {
+    await ensurePatient(patientId);
+
+    if (data.status === "active") {
+      await ensureNotRecorded(patientId, data.allergen);
+    }
+
+    const allergy = await PatientAllergyModel.create(patientId, {
+      ...data,
+      allergen: data.allergen.trim(),
+    });
+    if (!allergy) {
+      throw new Error("Failed to record allergy");
+    }
+
+    return allergy;
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.recordAllergy for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Update one of a patient's allergies
+ */
+export const updateAllergy = async (
+  patientId: number,
+  allergyId: number,
+  data: Partial<AllergyInput>
+): Promise<Allergy> => {
+  try {
+    const existing = await findPatientAllergy(patientId, allergyId);
+
+    const merged = { ...existing, ...data };
+    if (merged.status === "active") {
+      await ensureNotRecorded(patientId, merged.allergen, allergyId);
+    }
+
+    const allergy = await PatientAllergyModel.update(allergyId, {
+      ...data,
+      ...(data.allergen !== undefined && { allergen: data.allergen.trim() }),
+    });
+    if (!allergy) {
+      throw new Error("Failed to update allergy");
+    }
+
+    return allergy;
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.updateAllergy for allergy ${allergyId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Delete an allergy recorded in error. Allergies that no longer apply should
+ * be marked inactive instead so the history is kept.
+ */
+export const deleteAllergy = async (
+  patientId: number,
+  allergyId: number
+): Promise<void> => {
+  try {
+    await findPatientAllergy(patientId, allergyId);
+
+    if (!(await PatientAllergyModel.remove(allergyId))) {
+      throw new Error("Failed to delete allergy");
+    }
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.deleteAllergy for allergy ${allergyId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Add the allergies listed in a patient's free-text allergies field to the
+ * registry. Allergens with an active entry are skipped; allergens missing
+ * from the text are left in the registry, since an allergy is only removed
+ * or refuted through the registry itself.
+ * @returns The allergies added
+ */
+export const recordAllergyText = async (
+  patientId: number,
+  text: string | undefined
+): Promise<Allergy[]> => {
+  try {
+    const active = await PatientAllergyModel.findByPatient(patientId, "active");
+    const recorded = new Set(
+      active.map((allergy) => allergy.allergen.trim().toLowerCase())
+    );
+    const added: Allergy[] = [];
+
+    for (const allergy of parseAllergyText(text)) {
+      const key = allergy.allergen.trim().toLowerCase();
+      if (recorded.has(key)) continue;
+
+      added.push(await recordAllergy(patientId, allergy));
+      recorded.add(key);
+    }
+
+    return added;
+  } catch (error) {
+    logger.error(
+      `Error in allergyService.recordAllergyText for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+export default {
+  getAllergies,
+  getActiveAllergies,
+  recordAllergy,
+  recordAllergyText,
+  updateAllergy,
+  deleteAllergy,
+};
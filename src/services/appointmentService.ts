@@ -1,6 +1,7 @@
 import appointmentModel from "../models/Appointment";
 import patientModel from "../models/Patient";
 import staffModel from "../models/Staff";
+import invoiceGenerationService from "./invoiceGenerationService";
 import {
   Appointment,
   AppointmentWithNames,
@@ -246,7 +247,21 @@ export const updateAppointment = async (
     }
 
     // Update the appointment
-    return await appointmentModel.updateAppointment(id, appointmentData);
+    const updated = await appointmentModel.updateAppointment(
+      id,
+      appointmentData
+    );
+
+    // Draft the visit's invoice for billing staff to review
+    if (
+      updated &&
+      appointmentData.status === "completed" &&
+      existingAppointment.status !== "completed"
+    ) {
+      await invoiceGenerationService.generateForAppointment(id);
+    }
+
+    return updated;
   } catch (error) {
     logger.error(
       `Error in appointmentService.updateAppointment for ID ${id}:`,
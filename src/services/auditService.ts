@@ -0,0 +1,146 @@
+import AuditLogModel from "../models/AuditLog";
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditResourceType,
+  PatientAccessReportEntry,
+} from "../types/audit";
+import { logger } from "../utils/logger";
+
+// Largest page of audit entries returned by a single query
+const MAX_PAGE_SIZE = 500;
+const DEFAULT_PAGE_SIZE = 50;
+
+// Audit action recorded for each HTTP method
+const METHOD_ACTIONS: Record<string, AuditAction> = {
+  GET: "read",
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+export interface AuditContext {
+  actorId: number | null;
+  actorRole: string | null;
+  resourceType: AuditResourceType;
+  resourceId: string | null;
+  patientId: number | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+  requestId: string | null;
+}
+
+/**
+ * Get the audit action for an HTTP method
+ */
+export const getActionForMethod = (method: string): AuditAction | null =>
+  METHOD_ACTIONS[method.toUpperCase()] || null;
+
+/**
+ * Record an access to patient data. Failures are logged and never surface to
+ * the request being audited.
+ */
+export const recordAccess = async (context: AuditContext): Promise<void> => {
+  try {
+    const action = getActionForMethod(context.method);
+    if (!action) {
+      return;
+    }
+
+    let patientId = context.patientId;
+    if (
+      !patientId &&
+      context.resourceId &&
+      context.resourceType !== "patient"
+    ) {
+      patientId = await AuditLogModel.findResourcePatientId(
+        context.resourceType,
+        context.resourceId
+      );
+    }
+
+    const written = await AuditLogModel.create({
+      ...context,
+      action,
+      patientId,
+    });
+
+    if (!written) {
+      logger.error(
+        `Audit entry lost for ${context.method} ${context.path} (request ${context.requestId})`
+      );
+    }
+  } catch (error) {
+    logger.error("Error in auditService.recordAccess:", error);
+  }
+};
+
+/**
+ * Query the audit log with paging
+ */
+export const queryAuditLog = async (
+  filters: AuditLogFilters
+): Promise<{
+  entries: AuditLogEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}> => {
+  try {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(
+      Math.max(filters.limit || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const [entries, total] = await Promise.all([
+      AuditLogModel.find({ ...filters, page, limit }),
+      AuditLogModel.count(filters),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  } catch (error) {
+    logger.error("Error in auditService.queryAuditLog:", error);
+    throw new Error("Failed to query audit log");
+  }
+};
+
+/**
+ * Report who has accessed a patient's data. Only successful requests are
+ * included since denied ones disclosed nothing.
+ */
+export const getPatientAccessReport = async (
+  patientId: number
+): Promise<PatientAccessReportEntry[]> => {
+  try {
+    return await AuditLogModel.findPatientAccess(patientId);
+  } catch (error) {
+    logger.error(
+      `Error in auditService.getPatientAccessReport for patient ${patientId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve access report");
+  }
+};
+
+export default {
+  getActionForMethod,
+  recordAccess,
+  queryAuditLog,
+  getPatientAccessReport,
+};
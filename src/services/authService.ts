@@ -1,35 +1,74 @@
-import jwt, { JwtPayload } from "jsonwebtoken"; // Add JwtPayload import
+import jwt from "jsonwebtoken";
 import bcryptjs from "bcryptjs";
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
 import UserModel from "../models/User";
+import RefreshTokenModel from "../models/RefreshToken";
+import SessionModel from "../models/Session";
+import PasswordResetTokenModel from "../models/PasswordResetToken";
+import sessionService from "./sessionService";
+import mailService from "./mailService";
+import mfaService from "./mfaService";
+import loginThrottleService, { LOCKOUT_MESSAGE } from "./loginThrottleService";
+import passwordPolicyService from "./passwordPolicyService";
 import {
   TokenPayload,
   LoginRequest,
   LoginResponse,
+  TokenPair,
+  SessionClientInfo,
+  MfaChallenge,
+  MfaEnrolment,
+  MfaVerificationRequest,
   User,
   SafeUser,
 } from "../types/auth";
 import { logger } from "../utils/logger";
+import {
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  hashToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+} from "../utils/tokenUtils";
 import { env } from "../config/env";
 
+// Password reset links point at the frontend, which posts the token back
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const RESET_TOKEN_TTL_MINUTES = 60;
+
 /**
- * Handle user login
+ * Handle user login. Users with MFA enabled (or required by their role) get
+ * an MFA challenge instead of tokens.
  * @param email User's email
  * @param password User's password
+ * @param client Client details recorded on the session
  */
-export const login = async ({
-  email,
-  password,
-}: LoginRequest): Promise<LoginResponse> => {
+export const login = async (
+  { email, password }: LoginRequest,
+  client: SessionClientInfo = {}
+): Promise<LoginResponse | MfaChallenge> => {
   try {
+    const throttle = await loginThrottleService.checkLoginAllowed(
+      email,
+      client.ipAddress
+    );
+    if (!throttle.allowed) {
+      throw new Error(LOCKOUT_MESSAGE);
+    }
+
     // Find user by email
     const user = await UserModel.findOne({ email });
     if (!user) {
+      await loginThrottleService.recordFailedLogin(email, client.ipAddress);
       throw new Error("Invalid credentials");
     }
 
     // Verify password
     const isPasswordValid = await UserModel.verifyPassword(user, password);
     if (!isPasswordValid) {
+      await loginThrottleService.recordFailedLogin(email, client.ipAddress);
       throw new Error("Invalid credentials");
     }
 
@@ -38,29 +77,38 @@ export const login = async ({
       throw new Error("User ID is missing");
     }
 
+    if (user.disabledAt) {
+      throw new Error("Account is disabled");
+    }
+
+    if (user.passwordResetRequired) {
+      throw new Error("Password reset required");
+    }
+
+    if (passwordPolicyService.isPasswordExpired(user)) {
+      throw new Error("Password expired");
+    }
+
     // Check JWT_SECRET is available before using it
     if (!env.JWT_SECRET) {
       throw new Error("JWT secret is not configured");
     }
 
-    // Generate JWT token with userId instead of id to match controller
-    const tokenPayload: TokenPayload = {
-      userId: user.id, // Changed from id to userId
-      email: user.email,
-      role: user.role,
-    };
+    const challenge = await createMfaChallenge(user);
+    if (challenge) {
+      return challenge;
+    }
 
-    // Now TypeScript knows env.JWT_SECRET is not null/undefined
-    const token = jwt.sign(tokenPayload, env.JWT_SECRET, {
-      expiresIn: "24h", // Corrected line
-    });
+    const { token, refreshToken } = await startSession(user, client);
+    await loginThrottleService.recordSuccessfulLogin(email);
 
-    // Return user data (without password) and token
+    // Return user data (without password) and tokens
     const safeUser = UserModel.getSafeUser(user);
 
     return {
       user: safeUser,
       token,
+      refreshToken,
     };
   } catch (error) {
     logger.error("Error in authService.login:", error);
@@ -68,6 +116,261 @@ export const login = async ({
   }
 };
 
+/**
+ * Build the MFA challenge for a user who has passed the password step,
+ * or null if the user does not need a second factor
+ * @param user Authenticated user
+ */
+export const createMfaChallenge = async (
+  user: Pick<User, "id" | "role">
+): Promise<MfaChallenge | null> => {
+  if (!user.id) {
+    throw new Error("User ID is missing");
+  }
+
+  const enabled = await mfaService.isMfaEnabled(user.id);
+  if (!enabled && !(await mfaService.isMfaRequired(user.role))) {
+    return null;
+  }
+
+  return {
+    mfaRequired: true,
+    enrolmentRequired: !enabled,
+    challengeToken: generateMfaChallengeToken(user.id),
+  };
+};
+
+/**
+ * Resolve the user behind an MFA challenge token
+ * @private
+ */
+const getChallengeUser = async (challengeToken: string): Promise<User> => {
+  const decoded = verifyMfaChallengeToken(challengeToken);
+  if (!decoded) {
+    throw new Error("Invalid or expired MFA challenge");
+  }
+
+  const user = await UserModel.findById(decoded.userId);
+  if (!user || !user.id || user.disabledAt || user.passwordResetRequired) {
+    throw new Error("Invalid or expired MFA challenge");
+  }
+
+  return user;
+};
+
+/**
+ * Start TOTP enrolment during login for a user whose role requires MFA
+ * but who has not enrolled yet
+ * @param challengeToken Token returned by login
+ */
+export const beginChallengeEnrolment = async (
+  challengeToken: string
+): Promise<MfaEnrolment> => {
+  try {
+    const user = await getChallengeUser(challengeToken);
+    return await mfaService.beginEnrolment(user.id as number, user.email);
+  } catch (error) {
+    logger.error("Error in authService.beginChallengeEnrolment:", error);
+    throw error;
+  }
+};
+
+/**
+ * Complete a login with the second factor. For users enrolling during login
+ * the code confirms the enrolment and the new recovery codes are returned.
+ * @param challengeToken Token returned by login
+ * @param factor TOTP code or recovery code
+ * @param client Client details recorded on the session
+ */
+export const completeMfaLogin = async (
+  challengeToken: string,
+  factor: MfaVerificationRequest,
+  client: SessionClientInfo = {}
+): Promise<LoginResponse> => {
+  try {
+    const user = await getChallengeUser(challengeToken);
+    const userId = user.id as number;
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const throttle = await loginThrottleService.checkLoginAllowed(
+      user.email,
+      client.ipAddress
+    );
+    if (!throttle.allowed) {
+      throw new Error(LOCKOUT_MESSAGE);
+    }
+
+    let recoveryCodes: string[] | undefined;
+    if (await mfaService.isMfaEnabled(userId)) {
+      if (!(await mfaService.verifySecondFactor(userId, factor))) {
+        await loginThrottleService.recordFailedLogin(
+          user.email,
+          client.ipAddress
+        );
+        throw new Error("Invalid verification code");
+      }
+    } else {
+      if (!factor.code) {
+        throw new Error("Invalid verification code");
+      }
+      try {
+        recoveryCodes = await mfaService.confirmEnrolment(userId, factor.code);
+      } catch (error) {
+        await loginThrottleService.recordFailedLogin(
+          user.email,
+          client.ipAddress
+        );
+        throw error;
+      }
+    }
+
+    const { token, refreshToken } = await startSession(user, client);
+    await loginThrottleService.recordSuccessfulLogin(user.email);
+
+    return {
+      user: UserModel.getSafeUser(user),
+      token,
+      refreshToken,
+      ...(recoveryCodes && { recoveryCodes }),
+    };
+  } catch (error) {
+    logger.error("Error in authService.completeMfaLogin:", error);
+    throw error;
+  }
+};
+
+/**
+ * Start a new session for a user and issue its access/refresh token pair.
+ * The session ID is used as the access token jti and the refresh token family.
+ * @param user Authenticated user
+ * @param client Client details recorded on the session
+ */
+export const startSession = async (
+  user: Pick<User, "id" | "email" | "role">,
+  client: SessionClientInfo = {}
+): Promise<TokenPair> => {
+  if (!user.id) {
+    throw new Error("User ID is missing");
+  }
+
+  const sessionId = uuidv4();
+  const { refreshToken, expiresAt } = await issueRefreshToken(
+    user.id,
+    sessionId
+  );
+
+  const session = await SessionModel.create(
+    sessionId,
+    user.id,
+    expiresAt,
+    client
+  );
+  if (!session) {
+    throw new Error("Failed to create session");
+  }
+
+  const token = generateToken(
+    { userId: user.id, email: user.email, role: user.role },
+    sessionId
+  );
+
+  return { token, refreshToken };
+};
+
+/**
+ * Issue and persist a refresh token
+ * @param userId User the token belongs to
+ * @param familyId Session the token belongs to
+ * @param tokenId ID to store the token under (generated if omitted)
+ * @private
+ */
+const issueRefreshToken = async (
+  userId: number,
+  familyId: string,
+  tokenId: string = uuidv4()
+): Promise<{ refreshToken: string; expiresAt: string }> => {
+  const refreshToken = generateRefreshToken(userId, tokenId, familyId);
+  const decoded = verifyRefreshToken(refreshToken);
+
+  if (!decoded) {
+    throw new Error("Failed to issue refresh token");
+  }
+
+  const expiresAt = new Date(decoded.exp * 1000).toISOString();
+  const record = await RefreshTokenModel.create({
+    id: tokenId,
+    userId,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt,
+  });
+
+  if (!record) {
+    throw new Error("Failed to issue refresh token");
+  }
+
+  return { refreshToken, expiresAt };
+};
+
+/**
+ * Exchange a refresh token for a new access/refresh pair.
+ * The presented token is consumed; presenting it again revokes its session.
+ * @param refreshToken Refresh token issued at login or by a previous refresh
+ */
+export const refreshTokens = async (
+  refreshToken: string
+): Promise<TokenPair> => {
+  try {
+    const decoded = verifyRefreshToken(refreshToken);
+    if (!decoded) {
+      throw new Error("Invalid or expired refresh token");
+    }
+
+    const record = await RefreshTokenModel.findById(decoded.jti);
+    if (!record || record.tokenHash !== hashToken(refreshToken)) {
+      throw new Error("Invalid or expired refresh token");
+    }
+
+    // A token that was already rotated or revoked is being replayed
+    if (record.revokedAt) {
+      await sessionService.revokeSession(record.familyId);
+      logger.warn(
+        `Refresh token reuse detected for user ${record.userId}; session ${record.familyId} revoked`
+      );
+      throw new Error("Refresh token has been revoked");
+    }
+
+    const user = await UserModel.findById(record.userId);
+    const isActive = await sessionService.isSessionActive(record.familyId);
+    if (!user || !user.id || user.disabledAt || !isActive) {
+      await sessionService.revokeSession(record.familyId);
+      throw new Error("Invalid or expired refresh token");
+    }
+
+    // Consume the presented token; if another request rotated it first, treat as reuse
+    const newTokenId = uuidv4();
+    const rotated = await RefreshTokenModel.markRotated(record.id, newTokenId);
+    if (!rotated) {
+      await sessionService.revokeSession(record.familyId);
+      throw new Error("Refresh token has been revoked");
+    }
+
+    const { refreshToken: newRefreshToken, expiresAt } =
+      await issueRefreshToken(user.id, record.familyId, newTokenId);
+    await sessionService.touchSession(record.familyId, expiresAt);
+
+    const token = generateToken(
+      { userId: user.id, email: user.email, role: user.role },
+      record.familyId
+    );
+
+    return { token, refreshToken: newRefreshToken };
+  } catch (error) {
+    logger.error("Error in authService.refreshTokens:", error);
+    throw error;
+  }
+};
+
 /**
  * Register a new user
  * @param userData User registration data
@@ -83,6 +386,11 @@ export const register = async (
       throw new Error("User with this email already exists");
     }
 
+    passwordPolicyService.ensurePasswordMeetsPolicy(
+      userData.password,
+      userData
+    );
+
     // Hash password
     const salt = await bcryptjs.genSalt(10);
     const hashedPassword = await bcryptjs.hash(userData.password, salt);
@@ -93,10 +401,12 @@ export const register = async (
       password: hashedPassword,
     });
 
-    if (!user) {
+    if (!user || !user.id) {
       throw new Error("Failed to create user");
     }
 
+    await passwordPolicyService.recordPassword(user.id, hashedPassword);
+
     // Return user without password
     return UserModel.getSafeUser(user);
   } catch (error) {
@@ -131,46 +441,79 @@ export const getUserById = async (userId: string): Promise<SafeUser | null> => {
 };
 
 /**
- * Request password reset
+ * Request password reset. A single-use reset link is mailed to the user;
+ * the token itself is never logged or stored in plain text. The result is
+ * the same whether or not the account exists, so a link that cannot be
+ * created or mailed is logged rather than reported to the caller.
  * @param email User's email
  */
 export const requestPasswordReset = async (email: string): Promise<boolean> => {
+  let user: User | null;
   try {
-    const user = await UserModel.findOne({ email });
-    if (!user) {
-      // Return true even if user not found for security reasons
-      return true;
-    }
+    user = await UserModel.findOne({ email });
+  } catch (error) {
+    logger.error("Error in authService.requestPasswordReset:", error);
+    throw error;
+  }
 
+  if (!user || user.disabledAt) {
+    // Return true even if user not found for security reasons
+    return true;
+  }
+
+  try {
     if (!user.id) {
       throw new Error("User ID is missing");
     }
 
-    // Generate reset token - updated to match controller
-    const resetToken = jwt.sign(
-      { userId: user.id, email: user.email }, // Changed from id to userId
-      env.JWT_SECRET + user.password,
-      { expiresIn: "1h" }
-    );
+    // Only the most recently requested link stays valid
+    await PasswordResetTokenModel.invalidateAllForUser(user.id);
+
+    const resetToken = crypto.randomBytes(32).toString("hex");
+    const created = await PasswordResetTokenModel.create({
+      id: uuidv4(),
+      userId: user.id,
+      tokenHash: hashToken(resetToken),
+      expiresAt: new Date(
+        Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000
+      ).toISOString(),
+    });
 
-    // In a real implementation, you would:
-    // 1. Store the token in the database or use a one-way hash of it
-    // 2. Send an email with the reset link containing the token
+    if (!created) {
+      throw new Error("Failed to create password reset token");
+    }
 
-    logger.info(`Password reset requested for ${email}. Token: ${resetToken}`);
+    const resetUrl = `${APP_URL}/reset-password?token=${resetToken}`;
+    await mailService.sendMail({
+      to: user.email,
+      subject: "Reset your password",
+      text: [
+        `Hello ${user.firstName},`,
+        "",
+        "We received a request to reset your password. Use the link below to choose a new one:",
+        resetUrl,
+        "",
+        `The link expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can only be used once.`,
+        "If you did not request a reset, you can ignore this email.",
+      ].join("\n"),
+    });
 
-    return true;
+    logger.info(`Password reset requested for user ${user.id}`);
   } catch (error) {
+    // The user can ask again; failing the request would reveal the account
     logger.error(
-      `Error in authService.requestPasswordReset for email ${email}:`,
+      `Error sending a password reset link to user ${user.id}:`,
       error
     );
-    throw error;
   }
+
+  return true;
 };
 
 /**
- * Reset password with token
+ * Reset password with a token from a reset email.
+ * The token is consumed and all of the user's sessions are revoked.
+ * The new password must satisfy the password policy and history.
  * @param token Reset token
  * @param newPassword New password
  */
@@ -179,63 +522,90 @@ export const resetPassword = async (
   newPassword: string
 ): Promise<boolean> => {
   try {
-    // Define a proper interface for your reset token payload
-    interface ResetTokenPayload extends JwtPayload {
-      userId: string;
-      email: string;
-      [key: string]: any; // Allow for additional properties
+    const record = await PasswordResetTokenModel.findValidByHash(
+      hashToken(token)
+    );
+    if (!record) {
+      throw new Error("Invalid or expired token");
     }
 
-    // First verify the token exists and has a valid structure
-    if (!env.JWT_SECRET) {
-      throw new Error("JWT secret is not configured");
+    const user = await UserModel.findById(record.userId);
+    if (!user || !user.id || user.disabledAt) {
+      throw new Error("Invalid or expired token");
     }
 
-    // Use a proper type assertion approach with the extended interface
-    const decoded = jwt.verify(token, env.JWT_SECRET) as ResetTokenPayload;
+    // Reject weak passwords before the token is spent so the link can be retried
+    passwordPolicyService.ensurePasswordMeetsPolicy(newPassword, user);
 
-    // Convert string ID to number
-    const userId = parseInt(decoded.userId, 10);
-
-    if (isNaN(userId)) {
-      throw new Error("Invalid user ID in token");
+    // Consume the token; if a concurrent request used it first, reject
+    const consumed = await PasswordResetTokenModel.markUsed(record.id);
+    if (!consumed) {
+      throw new Error("Invalid or expired token");
     }
 
-    const user = await UserModel.findById(userId);
+    await passwordPolicyService.setPassword(user, newPassword);
 
-    // Rest of function remains unchanged
-    if (!user) {
-      throw new Error("Invalid or expired token");
+    await PasswordResetTokenModel.invalidateAllForUser(user.id);
+    await sessionService.revokeAllSessionsForUser(user.id);
+
+    return true;
+  } catch (error) {
+    logger.error("Error in authService.resetPassword:", error);
+    throw error;
+  }
+};
+
+/**
+ * Change a password using the current one. Also used by users whose password
+ * has expired, so it authenticates with credentials instead of a session.
+ * All of the user's sessions are revoked.
+ * @param email User's email
+ * @param currentPassword Current password
+ * @param newPassword New password
+ * @param client Client details used for login throttling
+ */
+export const changePassword = async (
+  email: string,
+  currentPassword: string,
+  newPassword: string,
+  client: SessionClientInfo = {}
+): Promise<boolean> => {
+  try {
+    // Wrong current passwords count towards the login lockout
+    const throttle = await loginThrottleService.checkLoginAllowed(
+      email,
+      client.ipAddress
+    );
+    if (!throttle.allowed) {
+      throw new Error(LOCKOUT_MESSAGE);
     }
 
-    // Verify full token with user's current password
-    try {
-      jwt.verify(token, env.JWT_SECRET + user.password);
-    } catch (error) {
-      throw new Error("Invalid or expired token");
+    const user = await UserModel.findOne({ email });
+    if (!user || !(await UserModel.verifyPassword(user, currentPassword))) {
+      await loginThrottleService.recordFailedLogin(email, client.ipAddress);
+      throw new Error("Invalid credentials");
     }
 
-    // Make sure the user has an ID before updating
     if (!user.id) {
       throw new Error("User ID is missing");
     }
 
-    // Hash new password
-    const salt = await bcryptjs.genSalt(10);
-    const hashedPassword = await bcryptjs.hash(newPassword, salt);
-
-    // Update password
-    const updatedUser = await UserModel.update(user.id, {
-      password: hashedPassword,
-    });
+    if (user.disabledAt) {
+      throw new Error("Account is disabled");
+    }
 
-    if (!updatedUser) {
-      throw new Error("Failed to update password");
+    // Accounts flagged by an administrator must go through the email reset
+    if (user.passwordResetRequired) {
+      throw new Error("Password reset required");
     }
 
+    await passwordPolicyService.setPassword(user, newPassword);
+    await loginThrottleService.recordSuccessfulLogin(email);
+    await sessionService.revokeAllSessionsForUser(user.id);
+
     return true;
   } catch (error) {
-    logger.error("Error in authService.resetPassword:", error);
+    logger.error("Error in authService.changePassword:", error);
     throw error;
   }
 };
@@ -269,9 +639,15 @@ export const verifyToken = (token: string): TokenPayload => {
 
 export default {
   login,
+  createMfaChallenge,
+  beginChallengeEnrolment,
+  completeMfaLogin,
+  startSession,
+  refreshTokens,
   register,
   getUserById,
   requestPasswordReset,
   resetPassword,
+  changePassword,
   verifyToken,
 };
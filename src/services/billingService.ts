@@ -1,6 +1,7 @@
 import BillingModel from "../models/Billing";
 import PatientModel from "../models/Patient";
 import AppointmentModel from "../models/Appointment";
+import chargeMasterService from "./chargeMasterService";
 import {
   Invoice,
   InvoiceItem,
@@ -8,11 +9,21 @@ import {
   InvoiceWithItems,
   InvoiceStatus,
   CreateInvoiceRequest,
+  GeneratedInvoiceDraft,
   UpdateInvoiceRequest,
   RecordPaymentRequest,
+  RecordedPayment,
+  PatientCreditBalance,
 } from "../types/billing";
+import { normalizeChargeCode } from "../utils/chargeMaster";
 import { logger } from "../utils/logger";
 
+export const GENERATED_INVOICE_UNREVIEWED_MESSAGE =
+  "Generated invoices must be approved from the review queue before they are sent";
+
+export const PAYMENT_STATUS_MESSAGE =
+  "Paid and partially paid statuses are set by recording payments";
+
 /**
  * Get all invoices
  */
@@ -62,6 +73,74 @@ export const getInvoicesByPatientId = async (
   }
 };
 
+/**
+ * Price invoice items, taking coded items from the charge master. A
+ * description, price or tax rate sent with an item takes precedence over
+ * the catalog.
+ * @private
+ */
+const priceItems = async (
+  requested: CreateInvoiceRequest["items"]
+): Promise<{
+  items: Omit<InvoiceItem, "id" | "invoiceId" | "createdAt" | "updatedAt">[];
+  totalAmount: number;
+}> => {
+  const hasCatalog = await chargeMasterService.hasCatalog();
+  const charges = await chargeMasterService.getBillableItems(
+    requested.flatMap((item) => (item.serviceCode ? [item.serviceCode] : []))
+  );
+
+  // Calculate totals
+  let totalAmount = 0;
+  const items: Omit<
+    InvoiceItem,
+    "id" | "invoiceId" | "createdAt" | "updatedAt"
+  >[] = [];
+  for (const item of requested) {
+    const serviceCode = item.serviceCode
+      ? normalizeChargeCode(item.serviceCode)
+      : undefined;
+    const charge = serviceCode ? charges.get(serviceCode) : undefined;
+    if (serviceCode && !charge && hasCatalog) {
+      throw new Error(
+        `Service code ${serviceCode} is not an active charge master code`
+      );
+    }
+
+    const description = item.description || charge?.description;
+    const unitPrice = item.unitPrice ?? charge?.defaultPrice;
+    const taxRate = item.taxRate ?? charge?.taxRate;
+
+    if (!description) {
+      throw new Error("Item description is required");
+    }
+    if (item.quantity <= 0) {
+      throw new Error("Item quantity must be greater than zero");
+    }
+    if (unitPrice === undefined) {
+      throw new Error("Item unit price is required");
+    }
+    if (unitPrice < 0) {
+      throw new Error("Item unit price cannot be negative");
+    }
+
+    const amount =
+      Math.round(item.quantity * unitPrice * (100 + (taxRate || 0))) / 100;
+    items.push({
+      description,
+      quantity: item.quantity,
+      unitPrice,
+      amount,
+      serviceCode,
+      taxRate,
+    });
+    totalAmount += amount;
+  }
+  totalAmount = Math.round(totalAmount * 100) / 100;
+
+  return { items, totalAmount };
+};
+
 /**
  * Create a new invoice
  */
@@ -93,28 +172,18 @@ export const createInvoice = async (
       }
     }
 
+    // Amount paid, balance and the paid statuses follow the payments ledger,
+    // which is empty for a new invoice
+    if (data.status === "paid" || data.status === "partially_paid") {
+      throw new Error(PAYMENT_STATUS_MESSAGE);
+    }
+
     // Validate items
     if (!data.items || data.items.length === 0) {
       throw new Error("At least one invoice item is required");
     }
 
-    // Calculate totals
-    let totalAmount = 0;
-    for (const item of data.items) {
-      if (!item.description) {
-        throw new Error("Item description is required");
-      }
-      if (item.quantity <= 0) {
-        throw new Error("Item quantity must be greater than zero");
-      }
-      if (item.unitPrice < 0) {
-        throw new Error("Item unit price cannot be negative");
-      }
-
-      const amount = item.quantity * item.unitPrice;
-      item.amount = amount;
-      totalAmount += amount;
-    }
+    const { items, totalAmount } = await priceItems(data.items);
 
     // Prepare invoice data
     const invoiceData: Omit<Invoice, "id" | "createdAt" | "updatedAt"> & {
@@ -131,7 +200,7 @@ export const createInvoice = async (
       status: data.status || "draft",
       dueDate: data.dueDate,
       notes: data.notes,
-      items: data.items,
+      items,
     };
 
     // Create the invoice
@@ -142,6 +211,109 @@ export const createInvoice = async (
   }
 };
 
+/**
+ * Save an invoice drafted from a completed visit. A generated draft the
+ * visit already has is refreshed with the new items unless it has been
+ * reviewed or paid; any other invoice for the visit is left alone.
+ * @returns The saved invoice, or null when the visit is already billed
+ */
+export const saveGeneratedInvoice = async (
+  draft: GeneratedInvoiceDraft
+): Promise<InvoiceWithItems | null> => {
+  try {
+    const { items, totalAmount } = await priceItems(draft.items);
+    const appointmentId =
+      draft.appointmentId !== null ? String(draft.appointmentId) : undefined;
+
+    const existing = await BillingModel.getVisitInvoice(
+      draft.appointmentId,
+      draft.medicalRecordId
+    );
+    if (existing) {
+      if (
+        existing.source !== "generated" ||
+        existing.status !== "draft" ||
+        existing.reviewedAt ||
+        existing.amountPaid > 0
+      ) {
+        return null;
+      }
+
+      return await BillingModel.replaceInvoiceItems(existing.id, {
+        totalAmount,
+        appointmentId: appointmentId ?? existing.appointmentId,
+        medicalRecordId: draft.medicalRecordId ?? existing.medicalRecordId,
+        dueDate: draft.dueDate,
+        notes: draft.notes,
+        items,
+      });
+    }
+
+    return await BillingModel.createInvoice({
+      patientId: draft.patientId,
+      appointmentId,
+      medicalRecordId: draft.medicalRecordId,
+      totalAmount,
+      amountPaid: 0,
+      balance: totalAmount,
+      status: "draft",
+      dueDate: draft.dueDate,
+      notes: draft.notes,
+      source: "generated",
+      items,
+    });
+  } catch (error) {
+    logger.error("Error in billingService.saveGeneratedInvoice:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the generated draft invoices waiting for review, oldest first
+ */
+export const getReviewQueue = async (): Promise<InvoiceWithItems[]> => {
+  try {
+    return await BillingModel.getReviewQueue();
+  } catch (error) {
+    logger.error("Error in billingService.getReviewQueue:", error);
+    throw new Error("Failed to retrieve the invoice review queue");
+  }
+};
+
+/**
+ * Approve a generated draft invoice from the review queue and send it
+ */
+export const approveInvoice = async (
+  id: string,
+  userId: number
+): Promise<InvoiceWithItems | null> => {
+  try {
+    const invoice = await BillingModel.getInvoiceById(id);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+
+    if (
+      invoice.source !== "generated" ||
+      invoice.status !== "draft" ||
+      invoice.reviewedAt
+    ) {
+      throw new Error(
+        "Only generated draft invoices awaiting review can be approved"
+      );
+    }
+
+    return await BillingModel.updateInvoice(id, {
+      status: "sent",
+      reviewedBy: userId,
+      reviewedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error(`Error in billingService.approveInvoice for ID ${id}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Update an invoice
  */
@@ -156,17 +328,60 @@ export const updateInvoice = async (
       throw new Error("Invoice not found");
     }
 
-    // Prevent updating paid invoices unless explicitly reverting status
+    // Generated drafts are sent by approving them from the review queue
     if (
-      invoice.status === "paid" &&
-      data.status !== "partially_paid" &&
-      data.status !== "sent"
+      invoice.source === "generated" &&
+      !invoice.reviewedAt &&
+      data.status &&
+      data.status !== "draft" &&
+      data.status !== "cancelled"
     ) {
+      throw new Error(GENERATED_INVOICE_UNREVIEWED_MESSAGE);
+    }
+
+    // Prevent updating paid invoices
+    if (invoice.status === "paid") {
       throw new Error("Paid invoices cannot be modified");
     }
 
+    // Amount paid, balance and the paid statuses follow the payments ledger
+    if (data.status === "paid" || data.status === "partially_paid") {
+      throw new Error(PAYMENT_STATUS_MESSAGE);
+    }
+    if (
+      invoice.amountPaid > 0 &&
+      data.status &&
+      data.status !== invoice.status
+    ) {
+      throw new Error(
+        "The status of an invoice with payments cannot be changed"
+      );
+    }
+
+    // Payments, and any credit kept from them, belong to the patient billed
+    if (
+      invoice.amountPaid > 0 &&
+      data.patientId !== undefined &&
+      Number(data.patientId) !== invoice.patientId
+    ) {
+      throw new Error(
+        "The patient of an invoice with payments cannot be changed"
+      );
+    }
+
+    // Only the editable fields are written; the totals are never set here
+    const fields = Object.fromEntries(
+      Object.entries({
+        patientId: data.patientId,
+        appointmentId: data.appointmentId,
+        status: data.status,
+        dueDate: data.dueDate,
+        notes: data.notes,
+      }).filter(([, value]) => value !== undefined)
+    ) as UpdateInvoiceRequest;
+
     // Update the invoice
-    return await BillingModel.updateInvoice(id, data);
+    return await BillingModel.updateInvoice(id, fields);
   } catch (error) {
     logger.error(`Error in billingService.updateInvoice for ID ${id}:`, error);
     throw error;
@@ -220,29 +435,20 @@ export const getInvoicePayments = async (
 };
 
 /**
- * Record a payment
+ * Record a payment. An amount above the invoice balance is refused unless
+ * overpayment is "credit", when the excess is added to the patient's
+ * credit balance. A retry with the same idempotency key returns the payment
+ * already recorded.
  */
 export const recordPayment = async (
   data: RecordPaymentRequest
-): Promise<Payment> => {
+): Promise<{ payment: RecordedPayment; replayed: boolean }> => {
   try {
-    // Verify invoice exists
-    const invoice = await BillingModel.getInvoiceById(data.invoiceId);
-    if (!invoice) {
-      throw new Error("Invoice not found");
-    }
-
     // Validate payment amount
     if (data.amount <= 0) {
       throw new Error("Payment amount must be greater than zero");
     }
 
-    if (data.amount > invoice.balance) {
-      throw new Error(
-        `Payment amount cannot exceed the invoice balance (${invoice.balance})`
-      );
-    }
-
     // Prepare payment data
     const paymentData: Omit<Payment, "id" | "createdAt" | "updatedAt"> = {
       invoiceId: data.invoiceId,
@@ -252,16 +458,49 @@ export const recordPayment = async (
       notes: data.notes,
       processedBy: data.processedBy,
       processedDate: data.processedDate || new Date().toISOString(),
+      idempotencyKey: data.idempotencyKey,
     };
 
-    // Record the payment
-    return await BillingModel.recordPayment(paymentData);
+    // The balance is checked in the same transaction the payment is
+    // recorded in
+    const result = await BillingModel.recordPayment(
+      paymentData,
+      data.overpayment
+    );
+    if ("rejection" in result) {
+      throw new Error(result.rejection);
+    }
+
+    return result;
   } catch (error) {
     logger.error("Error in billingService.recordPayment:", error);
     throw error;
   }
 };
 
+/**
+ * Get a patient's credit balance and ledger
+ */
+export const getPatientCredit = async (
+  patientId: number
+): Promise<PatientCreditBalance> => {
+  try {
+    // Verify patient exists
+    const patient = await PatientModel.findById(patientId);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    return await BillingModel.getPatientCredit(patientId);
+  } catch (error) {
+    logger.error(
+      `Error in billingService.getPatientCredit for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
 /**
  * Get billing statistics
  */
@@ -282,9 +521,13 @@ export default {
   getInvoiceById,
   getInvoicesByPatientId,
   createInvoice,
+  saveGeneratedInvoice,
+  getReviewQueue,
+  approveInvoice,
   updateInvoice,
   deleteInvoice,
   getInvoicePayments,
   recordPayment,
+  getPatientCredit,
   getBillingStats,
 };
@@ -0,0 +1,256 @@
+import CareTeamModel from "../models/CareTeam";
+import BreakGlassGrantModel from "../models/BreakGlassGrant";
+import PatientModel from "../models/Patient";
+import staffModel from "../models/Staff";
+import UserModel from "../models/User";
+import notificationService from "./notificationService";
+import permissionService from "./permissionService";
+import {
+  BreakGlassGrant,
+  BreakGlassGrantFilters,
+  CareTeamAssignment,
+  ChartScope,
+} from "../types/careTeam";
+import { Permission, UserRole } from "../types/auth";
+import { logger } from "../utils/logger";
+
+// How long break-glass access lasts (overridable through the environment)
+const BREAK_GLASS_MINUTES = Number(process.env.BREAK_GLASS_MINUTES || 60);
+
+export const CHART_ACCESS_DENIED_MESSAGE =
+  "Forbidden - Not on this patient's care team. Use break-glass access in an emergency.";
+
+/**
+ * Get the patients whose charts a user may read: those whose care team the
+ * user's staff record is on, plus those the user holds unexpired break-glass
+ * access to. Returns null when the user may read every chart.
+ */
+export const getChartScope = async (userId: number): Promise<ChartScope> => {
+  try {
+    if (
+      await permissionService.hasPermissions(userId, [
+        Permission.VIEW_ALL_RECORDS,
+      ])
+    ) {
+      return null;
+    }
+
+    const user = await UserModel.findById(userId);
+    const assigned = user?.staffId
+      ? await CareTeamModel.findPatientIdsByStaff(user.staffId)
+      : [];
+    const emergency = await BreakGlassGrantModel.findActivePatientIds(userId);
+
+    return Array.from(new Set([...assigned, ...emergency]));
+  } catch (error) {
+    logger.error(
+      `Error in careTeamService.getChartScope for user ${userId}:`,
+      error
+    );
+    throw new Error("Failed to resolve chart access");
+  }
+};
+
+/**
+ * Check whether a user may read a patient's chart
+ */
+export const canAccessChart = async (
+  userId: number,
+  patientId: number
+): Promise<boolean> => {
+  const scope = await getChartScope(userId);
+  return scope === null || scope.includes(patientId);
+};
+
+/**
+ * Get a patient's care team
+ */
+export const getCareTeam = async (
+  patientId: number
+): Promise<CareTeamAssignment[]> => {
+  const patient = await PatientModel.findById(patientId);
+  if (!patient) {
+    throw new Error("Patient not found");
+  }
+
+  return CareTeamModel.findByPatient(patientId);
+};
+
+/**
+ * Assign a staff member to a patient's care team
+ */
+export const assignStaff = async (
+  patientId: number,
+  staffId: string,
+  role: string | null,
+  assignedBy: number
+): Promise<CareTeamAssignment[]> => {
+  try {
+    const patient = await PatientModel.findById(patientId);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    if (!staffModel.getStaffById(staffId)) {
+      throw new Error("Staff member not found");
+    }
+
+    if (!(await CareTeamModel.assign(patientId, staffId, role, assignedBy))) {
+      throw new Error("Failed to assign staff member");
+    }
+
+    return CareTeamModel.findByPatient(patientId);
+  } catch (error) {
+    logger.error(
+      `Error in careTeamService.assignStaff for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Remove a staff member from a patient's care team
+ */
+export const removeStaff = async (
+  patientId: number,
+  staffId: string
+): Promise<void> => {
+  try {
+    if (!(await CareTeamModel.remove(patientId, staffId))) {
+      throw new Error("Care team assignment not found");
+    }
+  } catch (error) {
+    logger.error(
+      `Error in careTeamService.removeStaff for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Tell every active admin that a chart was opened with break-glass access
+ * @private
+ */
+const notifyAdmins = async (grant: BreakGlassGrant): Promise<void> => {
+  try {
+    const user = await UserModel.findById(grant.userId);
+    const admins = await UserModel.findByFilters({
+      role: UserRole.ADMIN,
+      status: "active",
+    });
+    const name = user ? `${user.firstName} ${user.lastName}` : "A user";
+
+    for (const admin of admins) {
+      if (!admin.id) continue;
+
+      await notificationService.sendNotification(
+        admin.id,
+        "Break-glass access to patient chart",
+        `${name} used break-glass access to the chart of patient #${grant.patientId} until ${grant.expiresAt}. Reason: ${grant.reason}`,
+        "system",
+        String(grant.id),
+        `/break-glass/${grant.id}`
+      );
+    }
+  } catch (error) {
+    // A failed notification must not undo the emergency access
+    logger.error(
+      `Error notifying admins of break-glass grant ${grant.id}:`,
+      error
+    );
+  }
+};
+
+/**
+ * Grant a user time-boxed access to a patient's chart outside the care
+ * team. Admins are notified so the access can be reviewed afterwards.
+ */
+export const requestBreakGlass = async (
+  userId: number,
+  patientId: number,
+  reason: string
+): Promise<BreakGlassGrant> => {
+  try {
+    const patient = await PatientModel.findById(patientId);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    const expiresAt = new Date(
+      Date.now() + BREAK_GLASS_MINUTES * 60 * 1000
+    ).toISOString();
+    const grant = await BreakGlassGrantModel.create(
+      userId,
+      patientId,
+      reason.trim(),
+      expiresAt
+    );
+    if (!grant) {
+      throw new Error("Failed to grant break-glass access");
+    }
+
+    await notifyAdmins(grant);
+
+    return grant;
+  } catch (error) {
+    logger.error(
+      `Error in careTeamService.requestBreakGlass for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * List break-glass grants for review
+ */
+export const getBreakGlassGrants = async (
+  filters: BreakGlassGrantFilters
+): Promise<BreakGlassGrant[]> => {
+  return BreakGlassGrantModel.find(filters);
+};
+
+/**
+ * Record an admin's review of a break-glass grant
+ */
+export const reviewBreakGlassGrant = async (
+  id: number,
+  reviewerId: number,
+  notes: string | null
+): Promise<BreakGlassGrant> => {
+  try {
+    const grant = await BreakGlassGrantModel.findById(id);
+    if (!grant) {
+      throw new Error("Break-glass grant not found");
+    }
+
+    if (grant.reviewedAt) {
+      throw new Error("Break-glass grant has already been reviewed");
+    }
+
+    if (!(await BreakGlassGrantModel.markReviewed(id, reviewerId, notes))) {
+      throw new Error("Failed to review break-glass grant");
+    }
+
+    return (await BreakGlassGrantModel.findById(id)) as BreakGlassGrant;
+  } catch (error) {
+    logger.error(
+      `Error in careTeamService.reviewBreakGlassGrant for grant ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+export default {
+  getChartScope,
+  canAccessChart,
+  getCareTeam,
+  assignStaff,
+  removeStaff,
+  requestBreakGlass,
+  getBreakGlassGrants,
+  reviewBreakGlassGrant,
+};
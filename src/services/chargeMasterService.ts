@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import ChargeMasterModel from "../models/ChargeMaster";
+import {
+  ChargeMasterFilters,
+  ChargeMasterImportResult,
+  ChargeMasterItem,
+  ChargeMasterItemInput,
+} from "../types/chargeMaster";
+import {
+  isActiveOn,
+  isChargeCodeFormat,
+  normalizeChargeCode,
+  parseChargeMasterFile,
+  validateChargeMasterItem,
+} from "../utils/chargeMaster";
+import { logger } from "../utils/logger";
+
+// Catalog imported by the seeders and by default from the import script.
+// CHARGE_MASTER_PATH is resolved against the working directory like other
+// paths given on the command line; the bundled file is copied into the build.
+export const BUNDLED_CHARGE_MASTER_PATH = process.env.CHARGE_MASTER_PATH
+  ? path.resolve(process.env.CHARGE_MASTER_PATH)
+  : path.join(__dirname, "../config/charge-master.csv");
+
+/**
+ * Today's date as YYYY-MM-DD, the date charges are priced on
+ * @private
+ */
+const today = (): string => new Date().toISOString().split("T")[0];
+
+/**
+ * Throw the validation problems of an entry as one error
+ * @private
+ */
+const assertValid = (item: ChargeMasterItemInput): void => {
+  const problems = validateChargeMasterItem(item);
+  if (problems.length > 0) {
+    throw new Error(`Invalid charge master entry: ${problems.join("; ")}`);
+  }
+};
+
+/**
+ * List the catalog, optionally filtered by code or description, category
+ * and the date entries are active on
+ */
+export const listItems = async (
+  filters: ChargeMasterFilters = {}
+): Promise<ChargeMasterItem[]> => {
+  try {
+    return await ChargeMasterModel.findAll(filters);
+  } catch (error) {
+    logger.error("Error in chargeMasterService.listItems:", error);
+    throw new Error("Failed to retrieve the charge master");
+  }
+};
+
+/**
+ * Get a catalog entry by code
+ */
+export const getItem = async (
+  code: string
+): Promise<ChargeMasterItem | null> => {
+  try {
+    return await ChargeMasterModel.findByCode(normalizeChargeCode(code));
+  } catch (error) {
+    logger.error(`Error in chargeMasterService.getItem for ${code}:`, error);
+    throw new Error("Failed to retrieve charge master entry");
+  }
+};
+
+/**
+ * Add an entry to the catalog
+ */
+export const createItem = async (
+  data: ChargeMasterItemInput
+): Promise<ChargeMasterItem> => {
+  try {
+    const item = { ...data, code: normalizeChargeCode(data.code) };
+    assertValid(item);
+
+    if (await ChargeMasterModel.findByCode(item.code)) {
+      throw new Error(`Charge code ${item.code} already exists`);
+    }
+
+    const created = await ChargeMasterModel.create(item);
+    if (!created) {
+      throw new Error("Failed to create charge master entry");
+    }
+
+    return created;
+  } catch (error) {
+    logger.error("Error in chargeMasterService.createItem:", error);
+    throw error;
+  }
+};
+
+/**
+ * Change the description, category, price, tax rate or active dates of an
+ * entry. Invoices already issued keep the prices they were created with.
+ */
+export const updateItem = async (
+  code: string,
+  data: Partial<Omit<ChargeMasterItemInput, "code">>
+): Promise<ChargeMasterItem> => {
+  try {
+    const existing = await ChargeMasterModel.findByCode(
+      normalizeChargeCode(code)
+    );
+    if (!existing) {
+      throw new Error("Charge code not found");
+    }
+
+    const item: ChargeMasterItemInput = {
+      code: existing.code,
+      description: data.description ?? existing.description,
+      category: data.category ?? existing.category,
+      defaultPrice: data.defaultPrice ?? existing.defaultPrice,
+      taxRate: data.taxRate ?? existing.taxRate,
+      activeFrom:
+        data.activeFrom !== undefined ? data.activeFrom : existing.activeFrom,
+      activeTo: data.activeTo !== undefined ? data.activeTo : existing.activeTo,
+    };
+    assertValid(item);
+
+    const updated = await ChargeMasterModel.update(existing.code, item);
+    if (!updated) {
+      throw new Error("Failed to update charge master entry");
+    }
+
+    return updated;
+  } catch (error) {
+    logger.error(`Error in chargeMasterService.updateItem for ${code}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Remove an entry from the catalog. To stop billing a code while keeping
+ * its history, set an activeTo date instead.
+ */
+export const deleteItem = async (code: string): Promise<void> => {
+  try {
+    const normalized = normalizeChargeCode(code);
+    if (!(await ChargeMasterModel.findByCode(normalized))) {
+      throw new Error("Charge code not found");
+    }
+
+    if (!(await ChargeMasterModel.remove(normalized))) {
+      throw new Error("Failed to delete charge master entry");
+    }
+  } catch (error) {
+    logger.error(`Error in chargeMasterService.deleteItem for ${code}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Check whether a catalog has been imported, so codes can be checked
+ * against it
+ */
+export const hasCatalog = async (): Promise<boolean> =>
+  (await ChargeMasterModel.count()) > 0;
+
+/**
+ * Check that a procedure or service code can be billed today. Until a
+ * catalog has been imported only the shape of the code is checked.
+ */
+export const isBillableCode = async (code: string): Promise<boolean> => {
+  if (!isChargeCodeFormat(code)) return false;
+  if (!(await hasCatalog())) return true;
+
+  const item = await ChargeMasterModel.findByCode(normalizeChargeCode(code));
+  return Boolean(item && isActiveOn(item, today()));
+};
+
+/**
+ * Get the catalog entries that can be billed today for the given codes,
+ * keyed by normalized code. Codes that are unknown or inactive are left
+ * out.
+ */
+export const getBillableItems = async (
+  codes: string[]
+): Promise<Map<string, ChargeMasterItem>> => {
+  try {
+    const date = today();
+    const found = await ChargeMasterModel.findByCodes([
+      ...new Set(codes.map(normalizeChargeCode)),
+    ]);
+
+    return new Map(
+      found
+        .filter((item) => isActiveOn(item, date))
+        .map((item) => [item.code, item])
+    );
+  } catch (error) {
+    logger.error("Error in chargeMasterService.getBillableItems:", error);
+    throw new Error("Failed to retrieve the charge master");
+  }
+};
+
+/**
+ * Import charge master CSV content. Entries already in the catalog are
+ * replaced by the ones in the file; no entries are removed. A file with any
+ * invalid line is rejected without importing anything.
+ */
+export const importCsv = async (
+  content: string
+): Promise<ChargeMasterImportResult> => {
+  try {
+    const { items, errors } = parseChargeMasterFile(content);
+    if (errors.length > 0) {
+      throw new Error(`Invalid charge master file: ${errors.join("; ")}`);
+    }
+    if (items.length === 0) {
+      throw new Error("No charge master entries found in the file");
+    }
+
+    const imported = await ChargeMasterModel.upsertMany(items);
+    if (imported === null) {
+      throw new Error("Failed to import the charge master");
+    }
+
+    return { imported, total: await ChargeMasterModel.count() };
+  } catch (error) {
+    logger.error("Error in chargeMasterService.importCsv:", error);
+    throw error;
+  }
+};
+
+/**
+ * Import a charge master CSV file
+ */
+export const importFile = async (
+  filePath: string = BUNDLED_CHARGE_MASTER_PATH
+): Promise<ChargeMasterImportResult> =>
+  importCsv(fs.readFileSync(filePath, "utf8"));
+
+export default {
+  listItems,
+  getItem,
+  createItem,
+  updateItem,
+  deleteItem,
+  hasCatalog,
+  isBillableCode,
+  getBillableItems,
+  importCsv,
+  importFile,
+};
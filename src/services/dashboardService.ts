@@ -2,8 +2,14 @@ import DashboardModel from "../models/Dashboard";
 import PatientModel from "../models/Patient";
 import AppointmentModel from "../models/Appointment";
 import BillingModel from "../models/Billing";
+import icd10Service from "./icd10Service";
+import { getIcd10Chapter, normalizeIcd10Code } from "../utils/icd10";
 import { logger } from "../utils/logger";
-import { DashboardStats, StaffPerformance } from "../types/dashboard";
+import {
+  DashboardStats,
+  DiagnosisChapterStats,
+  StaffPerformance,
+} from "../types/dashboard";
 
 /**
  * Get dashboard summary statistics
@@ -74,6 +80,74 @@ export const getRevenueStats = async (startDate?: string, endDate?: string) => {
   }
 };
 
+/**
+ * Get diagnosis frequency by ICD-10 chapter, most frequent chapter first.
+ * Codes outside the classification are counted under "Unclassified".
+ */
+export const getDiagnosisStats = async (
+  startDate?: string,
+  endDate?: string
+): Promise<DiagnosisChapterStats[]> => {
+  try {
+    // Validate date format if provided
+    if (startDate && !isValidDate(startDate)) {
+      throw new Error("Invalid start date format. Use YYYY-MM-DD");
+    }
+
+    if (endDate && !isValidDate(endDate)) {
+      throw new Error("Invalid end date format. Use YYYY-MM-DD");
+    }
+
+    const counts = await DashboardModel.getDiagnosisCounts(startDate, endDate);
+    const catalog = await icd10Service.getCodes(counts.map(({ code }) => code));
+    const chapters = new Map<string, DiagnosisChapterStats>();
+
+    for (const { code: rawCode, count } of counts) {
+      const chapter = getIcd10Chapter(rawCode);
+      const code = chapter ? normalizeIcd10Code(rawCode) : rawCode;
+      const key = chapter ? String(chapter.chapter) : "unclassified";
+
+      const stats = chapters.get(key) || {
+        chapter: chapter?.chapter ?? null,
+        range: chapter?.range ?? null,
+        title: chapter?.title ?? "Unclassified",
+        count: 0,
+        codes: [],
+      };
+      stats.count += count;
+
+      // "J069" and "J06.9" are counted as the same code
+      const existing = stats.codes.find((entry) => entry.code === code);
+      if (existing) {
+        existing.count += count;
+      } else {
+        stats.codes.push({
+          code,
+          description: catalog.get(code)?.description ?? null,
+          count,
+        });
+      }
+
+      chapters.set(key, stats);
+    }
+
+    return [...chapters.values()]
+      .map((stats) => ({
+        ...stats,
+        codes: stats.codes.sort(
+          (a, b) => b.count - a.count || a.code.localeCompare(b.code)
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.count - a.count || (a.chapter ?? Infinity) - (b.chapter ?? Infinity)
+      );
+  } catch (error) {
+    logger.error("Error in dashboardService.getDiagnosisStats:", error);
+    throw error;
+  }
+};
+
 /**
  * Get staff performance metrics
  */
@@ -119,6 +193,7 @@ export default {
   getPatientStats,
   getAppointmentStats,
   getRevenueStats,
+  getDiagnosisStats,
   getStaffPerformance,
   getRecentActivity,
 };
@@ -0,0 +1,297 @@
+import fs from "fs";
+import path from "path";
+import PatientAllergyModel from "../models/PatientAllergy";
+import medicalRecordModel, {
+  PatientMedication,
+  PrescribedMedication,
+} from "../models/MedicalRecord";
+import {
+  Allergy,
+  DrugKnowledgeBase,
+  INTERACTION_SEVERITIES,
+  InteractionSeverity,
+  InteractionWarning,
+} from "../types/medicalRecord";
+import { logger } from "../utils/logger";
+import bundledKnowledgeBase from "../config/drug-interactions.json";
+
+// Override for the bundled knowledge base, resolved against the working
+// directory like other paths given on the command line
+const KNOWLEDGE_BASE_PATH = process.env.DRUG_INTERACTIONS_PATH
+  ? path.resolve(process.env.DRUG_INTERACTIONS_PATH)
+  : null;
+
+export const UNRESOLVED_INTERACTIONS_MESSAGE =
+  "Major drug interactions found. Change the prescription or resend with an overrideReason on each medication with a major warning.";
+
+// Prescription durations such as "10 days", "5 weeks" or "3 months"
+const DURATION_PATTERN = /(\d+)\s*(day|week|month|year)s?/i;
+
+// Interaction knowledge base, loaded at startup
+let knowledgeBase: DrugKnowledgeBase | null = null;
+
+/**
+ * Load the interaction knowledge base from DRUG_INTERACTIONS_PATH, or the
+ * copy bundled with the build. Throws if the file cannot be read or is not a
+ * knowledge base, so the server refuses to start instead of prescribing
+ * without checks.
+ */
+export const loadKnowledgeBase = (): DrugKnowledgeBase => {
+  const source = KNOWLEDGE_BASE_PATH || "the bundled drug-interactions.json";
+  let loaded: Partial<DrugKnowledgeBase>;
+
+  try {
+    loaded = KNOWLEDGE_BASE_PATH
+      ? JSON.parse(fs.readFileSync(KNOWLEDGE_BASE_PATH, "utf8"))
+      : (bundledKnowledgeBase as unknown as Partial<DrugKnowledgeBase>);
+  } catch (error) {
+    throw new Error(
+      `Drug interaction knowledge base could not be read from ${source}`
+    );
+  }
+
+  if (
+    !loaded ||
+    typeof loaded.drugClasses !== "object" ||
+    loaded.drugClasses === null ||
+    !Array.isArray(loaded.interactions) ||
+    !Array.isArray(loaded.allergies)
+  ) {
+    throw new Error(
+      `Drug interaction knowledge base in ${source} needs drugClasses, interactions and allergies`
+    );
+  }
+
+  knowledgeBase = {
+    drugClasses: loaded.drugClasses,
+    interactions: loaded.interactions,
+    allergies: loaded.allergies,
+  };
+  logger.info(
+    `Loaded ${knowledgeBase.interactions.length} drug interaction and ${knowledgeBase.allergies.length} drug-allergy rules`
+  );
+
+  return knowledgeBase;
+};
+
+/**
+ * Get the loaded knowledge base, loading it on first use when the server
+ * did not. Never falls back to an empty one.
+ * @private
+ */
+const getKnowledgeBase = (): DrugKnowledgeBase =>
+  knowledgeBase || loadKnowledgeBase();
+
+/**
+ * Lowercase and trim a drug or allergen name
+ * @private
+ */
+const normalize = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Check whether a name contains a term as a whole word, optionally plural,
+ * so "amoxicillin 500mg" contains "amoxicillin" and "NSAIDs" contains
+ * "nsaid", but "amoxicillin" does not contain "penicillin"
+ * @private
+ */
+const containsTerm = (name: string, term: string): boolean => {
+  const escaped = normalize(term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z])${escaped}s?([^a-z]|$)`).test(normalize(name));
+};
+
+/**
+ * Check whether a drug is the named drug or belongs to the named drug class
+ * @private
+ */
+const isDrug = (name: string, drugOrClass: string): boolean => {
+  const drugs = getKnowledgeBase().drugClasses[normalize(drugOrClass)] || [
+    drugOrClass,
+  ];
+  return drugs.some((drug) => containsTerm(name, drug));
+};
+
+/**
+ * Check whether a medication from an earlier record is still being taken:
+ * its duration has not run out since the visit. Durations that cannot be
+ * read, such as "ongoing", are treated as still active.
+ * @private
+ */
+const isActive = (medication: PatientMedication, now: Date): boolean => {
+  const match = medication.duration?.match(DURATION_PATTERN);
+  if (!match) return true;
+
+  const end = new Date(medication.visitDate);
+  if (isNaN(end.getTime())) return true;
+
+  const amount = parseInt(match[1]);
+  switch (match[2].toLowerCase()) {
+    case "day":
+      end.setDate(end.getDate() + amount);
+      break;
+    case "week":
+      end.setDate(end.getDate() + amount * 7);
+      break;
+    case "month":
+      end.setMonth(end.getMonth() + amount);
+      break;
+    default:
+      end.setFullYear(end.getFullYear() + amount);
+  }
+
+  return end >= now;
+};
+
+/**
+ * Rank a severity for sorting and keeping the worst of duplicate warnings
+ * @private
+ */
+const rank = (severity: InteractionSeverity): number =>
+  INTERACTION_SEVERITIES.indexOf(severity);
+
+/**
+ * Find the drug-allergy warnings for one medication
+ * @private
+ */
+const checkAllergies = (
+  medication: string,
+  allergies: Allergy[]
+): Omit<InteractionWarning, "overridden">[] =>
+  allergies.flatMap((allergy) => {
+    const warnings: Omit<InteractionWarning, "overridden">[] = [];
+
+    // The drug itself is the recorded allergen
+    if (containsTerm(medication, allergy.allergen)) {
+      warnings.push({
+        type: "drug-allergy",
+        severity: "major",
+        medication,
+        conflictsWith: allergy.allergen,
+        description: `Patient has a recorded ${allergy.severity} allergy to ${allergy.allergen} (${allergy.reaction}).`,
+      });
+    }
+
+    for (const rule of getKnowledgeBase().allergies) {
+      if (
+        containsTerm(allergy.allergen, rule.allergen) &&
+        rule.drugs.some((drug) => isDrug(medication, drug))
+      ) {
+        warnings.push({
+          type: "drug-allergy",
+          severity: rule.severity,
+          medication,
+          conflictsWith: allergy.allergen,
+          description: rule.description,
+        });
+      }
+    }
+
+    return warnings;
+  });
+
+/**
+ * Find the drug-drug warnings between one medication and the others
+ * @private
+ */
+const checkInteractions = (
+  medication: string,
+  others: string[]
+): Omit<InteractionWarning, "overridden">[] =>
+  others.flatMap((other) =>
+    getKnowledgeBase()
+      .interactions.filter(
+        ({ drugs: [a, b] }) =>
+          (isDrug(medication, a) && isDrug(other, b)) ||
+          (isDrug(medication, b) && isDrug(other, a))
+      )
+      .map((rule) => ({
+        type: "drug-drug" as const,
+        severity: rule.severity,
+        medication,
+        conflictsWith: other,
+        description: rule.description,
+      }))
+  );
+
+/**
+ * Check new prescriptions against the patient's active allergies, the
+ * medications still active from their other records and each other
+ * @param excludeMedicalRecordId Record whose existing prescriptions are
+ * being replaced and so are not treated as active
+ * @returns Warnings, most severe first, at most one per pair of medication
+ * and allergen or other medication
+ */
+export const checkPrescriptions = async (
+  patientId: number,
+  medications: Pick<PrescribedMedication, "name" | "overrideReason">[],
+  excludeMedicalRecordId?: number
+): Promise<InteractionWarning[]> => {
+  try {
+    if (medications.length === 0) return [];
+
+    const allergies = await PatientAllergyModel.findByPatient(
+      patientId,
+      "active"
+    );
+    const now = new Date();
+    const activeMedications = medicalRecordModel
+      .getPatientMedications(patientId, excludeMedicalRecordId)
+      .filter((medication) => isActive(medication, now))
+      .map((medication) => medication.name);
+
+    const warnings = new Map<string, InteractionWarning>();
+
+    medications.forEach((medication, index) => {
+      const others = [
+        ...activeMedications,
+        ...medications
+          .filter((_, otherIndex) => otherIndex !== index)
+          .map((other) => other.name),
+      ].filter((other) => normalize(other) !== normalize(medication.name));
+
+      for (const warning of [
+        ...checkAllergies(medication.name, allergies),
+        ...checkInteractions(medication.name, others),
+      ]) {
+        const key = [
+          warning.type,
+          normalize(warning.medication),
+          normalize(warning.conflictsWith),
+        ].join("|");
+        const existing = warnings.get(key);
+
+        if (!existing || rank(warning.severity) > rank(existing.severity)) {
+          warnings.set(key, {
+            ...warning,
+            overridden: Boolean(medication.overrideReason?.trim()),
+          });
+        }
+      }
+    });
+
+    return [...warnings.values()].sort(
+      (a, b) => rank(b.severity) - rank(a.severity)
+    );
+  } catch (error) {
+    logger.error(
+      `Error in drugInteractionService.checkPrescriptions for patient ${patientId}:`,
+      error
+    );
+    throw new Error("Failed to check prescriptions for interactions");
+  }
+};
+
+/**
+ * Check whether any major warning has not been overridden with a reason
+ */
+export const hasUnresolvedMajorWarnings = (
+  warnings: InteractionWarning[]
+): boolean =>
+  warnings.some(
+    (warning) => warning.severity === "major" && !warning.overridden
+  );
+
+export default {
+  loadKnowledgeBase,
+  checkPrescriptions,
+  hasUnresolvedMajorWarnings,
+};
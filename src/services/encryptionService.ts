@@ -0,0 +1,153 @@
+import EncryptedDataModel from "../models/EncryptedData";
+import EncryptionKeyModel from "../models/EncryptionKey";
+import {
+  PATIENT_BLIND_INDEXES,
+  PATIENT_ENCRYPTED_FIELDS,
+} from "../models/Patient";
+import { MEDICAL_RECORD_ENCRYPTED_TABLES } from "../models/MedicalRecord";
+import { PATIENT_ALLERGY_ENCRYPTED_TABLE } from "../models/PatientAllergy";
+import { PATIENT_PROBLEM_ENCRYPTED_TABLE } from "../models/PatientProblem";
+import { LAB_RESULT_ENCRYPTED_TABLE } from "../models/LabResult";
+import {
+  blindIndex,
+  createDataKey,
+  decryptField,
+  encryptField,
+  getValueKeyId,
+  rewrapDataKeys,
+} from "../utils/fieldEncryption";
+import { EncryptedTable, ReencryptionResult } from "../types/encryption";
+import { logger } from "../utils/logger";
+
+// Every table with columns encrypted at rest
+const ENCRYPTED_TABLES: EncryptedTable[] = [
+  {
+    table: "patients",
+    columns: PATIENT_ENCRYPTED_FIELDS,
+    blindIndexes: PATIENT_BLIND_INDEXES,
+  },
+  ...MEDICAL_RECORD_ENCRYPTED_TABLES,
+  PATIENT_ALLERGY_ENCRYPTED_TABLE,
+  PATIENT_PROBLEM_ENCRYPTED_TABLE,
+  LAB_RESULT_ENCRYPTED_TABLE,
+];
+
+/**
+ * Re-encrypt every designated column with the active data key, encrypting
+ * any legacy plaintext and recomputing blind indexes on the way
+ */
+export const reencryptAll = (): ReencryptionResult => {
+  try {
+    const result: ReencryptionResult = { keyId: 0, tables: [] };
+
+    for (const { table, columns, blindIndexes = [] } of ENCRYPTED_TABLES) {
+      const rows = EncryptedDataModel.findRows(table, [...columns]).map(
+        (row) => {
+          const updated = { ...row };
+
+          for (const column of columns) {
+            updated[column] = encryptField(decryptField(row[column]));
+          }
+
+          for (const index of blindIndexes) {
+            updated[index.indexColumn] = blindIndex(
+              decryptField(row[index.column]),
+              index.normalize
+            );
+          }
+
+          return updated;
+        }
+      );
+
+      EncryptedDataModel.updateRows(table, rows);
+      result.tables.push({ table, rows: rows.length });
+    }
+
+    result.keyId = EncryptionKeyModel.findActive()?.id ?? 0;
+    return result;
+  } catch (error) {
+    logger.error("Error in encryptionService.reencryptAll:", error);
+    throw new Error("Failed to re-encrypt data");
+  }
+};
+
+/**
+ * Rotate the data key: create a new active key and re-encrypt everything
+ * with it. Retired keys are kept so backups taken before the rotation can
+ * still be read.
+ */
+export const rotateDataKey = (): ReencryptionResult => {
+  try {
+    createDataKey();
+    return reencryptAll();
+  } catch (error) {
+    logger.error("Error in encryptionService.rotateDataKey:", error);
+    throw new Error("Failed to rotate data key");
+  }
+};
+
+/**
+ * Re-wrap the data keys after DATA_ENCRYPTION_KEY changed. The old master
+ * key must be provided as DATA_ENCRYPTION_KEY_PREVIOUS.
+ * @returns Number of keys re-wrapped
+ */
+export const rotateMasterKey = (): number => {
+  try {
+    return rewrapDataKeys();
+  } catch (error) {
+    logger.error("Error in encryptionService.rotateMasterKey:", error);
+    throw new Error("Failed to re-wrap data keys");
+  }
+};
+
+/**
+ * Describe each data key and how many stored values it protects
+ */
+export const getKeyStatus = (): {
+  keys: {
+    id: number;
+    status: string;
+    createdAt: string;
+    retiredAt: string | null;
+    values: number;
+  }[];
+  plaintextValues: number;
+} => {
+  const counts = new Map<number, number>();
+  let plaintextValues = 0;
+
+  for (const { table, columns } of ENCRYPTED_TABLES) {
+    for (const row of EncryptedDataModel.findRows(table, [...columns])) {
+      for (const column of columns) {
+        const value = row[column];
+        if (!value) continue;
+
+        const keyId = getValueKeyId(value);
+        if (keyId === null) {
+          plaintextValues++;
+        } else {
+          counts.set(keyId, (counts.get(keyId) || 0) + 1);
+        }
+      }
+    }
+  }
+
+  return {
+    keys: EncryptionKeyModel.findAll().map((key) => ({
+      id: key.id,
+      status: key.status,
+      createdAt: key.createdAt,
+      retiredAt: key.retiredAt,
+      values: counts.get(key.id) || 0,
+    })),
+    plaintextValues,
+  };
+};
+
+export default {
+  reencryptAll,
+  rotateDataKey,
+  rotateMasterKey,
+  getKeyStatus,
+};
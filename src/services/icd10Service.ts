@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+import Icd10CodeModel from "../models/Icd10Code";
+import { Icd10Code, Icd10ImportResult } from "../types/icd10";
+import {
+  isIcd10Format,
+  normalizeIcd10Code,
+  parseIcd10File,
+} from "../utils/icd10";
+import { logger } from "../utils/logger";
+
+// Code file imported by the seeders and by default from the import script.
+// ICD10_CODES_PATH is resolved against the working directory like other paths
+// given on the command line; the bundled file is copied into the build.
+export const BUNDLED_ICD10_CODES_PATH = process.env.ICD10_CODES_PATH
+  ? path.resolve(process.env.ICD10_CODES_PATH)
+  : path.join(__dirname, "../config/icd10-codes.csv");
+
+/**
+ * Search the catalog by code prefix or description
+ * @param limit Maximum number of codes to return
+ */
+export const searchCodes = async (
+  query: string,
+  limit: number = 20
+): Promise<Icd10Code[]> => {
+  try {
+    return await Icd10CodeModel.search(query, limit);
+  } catch (error) {
+    logger.error(`Error in icd10Service.searchCodes for "${query}":`, error);
+    throw new Error("Failed to search ICD-10 codes");
+  }
+};
+
+/**
+ * Check that a diagnosis code is an ICD-10 code. Until a catalog has been
+ * imported only the shape of the code is checked.
+ */
+export const isValidCode = async (code: string): Promise<boolean> => {
+  if (!isIcd10Format(code)) return false;
+  if ((await Icd10CodeModel.count()) === 0) return true;
+
+  const [found] = await Icd10CodeModel.findByCodes([normalizeIcd10Code(code)]);
+  return Boolean(found);
+};
+
+/**
+ * Get the catalog entries for diagnosis codes, keyed by normalized code.
+ * Codes that are not in the catalog are left out.
+ */
+export const getCodes = async (
+  codes: string[]
+): Promise<Map<string, Icd10Code>> => {
+  try {
+    const found = await Icd10CodeModel.findByCodes([
+      ...new Set(codes.filter(isIcd10Format).map(normalizeIcd10Code)),
+    ]);
+    return new Map(found.map((code) => [code.code, code]));
+  } catch (error) {
+    logger.error("Error in icd10Service.getCodes:", error);
+    throw new Error("Failed to retrieve ICD-10 codes");
+  }
+};
+
+/**
+ * Import a code file (CSV with code and description columns, or the CMS
+ * code list) into the catalog. Codes already in the catalog get the
+ * description from the file; no codes are removed.
+ */
+export const importCodes = async (
+  filePath: string = BUNDLED_ICD10_CODES_PATH
+): Promise<Icd10ImportResult> => {
+  try {
+    const codes = parseIcd10File(fs.readFileSync(filePath, "utf8"));
+    if (codes.length === 0) {
+      throw new Error(`No ICD-10 codes found in ${filePath}`);
+    }
+
+    const imported = await Icd10CodeModel.upsertMany(codes);
+    if (imported === null) {
+      throw new Error("Failed to import ICD-10 codes");
+    }
+
+    return { imported, total: await Icd10CodeModel.count() };
+  } catch (error) {
+    logger.error(`Error in icd10Service.importCodes for ${filePath}:`, error);
+    throw error;
+  }
+};
+
+export default {
+  searchCodes,
+  isValidCode,
+  getCodes,
+  importCodes,
+};
@@ -0,0 +1,285 @@
+import fs from "fs";
+import path from "path";
+import AppointmentModel from "../models/Appointment";
+import medicalRecordModel, {
+  LOCKED_STATUSES,
+  MedicalRecordWithNames,
+} from "../models/MedicalRecord";
+import billingService from "./billingService";
+import chargeMasterService from "./chargeMasterService";
+import { AppointmentWithNames } from "../types/appointment";
+import {
+  FeeSchedule,
+  GeneratedInvoiceDraft,
+  InvoiceWithItems,
+} from "../types/billing";
+import { normalizeChargeCode } from "../utils/chargeMaster";
+import { logger } from "../utils/logger";
+import bundledFeeSchedule from "../config/fee-schedule.json";
+
+// Override for the bundled fee schedule, resolved against the working
+// directory like other paths given on the command line
+const FEE_SCHEDULE_PATH = process.env.FEE_SCHEDULE_PATH
+  ? path.resolve(process.env.FEE_SCHEDULE_PATH)
+  : null;
+
+// Fee schedule, loaded at startup
+let feeSchedule: FeeSchedule | null = null;
+
+/**
+ * Load the fee schedule from FEE_SCHEDULE_PATH, or the copy bundled with the
+ * build. Throws if the file cannot be read or is not a fee schedule, so the
+ * server refuses to start instead of generating invoices without visit
+ * charges.
+ */
+export const loadFeeSchedule = (): FeeSchedule => {
+  const source = FEE_SCHEDULE_PATH || "the bundled fee-schedule.json";
+  let loaded: Partial<FeeSchedule>;
+
+  try {
+    loaded = FEE_SCHEDULE_PATH
+      ? JSON.parse(fs.readFileSync(FEE_SCHEDULE_PATH, "utf8"))
+      : bundledFeeSchedule;
+  } catch (error) {
+    throw new Error(`Fee schedule could not be read from ${source}`);
+  }
+
+  if (
+    !loaded ||
+    typeof loaded.visitTypes !== "object" ||
+    loaded.visitTypes === null ||
+    typeof loaded.appointmentTypes !== "object" ||
+    loaded.appointmentTypes === null
+  ) {
+    throw new Error(
+      `Fee schedule in ${source} needs visitTypes and appointmentTypes`
+    );
+  }
+
+  feeSchedule = {
+    visitTypes: loaded.visitTypes,
+    appointmentTypes: loaded.appointmentTypes,
+    medications: loaded.medications || [],
+    paymentTermsDays: loaded.paymentTermsDays ?? 30,
+  };
+  logger.info(
+    `Loaded a fee schedule with ${
+      Object.keys(feeSchedule.visitTypes).length
+    } visit types and ${
+      Object.keys(feeSchedule.appointmentTypes).length
+    } appointment types`
+  );
+
+  return feeSchedule;
+};
+
+/**
+ * Get the loaded fee schedule, loading it on first use when the server did
+ * not. Never falls back to an empty one.
+ * @private
+ */
+const getFeeSchedule = (): FeeSchedule => feeSchedule || loadFeeSchedule();
+
+/**
+ * Get the date part (YYYY-MM-DD) of a timestamp
+ * @private
+ */
+const dateOf = (timestamp: string): string => timestamp.slice(0, 10);
+
+/**
+ * Find the medical record written for an appointment: the patient's record
+ * by the same doctor on the same day, signed ones first
+ * @private
+ */
+const findVisitRecord = (
+  appointment: AppointmentWithNames
+): MedicalRecordWithNames | null =>
+  medicalRecordModel
+    .getMedicalRecordsByPatientId(appointment.patientId)
+    .filter(
+      (record) =>
+        String(record.doctorId) === String(appointment.doctorId) &&
+        dateOf(record.visitDate) === dateOf(appointment.startTime)
+    )
+    .sort(
+      (a, b) =>
+        Number(LOCKED_STATUSES.includes(b.status || "draft")) -
+        Number(LOCKED_STATUSES.includes(a.status || "draft"))
+    )[0] || null;
+
+/**
+ * Find the completed appointment a medical record was written for
+ * @private
+ */
+const findVisitAppointment = async (
+  record: MedicalRecordWithNames
+): Promise<AppointmentWithNames | null> =>
+  (await AppointmentModel.getAppointmentsByPatientId(record.patientId)).find(
+    (appointment) =>
+      appointment.status === "completed" &&
+      String(appointment.doctorId) === String(record.doctorId) &&
+      dateOf(appointment.startTime) === dateOf(record.visitDate)
+  ) || null;
+
+/**
+ * Check whether a medication name contains a fee schedule drug name as
+ * whole words
+ * @private
+ */
+const matchesMedication = (name: string, scheduled: string): boolean => {
+  const escaped = scheduled
+    .trim()
+    .toLowerCase()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(
+    name.toLowerCase()
+  );
+};
+
+/**
+ * Work out the charge master codes to bill for a visit: a visit charge by
+ * the record's visit type (or the appointment type without a record), each
+ * recorded procedure and each medication the fee schedule lists as given
+ * in the clinic
+ * @private
+ */
+const getVisitCodes = (
+  appointment: AppointmentWithNames | null,
+  record: MedicalRecordWithNames | null
+): string[] => {
+  const schedule = getFeeSchedule();
+  const codes: string[] = [];
+
+  const visitCode = record
+    ? schedule.visitTypes[record.visitType || "routine"]
+    : appointment && schedule.appointmentTypes[appointment.type];
+  if (visitCode) codes.push(visitCode);
+
+  for (const procedure of record?.treatment?.procedures || []) {
+    if (procedure.code) codes.push(procedure.code);
+  }
+
+  for (const medication of record?.treatment?.medications || []) {
+    const scheduled = schedule.medications.find(({ name }) =>
+      matchesMedication(medication.name, name)
+    );
+    if (scheduled) codes.push(scheduled.code);
+  }
+
+  return codes.map(normalizeChargeCode);
+};
+
+/**
+ * Draft and save the invoice for a visit. Codes the charge master cannot
+ * bill are left off and listed in the invoice notes for the reviewer.
+ * @private
+ */
+const generateInvoice = async (
+  appointment: AppointmentWithNames | null,
+  record: MedicalRecordWithNames | null
+): Promise<InvoiceWithItems | null> => {
+  // Without a catalog nothing can be priced
+  if (!(await chargeMasterService.hasCatalog())) return null;
+
+  const patientId = (record?.patientId ?? appointment?.patientId) as number;
+  const codes = getVisitCodes(appointment, record);
+  const billable = await chargeMasterService.getBillableItems(codes);
+  const quantities = new Map<string, number>();
+  const unbilled = new Set<string>();
+  for (const code of codes) {
+    if (billable.has(code)) {
+      quantities.set(code, (quantities.get(code) || 0) + 1);
+    } else {
+      unbilled.add(code);
+    }
+  }
+
+  if (quantities.size === 0) {
+    logger.warn(
+      `No billable charges for the visit of patient ${patientId}; no invoice generated`
+    );
+    return null;
+  }
+
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + getFeeSchedule().paymentTermsDays);
+
+  const sources = [
+    appointment && `appointment #${appointment.id}`,
+    record && `medical record #${record.id}`,
+  ].filter(Boolean);
+  let notes = `Generated from ${sources.join(" and ")}.`;
+  if (unbilled.size > 0) {
+    notes += ` Not billed (not active in the charge master): ${[
+      ...unbilled,
+    ].join(", ")}.`;
+  }
+
+  const draft: GeneratedInvoiceDraft = {
+    patientId,
+    appointmentId: appointment?.id ?? null,
+    medicalRecordId: record?.id ?? null,
+    items: [...quantities].map(([serviceCode, quantity]) => ({
+      serviceCode,
+      quantity,
+    })),
+    dueDate: dueDate.toISOString().split("T")[0],
+    notes,
+  };
+
+  return billingService.saveGeneratedInvoice(draft);
+};
+
+/**
+ * Draft an invoice for an appointment that has been completed, including
+ * what was recorded in the visit's medical record if there is one
+ * @returns The generated invoice, or null if none was generated
+ */
+export const generateForAppointment = async (
+  appointmentId: number
+): Promise<InvoiceWithItems | null> => {
+  try {
+    const appointment = await AppointmentModel.getAppointmentById(
+      appointmentId
+    );
+    if (!appointment) return null;
+
+    return await generateInvoice(appointment, findVisitRecord(appointment));
+  } catch (error) {
+    // A failed invoice must not undo completing the appointment
+    logger.error(
+      `Error generating invoice for appointment ${appointmentId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+/**
+ * Draft an invoice for a medical record that has been signed, linked to the
+ * visit's appointment if there is one
+ * @returns The generated invoice, or null if none was generated
+ */
+export const generateForMedicalRecord = async (
+  medicalRecordId: number
+): Promise<InvoiceWithItems | null> => {
+  try {
+    const record = medicalRecordModel.getMedicalRecordById(medicalRecordId);
+    if (!record) return null;
+
+    return await generateInvoice(await findVisitAppointment(record), record);
+  } catch (error) {
+    // A failed invoice must not undo signing the record
+    logger.error(
+      `Error generating invoice for medical record ${medicalRecordId}:`,
+      error
+    );
+    return null;
+  }
+};
+
+export default {
+  loadFeeSchedule,
+  generateForAppointment,
+  generateForMedicalRecord,
+};
@@ -0,0 +1,337 @@
+import LabResultModel from "../models/LabResult";
+import medicalRecordModel from "../models/MedicalRecord";
+import PatientModel from "../models/Patient";
+import notificationService from "./notificationService";
+import {
+  LabOrderInput,
+  LabResult,
+  LabResultInput,
+  LabTrend,
+  LabTrendPoint,
+  LabWorklistFilters,
+} from "../types/medicalRecord";
+import {
+  flagResult,
+  isOutsideRange,
+  parseNumericResult,
+} from "../utils/referenceRange";
+import { logger } from "../utils/logger";
+
+/**
+ * Get a lab result, checking that it exists
+ * @private
+ */
+const findLabResult = async (id: number): Promise<LabResult> => {
+  const labResult = await LabResultModel.findById(id);
+  if (!labResult) {
+    throw new Error("Lab result not found");
+  }
+
+  return labResult;
+};
+
+/**
+ * Key results of the same test together - by code when there is one,
+ * otherwise by name
+ * @private
+ */
+const testKey = (labResult: LabResult): string =>
+  labResult.testCode
+    ? labResult.testCode.trim().toUpperCase()
+    : labResult.testName.trim().toLowerCase();
+
+/**
+ * Convert a completed result to a point on its trend
+ * @private
+ */
+const toTrendPoint = (labResult: LabResult): LabTrendPoint => ({
+  id: labResult.id as number,
+  medicalRecordId: labResult.medicalRecordId,
+  result: labResult.result as string,
+  value: parseNumericResult(labResult.result),
+  unit: labResult.unit,
+  referenceRange: labResult.referenceRange,
+  flag: labResult.flag,
+  abnormal: labResult.abnormal,
+  critical: Boolean(labResult.critical),
+  performedAt: (labResult.performedAt || labResult.updatedAt) as string,
+});
+
+/**
+ * Compare the last two numeric values of a trend
+ * @private
+ */
+const trendDirection = (points: LabTrendPoint[]): LabTrend["direction"] => {
+  const values = points
+    .map((point) => point.value)
+    .filter((value): value is number => value !== null);
+  if (values.length < 2) return null;
+
+  const [previous, latest] = values.slice(-2);
+  if (latest > previous) return "rising";
+  if (latest < previous) return "falling";
+  return "stable";
+};
+
+/**
+ * Tell the clinician who ordered a lab that its result is in. Critical
+ * results are called out in the title so they stand out in the inbox.
+ * @private
+ */
+const notifyOrderingClinician = async (
+  labResult: LabResult,
+  corrected: boolean
+): Promise<void> => {
+  if (!labResult.orderedBy) return;
+
+  try {
+    const title = labResult.critical
+      ? "Critical lab result"
+      : corrected
+      ? "Lab result corrected"
+      : "Lab result ready";
+    const value = [labResult.result, labResult.unit].filter(Boolean).join(" ");
+    const flag =
+      labResult.flag && labResult.flag !== "normal"
+        ? ` (${labResult.flag.toUpperCase()})`
+        : "";
+
+    await notificationService.sendNotification(
+      labResult.orderedBy,
+      title,
+      `${labResult.testName} for patient #${labResult.patientId}: ${value}${flag}`,
+      "patient",
+      String(labResult.id),
+      `/medical-records/${labResult.medicalRecordId}`
+    );
+  } catch (error) {
+    // A failed notification must not undo the result entry
+    logger.error(
+      `Error notifying ordering clinician of lab result ${labResult.id}:`,
+      error
+    );
+  }
+};
+
+/**
+ * Get the labs ordered in a medical record
+ */
+export const getRecordLabs = async (
+  medicalRecordId: number
+): Promise<LabResult[]> => {
+  try {
+    return await LabResultModel.findByMedicalRecord(medicalRecordId);
+  } catch (error) {
+    logger.error(
+      `Error in labService.getRecordLabs for medical record ${medicalRecordId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve lab results");
+  }
+};
+
+/**
+ * Order lab tests in a medical record. Each test becomes a pending result
+ * on the lab worklist.
+ */
+export const orderLabs = async (
+  medicalRecordId: number,
+  tests: LabOrderInput[],
+  orderedBy: number
+): Promise<LabResult[]> => {
+  try {
+    const record = medicalRecordModel.getMedicalRecordById(medicalRecordId);
+    if (!record) {
+      throw new Error("Medical record not found");
+    }
+
+    if (tests.length === 0) {
+      throw new Error("At least one test is required");
+    }
+
+    const ordered = await LabResultModel.createOrders(
+      medicalRecordId,
+      record.patientId,
+      tests.map((test) => ({ ...test, testName: test.testName.trim() })),
+      orderedBy
+    );
+    if (ordered.length !== tests.length) {
+      throw new Error("Failed to order labs");
+    }
+
+    return ordered;
+  } catch (error) {
+    logger.error(
+      `Error in labService.orderLabs for medical record ${medicalRecordId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the lab worklist, pending orders by default
+ */
+export const getWorklist = async (
+  filters: LabWorklistFilters
+): Promise<LabResult[]> => {
+  try {
+    return await LabResultModel.find({
+      ...filters,
+      status: filters.status || "pending",
+    });
+  } catch (error) {
+    logger.error("Error in labService.getWorklist:", error);
+    throw new Error("Failed to retrieve lab worklist");
+  }
+};
+
+/**
+ * Get a single lab result
+ */
+export const getLabResult = async (id: number): Promise<LabResult> => {
+  try {
+    return await findLabResult(id);
+  } catch (error) {
+    logger.error(`Error in labService.getLabResult for lab ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Enter the result of a lab order. The result is flagged against the
+ * reference range and marked critical when it falls outside the critical
+ * range or the lab says so; the ordering clinician is then notified.
+ * Entering a result again corrects it.
+ */
+export const enterResult = async (
+  id: number,
+  data: LabResultInput,
+  resultedBy: number
+): Promise<LabResult> => {
+  try {
+    const existing = await findLabResult(id);
+    if (existing.status === "cancelled") {
+      throw new Error("Cancelled lab orders cannot be resulted");
+    }
+
+    const referenceRange =
+      data.referenceRange !== undefined
+        ? data.referenceRange
+        : existing.referenceRange;
+    const criticalRange =
+      data.criticalRange !== undefined
+        ? data.criticalRange
+        : existing.criticalRange;
+    const result = data.result.trim();
+    const flag = flagResult(result, referenceRange);
+    const critical =
+      Boolean(data.critical) || isOutsideRange(result, criticalRange);
+
+    const labResult = await LabResultModel.update(id, {
+      ...data,
+      result,
+      status: "completed",
+      flag,
+      abnormal: critical || (flag !== null && flag !== "normal"),
+      critical,
+      performedAt: data.performedAt || new Date().toISOString(),
+      resultedBy,
+    });
+    if (!labResult) {
+      throw new Error("Failed to enter lab result");
+    }
+
+    await notifyOrderingClinician(labResult, existing.status === "completed");
+
+    return labResult;
+  } catch (error) {
+    logger.error(`Error in labService.enterResult for lab ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a lab order that has not been resulted
+ */
+export const cancelOrder = async (
+  id: number,
+  notes?: string
+): Promise<LabResult> => {
+  try {
+    const existing = await findLabResult(id);
+    if (existing.status !== "pending") {
+      throw new Error("Only pending lab orders can be cancelled");
+    }
+
+    const labResult = await LabResultModel.update(id, {
+      status: "cancelled",
+      ...(notes !== undefined && { notes }),
+    });
+    if (!labResult) {
+      throw new Error("Failed to cancel lab order");
+    }
+
+    return labResult;
+  } catch (error) {
+    logger.error(`Error in labService.cancelOrder for lab ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Trend a patient's completed results per test, oldest first
+ * @param testCode Only trend this test
+ */
+export const getTrends = async (
+  patientId: number,
+  testCode?: string
+): Promise<LabTrend[]> => {
+  try {
+    if (!(await PatientModel.findById(patientId))) {
+      throw new Error("Patient not found");
+    }
+
+    const trends = new Map<string, LabTrend>();
+    for (const labResult of await LabResultModel.findCompletedByPatient(
+      patientId,
+      testCode
+    )) {
+      const key = testKey(labResult);
+      const trend = trends.get(key) || {
+        testCode: labResult.testCode?.trim().toUpperCase() || "",
+        testName: labResult.testName,
+        points: [],
+        latest: null,
+        direction: null,
+      };
+
+      // Name the trend after the most recent result
+      trend.testName = labResult.testName;
+      trend.points.push(toTrendPoint(labResult));
+      trends.set(key, trend);
+    }
+
+    return Array.from(trends.values()).map((trend) => ({
+      ...trend,
+      latest: trend.points[trend.points.length - 1],
+      direction: trendDirection(trend.points),
+    }));
+  } catch (error) {
+    logger.error(
+      `Error in labService.getTrends for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+export default {
+  getRecordLabs,
+  orderLabs,
+  getWorklist,
+  getLabResult,
+  enterResult,
+  cancelOrder,
+  getTrends,
+};
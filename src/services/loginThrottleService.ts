@@ -0,0 +1,239 @@
+import LoginThrottleModel from "../models/LoginThrottle";
+import UserModel from "../models/User";
+import notificationService from "./notificationService";
+import {
+  LoginThrottle,
+  LoginThrottleCheck,
+  LoginThrottleScope,
+} from "../types/auth";
+import { logger } from "../utils/logger";
+
+// Lockout policy (overridable through the environment)
+const MAX_ACCOUNT_FAILURES = Number(
+  process.env.LOGIN_MAX_ACCOUNT_FAILURES || 5
+);
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_IP_FAILURES || 20);
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+const FAILURE_WINDOW_MINUTES = Number(
+  process.env.LOGIN_FAILURE_WINDOW_MINUTES || 15
+);
+const BASE_DELAY_MS = Number(process.env.LOGIN_BASE_DELAY_MS || 250);
+const MAX_DELAY_MS = 5000;
+
+export const LOCKOUT_MESSAGE =
+  "Too many failed login attempts. Try again later.";
+
+/**
+ * Normalize the identifiers used as throttle keys. Accounts are keyed by the
+ * email exactly as submitted, matching how login looks the user up.
+ * @private
+ */
+const accountKey = (email: string): string => email.trim();
+const ipKey = (ipAddress?: string): string => ipAddress || "unknown";
+
+/**
+ * Get the number of failures that still count towards a lockout.
+ * Failures outside the window, or from before an expired lockout, are ignored.
+ * @private
+ */
+const activeFailures = (throttle: LoginThrottle | null): number => {
+  if (!throttle || !throttle.lastFailedAt) return 0;
+
+  const now = Date.now();
+  if (throttle.lockedUntil && new Date(throttle.lockedUntil).getTime() <= now) {
+    return 0;
+  }
+
+  const windowStart = now - FAILURE_WINDOW_MINUTES * 60 * 1000;
+  return new Date(throttle.lastFailedAt).getTime() >= windowStart
+    ? throttle.failedCount
+    : 0;
+};
+
+/**
+ * Get the seconds remaining on a lockout (0 if not locked)
+ * @private
+ */
+const lockSecondsRemaining = (throttle: LoginThrottle | null): number => {
+  if (!throttle || !throttle.lockedUntil) return 0;
+
+  const remaining = new Date(throttle.lockedUntil).getTime() - Date.now();
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+};
+
+/**
+ * Record a failure against one throttle key
+ * @returns The updated record and whether this failure caused a lockout
+ * @private
+ */
+const recordFailure = async (
+  scope: LoginThrottleScope,
+  identifier: string,
+  maxFailures: number
+): Promise<{ throttle: LoginThrottle | null; lockedNow: boolean }> => {
+  const current = await LoginThrottleModel.find(scope, identifier);
+
+  // Failures while already locked do not extend the lockout
+  if (lockSecondsRemaining(current) > 0) {
+    return { throttle: current, lockedNow: false };
+  }
+
+  const failedCount = activeFailures(current) + 1;
+  const lockedNow = failedCount >= maxFailures;
+  const lockedUntil = lockedNow
+    ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+    : null;
+
+  const throttle = await LoginThrottleModel.save(
+    scope,
+    identifier,
+    failedCount,
+    lockedUntil
+  );
+
+  return { throttle, lockedNow };
+};
+
+/**
+ * Tell the account owner their account was locked
+ * @private
+ */
+const notifyAccountLocked = async (email: string): Promise<void> => {
+  try {
+    const user = await UserModel.findOne({ email });
+    if (!user || !user.id) return;
+
+    await notificationService.sendNotification(
+      user.id,
+      "Account temporarily locked",
+      `Your account was locked for ${LOCKOUT_MINUTES} minutes after ${MAX_ACCOUNT_FAILURES} failed login attempts. If this wasn't you, contact an administrator.`,
+      "system"
+    );
+  } catch (error) {
+    // A failed notification must not change the login response
+    logger.error(`Error sending lockout notification for ${email}:`, error);
+  }
+};
+
+/**
+ * Check whether a login attempt for an account from an IP may proceed.
+ * Accounts and IPs with recent failures are slowed down progressively before
+ * this resolves.
+ * @param email Email the client is logging in as
+ * @param ipAddress Client IP address
+ */
+export const checkLoginAllowed = async (
+  email: string,
+  ipAddress?: string
+): Promise<LoginThrottleCheck> => {
+  try {
+    const account = await LoginThrottleModel.find("account", accountKey(email));
+    const ip = await LoginThrottleModel.find("ip", ipKey(ipAddress));
+
+    const retryAfterSeconds = Math.max(
+      lockSecondsRemaining(account),
+      lockSecondsRemaining(ip)
+    );
+    if (retryAfterSeconds > 0) {
+      return { allowed: false, retryAfterSeconds };
+    }
+
+    const failures = Math.max(activeFailures(account), activeFailures(ip));
+    if (failures > 0) {
+      const delayMs = Math.min(
+        BASE_DELAY_MS * 2 ** (failures - 1),
+        MAX_DELAY_MS
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    return { allowed: true, retryAfterSeconds: 0 };
+  } catch (error) {
+    logger.error(
+      `Error in loginThrottleService.checkLoginAllowed for ${email}:`,
+      error
+    );
+    throw new Error("Failed to check login attempts");
+  }
+};
+
+/**
+ * Record a failed login (bad password, unknown account or bad MFA code).
+ * Locks the account or IP once it reaches the failure limit.
+ * @param email Email the client tried to log in as
+ * @param ipAddress Client IP address
+ */
+export const recordFailedLogin = async (
+  email: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const account = await recordFailure(
+      "account",
+      accountKey(email),
+      MAX_ACCOUNT_FAILURES
+    );
+    const ip = await recordFailure("ip", ipKey(ipAddress), MAX_IP_FAILURES);
+
+    if (account.lockedNow) {
+      logger.warn(`Account ${accountKey(email)} locked after failed logins`);
+      await notifyAccountLocked(email);
+    }
+
+    if (ip.lockedNow) {
+      logger.warn(`IP ${ipKey(ipAddress)} locked after failed logins`);
+    }
+  } catch (error) {
+    logger.error(
+      `Error in loginThrottleService.recordFailedLogin for ${email}:`,
+      error
+    );
+  }
+};
+
+/**
+ * Clear an account's failure count after a successful login.
+ * IP counters are left to expire so one valid login cannot reset them.
+ * @param email Email the user logged in with
+ */
+export const recordSuccessfulLogin = async (email: string): Promise<void> => {
+  await LoginThrottleModel.reset("account", accountKey(email));
+};
+
+/**
+ * Lift a lockout on an account
+ * @param email Account email
+ * @returns true if the account had failures or a lockout recorded
+ */
+export const unlockAccount = async (email: string): Promise<boolean> => {
+  try {
+    return await LoginThrottleModel.reset("account", accountKey(email));
+  } catch (error) {
+    logger.error(
+      `Error in loginThrottleService.unlockAccount for ${email}:`,
+      error
+    );
+    throw new Error("Failed to unlock account");
+  }
+};
+
+/**
+ * Get when an account's lockout ends, or null if it is not locked
+ * @param email Account email
+ */
+export const getAccountLockedUntil = async (
+  email: string
+): Promise<string | null> => {
+  const account = await LoginThrottleModel.find("account", accountKey(email));
+  return account && lockSecondsRemaining(account) > 0
+    ? account.lockedUntil
+    : null;
+};
+
+export default {
+  checkLoginAllowed,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  unlockAccount,
+  getAccountLockedUntil,
+};
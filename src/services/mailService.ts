@@ -0,0 +1,60 @@
+import MailOutboxModel from "../models/MailOutbox";
+import { MailMessage, MailTransport } from "../types/mail";
+import { logger } from "../utils/logger";
+
+const MAIL_FROM = process.env.MAIL_FROM || "no-reply@hospital.local";
+
+/**
+ * Transport that records messages in the mail_outbox table instead of
+ * delivering them, so they can be inspected locally and in tests
+ */
+export const outboxTransport: MailTransport = {
+  name: "outbox",
+  send: async (message) => {
+    const stored = await MailOutboxModel.create({
+      toAddress: message.to,
+      fromAddress: message.from,
+      subject: message.subject,
+      textBody: message.text,
+      htmlBody: message.html || null,
+    });
+
+    if (!stored) {
+      throw new Error("Failed to store message in outbox");
+    }
+  },
+};
+
+let transport: MailTransport = outboxTransport;
+
+/**
+ * Replace the transport used to deliver mail (e.g. an SMTP implementation)
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Get the transport currently used to deliver mail
+ */
+export const getMailTransport = (): MailTransport => transport;
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  try {
+    await transport.send({ ...message, from: MAIL_FROM });
+    logger.info(`Mail "${message.subject}" sent via ${transport.name}`);
+  } catch (error) {
+    logger.error(`Error in mailService.sendMail via ${transport.name}:`, error);
+    throw new Error("Failed to send email");
+  }
+};
+
+export default {
+  outboxTransport,
+  setMailTransport,
+  getMailTransport,
+  sendMail,
+};
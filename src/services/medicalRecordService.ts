@@ -1,24 +1,88 @@
-import medicalRecordModel from "../models/MedicalRecord";
+import medicalRecordModel, { LOCKED_STATUSES } from "../models/MedicalRecord";
+import UserModel from "../models/User";
 import patientService from "./patientService";
 import staffService from "./staffService";
+import allergyService from "./allergyService";
+import labService from "./labService";
+import invoiceGenerationService from "./invoiceGenerationService";
 import {
   MedicalRecord,
+  MedicalRecordVersion,
   MedicalRecordWithNames,
   Attachment,
 } from "../models/MedicalRecord";
 import { logger } from "../utils/logger";
+import {
+  MedicalRecordListFilters,
+  MedicalRecordSearchFilters,
+} from "../types/medicalRecord";
+
+// Largest page of the medical record list returned by a single query
+const MAX_MEDICAL_RECORD_PAGE_SIZE = 100;
+const DEFAULT_MEDICAL_RECORD_PAGE_SIZE = 20;
+
+export const SIGNED_RECORD_LOCKED_MESSAGE =
+  "Signed medical records cannot be changed - record an amendment instead";
+
+export const NOT_RECORD_DOCTOR_MESSAGE =
+  "Only the doctor who wrote the medical record can sign it";
+
+/**
+ * Refuse direct changes to a signed or amended record
+ * @private
+ */
+const ensureUnlocked = (record: MedicalRecordWithNames): void => {
+  if (record.status && LOCKED_STATUSES.includes(record.status)) {
+    throw new Error(SIGNED_RECORD_LOCKED_MESSAGE);
+  }
+};
 
 /**
- * Get all medical records
+ * List medical records one page at a time, newest first, optionally for one
+ * doctor. Only records within the chart scope are read.
  */
-export const getAllMedicalRecords = async (): Promise<
-  MedicalRecordWithNames[]
-> => {
+export const listMedicalRecords = async (
+  filters: MedicalRecordListFilters
+): Promise<{
+  records: MedicalRecordWithNames[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}> => {
   try {
-    return medicalRecordModel.getAllMedicalRecords();
+    if (filters.doctorId) {
+      const doctor = await staffService.getStaffById(filters.doctorId);
+      if (!doctor || doctor.role !== "doctor") {
+        throw new Error("Doctor not found");
+      }
+    }
+
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(
+      Math.max(filters.limit || DEFAULT_MEDICAL_RECORD_PAGE_SIZE, 1),
+      MAX_MEDICAL_RECORD_PAGE_SIZE
+    );
+    const total = medicalRecordModel.countMedicalRecords(filters);
+
+    return {
+      records: medicalRecordModel.getMedicalRecordsPage({
+        ...filters,
+        page,
+        limit,
+      }),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
   } catch (error) {
-    logger.error("Error in medicalRecordService.getAllMedicalRecords:", error);
-    throw new Error("Failed to retrieve medical records");
+    logger.error("Error in medicalRecordService.listMedicalRecords:", error);
+    throw error;
   }
 };
 
@@ -29,7 +93,16 @@ export const getMedicalRecordById = async (
   id: number
 ): Promise<MedicalRecordWithNames | null> => {
   try {
-    return medicalRecordModel.getMedicalRecordById(id);
+    const record = medicalRecordModel.getMedicalRecordById(id);
+    if (!record) return null;
+
+    return {
+      ...record,
+      activeAllergies: await allergyService.getActiveAllergies(
+        record.patientId
+      ),
+      labResults: await labService.getRecordLabs(id),
+    };
   } catch (error) {
     logger.error(
       `Error in medicalRecordService.getMedicalRecordById for ID ${id}:`,
@@ -52,7 +125,10 @@ export const getMedicalRecordsByPatientId = async (
       throw new Error("Patient not found");
     }
 
-    return medicalRecordModel.getMedicalRecordsByPatientId(patientId);
+    const activeAllergies = await allergyService.getActiveAllergies(patientId);
+    return medicalRecordModel
+      .getMedicalRecordsByPatientId(patientId)
+      .map((record) => ({ ...record, activeAllergies }));
   } catch (error) {
     logger.error(
       `Error in medicalRecordService.getMedicalRecordsByPatientId for patient ${patientId}:`,
@@ -62,29 +138,6 @@ export const getMedicalRecordsByPatientId = async (
   }
 };
 
-/**
- * Get all medical records created by a doctor
- */
-export const getMedicalRecordsByDoctorId = async (
-  doctorId: number
-): Promise<MedicalRecordWithNames[]> => {
-  try {
-    // Verify doctor exists - convert doctorId to string for staffService
-    const doctor = await staffService.getStaffById(String(doctorId));
-    if (!doctor || doctor.role !== "doctor") {
-      throw new Error("Doctor not found");
-    }
-
-    return medicalRecordModel.getMedicalRecordsByDoctorId(doctorId);
-  } catch (error) {
-    logger.error(
-      `Error in medicalRecordService.getMedicalRecordsByDoctorId for doctor ${doctorId}:`,
-      error
-    );
-    throw error;
-  }
-};
-
 /**
  * Create a new medical record
  */
@@ -124,6 +177,7 @@ export const updateMedicalRecord = async (
     if (!record) {
       throw new Error("Medical record not found");
     }
+    ensureUnlocked(record);
 
     // Verify patient exists if being updated
     if (recordData.patientId) {
@@ -163,6 +217,7 @@ export const deleteMedicalRecord = async (id: number): Promise<boolean> => {
     if (!record) {
       throw new Error("Medical record not found");
     }
+    ensureUnlocked(record);
 
     return medicalRecordModel.deleteMedicalRecord(id);
   } catch (error) {
@@ -187,6 +242,7 @@ export const addAttachment = async (
     if (!record) {
       throw new Error("Medical record not found");
     }
+    ensureUnlocked(record);
 
     return medicalRecordModel.addAttachment(medicalRecordId, attachment);
   } catch (error) {
@@ -199,13 +255,14 @@ export const addAttachment = async (
 };
 
 /**
- * Search medical records
+ * Search the most recent medical records within the filters
  */
 export const searchMedicalRecords = async (
-  query: string
+  query: string,
+  filters: MedicalRecordSearchFilters = {}
 ): Promise<MedicalRecordWithNames[]> => {
   try {
-    return medicalRecordModel.searchMedicalRecords(query);
+    return medicalRecordModel.searchMedicalRecords(query, filters);
   } catch (error) {
     logger.error(
       `Error in medicalRecordService.searchMedicalRecords with query "${query}":`,
@@ -215,14 +272,122 @@ export const searchMedicalRecords = async (
   }
 };
 
+/**
+ * Sign a medical record. Only the doctor the record belongs to can sign it;
+ * the signed content is kept as the record's first version and the record
+ * can only change through amendments afterwards.
+ */
+export const signMedicalRecord = async (
+  id: number,
+  userId: number
+): Promise<MedicalRecordWithNames> => {
+  try {
+    const record = medicalRecordModel.getMedicalRecordById(id);
+    if (!record) {
+      throw new Error("Medical record not found");
+    }
+
+    if (record.status && LOCKED_STATUSES.includes(record.status)) {
+      throw new Error("Medical record is already signed");
+    }
+
+    const user = await UserModel.findById(userId);
+    if (!user?.staffId || user.staffId !== String(record.doctorId)) {
+      throw new Error(NOT_RECORD_DOCTOR_MESSAGE);
+    }
+
+    const signed = medicalRecordModel.signMedicalRecord(id, userId);
+    if (!signed) {
+      throw new Error("Failed to sign medical record");
+    }
+
+    // Draft the visit's invoice for billing staff to review
+    await invoiceGenerationService.generateForMedicalRecord(id);
+
+    return signed;
+  } catch (error) {
+    logger.error(
+      `Error in medicalRecordService.signMedicalRecord for ID ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Amend a signed medical record. The signed original and earlier amendments
+ * are kept unchanged; the amended content is recorded as a new version with
+ * its author and reason.
+ */
+export const amendMedicalRecord = async (
+  id: number,
+  recordData: Partial<Omit<MedicalRecord, "id" | "createdAt" | "updatedAt">>,
+  reason: string,
+  userId: number
+): Promise<MedicalRecordWithNames> => {
+  try {
+    const record = medicalRecordModel.getMedicalRecordById(id);
+    if (!record) {
+      throw new Error("Medical record not found");
+    }
+
+    if (!record.status || !LOCKED_STATUSES.includes(record.status)) {
+      throw new Error(
+        "Only signed medical records can be amended - edit the draft instead"
+      );
+    }
+
+    const amended = medicalRecordModel.amendMedicalRecord(
+      id,
+      recordData,
+      reason.trim(),
+      userId
+    );
+    if (!amended) {
+      throw new Error("Failed to amend medical record");
+    }
+
+    return amended;
+  } catch (error) {
+    logger.error(
+      `Error in medicalRecordService.amendMedicalRecord for ID ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the signed original and amended versions of a medical record
+ */
+export const getMedicalRecordVersions = async (
+  id: number
+): Promise<MedicalRecordVersion[]> => {
+  try {
+    if (!medicalRecordModel.getMedicalRecordById(id)) {
+      throw new Error("Medical record not found");
+    }
+
+    return medicalRecordModel.getMedicalRecordVersions(id);
+  } catch (error) {
+    logger.error(
+      `Error in medicalRecordService.getMedicalRecordVersions for ID ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
 export default {
-  getAllMedicalRecords,
+  listMedicalRecords,
   getMedicalRecordById,
   getMedicalRecordsByPatientId,
-  getMedicalRecordsByDoctorId,
   createMedicalRecord,
   updateMedicalRecord,
   deleteMedicalRecord,
   addAttachment,
   searchMedicalRecords,
+  signMedicalRecord,
+  amendMedicalRecord,
+  getMedicalRecordVersions,
 };
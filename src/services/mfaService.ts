@@ -0,0 +1,319 @@
+import crypto from "crypto";
+import UserMfaModel from "../models/UserMfa";
+import MfaPolicyModel from "../models/MfaPolicy";
+import {
+  MfaEnrolment,
+  MfaStatus,
+  MfaVerificationRequest,
+  UserRole,
+} from "../types/auth";
+import { logger } from "../utils/logger";
+import { hashToken } from "../utils/tokenUtils";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp";
+
+// Issuer label shown next to the account in authenticator apps
+const MFA_ISSUER = process.env.MFA_ISSUER || "Hospital Management System";
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Normalize a recovery code so formatting differences do not matter
+ * @private
+ */
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, "");
+};
+
+/**
+ * Generate a fresh set of recovery codes and store their hashes
+ * @returns The plain recovery codes (only ever shown once)
+ * @private
+ */
+const issueRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const stored = await UserMfaModel.replaceRecoveryCodes(
+    userId,
+    codes.map((code) => hashToken(normalizeRecoveryCode(code)))
+  );
+  if (!stored) {
+    throw new Error("Failed to generate recovery codes");
+  }
+
+  return codes;
+};
+
+/**
+ * Check whether MFA is mandatory for a role
+ */
+export const isMfaRequired = async (role: string): Promise<boolean> => {
+  return MfaPolicyModel.isRequiredForRole(role);
+};
+
+/**
+ * Check whether a user has completed MFA enrolment
+ */
+export const isMfaEnabled = async (userId: number): Promise<boolean> => {
+  const mfa = await UserMfaModel.findByUserId(userId);
+  return !!mfa?.enabledAt;
+};
+
+/**
+ * Get a user's MFA status
+ */
+export const getStatus = async (
+  userId: number,
+  role: string
+): Promise<MfaStatus> => {
+  try {
+    return {
+      enabled: await isMfaEnabled(userId),
+      required: await isMfaRequired(role),
+      recoveryCodesRemaining: await UserMfaModel.countUnusedRecoveryCodes(
+        userId
+      ),
+    };
+  } catch (error) {
+    logger.error(`Error in mfaService.getStatus for user ${userId}:`, error);
+    throw new Error("Failed to retrieve MFA status");
+  }
+};
+
+/**
+ * Start TOTP enrolment by generating a new secret.
+ * MFA is not enabled until a code from the secret is confirmed.
+ * @param userId User enrolling
+ * @param accountName Label shown in the authenticator app
+ */
+export const beginEnrolment = async (
+  userId: number,
+  accountName: string
+): Promise<MfaEnrolment> => {
+  try {
+    if (await isMfaEnabled(userId)) {
+      throw new Error("MFA is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    const saved = await UserMfaModel.savePendingSecret(userId, secret);
+    if (!saved) {
+      throw new Error("Failed to start MFA enrolment");
+    }
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, accountName, MFA_ISSUER),
+    };
+  } catch (error) {
+    logger.error(
+      `Error in mfaService.beginEnrolment for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Finish enrolment by verifying a code from the pending secret
+ * @returns The user's recovery codes
+ */
+export const confirmEnrolment = async (
+  userId: number,
+  code: string
+): Promise<string[]> => {
+  try {
+    const mfa = await UserMfaModel.findByUserId(userId);
+    if (!mfa) {
+      throw new Error("MFA enrolment has not been started");
+    }
+    if (mfa.enabledAt) {
+      throw new Error("MFA is already enabled");
+    }
+
+    const step = verifyTotp(mfa.secret, code);
+    if (step === null) {
+      throw new Error("Invalid verification code");
+    }
+
+    const enabled = await UserMfaModel.enable(userId, step);
+    if (!enabled) {
+      throw new Error("Failed to enable MFA");
+    }
+
+    logger.info(`MFA enabled for user ${userId}`);
+    return await issueRecoveryCodes(userId);
+  } catch (error) {
+    logger.error(
+      `Error in mfaService.confirmEnrolment for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Verify a TOTP code or a recovery code for a user with MFA enabled.
+ * Each TOTP code and recovery code is accepted only once.
+ */
+export const verifySecondFactor = async (
+  userId: number,
+  { code, recoveryCode }: MfaVerificationRequest
+): Promise<boolean> => {
+  try {
+    const mfa = await UserMfaModel.findByUserId(userId);
+    if (!mfa || !mfa.enabledAt) {
+      return false;
+    }
+
+    if (code) {
+      const step = verifyTotp(mfa.secret, code);
+      return step !== null && (await UserMfaModel.markStepUsed(userId, step));
+    }
+
+    if (recoveryCode) {
+      const used = await UserMfaModel.consumeRecoveryCode(
+        userId,
+        hashToken(normalizeRecoveryCode(recoveryCode))
+      );
+      if (used) {
+        logger.info(`Recovery code used by user ${userId}`);
+      }
+      return used;
+    }
+
+    return false;
+  } catch (error) {
+    logger.error(
+      `Error in mfaService.verifySecondFactor for user ${userId}:`,
+      error
+    );
+    return false;
+  }
+};
+
+/**
+ * Turn off MFA for a user after verifying their second factor.
+ * Not allowed when MFA is mandatory for the user's role.
+ */
+export const disableMfa = async (
+  userId: number,
+  role: string,
+  factor: MfaVerificationRequest
+): Promise<boolean> => {
+  try {
+    if (await isMfaRequired(role)) {
+      throw new Error("MFA is required for your role");
+    }
+
+    if (!(await isMfaEnabled(userId))) {
+      throw new Error("MFA is not enabled");
+    }
+
+    if (!(await verifySecondFactor(userId, factor))) {
+      throw new Error("Invalid verification code");
+    }
+
+    logger.info(`MFA disabled for user ${userId}`);
+    return await UserMfaModel.remove(userId);
+  } catch (error) {
+    logger.error(`Error in mfaService.disableMfa for user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Replace a user's recovery codes after verifying their second factor
+ * @returns The new recovery codes
+ */
+export const regenerateRecoveryCodes = async (
+  userId: number,
+  factor: MfaVerificationRequest
+): Promise<string[]> => {
+  try {
+    if (!(await isMfaEnabled(userId))) {
+      throw new Error("MFA is not enabled");
+    }
+
+    if (!(await verifySecondFactor(userId, factor))) {
+      throw new Error("Invalid verification code");
+    }
+
+    return await issueRecoveryCodes(userId);
+  } catch (error) {
+    logger.error(
+      `Error in mfaService.regenerateRecoveryCodes for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Remove a user's MFA enrolment (admin recovery for a lost device).
+ * If MFA is mandatory for their role they must enrol again at next login.
+ */
+export const resetMfa = async (userId: number): Promise<boolean> => {
+  try {
+    const removed = await UserMfaModel.remove(userId);
+    if (removed) {
+      logger.info(`MFA reset for user ${userId}`);
+    }
+    return removed;
+  } catch (error) {
+    logger.error(`Error in mfaService.resetMfa for user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get the roles for which MFA is mandatory
+ */
+export const getPolicy = async (): Promise<{ requiredRoles: string[] }> => {
+  return { requiredRoles: await MfaPolicyModel.findRequiredRoles() };
+};
+
+/**
+ * Set the roles for which MFA is mandatory
+ */
+export const setPolicy = async (
+  roles: string[],
+  updatedBy: number
+): Promise<{ requiredRoles: string[] }> => {
+  try {
+    const invalid = roles.filter(
+      (role) => !(Object.values(UserRole) as string[]).includes(role)
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Invalid roles: ${invalid.join(", ")}`);
+    }
+
+    const updated = await MfaPolicyModel.setRequiredRoles(
+      Array.from(new Set(roles)),
+      updatedBy
+    );
+    if (!updated) {
+      throw new Error("Failed to update MFA policy");
+    }
+
+    return await getPolicy();
+  } catch (error) {
+    logger.error("Error in mfaService.setPolicy:", error);
+    throw error;
+  }
+};
+
+export default {
+  isMfaRequired,
+  isMfaEnabled,
+  getStatus,
+  beginEnrolment,
+  confirmEnrolment,
+  verifySecondFactor,
+  disableMfa,
+  regenerateRecoveryCodes,
+  resetMfa,
+  getPolicy,
+  setPolicy,
+};
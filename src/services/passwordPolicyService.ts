@@ -0,0 +1,281 @@
+import fs from "fs";
+import path from "path";
+import bcryptjs from "bcryptjs";
+import UserModel from "../models/User";
+import PasswordHistoryModel from "../models/PasswordHistory";
+import { PasswordPolicy, User } from "../types/auth";
+import { logger } from "../utils/logger";
+
+// Password policy (overridable through the environment)
+const POLICY: PasswordPolicy = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH || 10),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== "false",
+  requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== "false",
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL !== "false",
+  historySize: Number(process.env.PASSWORD_HISTORY_SIZE || 5),
+  maxAgeDays: Number(process.env.PASSWORD_MAX_AGE_DAYS || 0),
+};
+const MAX_LENGTH = 128;
+// Override for the bundled denylist, resolved against the working directory
+// like other paths given on the command line
+const DENYLIST_PATH = process.env.PASSWORD_DENYLIST_PATH
+  ? path.resolve(process.env.PASSWORD_DENYLIST_PATH)
+  : path.join(__dirname, "../config/password-denylist.txt");
+
+export const PASSWORD_POLICY_MESSAGE =
+  "Password does not meet the password policy";
+
+// Lowercased breached passwords, loaded at startup
+let denylist: Set<string> | null = null;
+
+/**
+ * Load the breached-password denylist (one password per line, # comments)
+ * from PASSWORD_DENYLIST_PATH, or the copy bundled with the build. Throws if
+ * the file cannot be read or lists no passwords, so the server refuses to
+ * start instead of accepting breached passwords.
+ */
+export const loadDenylist = (): Set<string> => {
+  let contents: string;
+
+  try {
+    contents = fs.readFileSync(DENYLIST_PATH, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Password denylist could not be read from ${DENYLIST_PATH}`
+    );
+  }
+
+  const loaded = new Set(
+    contents
+      .split(/\r?\n/)
+      .map((line) => line.trim().toLowerCase())
+      .filter((line) => line && !line.startsWith("#"))
+  );
+  if (loaded.size === 0) {
+    throw new Error(`Password denylist in ${DENYLIST_PATH} lists no passwords`);
+  }
+
+  denylist = loaded;
+  logger.info(`Loaded ${denylist.size} breached passwords`);
+
+  return denylist;
+};
+
+/**
+ * Get the loaded denylist, loading it on first use when the server did not.
+ * Never falls back to an empty one.
+ * @private
+ */
+const getDenylist = (): Set<string> => denylist || loadDenylist();
+
+/**
+ * Get the active password policy
+ */
+export const getPasswordPolicy = (): PasswordPolicy => ({ ...POLICY });
+
+/**
+ * Check a password against the policy
+ * @param password Candidate password
+ * @param context Account details the password must not contain
+ * @returns A message for each rule the password breaks (empty if valid)
+ */
+export const validatePassword = (
+  password: string,
+  context: Partial<Pick<User, "email" | "username">> = {}
+): string[] => {
+  const errors: string[] = [];
+
+  if (typeof password !== "string" || password.length < POLICY.minLength) {
+    errors.push(
+      `Password must be at least ${POLICY.minLength} characters long`
+    );
+    if (typeof password !== "string") return errors;
+  }
+  if (password.length > MAX_LENGTH) {
+    errors.push(`Password must be at most ${MAX_LENGTH} characters long`);
+  }
+  if (POLICY.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (POLICY.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (POLICY.requireDigit && !/\d/.test(password)) {
+    errors.push("Password must contain a number");
+  }
+  if (POLICY.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+
+  const lowered = password.toLowerCase();
+  if (getDenylist().has(lowered)) {
+    errors.push("Password is too common and has appeared in data breaches");
+  }
+
+  const identifiers = [context.email?.split("@")[0], context.username]
+    .filter((value): value is string => !!value && value.length >= 3)
+    .map((value) => value.toLowerCase());
+  if (identifiers.some((value) => lowered.includes(value))) {
+    errors.push("Password must not contain your username or email");
+  }
+
+  return errors;
+};
+
+/**
+ * Throw if a password breaks the policy. The message starts with
+ * PASSWORD_POLICY_MESSAGE followed by the broken rules.
+ * @param password Candidate password
+ * @param context Account details the password must not contain
+ */
+export const ensurePasswordMeetsPolicy = (
+  password: string,
+  context: Partial<Pick<User, "email" | "username">> = {}
+): void => {
+  const errors = validatePassword(password, context);
+  if (errors.length > 0) {
+    throw new Error(`${PASSWORD_POLICY_MESSAGE}: ${errors.join(". ")}`);
+  }
+};
+
+/**
+ * Check whether an error was raised for a password that breaks the policy
+ * @param error Caught error
+ */
+export const isPasswordPolicyError = (error: unknown): error is Error =>
+  error instanceof Error && error.message.startsWith(PASSWORD_POLICY_MESSAGE);
+
+/**
+ * Check whether a password matches the user's current password or one of
+ * their recent previous passwords
+ * @private
+ */
+const isRecentlyUsed = async (
+  user: User,
+  password: string
+): Promise<boolean> => {
+  if (POLICY.historySize <= 0) return false;
+
+  const history = await PasswordHistoryModel.findRecent(
+    user.id as number,
+    POLICY.historySize
+  );
+  const hashes = [user.password, ...history.map((entry) => entry.passwordHash)];
+
+  for (const hash of hashes) {
+    if (await bcryptjs.compare(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Record a newly set password hash and drop entries beyond the history size
+ * @param userId User ID
+ * @param passwordHash Hash of the new password
+ */
+export const recordPassword = async (
+  userId: number,
+  passwordHash: string
+): Promise<void> => {
+  await PasswordHistoryModel.add(userId, passwordHash);
+  await PasswordHistoryModel.prune(userId, Math.max(POLICY.historySize, 1));
+};
+
+/**
+ * Validate and set a new password for a user, enforcing the policy and
+ * password history. Clears any reset requirement on the account.
+ * @param user User whose password is changing
+ * @param newPassword New plain-text password
+ * @param options.temporary Expire the password immediately so the user must
+ * change it on next login (used when an administrator sets it)
+ */
+export const setPassword = async (
+  user: User,
+  newPassword: string,
+  options: { temporary?: boolean } = {}
+): Promise<User> => {
+  if (!user.id) {
+    throw new Error("User ID is missing");
+  }
+
+  ensurePasswordMeetsPolicy(newPassword, user);
+
+  if (await isRecentlyUsed(user, newPassword)) {
+    throw new Error(
+      `${PASSWORD_POLICY_MESSAGE}: Password must not match any of your last ${POLICY.historySize} passwords`
+    );
+  }
+
+  try {
+    const hashedPassword = await bcryptjs.hash(newPassword, 10);
+
+    const updated = await UserModel.update(user.id, {
+      password: hashedPassword,
+      passwordResetRequired: false,
+      passwordExpiresAt: options.temporary ? new Date().toISOString() : null,
+    });
+
+    if (!updated) {
+      throw new Error("Failed to update password");
+    }
+
+    await recordPassword(user.id, hashedPassword);
+
+    return updated;
+  } catch (error) {
+    logger.error(
+      `Error in passwordPolicyService.setPassword for user ${user.id}:`,
+      error
+    );
+    throw new Error("Failed to update password");
+  }
+};
+
+/**
+ * Get when a user's password expires, or null if it never does.
+ * An explicit expiry (temporary passwords) wins over the maximum age.
+ * @param user User to check
+ */
+export const getPasswordExpiry = (
+  user: Pick<User, "passwordExpiresAt" | "passwordChangedAt" | "createdAt">
+): Date | null => {
+  if (user.passwordExpiresAt) {
+    return new Date(user.passwordExpiresAt);
+  }
+
+  if (POLICY.maxAgeDays <= 0) return null;
+
+  const changedAt = user.passwordChangedAt || user.createdAt;
+  if (!changedAt) return null;
+
+  return new Date(
+    new Date(changedAt).getTime() + POLICY.maxAgeDays * 24 * 60 * 60 * 1000
+  );
+};
+
+/**
+ * Check whether a user must change their password before logging in
+ * @param user User to check
+ */
+export const isPasswordExpired = (
+  user: Pick<User, "passwordExpiresAt" | "passwordChangedAt" | "createdAt">
+): boolean => {
+  const expiry = getPasswordExpiry(user);
+  return !!expiry && expiry.getTime() <= Date.now();
+};
+
+export default {
+  loadDenylist,
+  getPasswordPolicy,
+  validatePassword,
+  ensurePasswordMeetsPolicy,
+  isPasswordPolicyError,
+  recordPassword,
+  setPassword,
+  getPasswordExpiry,
+  isPasswordExpired,
+};
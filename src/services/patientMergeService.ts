@@ -0,0 +1,260 @@
+import PatientModel from "../models/Patient";
+import PatientMergeModel from "../models/PatientMerge";
+import UserModel from "../models/User";
+import {
+  CreatePatientRequest,
+  DuplicateCandidate,
+  DuplicateMatchField,
+  Patient,
+  PatientMerge,
+} from "../types/patient";
+import {
+  normalizeEmail,
+  normalizeIdentifier,
+  normalizePhone,
+} from "../utils/fieldEncryption";
+import { normalizeName, similarity } from "../utils/stringSimilarity";
+import { logger } from "../utils/logger";
+
+// Points each matching detail adds to a candidate's score (capped at 100)
+const MATCH_WEIGHTS: Record<DuplicateMatchField, number> = {
+  name: 35,
+  dateOfBirth: 30,
+  contactNumber: 25,
+  email: 25,
+  insurancePolicyNumber: 40,
+};
+
+// Names at least this similar count as a match
+const NAME_SIMILARITY_THRESHOLD = 0.75;
+
+// Candidates scoring below this are not reported (overridable through the
+// environment). A matching name alone never reaches the default.
+const DUPLICATE_SCORE_THRESHOLD = Number(
+  process.env.DUPLICATE_SCORE_THRESHOLD || 50
+);
+
+type PatientDetails = Partial<
+  Pick<
+    CreatePatientRequest,
+    | "firstName"
+    | "lastName"
+    | "dateOfBirth"
+    | "contactNumber"
+    | "email"
+    | "insurancePolicyNumber"
+  >
+>;
+
+/**
+ * Check whether two values are equal once normalized, ignoring empty values
+ * @private
+ */
+const sameValue = (
+  a: string | undefined,
+  b: string | undefined,
+  normalize: (value: string) => string
+): boolean => {
+  const left = a ? normalize(a) : "";
+  return left !== "" && left === (b ? normalize(b) : "");
+};
+
+/**
+ * Check whether two names are similar, in either first/last order
+ * @private
+ */
+const similarNames = (details: PatientDetails, patient: Patient): boolean => {
+  const name = normalizeName(`${details.firstName} ${details.lastName}`);
+  const candidate = normalizeName(`${patient.firstName} ${patient.lastName}`);
+  const swapped = normalizeName(`${patient.lastName} ${patient.firstName}`);
+
+  return (
+    Math.max(similarity(name, candidate), similarity(name, swapped)) >=
+    NAME_SIMILARITY_THRESHOLD
+  );
+};
+
+/**
+ * Find existing patients that may be the same person as the given details,
+ * best match first
+ * @param excludeId Patient to leave out, when checking an existing chart
+ */
+export const findDuplicates = async (
+  details: PatientDetails,
+  excludeId?: number
+): Promise<DuplicateCandidate[]> => {
+  try {
+    const patients = await PatientModel.findByIdentifiers(details);
+
+    return patients
+      .filter((patient) => patient.id !== excludeId)
+      .map((patient) => {
+        const matchedOn: DuplicateMatchField[] = [];
+
+        if (similarNames(details, patient)) matchedOn.push("name");
+        if (details.dateOfBirth && details.dateOfBirth === patient.dateOfBirth)
+          matchedOn.push("dateOfBirth");
+        if (
+          sameValue(
+            details.contactNumber,
+            patient.contactNumber,
+            normalizePhone
+          )
+        )
+          matchedOn.push("contactNumber");
+        if (sameValue(details.email, patient.email, normalizeEmail))
+          matchedOn.push("email");
+        if (
+          sameValue(
+            details.insurancePolicyNumber,
+            patient.insurancePolicyNumber,
+            normalizeIdentifier
+          )
+        )
+          matchedOn.push("insurancePolicyNumber");
+
+        const score = Math.min(
+          matchedOn.reduce((total, field) => total + MATCH_WEIGHTS[field], 0),
+          100
+        );
+
+        return { patient, score, matchedOn };
+      })
+      .filter((candidate) => candidate.score >= DUPLICATE_SCORE_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+  } catch (error) {
+    logger.error("Error in patientMergeService.findDuplicates:", error);
+    throw new Error("Failed to check for duplicate patients");
+  }
+};
+
+/**
+ * Find existing patients that may be duplicates of a patient
+ */
+export const findDuplicatesOf = async (
+  patientId: number
+): Promise<DuplicateCandidate[]> => {
+  const patient = await PatientModel.findById(patientId);
+  if (!patient) {
+    throw new Error("Patient not found");
+  }
+
+  return findDuplicates(patient, patientId);
+};
+
+/**
+ * Merge a duplicate chart into a surviving one. The duplicate's
+ * appointments, medical records, invoices, allergies and problems move to
+ * the survivor, and so do its portal notifications - or its portal account
+ * when the survivor has none. The duplicate is then soft-deleted.
+ */
+export const mergePatients = async (
+  survivorId: number,
+  duplicateId: number,
+  mergedBy: number
+): Promise<PatientMerge> => {
+  try {
+    if (survivorId === duplicateId) {
+      throw new Error("A patient cannot be merged into itself");
+    }
+
+    if (!(await PatientModel.findById(survivorId))) {
+      throw new Error("Patient not found");
+    }
+
+    if (!(await PatientModel.findById(duplicateId))) {
+      throw new Error("Duplicate patient not found");
+    }
+
+    const [survivorAccount] = await UserModel.findByFilters({
+      patientId: survivorId,
+    });
+    const [duplicateAccount] = await UserModel.findByFilters({
+      patientId: duplicateId,
+    });
+
+    // Both charts have portal accounts: the duplicate's notifications move
+    // to the survivor's account. Only the duplicate has one: the account
+    // itself moves to the survivor.
+    const bothLinked = !!(duplicateAccount?.id && survivorAccount?.id);
+    const merged = PatientMergeModel.merge(survivorId, duplicateId, mergedBy, {
+      notificationRecipientId: bothLinked ? duplicateAccount.id ?? null : null,
+      notificationTargetId: bothLinked ? survivorAccount.id ?? null : null,
+      portalUserId:
+        duplicateAccount?.id && !survivorAccount ? duplicateAccount.id : null,
+    });
+
+    if (!merged) {
+      throw new Error("Failed to merge patients");
+    }
+
+    return merged;
+  } catch (error) {
+    logger.error(
+      `Error in patientMergeService.mergePatients for ${duplicateId} into ${survivorId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Undo a merge into a patient, moving the rows it moved back to the
+ * duplicate and restoring the duplicate
+ */
+export const undoMerge = async (
+  survivorId: number,
+  mergeId: number,
+  undoneBy: number
+): Promise<PatientMerge> => {
+  try {
+    const merge = PatientMergeModel.findById(mergeId);
+    if (!merge || merge.survivorId !== survivorId) {
+      throw new Error("Merge not found");
+    }
+
+    if (merge.undoneAt) {
+      throw new Error("Merge has already been undone");
+    }
+
+    // A survivor merged away later must be restored before this merge
+    if (!(await PatientModel.findById(survivorId))) {
+      throw new Error(
+        "Surviving patient has since been deleted or merged; restore it first"
+      );
+    }
+
+    if (!PatientMergeModel.undo(merge, undoneBy)) {
+      throw new Error("Failed to undo merge");
+    }
+
+    return PatientMergeModel.findById(mergeId) as PatientMerge;
+  } catch (error) {
+    logger.error(
+      `Error in patientMergeService.undoMerge for merge ${mergeId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the merges a patient took part in, as survivor or duplicate
+ */
+export const getMergeHistory = async (
+  patientId: number
+): Promise<PatientMerge[]> => {
+  if (!(await PatientModel.findById(patientId, true))) {
+    throw new Error("Patient not found");
+  }
+
+  return PatientMergeModel.findByPatient(patientId);
+};
+
+export default {
+  findDuplicates,
+  findDuplicatesOf,
+  mergePatients,
+  undoMerge,
+  getMergeHistory,
+};
@@ -1,18 +1,33 @@
 import PatientModel from "../models/Patient";
+import PatientTimelineModel from "../models/PatientTimeline";
+import allergyService from "./allergyService";
 import {
   CreatePatientRequest,
   UpdatePatientRequest,
   Patient,
   PatientWithMetadata,
+  PatientFilterOptions,
+  TimelineEntry,
+  TimelineFilters,
 } from "../types/patient";
 import { logger } from "../utils/logger";
 
+// Largest page of the patient list returned by a single query
+const MAX_PATIENT_PAGE_SIZE = 100;
+const DEFAULT_PATIENT_PAGE_SIZE = 20;
+
+// Largest page of timeline entries returned by a single query
+const MAX_TIMELINE_PAGE_SIZE = 100;
+const DEFAULT_TIMELINE_PAGE_SIZE = 20;
+
 /**
- * Get all patients
+ * Get all patients, optionally including soft-deleted ones
  */
-export const getAllPatients = async (): Promise<Patient[]> => {
+export const getAllPatients = async (
+  includeDeleted = false
+): Promise<Patient[]> => {
   try {
-    return await PatientModel.findAll();
+    return await PatientModel.findAll(includeDeleted);
   } catch (error) {
     logger.error("Error in patientService.getAllPatients:", error);
     throw new Error("Failed to retrieve patients");
@@ -20,11 +35,55 @@ export const getAllPatients = async (): Promise<Patient[]> => {
 };
 
 /**
- * Get patient by ID
+ * List patients matching the filters, one page at a time
  */
-export const getPatientById = async (id: number): Promise<Patient | null> => {
+export const listPatients = async (
+  filters: PatientFilterOptions
+): Promise<{
+  patients: Patient[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}> => {
   try {
-    return await PatientModel.findById(id);
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(
+      Math.max(filters.limit || DEFAULT_PATIENT_PAGE_SIZE, 1),
+      MAX_PATIENT_PAGE_SIZE
+    );
+
+    const [patients, total] = await Promise.all([
+      PatientModel.findPage({ ...filters, page, limit }),
+      PatientModel.countByFilters(filters),
+    ]);
+
+    return {
+      patients,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  } catch (error) {
+    logger.error("Error in patientService.listPatients:", error);
+    throw new Error("Failed to retrieve patients");
+  }
+};
+
+/**
+ * Get patient by ID, optionally even if soft-deleted
+ */
+export const getPatientById = async (
+  id: number,
+  includeDeleted = false
+): Promise<Patient | null> => {
+  try {
+    return await PatientModel.findById(id, includeDeleted);
   } catch (error) {
     logger.error(`Error in patientService.getPatientById for ID ${id}:`, error);
     throw new Error("Failed to retrieve patient");
@@ -32,13 +91,14 @@ export const getPatientById = async (id: number): Promise<Patient | null> => {
 };
 
 /**
- * Get patient with metadata by ID
+ * Get patient with metadata by ID, optionally even if soft-deleted
  */
 export const getPatientWithMetadata = async (
-  id: number
+  id: number,
+  includeDeleted = false
 ): Promise<PatientWithMetadata | null> => {
   try {
-    return await PatientModel.getPatientWithMetadata(id);
+    return await PatientModel.getPatientWithMetadata(id, includeDeleted);
   } catch (error) {
     logger.error(
       `Error in patientService.getPatientWithMetadata for ID ${id}:`,
@@ -49,11 +109,14 @@ export const getPatientWithMetadata = async (
 };
 
 /**
- * Search patients by query string
+ * Search patients by query string, optionally including soft-deleted ones
  */
-export const searchPatients = async (query: string): Promise<Patient[]> => {
+export const searchPatients = async (
+  query: string,
+  includeDeleted = false
+): Promise<Patient[]> => {
   try {
-    return await PatientModel.searchPatients(query);
+    return await PatientModel.searchPatients(query, includeDeleted);
   } catch (error) {
     logger.error(
       `Error in patientService.searchPatients with query "${query}":`,
@@ -78,6 +141,9 @@ export const createPatient = async (
       throw new Error("Failed to create patient");
     }
 
+    // Seed the allergy registry from any free-text allergies given
+    await allergyService.recordAllergyText(patient.id, patientData.allergies);
+
     return patient;
   } catch (error) {
     logger.error("Error in patientService.createPatient:", error);
@@ -100,7 +166,15 @@ export const updatePatient = async (
     }
 
     // Update the patient
-    return await PatientModel.update(id, patientData);
+    const patient = await PatientModel.update(id, patientData);
+
+    // Keep the allergy registry, which interaction checks read, in step with
+    // allergies added to the free-text field
+    if (patient && patientData.allergies !== undefined) {
+      await allergyService.recordAllergyText(id, patientData.allergies);
+    }
+
+    return patient;
   } catch (error) {
     logger.error(`Error in patientService.updatePatient for ID ${id}:`, error);
     throw error;
@@ -108,7 +182,7 @@ export const updatePatient = async (
 };
 
 /**
- * Delete a patient
+ * Soft-delete a patient
  */
 export const deletePatient = async (id: number): Promise<boolean> => {
   try {
@@ -119,6 +193,110 @@ export const deletePatient = async (id: number): Promise<boolean> => {
   }
 };
 
+/**
+ * Restore a soft-deleted patient
+ */
+export const restorePatient = async (id: number): Promise<Patient> => {
+  try {
+    const patient = await PatientModel.findById(id, true);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    if (!patient.deletedAt) {
+      throw new Error("Patient is not deleted");
+    }
+
+    if (!(await PatientModel.restore(id))) {
+      throw new Error("Failed to restore patient");
+    }
+
+    return (await PatientModel.findById(id)) as Patient;
+  } catch (error) {
+    logger.error(`Error in patientService.restorePatient for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Permanently delete a patient along with their appointments, medical
+ * records and invoices. Only soft-deleted patients can be purged, so an
+ * erasure always takes two deliberate steps.
+ */
+export const purgePatient = async (
+  id: number,
+  purgedBy: number
+): Promise<void> => {
+  try {
+    const patient = await PatientModel.findById(id, true);
+    if (!patient) {
+      throw new Error("Patient not found");
+    }
+
+    if (!patient.deletedAt) {
+      throw new Error("Patient must be deleted before it can be purged");
+    }
+
+    if (!(await PatientModel.purge(id))) {
+      throw new Error("Failed to purge patient");
+    }
+
+    logger.info(`Patient ${id} purged by user ${purgedBy}`);
+  } catch (error) {
+    logger.error(`Error in patientService.purgePatient for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get a patient's timeline with paging, newest first
+ */
+export const getPatientTimeline = async (
+  patientId: number,
+  filters: TimelineFilters
+): Promise<{
+  entries: TimelineEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}> => {
+  try {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(
+      Math.max(filters.limit || DEFAULT_TIMELINE_PAGE_SIZE, 1),
+      MAX_TIMELINE_PAGE_SIZE
+    );
+
+    const [entries, total] = await Promise.all([
+      PatientTimelineModel.findByPatient(patientId, {
+        ...filters,
+        page,
+        limit,
+      }),
+      PatientTimelineModel.countByPatient(patientId, filters),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  } catch (error) {
+    logger.error(
+      `Error in patientService.getPatientTimeline for patient ${patientId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve patient timeline");
+  }
+};
+
 /**
  * Get patient count
  */
@@ -169,11 +347,15 @@ const isValidEmail = (email: string): boolean => {
 
 export default {
   getAllPatients,
+  listPatients,
   getPatientById,
   getPatientWithMetadata,
   searchPatients,
   createPatient,
   updatePatient,
   deletePatient,
+  restorePatient,
+  purgePatient,
+  getPatientTimeline,
   getPatientCount,
 };
@@ -0,0 +1,102 @@
+import UserModel from "../models/User";
+import { DEFAULT_PERMISSIONS, Permission, UserRole } from "../types/auth";
+import { logger } from "../utils/logger";
+
+// Per-user entries prefixed with this marker deny a permission instead of granting it
+export const DENY_PREFIX = "-";
+
+/**
+ * Check whether a stored permission entry covers a permission.
+ * Either side of the "action:resource" pair may be a "*" wildcard.
+ * @private
+ */
+const matches = (entry: string, permission: string): boolean => {
+  const [entryAction, entryResource] = entry.split(":");
+  const [action, resource] = permission.split(":");
+
+  return (
+    (entryAction === "*" || entryAction === action) &&
+    (entryResource === "*" || entryResource === resource)
+  );
+};
+
+/**
+ * Check that a users.permissions entry is a known permission or wildcard
+ * pattern, optionally prefixed with the deny marker
+ */
+export const isValidPermissionEntry = (entry: string): boolean => {
+  const value = entry.startsWith(DENY_PREFIX)
+    ? entry.slice(DENY_PREFIX.length)
+    : entry;
+
+  if (!value.includes("*")) {
+    return (Object.values(Permission) as string[]).includes(value);
+  }
+
+  return Object.values(Permission).some((permission) =>
+    matches(value, permission)
+  );
+};
+
+/**
+ * Resolve a user's effective permissions: the role defaults, plus per-user
+ * grants, minus per-user denials (denials always win)
+ * @param role User's role
+ * @param overrides Entries stored in users.permissions
+ */
+export const resolveEffectivePermissions = (
+  role: string,
+  overrides: string[] = []
+): Permission[] => {
+  const grants = overrides.filter((entry) => !entry.startsWith(DENY_PREFIX));
+  const denials = overrides
+    .filter((entry) => entry.startsWith(DENY_PREFIX))
+    .map((entry) => entry.slice(DENY_PREFIX.length));
+
+  const defaults = DEFAULT_PERMISSIONS[role as UserRole] || [];
+
+  return Object.values(Permission).filter(
+    (permission) =>
+      (defaults.includes(permission) ||
+        grants.some((entry) => matches(entry, permission))) &&
+      !denials.some((entry) => matches(entry, permission))
+  );
+};
+
+/**
+ * Get the effective permissions for a user
+ */
+export const getUserPermissions = async (
+  userId: number
+): Promise<Permission[]> => {
+  try {
+    const user = await UserModel.findById(userId);
+    if (!user) return [];
+
+    return resolveEffectivePermissions(user.role, user.permissions);
+  } catch (error) {
+    logger.error(
+      `Error in permissionService.getUserPermissions for user ${userId}:`,
+      error
+    );
+    throw new Error("Failed to resolve permissions");
+  }
+};
+
+/**
+ * Check whether a user holds every one of the given permissions
+ */
+export const hasPermissions = async (
+  userId: number,
+  required: Permission[]
+): Promise<boolean> => {
+  const permissions = await getUserPermissions(userId);
+  return required.every((permission) => permissions.includes(permission));
+};
+
+export default {
+  isValidPermissionEntry,
+  resolveEffectivePermissions,
+  getUserPermissions,
+  hasPermissions,
+};
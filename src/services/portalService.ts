@@ -0,0 +1,281 @@
+import PatientModel from "../models/Patient";
+import appointmentModel from "../models/Appointment";
+import BillingModel from "../models/Billing";
+import MedicalRecordModel, {
+  MedicalRecordWithNames,
+} from "../models/MedicalRecord";
+import appointmentService from "./appointmentService";
+import notificationService from "./notificationService";
+import auditService from "./auditService";
+import { Patient } from "../types/patient";
+import { AppointmentWithNames } from "../types/appointment";
+import { InvoiceWithItems } from "../types/billing";
+import { Notification } from "../types/notification";
+import { PatientAccessReportEntry } from "../types/audit";
+import {
+  PortalAppointmentRequest,
+  PortalContactUpdate,
+  VisitSummary,
+  PORTAL_CONTACT_FIELDS,
+} from "../types/portal";
+import { logger } from "../utils/logger";
+
+/*
+ * Every function takes the patient ID resolved from the authenticated
+ * account, never one supplied by the client. Records belonging to another
+ * patient are reported as not found so their existence is not revealed.
+ */
+
+/**
+ * Get the patient's own record
+ */
+export const getProfile = async (patientId: number): Promise<Patient> => {
+  const patient = await PatientModel.findById(patientId);
+  if (!patient) {
+    throw new Error("Patient not found");
+  }
+
+  return patient;
+};
+
+/**
+ * Update the patient's contact details. Other fields are ignored.
+ */
+export const updateContactDetails = async (
+  patientId: number,
+  data: PortalContactUpdate
+): Promise<Patient> => {
+  try {
+    const updates: PortalContactUpdate = {};
+    for (const field of PORTAL_CONTACT_FIELDS) {
+      if (data[field] !== undefined) {
+        updates[field] = data[field];
+      }
+    }
+
+    const updated = await PatientModel.update(patientId, updates);
+    if (!updated) {
+      throw new Error("Patient not found");
+    }
+
+    return updated;
+  } catch (error) {
+    logger.error(
+      `Error in portalService.updateContactDetails for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the patient's appointments
+ */
+export const getAppointments = async (
+  patientId: number
+): Promise<AppointmentWithNames[]> => {
+  return appointmentService.getAppointmentsByPatientId(patientId);
+};
+
+/**
+ * Get one of the patient's appointments
+ */
+export const getAppointment = async (
+  patientId: number,
+  appointmentId: number
+): Promise<AppointmentWithNames> => {
+  const appointment = await appointmentModel.getAppointmentById(appointmentId);
+  if (!appointment || appointment.patientId !== patientId) {
+    throw new Error("Appointment not found");
+  }
+
+  return appointment;
+};
+
+/**
+ * Request an appointment with a doctor. It is created as scheduled for
+ * staff to confirm, with the usual time and conflict checks.
+ */
+export const requestAppointment = async (
+  patientId: number,
+  request: PortalAppointmentRequest
+): Promise<AppointmentWithNames> => {
+  try {
+    const created = await appointmentService.createAppointment({
+      patientId,
+      // Staff IDs are strings at runtime, despite the Appointment type
+      doctorId: request.doctorId as unknown as number,
+      title: "Appointment requested by patient",
+      startTime: request.startTime,
+      endTime: request.endTime,
+      status: "scheduled",
+      type: request.type,
+      notes: request.reason,
+    });
+
+    if (!created || !created.id) {
+      throw new Error("Failed to request appointment");
+    }
+
+    return getAppointment(patientId, created.id);
+  } catch (error) {
+    logger.error(
+      `Error in portalService.requestAppointment for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Cancel one of the patient's upcoming appointments
+ */
+export const cancelAppointment = async (
+  patientId: number,
+  appointmentId: number
+): Promise<AppointmentWithNames> => {
+  try {
+    const appointment = await getAppointment(patientId, appointmentId);
+
+    if (
+      !["scheduled", "confirmed"].includes(appointment.status) ||
+      new Date(appointment.startTime) <= new Date()
+    ) {
+      throw new Error("Only upcoming appointments can be cancelled");
+    }
+
+    await appointmentModel.updateAppointment(appointmentId, {
+      status: "cancelled",
+    });
+
+    return getAppointment(patientId, appointmentId);
+  } catch (error) {
+    logger.error(
+      `Error in portalService.cancelAppointment for appointment ${appointmentId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Check whether an invoice is a generated draft billing staff have not
+ * reviewed yet, which the patient is not shown
+ * @private
+ */
+const isAwaitingReview = (invoice: InvoiceWithItems): boolean =>
+  invoice.source === "generated" && !invoice.reviewedAt;
+
+/**
+ * Get the patient's invoices
+ */
+export const getInvoices = async (
+  patientId: number
+): Promise<InvoiceWithItems[]> => {
+  return (await BillingModel.getInvoicesByPatientId(patientId)).filter(
+    (invoice) => !isAwaitingReview(invoice)
+  );
+};
+
+/**
+ * Get one of the patient's invoices
+ */
+export const getInvoice = async (
+  patientId: number,
+  invoiceId: string
+): Promise<InvoiceWithItems> => {
+  const invoice = await BillingModel.getInvoiceById(invoiceId);
+  if (
+    !invoice ||
+    invoice.patientId !== patientId ||
+    isAwaitingReview(invoice)
+  ) {
+    throw new Error("Invoice not found");
+  }
+
+  return invoice;
+};
+
+/**
+ * Reduce a medical record to what the patient is shown after a visit
+ * @private
+ */
+const toVisitSummary = (record: MedicalRecordWithNames): VisitSummary => ({
+  id: record.id as number,
+  visitDate: record.visitDate,
+  doctorName: record.doctorName,
+  chiefComplaint: record.chiefComplaint,
+  diagnoses: (record.diagnosis || []).map((diagnosis) => ({
+    code: diagnosis.code,
+    description: diagnosis.description,
+  })),
+  medications: (record.treatment?.medications || []).map((medication) => ({
+    name: medication.name,
+    dosage: medication.dosage,
+    frequency: medication.frequency,
+    duration: medication.duration,
+    instructions: medication.instructions,
+  })),
+  instructions: record.treatment?.instructions || "",
+  followUpRecommended: Boolean(record.followUpRecommended),
+  followUpDate: record.followUpDate ?? null,
+});
+
+/**
+ * Get summaries of the patient's visits, newest first
+ */
+export const getVisitSummaries = async (
+  patientId: number
+): Promise<VisitSummary[]> => {
+  return MedicalRecordModel.getMedicalRecordsByPatientId(patientId).map(
+    toVisitSummary
+  );
+};
+
+/**
+ * Get the summary of one of the patient's visits
+ */
+export const getVisitSummary = async (
+  patientId: number,
+  recordId: number
+): Promise<VisitSummary> => {
+  const record = MedicalRecordModel.getMedicalRecordById(recordId);
+  if (!record || record.patientId !== patientId) {
+    throw new Error("Visit not found");
+  }
+
+  return toVisitSummary(record);
+};
+
+/**
+ * Get the notifications sent to the patient's account
+ */
+export const getNotifications = async (
+  userId: number
+): Promise<Notification[]> => {
+  return notificationService.getNotificationsByUserId(userId);
+};
+
+/**
+ * Report who has accessed the patient's record
+ */
+export const getAccessReport = async (
+  patientId: number
+): Promise<PatientAccessReportEntry[]> => {
+  return auditService.getPatientAccessReport(patientId);
+};
+
+export default {
+  getProfile,
+  updateContactDetails,
+  getAppointments,
+  getAppointment,
+  requestAppointment,
+  cancelAppointment,
+  getInvoices,
+  getInvoice,
+  getVisitSummaries,
+  getVisitSummary,
+  getNotifications,
+  getAccessReport,
+};
@@ -0,0 +1,344 @@
+import PatientProblemModel from "../models/PatientProblem";
+import PatientModel from "../models/Patient";
+import {
+  MedicalHistory,
+  MedicalHistoryInput,
+  ProblemStatus,
+  ProblemSuggestion,
+} from "../types/medicalRecord";
+import { logger } from "../utils/logger";
+
+// Statuses of a problem that still needs attention
+const UNRESOLVED_STATUSES: ProblemStatus[] = ["active", "recurring"];
+
+/**
+ * Check that a patient exists
+ * @private
+ */
+const ensurePatient = async (patientId: number): Promise<void> => {
+  if (!(await PatientModel.findById(patientId))) {
+    throw new Error("Patient not found");
+  }
+};
+
+/**
+ * Get a problem, checking that it belongs to the patient
+ * @private
+ */
+const findPatientProblem = async (
+  patientId: number,
+  problemId: number
+): Promise<MedicalHistory> => {
+  const problem = await PatientProblemModel.findById(problemId);
+  if (!problem || problem.patientId !== patientId) {
+    throw new Error("Problem not found");
+  }
+
+  return problem;
+};
+
+/**
+ * Check whether a problem is the given condition - by ICD code when both
+ * have one, otherwise by name
+ * @private
+ */
+const isSameCondition = (
+  problem: Pick<MedicalHistory, "condition" | "icdCode">,
+  condition: string,
+  icdCode?: string | null
+): boolean =>
+  problem.icdCode && icdCode
+    ? problem.icdCode.trim().toUpperCase() === icdCode.trim().toUpperCase()
+    : problem.condition.trim().toLowerCase() === condition.trim().toLowerCase();
+
+/**
+ * Refuse a second unresolved entry for the same condition
+ * @private
+ */
+const ensureNotListed = async (
+  patientId: number,
+  condition: string,
+  icdCode?: string | null,
+  exceptId?: number
+): Promise<void> => {
+  const unresolved = await PatientProblemModel.findByPatient(
+    patientId,
+    UNRESOLVED_STATUSES
+  );
+
+  if (
+    unresolved.some(
+      (problem) =>
+        problem.id !== exceptId && isSameCondition(problem, condition, icdCode)
+    )
+  ) {
+    throw new Error(`${condition.trim()} is already on the problem list`);
+  }
+};
+
+/**
+ * Check that a resolution date does not precede the diagnosis
+ * @private
+ */
+const validateDates = (
+  diagnosedAt?: string | null,
+  resolvedAt?: string | null
+): void => {
+  if (diagnosedAt && resolvedAt && resolvedAt < diagnosedAt) {
+    throw new Error("Resolution date cannot be before the diagnosis date");
+  }
+};
+
+/**
+ * Get a patient's problem list, unresolved problems first
+ */
+export const getProblems = async (
+  patientId: number,
+  status?: ProblemStatus
+): Promise<MedicalHistory[]> => {
+  try {
+    await ensurePatient(patientId);
+    return await PatientProblemModel.findByPatient(
+      patientId,
+      status ? [status] : []
+    );
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.getProblems for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get a patient's active and recurring problems for the patient detail view
+ */
+export const getActiveProblems = async (
+  patientId: number
+): Promise<MedicalHistory[]> => {
+  try {
+    return await PatientProblemModel.findByPatient(
+      patientId,
+      UNRESOLVED_STATUSES
+    );
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.getActiveProblems for patient ${patientId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve problem list");
+  }
+};
+
+/**
+ * Suggest problem list entries from the diagnoses in a patient's medical
+ * records: conditions not on the list, and resolved conditions that have
+ * been diagnosed again since they were resolved
+ */
+export const getSuggestions = async (
+  patientId: number
+): Promise<ProblemSuggestion[]> => {
+  try {
+    await ensurePatient(patientId);
+
+    const [conditions, problems] = await Promise.all([
+      PatientProblemModel.findDiagnosedConditions(patientId),
+      PatientProblemModel.findByPatient(patientId),
+    ]);
+
+    const suggestions: ProblemSuggestion[] = [];
+    for (const condition of conditions) {
+      const listed = problems.filter((problem) =>
+        isSameCondition(problem, condition.condition, condition.icdCode)
+      );
+
+      if (listed.length === 0) {
+        suggestions.push({ ...condition, resolvedProblemId: null });
+        continue;
+      }
+
+      if (listed.some((problem) => problem.status !== "resolved")) continue;
+
+      // Suggest marking the condition recurring if diagnosed after resolution
+      const latest = listed.reduce((a, b) =>
+        (a.resolvedAt || "") >= (b.resolvedAt || "") ? a : b
+      );
+      if (condition.lastDiagnosedAt > (latest.resolvedAt || "")) {
+        suggestions.push({
+          ...condition,
+          resolvedProblemId: latest.id as number,
+        });
+      }
+    }
+
+    return suggestions;
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.getSuggestions for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Add a problem to a patient's list. When a diagnosis from the patient's
+ * medical records is given, the condition, code and diagnosis date default
+ * to those of the diagnosis.
+ */
+export const addProblem = async (
+  patientId: number,
+  data: Partial<MedicalHistoryInput> & { diagnosisId?: number },
+  userId: number
+): Promise<MedicalHistory> => {
+  try {
+    await ensurePatient(patientId);
+
+    const { diagnosisId, ...fields } = data;
+    const problem: MedicalHistoryInput & { sourceDiagnosisId?: number } = {
+      ...fields,
+      condition: fields.condition?.trim() || "",
+      status: fields.status || "active",
+    };
+
+    if (diagnosisId !== undefined) {
+      const diagnosis = await PatientProblemModel.findPatientDiagnosis(
+        patientId,
+        diagnosisId
+      );
+      if (!diagnosis) {
+        throw new Error("Diagnosis not found");
+      }
+
+      problem.condition = problem.condition || diagnosis.description;
+      problem.icdCode = problem.icdCode || diagnosis.code;
+      problem.diagnosedAt = problem.diagnosedAt || diagnosis.visitDate;
+      problem.sourceDiagnosisId = diagnosis.id;
+    }
+
+    if (!problem.condition) {
+      throw new Error("Condition is required");
+    }
+
+    if (problem.status !== "resolved") {
+      await ensureNotListed(patientId, problem.condition, problem.icdCode);
+    }
+
+    const resolvedAt =
+      problem.status === "resolved"
+        ? problem.resolvedAt || new Date().toISOString()
+        : undefined;
+    validateDates(problem.diagnosedAt, resolvedAt);
+
+    const created = await PatientProblemModel.create(patientId, {
+      ...problem,
+      resolvedAt,
+      resolvedBy: resolvedAt ? userId : undefined,
+      createdBy: userId,
+    });
+    if (!created) {
+      throw new Error("Failed to add problem");
+    }
+
+    return created;
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.addProblem for patient ${patientId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Update a problem. Resolving it records when and by whom; reopening it as
+ * active or recurring clears the resolution.
+ */
+export const updateProblem = async (
+  patientId: number,
+  problemId: number,
+  data: Partial<MedicalHistoryInput>,
+  userId: number
+): Promise<MedicalHistory> => {
+  try {
+    const existing = await findPatientProblem(patientId, problemId);
+    const status = data.status || existing.status;
+    const condition = data.condition?.trim() || existing.condition;
+    const icdCode =
+      data.icdCode !== undefined ? data.icdCode : existing.icdCode;
+
+    if (status !== "resolved") {
+      await ensureNotListed(patientId, condition, icdCode, problemId);
+    }
+
+    let resolution: { resolvedAt: string | null; resolvedBy: number | null } = {
+      resolvedAt: existing.resolvedAt || null,
+      resolvedBy: existing.resolvedBy ?? null,
+    };
+    if (status === "resolved" && existing.status !== "resolved") {
+      resolution = {
+        resolvedAt: data.resolvedAt || new Date().toISOString(),
+        resolvedBy: userId,
+      };
+    } else if (status === "resolved" && data.resolvedAt) {
+      resolution.resolvedAt = data.resolvedAt;
+    } else if (status !== "resolved") {
+      resolution = { resolvedAt: null, resolvedBy: null };
+    }
+
+    validateDates(
+      data.diagnosedAt !== undefined ? data.diagnosedAt : existing.diagnosedAt,
+      resolution.resolvedAt
+    );
+
+    const problem = await PatientProblemModel.update(problemId, {
+      ...data,
+      ...(data.condition !== undefined && { condition }),
+      ...resolution,
+    });
+    if (!problem) {
+      throw new Error("Failed to update problem");
+    }
+
+    return problem;
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.updateProblem for problem ${problemId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Delete a problem entered in error. Problems that no longer apply should be
+ * resolved instead so the history is kept.
+ */
+export const deleteProblem = async (
+  patientId: number,
+  problemId: number
+): Promise<void> => {
+  try {
+    await findPatientProblem(patientId, problemId);
+
+    if (!(await PatientProblemModel.remove(problemId))) {
+      throw new Error("Failed to delete problem");
+    }
+  } catch (error) {
+    logger.error(
+      `Error in problemListService.deleteProblem for problem ${problemId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+export default {
+  getProblems,
+  getActiveProblems,
+  getSuggestions,
+  addProblem,
+  updateProblem,
+  deleteProblem,
+};
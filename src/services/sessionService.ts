@@ -0,0 +1,130 @@
+import SessionModel from "../models/Session";
+import RefreshTokenModel from "../models/RefreshToken";
+import UserModel from "../models/User";
+import permissionService from "./permissionService";
+import { Permission, Session } from "../types/auth";
+import { logger } from "../utils/logger";
+
+/**
+ * Check whether a session exists and has not been revoked or expired
+ */
+export const isSessionActive = async (id: string): Promise<boolean> => {
+  try {
+    const session = await SessionModel.findById(id);
+    if (!session || session.revokedAt) return false;
+
+    return new Date(session.expiresAt).getTime() > Date.now();
+  } catch (error) {
+    logger.error(`Error in sessionService.isSessionActive for ${id}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Get the active sessions for a user
+ */
+export const getActiveSessions = async (userId: number): Promise<Session[]> => {
+  try {
+    return await SessionModel.findActiveByUserId(userId);
+  } catch (error) {
+    logger.error(
+      `Error in sessionService.getActiveSessions for user ${userId}:`,
+      error
+    );
+    throw new Error("Failed to retrieve sessions");
+  }
+};
+
+/**
+ * Revoke a session and the refresh token family that belongs to it
+ */
+export const revokeSession = async (id: string): Promise<boolean> => {
+  try {
+    const revoked = await SessionModel.revoke(id);
+    await RefreshTokenModel.revokeFamily(id);
+    return revoked;
+  } catch (error) {
+    logger.error(`Error in sessionService.revokeSession for ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Revoke a session on behalf of a user. Users may only revoke their own
+ * sessions unless they hold the manage:users permission.
+ */
+export const revokeSessionForUser = async (
+  id: string,
+  requesterId: number
+): Promise<boolean> => {
+  try {
+    const session = await SessionModel.findById(id);
+
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    if (
+      session.userId !== requesterId &&
+      !(await permissionService.hasPermissions(requesterId, [
+        Permission.MANAGE_USERS,
+      ]))
+    ) {
+      throw new Error("Unauthorized access to session");
+    }
+
+    return await revokeSession(id);
+  } catch (error) {
+    logger.error(
+      `Error in sessionService.revokeSessionForUser for ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Revoke every session (and refresh token) a user holds
+ * @returns Number of sessions revoked
+ */
+export const revokeAllSessionsForUser = async (
+  userId: number
+): Promise<number> => {
+  try {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const revoked = await SessionModel.revokeAllForUser(userId);
+    await RefreshTokenModel.revokeAllForUser(userId);
+
+    logger.info(`Revoked ${revoked} session(s) for user ${userId}`);
+    return revoked;
+  } catch (error) {
+    logger.error(
+      `Error in sessionService.revokeAllSessionsForUser for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Record activity on a session and extend its expiry
+ */
+export const touchSession = async (
+  id: string,
+  expiresAt: string
+): Promise<boolean> => {
+  return SessionModel.touch(id, expiresAt);
+};
+
+export default {
+  isSessionActive,
+  getActiveSessions,
+  revokeSession,
+  revokeSessionForUser,
+  revokeAllSessionsForUser,
+  touchSession,
+};
@@ -0,0 +1,348 @@
+import UserModel from "../models/User";
+import { getStaffById } from "../models/Staff";
+import PatientModel from "../models/Patient";
+import permissionService from "./permissionService";
+import sessionService from "./sessionService";
+import mfaService from "./mfaService";
+import loginThrottleService from "./loginThrottleService";
+import passwordPolicyService from "./passwordPolicyService";
+import { SafeUser, UserRole } from "../types/auth";
+import { UpdateUserRequest, UserFilterOptions, User } from "../types/user";
+import { logger } from "../utils/logger";
+
+/**
+ * Get users matching the admin list filters
+ */
+export const getUsers = async (
+  filters: UserFilterOptions = {}
+): Promise<SafeUser[]> => {
+  try {
+    const users = await UserModel.findByFilters(filters);
+    return users.map(UserModel.getSafeUser);
+  } catch (error) {
+    logger.error("Error in userService.getUsers:", error);
+    throw new Error("Failed to retrieve users");
+  }
+};
+
+/**
+ * Get a user by ID
+ */
+export const getUserById = async (id: number): Promise<SafeUser | null> => {
+  try {
+    const user = await UserModel.findById(id);
+    return user ? UserModel.getSafeUser(user) : null;
+  } catch (error) {
+    logger.error(`Error in userService.getUserById for ID ${id}:`, error);
+    throw new Error("Failed to retrieve user");
+  }
+};
+
+/**
+ * Update a user's profile, role, permissions, or staff or patient link
+ */
+export const updateUser = async (
+  id: number,
+  data: UpdateUserRequest
+): Promise<SafeUser | null> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (
+      data.role !== undefined &&
+      !(Object.values(UserRole) as string[]).includes(data.role)
+    ) {
+      throw new Error("Invalid role");
+    }
+
+    if (data.role !== undefined && data.role !== UserRole.ADMIN) {
+      ensureNotLastAdmin(user);
+    }
+
+    if (data.permissions !== undefined) {
+      const invalid = data.permissions.filter(
+        (entry) => !permissionService.isValidPermissionEntry(entry)
+      );
+      if (invalid.length > 0) {
+        throw new Error(`Invalid permissions: ${invalid.join(", ")}`);
+      }
+    }
+
+    if (data.email !== undefined && data.email !== user.email) {
+      const existing = await UserModel.findOne({ email: data.email });
+      if (existing) {
+        throw new Error("User with this email already exists");
+      }
+    }
+
+    if (data.staffId) {
+      await ensureStaffLinkable(data.staffId, id);
+    }
+
+    const patientId =
+      data.patientId !== undefined ? data.patientId : user.patientId;
+    if (patientId && (data.role ?? user.role) !== UserRole.PATIENT) {
+      throw new Error(
+        "Only patient accounts can be linked to a patient record"
+      );
+    }
+
+    if (data.patientId) {
+      await ensurePatientLinkable(data.patientId, id);
+    }
+
+    const updated = await UserModel.update(id, {
+      username: data.username,
+      email: data.email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      role: data.role,
+      permissions: data.permissions,
+      staffId: data.staffId === "" ? null : data.staffId,
+      patientId: data.patientId,
+    });
+
+    return updated ? UserModel.getSafeUser(updated) : null;
+  } catch (error) {
+    logger.error(`Error in userService.updateUser for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Disable a user account and end all of its sessions
+ */
+export const disableUser = async (
+  id: number,
+  requesterId: number
+): Promise<SafeUser | null> => {
+  try {
+    if (id === requesterId) {
+      throw new Error("You cannot disable your own account");
+    }
+
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (user.disabledAt) {
+      return UserModel.getSafeUser(user);
+    }
+
+    ensureNotLastAdmin(user);
+
+    const updated = await UserModel.update(id, {
+      disabledAt: new Date().toISOString(),
+    });
+    await sessionService.revokeAllSessionsForUser(id);
+
+    return updated ? UserModel.getSafeUser(updated) : null;
+  } catch (error) {
+    logger.error(`Error in userService.disableUser for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Re-enable a disabled user account
+ */
+export const enableUser = async (id: number): Promise<SafeUser | null> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const updated = await UserModel.update(id, { disabledAt: null });
+    return updated ? UserModel.getSafeUser(updated) : null;
+  } catch (error) {
+    logger.error(`Error in userService.enableUser for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Require a user to reset their password before they can log in again.
+ * All existing sessions are revoked.
+ */
+export const forcePasswordReset = async (
+  id: number
+): Promise<SafeUser | null> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const updated = await UserModel.update(id, {
+      passwordResetRequired: true,
+    });
+    await sessionService.revokeAllSessionsForUser(id);
+
+    return updated ? UserModel.getSafeUser(updated) : null;
+  } catch (error) {
+    logger.error(
+      `Error in userService.forcePasswordReset for ID ${id}:`,
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * Set a user's password. Temporary passwords expire immediately, so the user
+ * must choose their own on next login. All existing sessions are revoked.
+ */
+export const setUserPassword = async (
+  id: number,
+  password: string,
+  temporary: boolean = true
+): Promise<SafeUser> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const updated = await passwordPolicyService.setPassword(user, password, {
+      temporary,
+    });
+    await sessionService.revokeAllSessionsForUser(id);
+
+    return UserModel.getSafeUser(updated);
+  } catch (error) {
+    logger.error(`Error in userService.setUserPassword for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Lift a login lockout on a user's account
+ */
+export const unlockUser = async (id: number): Promise<boolean> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return await loginThrottleService.unlockAccount(user.email);
+  } catch (error) {
+    logger.error(`Error in userService.unlockUser for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a user's MFA enrolment so they can enrol a new device
+ */
+export const resetMfa = async (id: number): Promise<boolean> => {
+  try {
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (!(await mfaService.isMfaEnabled(id))) {
+      throw new Error("MFA is not enabled for this user");
+    }
+
+    return await mfaService.resetMfa(id);
+  } catch (error) {
+    logger.error(`Error in userService.resetMfa for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a user account
+ */
+export const deleteUser = async (
+  id: number,
+  requesterId: number
+): Promise<boolean> => {
+  try {
+    if (id === requesterId) {
+      throw new Error("You cannot delete your own account");
+    }
+
+    const user = await UserModel.findById(id);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    ensureNotLastAdmin(user);
+
+    return await UserModel.remove(id);
+  } catch (error) {
+    logger.error(`Error in userService.deleteUser for ID ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Prevent an operation from leaving the system without an active admin
+ * @private
+ */
+const ensureNotLastAdmin = (user: User): void => {
+  if (
+    user.role === UserRole.ADMIN &&
+    !user.disabledAt &&
+    UserModel.countActiveByRole(UserRole.ADMIN) <= 1
+  ) {
+    throw new Error("Cannot remove the last active admin");
+  }
+};
+
+/**
+ * Check a staff record exists and is not already linked to another user
+ * @private
+ */
+const ensureStaffLinkable = async (
+  staffId: string,
+  userId: number
+): Promise<void> => {
+  if (!getStaffById(staffId)) {
+    throw new Error("Staff member not found");
+  }
+
+  const linkedUser = await UserModel.findOne({ staffId });
+  if (linkedUser && linkedUser.id !== userId) {
+    throw new Error("Staff member is already linked to another user");
+  }
+};
+
+/**
+ * Check a patient record exists and is not already linked to another user
+ * @private
+ */
+const ensurePatientLinkable = async (
+  patientId: number,
+  userId: number
+): Promise<void> => {
+  if (!(await PatientModel.findById(patientId))) {
+    throw new Error("Patient not found");
+  }
+
+  const linkedUser = await UserModel.findOne({ patientId });
+  if (linkedUser && linkedUser.id !== userId) {
+    throw new Error("Patient is already linked to another user");
+  }
+};
+
+export default {
+  getUsers,
+  getUserById,
+  updateUser,
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  setUserPassword,
+  unlockUser,
+  resetMfa,
+  deleteUser,
+};
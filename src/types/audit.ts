@@ -0,0 +1,56 @@
+/**
+ * Audit trail types for access to patient data (PHI)
+ */
+
+// What was done to a resource, derived from the HTTP method
+export type AuditAction = "read" | "create" | "update" | "delete";
+
+// Kinds of patient data whose access is audited
+export type AuditResourceType =
+  | "patient"
+  | "medical_record"
+  | "appointment"
+  | "invoice"
+  | "break_glass"
+  | "lab_result";
+
+// A single audit trail entry
+export interface AuditLogEntry {
+  id: number;
+  actorId: number | null;
+  actorRole: string | null;
+  action: AuditAction;
+  resourceType: string;
+  resourceId: string | null;
+  patientId: number | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+// Filters for querying the audit trail
+export interface AuditLogFilters {
+  actorId?: number;
+  patientId?: number;
+  resourceType?: string;
+  resourceId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+// One line of a "who accessed my record" report
+export interface PatientAccessReportEntry {
+  accessedAt: string;
+  actorId: number | null;
+  actorName: string | null;
+  actorRole: string | null;
+  action: AuditAction;
+  resourceType: string;
+  resourceId: string | null;
+}
@@ -30,6 +30,131 @@ export interface LoginRequest {
 export interface LoginResponse {
   user: SafeUser;
   token: string;
+  refreshToken: string;
+  recoveryCodes?: string[]; // Only present when MFA enrolment completed at login
+}
+
+// Access/refresh token pair returned on login and refresh
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+// Login session - the access token jti and refresh token familyId are the session ID
+export interface Session {
+  id: string;
+  userId: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  expiresAt: string;
+  lastUsedAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Client details recorded when a session is created
+export interface SessionClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Persisted refresh token - tokens issued from the same login share a familyId
+export interface RefreshTokenRecord {
+  id: string;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  replacedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// TOTP enrolment for a user - enabledAt is null until the first code is verified
+export interface UserMfa {
+  userId: number;
+  secret: string;
+  enabledAt: string | null;
+  lastUsedStep: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Secret and provisioning URI shown to the user while enrolling
+export interface MfaEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+// MFA state reported to the user
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Second factor submitted to complete a login or confirm an MFA change
+export interface MfaVerificationRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Returned by login instead of tokens when a second factor is needed
+export interface MfaChallenge {
+  mfaRequired: true;
+  enrolmentRequired: boolean;
+  challengeToken: string;
+}
+
+// What a login throttle counts failures against
+export type LoginThrottleScope = "account" | "ip";
+
+// Failed login counter for an account (email) or client IP
+export interface LoginThrottle {
+  scope: LoginThrottleScope;
+  identifier: string;
+  failedCount: number;
+  lastFailedAt: string | null;
+  lockedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Result of checking whether a login attempt may proceed
+export interface LoginThrottleCheck {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Persisted password reset token - the raw token is only ever sent by mail
+export interface PasswordResetToken {
+  id: string;
+  userId: number;
+  tokenHash: string;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+// Password rules applied on register, reset, change and admin-set flows
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number; // Number of previous passwords that cannot be reused
+  maxAgeDays: number; // 0 disables expiry
+}
+
+// Previous password hash kept to prevent reuse
+export interface PasswordHistoryEntry {
+  id: number;
+  userId: number;
+  passwordHash: string;
+  createdAt: string;
 }
 
 // Frontend-aligned role definitions
@@ -39,6 +164,7 @@ export enum UserRole {
   NURSE = "nurse",
   RECEPTIONIST = "receptionist",
   BILLING = "billing",
+  LAB_TECHNICIAN = "lab_technician",
   PATIENT = "patient",
 }
 
@@ -60,10 +186,50 @@ export enum Permission {
   VIEW_RECORDS = "view:records",
   CREATE_RECORDS = "create:records",
   EDIT_RECORDS = "edit:records",
+  DELETE_RECORDS = "delete:records",
+  SIGN_RECORDS = "sign:records",
+
+  // Billing permissions
+  VIEW_BILLING = "view:billing",
+  CREATE_BILLING = "create:billing",
+  EDIT_BILLING = "edit:billing",
+  DELETE_BILLING = "delete:billing",
+  PROCESS_PAYMENTS = "process:payments",
+  MANAGE_CHARGE_MASTER = "manage:charge-master",
+
+  // Staff permissions
+  VIEW_STAFF = "view:staff",
+  MANAGE_STAFF = "manage:staff",
+
+  // Reporting permissions
+  VIEW_DASHBOARD = "view:dashboard",
+  VIEW_REPORTS = "view:reports",
+
+  // Notification permissions
+  SEND_NOTIFICATIONS = "send:notifications",
 
   // Admin permissions
   MANAGE_USERS = "manage:users",
   SYSTEM_SETTINGS = "system:settings",
+  VIEW_AUDIT_LOG = "view:audit",
+  MANAGE_CARE_TEAMS = "manage:care-teams",
+
+  // Read any chart regardless of care team
+  VIEW_ALL_RECORDS = "view:all-records",
+
+  // Emergency access to charts outside the care team
+  BREAK_GLASS = "use:break-glass",
+
+  // List and restore soft-deleted patients; erase them permanently
+  RESTORE_PATIENTS = "restore:patients",
+  PURGE_PATIENTS = "purge:patients",
+
+  // Merge duplicate charts and undo merges
+  MERGE_PATIENTS = "merge:patients",
+
+  // Lab permissions
+  ORDER_LABS = "order:labs",
+  ENTER_LAB_RESULTS = "enter:lab-results",
 }
 
 // Default permission sets for different roles
@@ -71,6 +237,7 @@ export const DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
   [UserRole.ADMIN]: Object.values(Permission),
   [UserRole.DOCTOR]: [
     Permission.VIEW_PATIENTS,
+    Permission.CREATE_PATIENTS,
     Permission.EDIT_PATIENTS,
     Permission.VIEW_APPOINTMENTS,
     Permission.CREATE_APPOINTMENTS,
@@ -79,14 +246,26 @@ export const DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission.VIEW_RECORDS,
     Permission.CREATE_RECORDS,
     Permission.EDIT_RECORDS,
+    Permission.DELETE_RECORDS,
+    Permission.SIGN_RECORDS,
+    Permission.VIEW_BILLING,
+    Permission.VIEW_STAFF,
+    Permission.VIEW_DASHBOARD,
+    Permission.VIEW_REPORTS,
+    Permission.BREAK_GLASS,
+    Permission.ORDER_LABS,
   ],
   [UserRole.NURSE]: [
     Permission.VIEW_PATIENTS,
+    Permission.CREATE_PATIENTS,
     Permission.EDIT_PATIENTS,
     Permission.VIEW_APPOINTMENTS,
+    Permission.CREATE_APPOINTMENTS,
     Permission.EDIT_APPOINTMENTS,
     Permission.VIEW_RECORDS,
     Permission.CREATE_RECORDS,
+    Permission.VIEW_STAFF,
+    Permission.BREAK_GLASS,
   ],
   [UserRole.RECEPTIONIST]: [
     Permission.VIEW_PATIENTS,
@@ -95,7 +274,28 @@ export const DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission.VIEW_APPOINTMENTS,
     Permission.CREATE_APPOINTMENTS,
     Permission.EDIT_APPOINTMENTS,
+    Permission.VIEW_BILLING,
+    Permission.CREATE_BILLING,
+    Permission.EDIT_BILLING,
+    Permission.PROCESS_PAYMENTS,
+    Permission.VIEW_STAFF,
+    Permission.VIEW_DASHBOARD,
+  ],
+  [UserRole.BILLING]: [
+    Permission.VIEW_PATIENTS,
+    Permission.VIEW_APPOINTMENTS,
+    Permission.VIEW_BILLING,
+    Permission.CREATE_BILLING,
+    Permission.EDIT_BILLING,
+    Permission.PROCESS_PAYMENTS,
+    Permission.VIEW_STAFF,
+    Permission.VIEW_REPORTS,
+  ],
+  // Lab staff work from the lab worklist and see only what a result needs
+  [UserRole.LAB_TECHNICIAN]: [
+    Permission.VIEW_PATIENTS,
+    Permission.ENTER_LAB_RESULTS,
   ],
-  [UserRole.BILLING]: [Permission.VIEW_PATIENTS, Permission.VIEW_APPOINTMENTS],
-  [UserRole.PATIENT]: [Permission.VIEW_APPOINTMENTS],
+  // Patients have no access to the staff-facing routes
+  [UserRole.PATIENT]: [],
 };
@@ -20,6 +20,12 @@ export type PaymentMethod =
   | "bank_transfer"
   | "check";
 
+// What to do with the part of a payment above the invoice balance
+export type OverpaymentHandling = "reject" | "credit";
+
+// How an invoice was created: by hand, or drafted from a completed visit
+export type InvoiceSource = "manual" | "generated";
+
 // Base Invoice type
 export interface Invoice {
   id: string;
@@ -33,6 +39,10 @@ export interface Invoice {
   paidDate?: string;
   paymentMethod?: PaymentMethod;
   notes?: string;
+  source?: InvoiceSource;
+  medicalRecordId?: number | null; // Visit record a generated invoice bills
+  reviewedBy?: number | null; // User who approved a generated invoice
+  reviewedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -49,9 +59,9 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   unitPrice: number;
-  amount: number;
+  amount: number; // quantity * unitPrice plus tax
   serviceCode?: string;
-  taxRate?: number;
+  taxRate?: number; // Percentage
   createdAt: string;
   updatedAt: string;
 }
@@ -66,10 +76,42 @@ export interface Payment {
   notes?: string;
   processedBy: string;
   processedDate: string;
+  idempotencyKey?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// A recorded payment with the amount above the invoice balance that was
+// kept as patient credit
+export interface RecordedPayment extends Payment {
+  creditedAmount: number;
+}
+
+// Outcome of posting a payment: the payment, whether it was recorded by an
+// earlier request with the same idempotency key, or why it was refused
+export type PaymentPostingResult =
+  | { payment: RecordedPayment; replayed: boolean }
+  | { rejection: string };
+
+// Patient credit ledger entry
+export interface PatientCredit {
+  id: number;
+  patientId: number;
+  amount: number;
+  paymentId: string | null;
+  invoiceId: string | null;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+// A patient's credit balance with the entries it is made of
+export interface PatientCreditBalance {
+  patientId: number;
+  balance: number;
+  entries: PatientCredit[];
+}
+
 // Request to create a new invoice
 export interface CreateInvoiceRequest {
   patientId: number;
@@ -77,13 +119,14 @@ export interface CreateInvoiceRequest {
   status?: InvoiceStatus;
   dueDate: string;
   notes?: string;
+  // Items with a serviceCode default their description, unit price and tax
+  // rate from the charge master
   items: {
-    description: string;
+    description?: string;
     quantity: number;
-    unitPrice: number;
-    amount: number;
+    unitPrice?: number;
     serviceCode?: string;
-    taxRate?: number;
+    taxRate?: number; // Percentage
   }[];
 }
 
@@ -105,4 +148,24 @@ export interface RecordPaymentRequest {
   notes?: string;
   processedBy: string;
   processedDate?: string;
+  idempotencyKey?: string;
+  overpayment?: OverpaymentHandling; // Defaults to "reject"
+}
+
+// Charge master codes billed for a completed visit, by what was recorded
+export interface FeeSchedule {
+  visitTypes: Record<string, string>; // Medical record visit type to code
+  appointmentTypes: Record<string, string>; // Used when there is no record
+  medications: { name: string; code: string }[]; // Drugs given in clinic
+  paymentTermsDays: number;
+}
+
+// An invoice drafted from a completed visit, before pricing
+export interface GeneratedInvoiceDraft {
+  patientId: number;
+  appointmentId: number | null;
+  medicalRecordId: number | null;
+  items: { serviceCode: string; quantity: number }[];
+  dueDate: string;
+  notes: string;
 }
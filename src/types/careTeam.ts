@@ -0,0 +1,39 @@
+/**
+ * Care team and break-glass types - who may read a patient's chart
+ */
+
+// A staff member assigned to a patient's care team
+export interface CareTeamAssignment {
+  id: number;
+  patientId: number;
+  staffId: string;
+  staffName?: string;
+  staffRole?: string;
+  role: string | null;
+  assignedBy: number | null;
+  createdAt: string;
+}
+
+// Time-boxed emergency access to a chart outside the care team
+export interface BreakGlassGrant {
+  id: number;
+  userId: number;
+  userName?: string;
+  patientId: number;
+  reason: string;
+  expiresAt: string;
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewedBy: number | null;
+  reviewNotes: string | null;
+}
+
+// Filters for listing break-glass grants
+export interface BreakGlassGrantFilters {
+  patientId?: number;
+  userId?: number;
+  reviewed?: boolean;
+}
+
+// Patients whose charts a user may read; null means every patient
+export type ChartScope = number[] | null;
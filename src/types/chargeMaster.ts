@@ -0,0 +1,45 @@
+/**
+ * Charge master (service and procedure price catalog) types
+ */
+
+export const CHARGE_CATEGORIES = [
+  "visit",
+  "procedure",
+  "laboratory",
+  "imaging",
+  "medication",
+  "supply",
+  "other",
+] as const;
+
+export type ChargeCategory = (typeof CHARGE_CATEGORIES)[number];
+
+// A catalog entry as created by an admin or read from an import file
+export interface ChargeMasterItemInput {
+  code: string;
+  description: string;
+  category: ChargeCategory;
+  defaultPrice: number;
+  taxRate: number; // Percentage, e.g. 8.25
+  activeFrom: string | null; // YYYY-MM-DD; null when active from the start
+  activeTo: string | null; // YYYY-MM-DD, inclusive; null when open-ended
+}
+
+// A catalog entry
+export interface ChargeMasterItem extends ChargeMasterItemInput {
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Filters for listing the catalog
+export interface ChargeMasterFilters {
+  q?: string; // Code prefix or description text
+  category?: ChargeCategory;
+  activeOn?: string; // Only entries active on this date
+}
+
+// Result of importing a charge master CSV
+export interface ChargeMasterImportResult {
+  imported: number;
+  total: number; // Entries in the catalog after the import
+}
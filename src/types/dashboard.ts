@@ -29,6 +29,15 @@ export interface StaffPerformance {
   appointmentsCompleted: number;
 }
 
+// Diagnoses recorded under one ICD-10 chapter, most frequent codes first
+export interface DiagnosisChapterStats {
+  chapter: number | null; // null for codes outside the classification
+  range: string | null;
+  title: string;
+  count: number;
+  codes: { code: string; description: string | null; count: number }[];
+}
+
 // Inventory alert
 export interface InventoryAlert {
   id: string;
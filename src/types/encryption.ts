@@ -0,0 +1,23 @@
+/**
+ * Field-level encryption types
+ */
+
+// A keyed hash stored next to an encrypted column for exact-match lookups
+export interface BlindIndexDefinition {
+  column: string;
+  indexColumn: string;
+  normalize: (value: string) => string;
+}
+
+// A table with columns that are encrypted at rest
+export interface EncryptedTable {
+  table: string;
+  columns: readonly string[];
+  blindIndexes?: BlindIndexDefinition[];
+}
+
+// Outcome of re-encrypting the stored data
+export interface ReencryptionResult {
+  keyId: number;
+  tables: { table: string; rows: number }[];
+}
@@ -0,0 +1,28 @@
+/**
+ * ICD-10 diagnosis code catalog types
+ */
+
+// A chapter of the classification and the categories it covers
+export interface Icd10Chapter {
+  chapter: number;
+  range: string; // e.g. "J00-J99"
+  title: string;
+}
+
+// A code as read from an import file
+export interface Icd10CodeInput {
+  code: string;
+  description: string;
+}
+
+// A code in the catalog
+export interface Icd10Code extends Icd10CodeInput {
+  chapter: number | null;
+  updatedAt: string;
+}
+
+// Result of importing a code file into the catalog
+export interface Icd10ImportResult {
+  imported: number;
+  total: number; // Codes in the catalog after the import
+}
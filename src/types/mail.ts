@@ -0,0 +1,28 @@
+/**
+ * Mail related types for the healthcare management system
+ */
+
+// Message handed to a mail transport
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Pluggable delivery mechanism for outgoing mail
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Message stored by the outbox transport
+export interface OutboxMessage {
+  id: string;
+  toAddress: string;
+  fromAddress: string;
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+  createdAt: string;
+}
@@ -101,51 +101,209 @@ export interface Attachment {
   updatedAt?: string;
 }
 
+// Allergy severities, from least to most severe
+export const ALLERGY_SEVERITIES = [
+  "mild",
+  "moderate",
+  "severe",
+  "life-threatening",
+] as const;
+
+export type AllergySeverity = (typeof ALLERGY_SEVERITIES)[number];
+
+export const ALLERGY_STATUSES = ["active", "inactive"] as const;
+
+export type AllergyStatus = (typeof ALLERGY_STATUSES)[number];
+
 // Allergy interface
 export interface Allergy {
   id?: number;
   patientId: number;
   allergen: string;
   reaction: string;
-  severity: "mild" | "moderate" | "severe" | "life-threatening";
-  status: "active" | "inactive";
+  severity: AllergySeverity;
+  status: AllergyStatus;
   onsetDate?: string;
   notes?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
-// Lab result interface
+// Allergy details supplied when recording or updating an allergy
+export type AllergyInput = Omit<
+  Allergy,
+  "id" | "patientId" | "createdAt" | "updatedAt"
+>;
+
+// Severities of a prescribing warning, from least to most severe. A major
+// warning must be overridden with a reason before the prescription is saved.
+export const INTERACTION_SEVERITIES = ["minor", "moderate", "major"] as const;
+
+export type InteractionSeverity = (typeof INTERACTION_SEVERITIES)[number];
+
+// Two drugs (or drug classes) that should not be prescribed together
+export interface DrugInteractionRule {
+  drugs: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+// Drugs to avoid for patients allergic to an allergen
+export interface DrugAllergyRule {
+  allergen: string;
+  drugs: string[];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+// Interaction knowledge base loaded from a bundled JSON file. Rules can name
+// a drug class from drugClasses in place of a single drug.
+export interface DrugKnowledgeBase {
+  drugClasses: Record<string, string[]>;
+  interactions: DrugInteractionRule[];
+  allergies: DrugAllergyRule[];
+}
+
+// A safety problem found when checking a new prescription
+export interface InteractionWarning {
+  type: "drug-allergy" | "drug-drug";
+  severity: InteractionSeverity;
+  medication: string; // The new prescription
+  conflictsWith: string; // The allergen or the other medication
+  description: string;
+  overridden: boolean; // An override reason was given for the medication
+}
+
+export const LAB_RESULT_STATUSES = [
+  "pending",
+  "completed",
+  "cancelled",
+] as const;
+
+export type LabResultStatus = (typeof LAB_RESULT_STATUSES)[number];
+
+// Where a numeric result falls against the test's reference range
+export type LabResultFlag = "low" | "normal" | "high";
+
+// Lab result interface - a pending result is an open lab order
 export interface LabResult {
   id?: number;
   medicalRecordId: number;
+  patientId?: number;
   testName: string;
   testCode?: string;
-  result: string;
+  result?: string;
   unit?: string;
   referenceRange?: string;
-  status: "pending" | "completed" | "cancelled";
+  criticalRange?: string; // Values outside this range are critical
+  status: LabResultStatus;
   abnormal: boolean;
-  performedAt: string;
+  flag?: LabResultFlag | null;
+  critical?: boolean;
+  performedAt?: string;
   performedBy?: string;
-  orderedBy?: number; // Doctor ID
+  orderedBy?: number; // User ID
+  resultedBy?: number; // User ID
   notes?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Test details supplied when ordering a lab
+export type LabOrderInput = Pick<
+  LabResult,
+  | "testName"
+  | "testCode"
+  | "unit"
+  | "referenceRange"
+  | "criticalRange"
+  | "notes"
+>;
+
+// Result details entered by lab staff. The range given with the result
+// replaces the one from the order.
+export type LabResultInput = Pick<
+  LabResult,
+  "unit" | "referenceRange" | "criticalRange" | "performedAt" | "performedBy"
+> & {
+  result: string;
+  critical?: boolean; // Mark critical even when no critical range applies
+  notes?: string;
+};
+
+// Filters for the lab worklist
+export interface LabWorklistFilters {
+  status?: LabResultStatus;
+  patientId?: number;
+  critical?: boolean;
+}
+
+// Filters and paging for the medical record list
+export interface MedicalRecordListFilters {
+  patientIds?: number[] | null; // Chart scope; null means every patient
+  doctorId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Filters for a medical record search
+export interface MedicalRecordSearchFilters {
+  patientIds?: number[] | null; // Chart scope; null means every patient
+  patientId?: number;
+  from?: string; // Visit date range
+  to?: string;
+}
+
+// A completed result on a test's trend
+export interface LabTrendPoint {
+  id: number;
+  medicalRecordId: number;
+  result: string;
+  value: number | null; // null when the result is not numeric
+  unit?: string;
+  referenceRange?: string;
+  flag?: LabResultFlag | null;
+  abnormal: boolean;
+  critical: boolean;
+  performedAt: string;
+}
+
+// A patient's completed results for one test, oldest first
+export interface LabTrend {
+  testCode: string;
+  testName: string;
+  points: LabTrendPoint[];
+  latest: LabTrendPoint | null;
+  direction: "rising" | "falling" | "stable" | null; // Last two numeric values
+}
+
+export const VISIT_TYPES = [
+  "initial",
+  "follow-up",
+  "emergency",
+  "routine",
+  "specialist",
+  "telehealth",
+] as const;
+
+export type VisitType = (typeof VISIT_TYPES)[number];
+
+// Signed and amended records can only change through an amendment
+export const MEDICAL_RECORD_STATUSES = [
+  "draft",
+  "completed",
+  "signed",
+  "amended",
+] as const;
+
+export type MedicalRecordStatus = (typeof MEDICAL_RECORD_STATUSES)[number];
+
 // Complete medical record interface
 export interface MedicalRecord {
   id?: number;
   patientId: number;
   doctorId: number;
-  visitType:
-    | "initial"
-    | "follow-up"
-    | "emergency"
-    | "routine"
-    | "specialist"
-    | "telehealth";
+  visitType: VisitType;
   visitDate: string;
   chiefComplaint: string;
   subjective?: string;
@@ -157,23 +315,52 @@ export interface MedicalRecord {
   treatment: Treatment;
   labResults?: LabResult[];
   attachments?: Attachment[];
-  status: "draft" | "completed" | "signed" | "amended";
+  status: MedicalRecordStatus;
+  signedAt?: string;
+  signedBy?: number; // User ID
   createdAt?: string;
   updatedAt?: string;
 }
 
-// Medical history interface
+export const PROBLEM_STATUSES = ["active", "resolved", "recurring"] as const;
+
+export type ProblemStatus = (typeof PROBLEM_STATUSES)[number];
+
+// Medical history interface - an entry on the patient's problem list
 export interface MedicalHistory {
   id?: number;
   patientId: number;
   condition: string;
+  icdCode?: string;
   diagnosedAt?: string;
-  status: "active" | "resolved" | "recurring";
+  status: ProblemStatus;
+  resolvedAt?: string;
+  resolvedBy?: number; // User ID
   notes?: string;
+  sourceDiagnosisId?: number; // Diagnosis the entry was created from
+  createdBy?: number; // User ID
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Problem list details supplied when adding or updating an entry
+export type MedicalHistoryInput = Pick<
+  MedicalHistory,
+  "condition" | "icdCode" | "diagnosedAt" | "status" | "resolvedAt" | "notes"
+>;
+
+// A condition diagnosed in the patient's medical records that is not on the
+// problem list, or that was resolved and has been diagnosed again since
+export interface ProblemSuggestion {
+  diagnosisId: number; // Most recent diagnosis of the condition
+  condition: string;
+  icdCode: string;
+  firstDiagnosedAt: string;
+  lastDiagnosedAt: string;
+  occurrences: number;
+  resolvedProblemId: number | null;
+}
+
 // Medical summary with patient information for UI display
 export interface MedicalRecordWithPatient extends MedicalRecord {
   patientName?: string;
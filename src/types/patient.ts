@@ -1,6 +1,7 @@
 /**
  * Patient related types for the healthcare management system
  */
+import { Allergy, MedicalHistory } from "./medicalRecord";
 
 // Base patient interface
 export interface Patient {
@@ -21,6 +22,7 @@ export interface Patient {
   insurancePolicyNumber: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string | null;
 }
 
 // Extended patient interface with computed properties for UI
@@ -30,6 +32,9 @@ export interface PatientWithMetadata extends Patient {
   medicalRecordCount?: number;
   appointmentCount?: number;
   lastVisit?: string | null;
+  activeAllergies?: Allergy[];
+  // Unresolved problems, only for users who may read the chart
+  activeProblems?: MedicalHistory[];
 }
 
 // Create patient request
@@ -84,24 +89,135 @@ export interface PatientListResponse {
     total: number;
     page?: number;
     limit?: number;
+    totalPages?: number;
   };
 }
 
 // Gender options
 export const GENDER_OPTIONS = ["male", "female", "other", "prefer not to say"];
 
+// Columns the patient list can be sorted by. Encrypted columns are left
+// out since the database cannot order them.
+export const PATIENT_SORT_COLUMNS = [
+  "id",
+  "firstName",
+  "lastName",
+  "dateOfBirth",
+  "gender",
+  "bloodType",
+  "insuranceProvider",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type PatientSortColumn = (typeof PATIENT_SORT_COLUMNS)[number];
+
 // Patient filter options
 export interface PatientFilterOptions {
   search?: string;
   gender?: string;
   ageMin?: number;
   ageMax?: number;
-  sortBy?: string;
+  bloodType?: string;
+  insuranceProvider?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  includeDeleted?: boolean;
+  sortBy?: PatientSortColumn;
   sortOrder?: "asc" | "desc";
   page?: number;
   limit?: number;
 }
 
+// Details that may identify an existing chart for the same person
+export type DuplicateMatchField =
+  | "name"
+  | "dateOfBirth"
+  | "contactNumber"
+  | "email"
+  | "insurancePolicyNumber";
+
+// An existing patient that may be the same person
+export interface DuplicateCandidate {
+  patient: Patient;
+  score: number;
+  matchedOn: DuplicateMatchField[];
+}
+
+// IDs of the rows a merge moved from the duplicate to the survivor
+export interface MergedRecords {
+  appointments: number[];
+  medical_records: number[];
+  invoices: number[];
+  patient_allergies: number[];
+  patient_problems: number[];
+  lab_results: number[];
+  patient_credits: number[];
+  // Care team assignments copied from the duplicate to the survivor
+  care_team_assignments: number[];
+  notifications: number[];
+  // Portal account whose notifications were moved, or whose link was moved
+  // when only the duplicate had one
+  notificationRecipientId: number | null;
+  portalUserId: number | null;
+}
+
+// A duplicate chart merged into a surviving chart
+export interface PatientMerge {
+  id: number;
+  survivorId: number;
+  duplicateId: number;
+  movedRecords: MergedRecords;
+  mergedBy: number | null;
+  mergedAt: string;
+  undoneAt: string | null;
+  undoneBy: number | null;
+}
+
+// Kinds of events on a patient's clinical timeline
+export type TimelineEntryType =
+  | "appointment"
+  | "visit"
+  | "diagnosis"
+  | "prescription"
+  | "invoice"
+  | "payment"
+  | "lab";
+
+export const TIMELINE_ENTRY_TYPES: TimelineEntryType[] = [
+  "appointment",
+  "visit",
+  "diagnosis",
+  "prescription",
+  "lab",
+  "invoice",
+  "payment",
+];
+
+// A single event on a patient's timeline
+export interface TimelineEntry {
+  type: TimelineEntryType;
+  id: string;
+  occurredAt: string;
+  title: string;
+  detail: string | null;
+  status: string | null;
+  amount: number | null;
+  staffName: string | null;
+  // Medical record a diagnosis, prescription or lab belongs to, appointment an
+  // invoice bills, or invoice a payment settles
+  relatedId: string | null;
+}
+
+// Timeline filter options
+export interface TimelineFilters {
+  types?: TimelineEntryType[];
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
 // Helper functions
 export const getPatientFullName = (patient: Patient): string => {
   return `${patient.firstName} ${patient.lastName}`;
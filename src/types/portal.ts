@@ -0,0 +1,50 @@
+/**
+ * Patient portal types - what a patient can see and change about themselves
+ */
+import { AppointmentType } from "./appointment";
+
+// Contact details a patient may update themselves
+export interface PortalContactUpdate {
+  contactNumber?: string;
+  email?: string;
+  address?: string;
+  emergencyContactName?: string;
+  emergencyContactNumber?: string;
+}
+
+// Appointment requested by a patient through the portal
+export interface PortalAppointmentRequest {
+  doctorId: string;
+  startTime: string;
+  endTime: string;
+  type: AppointmentType;
+  reason?: string;
+}
+
+// Patient-facing summary of a visit - clinical working notes are left out
+export interface VisitSummary {
+  id: number;
+  visitDate: string;
+  doctorName?: string;
+  chiefComplaint: string;
+  diagnoses: { code?: string; description?: string }[];
+  medications: {
+    name: string;
+    dosage: string;
+    frequency: string;
+    duration?: string;
+    instructions?: string;
+  }[];
+  instructions: string;
+  followUpRecommended: boolean;
+  followUpDate?: string | null;
+}
+
+// Contact fields a patient may change
+export const PORTAL_CONTACT_FIELDS: (keyof PortalContactUpdate)[] = [
+  "contactNumber",
+  "email",
+  "address",
+  "emergencyContactName",
+  "emergencyContactNumber",
+];
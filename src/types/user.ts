@@ -14,6 +14,11 @@ export interface User {
   role: string;
   permissions?: string[];
   staffId?: string;
+  patientId?: number | null; // Set for patient-portal accounts
+  disabledAt?: string | null;
+  passwordResetRequired?: boolean;
+  passwordChangedAt?: string | null;
+  passwordExpiresAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -42,5 +47,21 @@ export interface UpdateUserRequest {
   lastName?: string;
   role?: string;
   permissions?: string[];
+  staffId?: string | null;
+  patientId?: number | null;
+  disabledAt?: string | null;
+  passwordResetRequired?: boolean;
+  passwordExpiresAt?: string | null;
+}
+
+// Account status derived from disabledAt
+export type UserStatus = "active" | "disabled";
+
+// User list filter options (admin user management)
+export interface UserFilterOptions {
+  role?: string;
+  status?: UserStatus;
   staffId?: string;
+  patientId?: number;
+  search?: string;
 }
@@ -0,0 +1,82 @@
+import { AllergyInput, AllergySeverity } from "../types/medicalRecord";
+
+// Free-text entries that mean the patient has no known allergies
+const NO_ALLERGY_PATTERN =
+  /^(none|nil|n\/?a|nka|nkda|no known( drug)? allergies)$/i;
+
+// Words in a free-text reaction that indicate its severity, most severe first
+const SEVERITY_KEYWORDS: [RegExp, AllergySeverity][] = [
+  [/anaphyla|life[- ]threatening/i, "life-threatening"],
+  [/severe/i, "severe"],
+  [/mild/i, "mild"],
+  [/moderate/i, "moderate"],
+];
+
+/**
+ * Split free text on commas, semicolons and line breaks that are not inside
+ * parentheses
+ * @private
+ */
+const splitEntries = (text: string): string[] => {
+  const entries: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(depth - 1, 0);
+
+    if (depth === 0 && /[,;\n]/.test(char)) {
+      entries.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  entries.push(current);
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+};
+
+/**
+ * Parse a free-text allergy list such as "Penicillin (hives); Peanuts -
+ * anaphylaxis" into structured allergies. The reaction is taken from
+ * parentheses or after a dash or colon; severity is guessed from the
+ * reaction and defaults to moderate when nothing indicates it.
+ */
+export const parseAllergyText = (
+  text: string | null | undefined
+): AllergyInput[] => {
+  if (!text) return [];
+
+  const seen = new Set<string>();
+
+  return splitEntries(text)
+    .filter((entry) => !NO_ALLERGY_PATTERN.test(entry))
+    .map((entry) => {
+      const match =
+        entry.match(/^(.+?)\s*\((.*)\)$/) ||
+        entry.match(/^(.+?)\s+[-:]\s*(.+)$/) ||
+        entry.match(/^(.+?):\s*(.+)$/);
+      const allergen = (match ? match[1] : entry).trim();
+      const reaction = match ? match[2].trim() : "";
+      const severity =
+        SEVERITY_KEYWORDS.find(([pattern]) => pattern.test(reaction))?.[1] ||
+        "moderate";
+
+      return {
+        allergen,
+        reaction: reaction || "Unknown",
+        severity,
+        status: "active" as const,
+        notes: "Imported from the free-text allergy list",
+      };
+    })
+    .filter((allergy) => {
+      // Keep the first mention of an allergen listed more than once
+      const key = allergy.allergen.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,136 @@
+import {
+  CHARGE_CATEGORIES,
+  ChargeCategory,
+  ChargeMasterItemInput,
+} from "../types/chargeMaster";
+import { splitCsvLine } from "./csv";
+
+// CPT and HCPCS codes ("99213", "A4209") as well as in-house codes
+// ("LAB-CBC"): letters and digits, optionally joined by dots or dashes
+const CODE_PATTERN = /^[A-Z0-9]+([.-][A-Z0-9]+)*$/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalize a charge code to trimmed upper case, so "a4209" and "A4209" are
+ * the same code
+ */
+export const normalizeChargeCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+/**
+ * Check whether a code has the shape of a charge code
+ */
+export const isChargeCodeFormat = (code: string): boolean => {
+  const normalized = normalizeChargeCode(code);
+  return normalized.length <= 20 && CODE_PATTERN.test(normalized);
+};
+
+/**
+ * Check whether a catalog entry can be billed on a date (YYYY-MM-DD).
+ * Both ends of the active period are inclusive.
+ */
+export const isActiveOn = (
+  item: Pick<ChargeMasterItemInput, "activeFrom" | "activeTo">,
+  date: string
+): boolean =>
+  (!item.activeFrom || item.activeFrom <= date) &&
+  (!item.activeTo || item.activeTo >= date);
+
+/**
+ * Find what is wrong with a catalog entry
+ * @returns The problems found, empty when the entry is valid
+ */
+export const validateChargeMasterItem = (
+  item: ChargeMasterItemInput
+): string[] => {
+  const problems: string[] = [];
+
+  if (!isChargeCodeFormat(item.code)) {
+    problems.push(`"${item.code}" is not a valid charge code`);
+  }
+  if (!item.description.trim()) {
+    problems.push("description is required");
+  }
+  if (!CHARGE_CATEGORIES.includes(item.category)) {
+    problems.push(`category must be one of ${CHARGE_CATEGORIES.join(", ")}`);
+  }
+  if (!Number.isFinite(item.defaultPrice) || item.defaultPrice < 0) {
+    problems.push("default price must be a number of at least 0");
+  }
+  if (
+    !Number.isFinite(item.taxRate) ||
+    item.taxRate < 0 ||
+    item.taxRate > 100
+  ) {
+    problems.push("tax rate must be a percentage between 0 and 100");
+  }
+  for (const date of [item.activeFrom, item.activeTo]) {
+    if (date && (!DATE_PATTERN.test(date) || isNaN(Date.parse(date)))) {
+      problems.push(`"${date}" is not a valid YYYY-MM-DD date`);
+    }
+  }
+  if (item.activeFrom && item.activeTo && item.activeTo < item.activeFrom) {
+    problems.push("active to date cannot be before the active from date");
+  }
+
+  return problems;
+};
+
+/**
+ * Parse a charge master CSV. The header must name the code, description,
+ * category and defaultPrice columns; taxRate, activeFrom and activeTo are
+ * optional. Every row is checked so a file with one bad price is rejected
+ * as a whole rather than half imported.
+ * @returns The entries, and a message per invalid line ("line 4: ...")
+ */
+export const parseChargeMasterFile = (
+  content: string
+): { items: ChargeMasterItemInput[]; errors: string[] } => {
+  const lines = content.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim());
+  if (headerIndex === -1) return { items: [], errors: [] };
+
+  const header = splitCsvLine(lines[headerIndex]).map((field) =>
+    field.trim().toLowerCase()
+  );
+  const missing = ["code", "description", "category", "defaultprice"].filter(
+    (column) => !header.includes(column)
+  );
+  if (missing.length > 0) {
+    return {
+      items: [],
+      errors: [`header is missing the ${missing.join(", ")} column(s)`],
+    };
+  }
+
+  const items: ChargeMasterItemInput[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((line, index) => {
+    if (index <= headerIndex || !line.trim()) return;
+
+    const fields = splitCsvLine(line);
+    const field = (column: string): string =>
+      (fields[header.indexOf(column)] || "").trim();
+
+    const item: ChargeMasterItemInput = {
+      code: normalizeChargeCode(field("code")),
+      description: field("description"),
+      category: field("category").toLowerCase() as ChargeCategory,
+      defaultPrice: field("defaultprice") ? Number(field("defaultprice")) : NaN,
+      taxRate: field("taxrate") ? Number(field("taxrate")) : 0,
+      activeFrom: field("activefrom") || null,
+      activeTo: field("activeto") || null,
+    };
+
+    const problems = validateChargeMasterItem(item);
+    if (problems.length > 0) {
+      errors.push(`line ${index + 1}: ${problems.join("; ")}`);
+    } else {
+      items.push(item);
+    }
+  });
+
+  return { items, errors };
+};
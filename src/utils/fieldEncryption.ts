@@ -0,0 +1,272 @@
+import crypto from "crypto";
+import EncryptionKeyModel from "../models/EncryptionKey";
+import { logger } from "./logger";
+
+/*
+ * Envelope encryption for sensitive columns. Values are encrypted with
+ * AES-256-GCM under a random data key; data keys are stored in the
+ * encryption_keys table wrapped by the master key from DATA_ENCRYPTION_KEY.
+ *
+ * Encrypted values look like "enc:v1:<keyId>:<iv>:<tag>:<ciphertext>".
+ * Anything without that prefix is treated as legacy plaintext, so existing
+ * rows keep working until the key-rotation script encrypts them.
+ */
+
+// The development fallbacks below are public, so refuse to start without
+// real keys in production
+if (process.env.NODE_ENV === "production") {
+  const missingKeys = ["DATA_ENCRYPTION_KEY", "BLIND_INDEX_KEY"].filter(
+    (name) => !process.env[name]
+  );
+  if (missingKeys.length > 0) {
+    throw new Error(`${missingKeys.join(" and ")} must be set in production`);
+  }
+}
+
+// Master key that wraps the data keys, and the previous one while data keys
+// are being re-wrapped after it changed (overridable through the environment)
+const DATA_ENCRYPTION_KEY =
+  process.env.DATA_ENCRYPTION_KEY || "dev-only-data-encryption-key";
+const DATA_ENCRYPTION_KEY_PREVIOUS =
+  process.env.DATA_ENCRYPTION_KEY_PREVIOUS || "";
+
+// Key for the blind-index hashes that allow exact-match lookups
+const BLIND_INDEX_KEY =
+  process.env.BLIND_INDEX_KEY || "dev-only-blind-index-key";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+// Unwrapped data keys by ID
+const dataKeyCache = new Map<number, Buffer>();
+
+/**
+ * Derive a 256-bit key from a configured secret
+ * @private
+ */
+const deriveKey = (secret: string): Buffer =>
+  crypto.createHash("sha256").update(secret).digest();
+
+/**
+ * Identify a master key without revealing it
+ * @private
+ */
+const masterKeyIdOf = (secret: string): string =>
+  crypto
+    .createHash("sha256")
+    .update(`master-key-id:${secret}`)
+    .digest("hex")
+    .slice(0, 16);
+
+/**
+ * Encrypt a buffer as "<iv>:<tag>:<ciphertext>" in base64
+ * @private
+ */
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(":");
+};
+
+/**
+ * Decrypt a value produced by seal
+ * @private
+ */
+const open = (key: Buffer, sealed: string): Buffer => {
+  const [iv, tag, ciphertext] = sealed
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+/**
+ * Get the master key secret a data key was wrapped with
+ * @private
+ */
+const masterSecretFor = (masterKeyId: string): string => {
+  if (masterKeyId === masterKeyIdOf(DATA_ENCRYPTION_KEY)) {
+    return DATA_ENCRYPTION_KEY;
+  }
+
+  if (
+    DATA_ENCRYPTION_KEY_PREVIOUS &&
+    masterKeyId === masterKeyIdOf(DATA_ENCRYPTION_KEY_PREVIOUS)
+  ) {
+    return DATA_ENCRYPTION_KEY_PREVIOUS;
+  }
+
+  throw new Error(`No master key available for key ${masterKeyId}`);
+};
+
+/**
+ * Get an unwrapped data key by ID
+ * @private
+ */
+const getDataKey = (id: number): Buffer => {
+  const cached = dataKeyCache.get(id);
+  if (cached) return cached;
+
+  const row = EncryptionKeyModel.findById(id);
+  if (!row) {
+    throw new Error(`Encryption key ${id} not found`);
+  }
+
+  const key = open(deriveKey(masterSecretFor(row.masterKeyId)), row.wrappedKey);
+  dataKeyCache.set(id, key);
+  return key;
+};
+
+/**
+ * Generate a new data key and make it the active one
+ * @returns ID of the new key
+ */
+export const createDataKey = (): number => {
+  const key = crypto.randomBytes(32);
+  const row = EncryptionKeyModel.create(
+    seal(deriveKey(DATA_ENCRYPTION_KEY), key),
+    masterKeyIdOf(DATA_ENCRYPTION_KEY)
+  );
+
+  if (!row) {
+    throw new Error("Failed to create encryption key");
+  }
+
+  dataKeyCache.set(row.id, key);
+  return row.id;
+};
+
+/**
+ * Get the ID of the active data key, creating the first key on demand.
+ * The table is read on every call so a rotation done by the CLI is picked
+ * up by running servers.
+ * @private
+ */
+const getActiveKeyId = (): number => {
+  const active = EncryptionKeyModel.findActive();
+  return active ? active.id : createDataKey();
+};
+
+/**
+ * Re-wrap every data key under the current master key. Keys wrapped by the
+ * previous master key need DATA_ENCRYPTION_KEY_PREVIOUS to be set.
+ * @returns Number of keys re-wrapped
+ */
+export const rewrapDataKeys = (): number => {
+  const currentId = masterKeyIdOf(DATA_ENCRYPTION_KEY);
+  let count = 0;
+
+  for (const row of EncryptionKeyModel.findAll()) {
+    if (row.masterKeyId === currentId) continue;
+
+    const key = open(
+      deriveKey(masterSecretFor(row.masterKeyId)),
+      row.wrappedKey
+    );
+    if (
+      !EncryptionKeyModel.updateWrapping(
+        row.id,
+        seal(deriveKey(DATA_ENCRYPTION_KEY), key),
+        currentId
+      )
+    ) {
+      throw new Error(`Failed to re-wrap encryption key ${row.id}`);
+    }
+    count++;
+  }
+
+  dataKeyCache.clear();
+  return count;
+};
+
+/**
+ * Check whether a stored value is encrypted
+ */
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * Get the ID of the data key a stored value was encrypted with
+ */
+export const getValueKeyId = (value: string): number | null =>
+  isEncrypted(value)
+    ? Number(value.slice(ENCRYPTED_PREFIX.length).split(":")[0])
+    : null;
+
+/**
+ * Encrypt a value for storage. Empty values are stored as they are.
+ */
+export const encryptField = <T extends string | null | undefined>(
+  value: T
+): T | string => {
+  if (value === null || value === undefined || value === "") return value;
+  if (isEncrypted(value)) return value;
+
+  const keyId = getActiveKeyId();
+  return `${ENCRYPTED_PREFIX}${keyId}:${seal(
+    getDataKey(keyId),
+    Buffer.from(value, "utf8")
+  )}`;
+};
+
+/**
+ * Decrypt a stored value. Plaintext values are returned as they are.
+ */
+export const decryptField = <T extends string | null | undefined>(
+  value: T
+): T | string => {
+  if (!isEncrypted(value)) return value;
+
+  const [keyId, ...sealed] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  try {
+    return open(getDataKey(Number(keyId)), sealed.join(":")).toString("utf8");
+  } catch (error) {
+    logger.error(`Error decrypting value encrypted with key ${keyId}:`, error);
+    throw new Error("Failed to decrypt field");
+  }
+};
+
+/**
+ * Normalize an email address for blind indexing
+ */
+export const normalizeEmail = (value: string): string =>
+  value.trim().toLowerCase();
+
+/**
+ * Normalize a phone number for blind indexing - only the digits count
+ */
+export const normalizePhone = (value: string): string =>
+  value.replace(/\D/g, "");
+
+/**
+ * Normalize an identifier such as a policy number - case, spaces and
+ * punctuation are ignored
+ */
+export const normalizeIdentifier = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * Compute the blind index of a value: a keyed hash that supports
+ * exact-match lookups without storing the plaintext
+ * @param value Plaintext value
+ * @param normalize Normalization applied before hashing
+ */
+export const blindIndex = (
+  value: string | null | undefined,
+  normalize: (value: string) => string
+): string | null => {
+  const normalized = value ? normalize(value) : "";
+  if (!normalized) return null;
+
+  return crypto
+    .createHmac("sha256", BLIND_INDEX_KEY)
+    .update(normalized)
+    .digest("hex");
+};
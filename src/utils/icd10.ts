@@ -0,0 +1,173 @@
+import { Icd10Chapter, Icd10CodeInput } from "../types/icd10";
+import { splitCsvLine } from "./csv";
+
+// ICD-10-CM chapters by the range of three-character categories they cover
+export const ICD10_CHAPTERS: Icd10Chapter[] = [
+  {
+    chapter: 1,
+    range: "A00-B99",
+    title: "Certain infectious and parasitic diseases",
+  },
+  { chapter: 2, range: "C00-D49", title: "Neoplasms" },
+  {
+    chapter: 3,
+    range: "D50-D89",
+    title:
+      "Diseases of the blood and blood-forming organs and certain disorders involving the immune mechanism",
+  },
+  {
+    chapter: 4,
+    range: "E00-E89",
+    title: "Endocrine, nutritional and metabolic diseases",
+  },
+  {
+    chapter: 5,
+    range: "F01-F99",
+    title: "Mental, behavioral and neurodevelopmental disorders",
+  },
+  { chapter: 6, range: "G00-G99", title: "Diseases of the nervous system" },
+  { chapter: 7, range: "H00-H59", title: "Diseases of the eye and adnexa" },
+  {
+    chapter: 8,
+    range: "H60-H95",
+    title: "Diseases of the ear and mastoid process",
+  },
+  { chapter: 9, range: "I00-I99", title: "Diseases of the circulatory system" },
+  {
+    chapter: 10,
+    range: "J00-J99",
+    title: "Diseases of the respiratory system",
+  },
+  { chapter: 11, range: "K00-K95", title: "Diseases of the digestive system" },
+  {
+    chapter: 12,
+    range: "L00-L99",
+    title: "Diseases of the skin and subcutaneous tissue",
+  },
+  {
+    chapter: 13,
+    range: "M00-M99",
+    title: "Diseases of the musculoskeletal system and connective tissue",
+  },
+  {
+    chapter: 14,
+    range: "N00-N99",
+    title: "Diseases of the genitourinary system",
+  },
+  {
+    chapter: 15,
+    range: "O00-O9A",
+    title: "Pregnancy, childbirth and the puerperium",
+  },
+  {
+    chapter: 16,
+    range: "P00-P96",
+    title: "Certain conditions originating in the perinatal period",
+  },
+  {
+    chapter: 17,
+    range: "Q00-Q99",
+    title:
+      "Congenital malformations, deformations and chromosomal abnormalities",
+  },
+  {
+    chapter: 18,
+    range: "R00-R99",
+    title:
+      "Symptoms, signs and abnormal clinical and laboratory findings, not elsewhere classified",
+  },
+  {
+    chapter: 19,
+    range: "S00-T88",
+    title:
+      "Injury, poisoning and certain other consequences of external causes",
+  },
+  {
+    chapter: 20,
+    range: "V00-Y99",
+    title: "External causes of morbidity",
+  },
+  {
+    chapter: 21,
+    range: "Z00-Z99",
+    title: "Factors influencing health status and contact with health services",
+  },
+  { chapter: 22, range: "U00-U85", title: "Codes for special purposes" },
+];
+
+// A letter, two characters completing the category (the third may be "A" as
+// in O9A) and up to four more characters after an optional dot
+const CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+
+/**
+ * Normalize a code to upper case with a dot after the category, so "j069"
+ * and "J06.9" are the same code
+ */
+export const normalizeIcd10Code = (code: string): string => {
+  const compact = code.trim().toUpperCase().replace(".", "");
+  return compact.length > 3
+    ? `${compact.slice(0, 3)}.${compact.slice(3)}`
+    : compact;
+};
+
+/**
+ * Check whether a code has the shape of an ICD-10 code
+ */
+export const isIcd10Format = (code: string): boolean =>
+  CODE_PATTERN.test(code.trim().toUpperCase());
+
+/**
+ * Find the chapter a code belongs to
+ * @returns null when the code is not in any chapter, e.g. a malformed code
+ */
+export const getIcd10Chapter = (code: string): Icd10Chapter | null => {
+  if (!isIcd10Format(code)) return null;
+
+  const category = normalizeIcd10Code(code).slice(0, 3);
+  return (
+    ICD10_CHAPTERS.find(({ range }) => {
+      const [first, last] = range.split("-");
+      return category >= first && category <= last;
+    }) || null
+  );
+};
+
+/**
+ * Parse an ICD-10 code file. Two formats are read:
+ * - CSV with a "code,description" header (extra columns are ignored)
+ * - The CMS code list (icd10cm_codes_YYYY.txt): a code, spaces and the
+ *   description on each line
+ * Lines that do not hold a well-formed code are skipped.
+ */
+export const parseIcd10File = (content: string): Icd10CodeInput[] => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map((field) =>
+    field.trim().toLowerCase()
+  );
+  const isCsv = header.includes("code") && header.includes("description");
+
+  const rows = isCsv
+    ? lines.slice(1).map((line) => {
+        const fields = splitCsvLine(line);
+        return {
+          code: fields[header.indexOf("code")] || "",
+          description: fields[header.indexOf("description")] || "",
+        };
+      })
+    : lines.map((line) => {
+        const [, code = "", description = ""] =
+          line.trim().match(/^(\S+)\s+(.*)$/) || [];
+        return { code, description };
+      });
+
+  return rows
+    .filter(
+      ({ code, description }) => isIcd10Format(code) && description.trim()
+    )
+    .map(({ code, description }) => ({
+      code: normalizeIcd10Code(code),
+      description: description.trim(),
+    }));
+};
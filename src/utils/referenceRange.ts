@@ -0,0 +1,121 @@
+import { LabResultFlag } from "../types/medicalRecord";
+
+// Bounds of a numeric range; a missing bound is open
+interface NumericRange {
+  low: number | null;
+  high: number | null;
+  lowInclusive: boolean;
+  highInclusive: boolean;
+}
+
+const NUMBER = "([-+]?\\d*\\.?\\d+)";
+
+// "3.5-5.0", "3.5 – 5.0 mmol/L", "70 to 110"
+const BETWEEN_PATTERN = new RegExp(
+  `^\\s*${NUMBER}\\s*(?:-|–|—|to)\\s*${NUMBER}`,
+  "i"
+);
+
+// "<200", "<= 5.6", "≥ 60", "> 40 mg/dL"
+const BOUND_PATTERN = new RegExp(`^\\s*(<=|>=|<|>|≤|≥)\\s*${NUMBER}`);
+
+// A result is numeric when it starts with a number, optionally qualified by
+// a comparison as in "<0.01" or "> 1000"
+const RESULT_PATTERN = new RegExp(`^\\s*(?:<=|>=|<|>|≤|≥)?\\s*${NUMBER}`);
+
+/**
+ * Parse a range such as "3.5-5.0", "<200" or ">= 60" into numeric bounds.
+ * Anything after the numbers, such as a unit, is ignored.
+ * @returns null when the range has no numeric form, e.g. "Negative"
+ */
+export const parseRange = (
+  range: string | null | undefined
+): NumericRange | null => {
+  if (!range) return null;
+
+  const between = range.match(BETWEEN_PATTERN);
+  if (between) {
+    const [a, b] = [parseFloat(between[1]), parseFloat(between[2])];
+    return {
+      low: Math.min(a, b),
+      high: Math.max(a, b),
+      lowInclusive: true,
+      highInclusive: true,
+    };
+  }
+
+  const bound = range.match(BOUND_PATTERN);
+  if (bound) {
+    const [operator, value] = [bound[1], parseFloat(bound[2])];
+    const inclusive = ["<=", ">=", "≤", "≥"].includes(operator);
+
+    return operator.startsWith("<") || operator === "≤"
+      ? { low: null, high: value, lowInclusive: true, highInclusive: inclusive }
+      : {
+          low: value,
+          high: null,
+          lowInclusive: inclusive,
+          highInclusive: true,
+        };
+  }
+
+  return null;
+};
+
+/**
+ * Get the numeric value of a result, or null when it is not numeric
+ */
+export const parseNumericResult = (
+  result: string | null | undefined
+): number | null => {
+  const match = result?.match(RESULT_PATTERN);
+  return match ? parseFloat(match[1]) : null;
+};
+
+/**
+ * Compare a value with a range
+ * @private
+ */
+const compare = (value: number, range: NumericRange): LabResultFlag => {
+  if (
+    range.low !== null &&
+    (range.lowInclusive ? value < range.low : value <= range.low)
+  ) {
+    return "low";
+  }
+
+  if (
+    range.high !== null &&
+    (range.highInclusive ? value > range.high : value >= range.high)
+  ) {
+    return "high";
+  }
+
+  return "normal";
+};
+
+/**
+ * Flag a result against its reference range
+ * @returns null when the result or range is not numeric
+ */
+export const flagResult = (
+  result: string | null | undefined,
+  referenceRange: string | null | undefined
+): LabResultFlag | null => {
+  const value = parseNumericResult(result);
+  const range = parseRange(referenceRange);
+
+  return value === null || range === null ? null : compare(value, range);
+};
+
+/**
+ * Check whether a result falls outside its critical range, the limits
+ * beyond which the ordering clinician must be told straight away
+ */
+export const isOutsideRange = (
+  result: string | null | undefined,
+  range: string | null | undefined
+): boolean => {
+  const flag = flagResult(result, range);
+  return flag === "low" || flag === "high";
+};
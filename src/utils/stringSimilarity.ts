@@ -0,0 +1,43 @@
+/**
+ * Levenshtein edit distance between two strings
+ * @private
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Normalize a name for comparison: case, accents and punctuation are ignored
+ */
+export const normalizeName = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Similarity of two strings from 0 (nothing in common) to 1 (identical)
+ */
+export const similarity = (a: string, b: string): number => {
+  if (!a && !b) return 1;
+
+  const longest = Math.max(a.length, b.length);
+  return 1 - editDistance(a, b) / longest;
+};
@@ -1,4 +1,5 @@
 import jwt, { Secret, SignOptions, VerifyOptions } from "jsonwebtoken";
+import crypto from "crypto";
 import { env } from "../config/env";
 
 export interface TokenPayload {
@@ -10,12 +11,19 @@ export interface TokenPayload {
 /**
  * Generate a JWT token
  * @param payload Data to encode in the token
+ * @param tokenId Session ID to store as the jti claim
  * @returns JWT token string
  */
-export const generateToken = (payload: TokenPayload): string => {
+export const generateToken = (
+  payload: TokenPayload,
+  tokenId?: string
+): string => {
   const secret: Secret = env.JWT_SECRET;
 
   const options: SignOptions = { expiresIn: "24h" };
+  if (tokenId) {
+    options.jwtid = tokenId;
+  }
 
   return jwt.sign(payload, secret, options);
 };
@@ -34,41 +42,52 @@ export const verifyToken = (token: string): TokenPayload | null => {
   }
 };
 
+export interface RefreshTokenPayload {
+  userId: number;
+  jti: string;
+  familyId: string;
+  exp: number;
+}
+
 /**
- * Generate a reset password token (with special expiration)
- * @param userId User ID for password reset
+ * Generate a refresh token with longer expiration
+ * @param userId User ID for refresh token
+ * @param tokenId Unique token ID (stored as the jti claim)
+ * @param familyId Rotation family the token belongs to
  * @returns JWT token string
  */
-export const generateResetToken = (userId: number, email: string): string => {
+export const generateRefreshToken = (
+  userId: number,
+  tokenId: string,
+  familyId: string
+): string => {
   const secret: Secret = env.JWT_SECRET;
-  const options: SignOptions = { expiresIn: "1h" };
+  const options: SignOptions = { expiresIn: "7d", jwtid: tokenId };
 
-  return jwt.sign(
-    { userId, email, purpose: "password-reset" },
-    secret,
-    options
-  );
+  return jwt.sign({ userId, familyId, type: "refresh" }, secret, options);
 };
 
 /**
- * Verify a reset password token
- * @param token Reset token to verify
- * @returns The user ID from the token or null if invalid
+ * Verify a refresh token
+ * @param token Refresh token to verify
+ * @returns The decoded refresh token claims or null if invalid
  */
-export const verifyResetToken = (
+export const verifyRefreshToken = (
   token: string
-): { userId: number; email: string } | null => {
+): RefreshTokenPayload | null => {
   try {
     const secret: Secret = env.JWT_SECRET;
     const decoded = jwt.verify(token, secret) as any;
 
-    if (decoded.purpose !== "password-reset") {
+    if (decoded.type !== "refresh" || !decoded.jti || !decoded.familyId) {
       return null;
     }
 
     return {
       userId: decoded.userId,
-      email: decoded.email,
+      jti: decoded.jti,
+      familyId: decoded.familyId,
+      exp: decoded.exp,
     };
   } catch (error) {
     return null;
@@ -76,32 +95,44 @@ export const verifyResetToken = (
 };
 
 /**
- * Generate a refresh token with longer expiration
- * @param userId User ID for refresh token
+ * Hash a token for storage so the raw value never touches the database
+ * @param token Token to hash
+ * @returns Hex-encoded SHA-256 digest
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/**
+ * Generate a short-lived token identifying a user who has passed the password
+ * step of login but still has to complete MFA
+ * @param userId User ID
  * @returns JWT token string
  */
-export const generateRefreshToken = (userId: number): string => {
+export const generateMfaChallengeToken = (userId: number): string => {
   const secret: Secret = env.JWT_SECRET;
-  const options: SignOptions = { expiresIn: "7d" };
+  const options: SignOptions = { expiresIn: "5m" };
 
-  return jwt.sign({ userId, type: "refresh" }, secret, options);
+  return jwt.sign({ userId, purpose: "mfa-challenge" }, secret, options);
 };
 
 /**
- * Verify a refresh token
- * @param token Refresh token to verify
+ * Verify an MFA challenge token
+ * @param token Challenge token to verify
  * @returns The user ID from the token or null if invalid
  */
-export const verifyRefreshToken = (token: string): number | null => {
+export const verifyMfaChallengeToken = (
+  token: string
+): { userId: number } | null => {
   try {
     const secret: Secret = env.JWT_SECRET;
     const decoded = jwt.verify(token, secret) as any;
 
-    if (decoded.type !== "refresh") {
+    if (decoded.purpose !== "mfa-challenge" || !decoded.userId) {
       return null;
     }
 
-    return decoded.userId;
+    return { userId: decoded.userId };
   } catch (error) {
     return null;
   }
@@ -0,0 +1,38 @@
+import request from "supertest";
+import app from "../../src/app";
+
+export interface TestCredentials {
+  email: string;
+  password: string;
+}
+
+// Accounts created by the user seed
+export const SEED_USERS = {
+  admin: { email: "admin@healthcare.com", password: "admin123" },
+  doctor: { email: "doctor@healthcare.com", password: "doctor123" },
+  nurse: { email: "nurse@healthcare.com", password: "nurse123" },
+  reception: { email: "reception@healthcare.com", password: "reception123" },
+};
+
+// Staff record of the seeded doctor
+export const SEED_DOCTOR_STAFF_ID = "STAFF-001";
+
+/**
+ * Log in through the API
+ */
+export const login = (credentials: TestCredentials) =>
+  request(app).post("/api/auth/login").send(credentials);
+
+/**
+ * Log in and build the Authorization header for later requests
+ */
+export const authHeader = async (
+  credentials: TestCredentials
+): Promise<{ Authorization: string }> => {
+  const response = await login(credentials);
+  if (response.status !== 200 || !response.body.data?.token) {
+    throw new Error(`Login failed for ${credentials.email}`);
+  }
+
+  return { Authorization: `Bearer ${response.body.data.token}` };
+};
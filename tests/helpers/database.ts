@@ -0,0 +1,44 @@
+import fs from "fs";
+import db from "../../src/config/database";
+import { env } from "../../src/config/env";
+import { runMigrations } from "../../src/db/migrations";
+import { runSeeds } from "../../src/db/seeds";
+
+/**
+ * Create the schema and seed data in the test file's database
+ */
+export const setupTestDatabase = async (): Promise<void> => {
+  runMigrations();
+  await runSeeds(true);
+};
+
+/**
+ * Close the test file's database and delete it
+ */
+export const closeTestDatabase = (): void => {
+  db.close();
+  for (const suffix of ["", "-wal", "-shm", "-journal"]) {
+    fs.rmSync(`${env.DB_PATH}${suffix}`, { force: true });
+  }
+};
+
+export { db };
+
+/**
+ * Insert a draft medical record, since the seeded visits are random
+ */
+export const insertMedicalRecord = (
+  patientId: number,
+  doctorId: string
+): number => {
+  const now = new Date().toISOString();
+  return Number(
+    db
+      .prepare(
+        `INSERT INTO medical_records
+           (patientId, doctorId, visitDate, chiefComplaint, createdAt, updatedAt)
+         VALUES (?, ?, ?, 'Persistent cough', ?, ?)`
+      )
+      .run(patientId, doctorId, now, now, now).lastInsertRowid
+  );
+};
@@ -0,0 +1,125 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, SEED_DOCTOR_STAFF_ID, SEED_USERS } from "../helpers/auth";
+
+describe("Allergy registry", () => {
+  let doctor: { Authorization: string };
+  let reception: { Authorization: string };
+  let teamPatientId: number;
+  let outsidePatientId: number;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    doctor = await authHeader(SEED_USERS.doctor);
+    reception = await authHeader(SEED_USERS.reception);
+
+    teamPatientId = (
+      db
+        .prepare(
+          "SELECT patientId FROM care_team_assignments WHERE staffId = ? LIMIT 1"
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { patientId: number }
+    ).patientId;
+    outsidePatientId = (
+      db
+        .prepare(
+          `SELECT id FROM patients
+           WHERE id NOT IN (
+             SELECT patientId FROM care_team_assignments WHERE staffId = ?
+           )
+           LIMIT 1`
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { id: number }
+    ).id;
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  const allergiesPath = (patientId: number) =>
+    `/api/patients/${patientId}/allergies`;
+
+  it("records, updates and deletes a patient's allergies", async () => {
+    const created = await request(app)
+      .post(allergiesPath(teamPatientId))
+      .set(doctor)
+      .send({ allergen: "Sulfamethoxazole", reaction: "Hives" });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({
+      allergen: "Sulfamethoxazole",
+      severity: "moderate",
+      status: "active",
+    });
+    const allergyId = created.body.data.id;
+
+    const updated = await request(app)
+      .put(`${allergiesPath(teamPatientId)}/${allergyId}`)
+      .set(doctor)
+      .send({ severity: "severe" });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.severity).toBe("severe");
+
+    const removed = await request(app)
+      .delete(`${allergiesPath(teamPatientId)}/${allergyId}`)
+      .set(doctor);
+    const missing = await request(app)
+      .put(`${allergiesPath(teamPatientId)}/${allergyId}`)
+      .set(doctor)
+      .send({ severity: "mild" });
+
+    expect(removed.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+
+  it("refuses a second active allergy to the same allergen", async () => {
+    const first = await request(app)
+      .post(allergiesPath(teamPatientId))
+      .set(doctor)
+      .send({ allergen: "Latex", reaction: "Rash" });
+    const second = await request(app)
+      .post(allergiesPath(teamPatientId))
+      .set(doctor)
+      .send({ allergen: " latex ", reaction: "Itching" });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(400);
+  });
+
+  it("includes the active allergies and history in the chart of a care team patient", async () => {
+    const response = await request(app)
+      .get(`/api/patients/${teamPatientId}`)
+      .set(doctor);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveProperty("allergies");
+    expect(response.body.data).toHaveProperty("medicalHistory");
+    expect(
+      response.body.data.activeAllergies.map(
+        (allergy: { allergen: string }) => allergy.allergen
+      )
+    ).toContain("Latex");
+  });
+
+  it("leaves the free-text allergies and history out for users who may not read the chart", async () => {
+    const responses = [
+      await request(app).get(`/api/patients/${teamPatientId}`).set(reception),
+      await request(app).get(`/api/patients/${outsidePatientId}`).set(doctor),
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect(response.body.data.firstName).toEqual(expect.any(String));
+      for (const field of [
+        "allergies",
+        "medicalHistory",
+        "activeAllergies",
+        "activeProblems",
+      ]) {
+        expect(response.body.data).not.toHaveProperty(field);
+      }
+    }
+  });
+});
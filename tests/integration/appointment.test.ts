@@ -0,0 +1,118 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, SEED_USERS } from "../helpers/auth";
+
+/**
+ * Audit entries are written once the response has been sent
+ */
+const waitForAudit = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+/**
+ * Get the audit entries written for a request path since an entry ID
+ */
+const auditEntriesSince = (id: number, path: string) =>
+  db
+    .prepare(
+      "SELECT patientId, resourceType, action FROM audit_log WHERE id > ? AND path = ?"
+    )
+    .all(id, path) as {
+    patientId: number | null;
+    resourceType: string;
+    action: string;
+  }[];
+
+const lastAuditId = (): number =>
+  (
+    db.prepare("SELECT COALESCE(MAX(id), 0) as id FROM audit_log").get() as {
+      id: number;
+    }
+  ).id;
+
+describe("Appointments API", () => {
+  let admin: { Authorization: string };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("audits reading an appointment against its patient", async () => {
+    const appointment = db
+      .prepare("SELECT id, patientId FROM appointments LIMIT 1")
+      .get() as { id: number; patientId: number };
+    const since = lastAuditId();
+
+    const response = await request(app)
+      .get(`/api/appointments/${appointment.id}`)
+      .set(admin);
+    await waitForAudit();
+
+    expect(response.status).toBe(200);
+    expect(
+      auditEntriesSince(since, `/api/appointments/${appointment.id}`)
+    ).toEqual([
+      {
+        patientId: appointment.patientId,
+        resourceType: "appointment",
+        action: "read",
+      },
+    ]);
+  });
+
+  it("audits a list once for each patient it returned", async () => {
+    const since = lastAuditId();
+
+    const response = await request(app).get("/api/appointments").set(admin);
+    await waitForAudit();
+
+    const listed = new Set(
+      response.body.data.map(
+        (appointment: { patientId: number }) => appointment.patientId
+      )
+    );
+    const audited = auditEntriesSince(since, "/api/appointments").map(
+      (entry) => entry.patientId
+    );
+
+    expect(response.status).toBe(200);
+    expect(listed.size).toBeGreaterThan(1);
+    expect(new Set(audited)).toEqual(listed);
+    expect(audited).toHaveLength(listed.size);
+  });
+
+  it("includes list reads in the patient's access report", async () => {
+    const { patientId } = db
+      .prepare("SELECT patientId FROM appointments LIMIT 1")
+      .get() as { patientId: number };
+
+    await request(app).get("/api/appointments").set(admin);
+    await waitForAudit();
+
+    const report = await request(app)
+      .get(`/api/audit/patients/${patientId}/access`)
+      .set(admin);
+
+    expect(report.status).toBe(200);
+    expect(report.body.data).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          resourceType: "appointment",
+          action: "read",
+        }),
+      ])
+    );
+  });
+
+  it("returns 404 for an unknown appointment", async () => {
+    const response = await request(app)
+      .get("/api/appointments/99999")
+      .set(admin);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,73 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, setupTestDatabase } from "../helpers/database";
+import { login, SEED_USERS } from "../helpers/auth";
+
+describe("Auth API", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe("POST /api/auth/login", () => {
+    it("returns an access and refresh token without the password hash", async () => {
+      const response = await login(SEED_USERS.admin);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.token).toEqual(expect.any(String));
+      expect(response.body.data.refreshToken).toEqual(expect.any(String));
+      expect(response.body.data.user.email).toBe(SEED_USERS.admin.email);
+      expect(response.body.data.user.password).toBeUndefined();
+    });
+
+    it("rejects a wrong password", async () => {
+      const response = await login({
+        email: SEED_USERS.admin.email,
+        password: "wrong-password",
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe("Invalid credentials");
+    });
+
+    it("requires an email and password", async () => {
+      const response = await login({
+        email: SEED_USERS.admin.email,
+        password: "",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/auth/refresh", () => {
+    it("rotates the refresh token and revokes the session when an old one is replayed", async () => {
+      const first = (await login(SEED_USERS.admin)).body.data.refreshToken;
+
+      const rotated = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: first });
+      expect(rotated.status).toBe(200);
+      expect(rotated.body.data.refreshToken).not.toBe(first);
+
+      const replayed = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: first });
+      expect(replayed.status).toBe(401);
+
+      // The replay revoked the whole session, including the newest tokens
+      const afterReplay = await request(app)
+        .post("/api/auth/refresh")
+        .send({ refreshToken: rotated.body.data.refreshToken });
+      expect(afterReplay.status).toBe(401);
+
+      const me = await request(app)
+        .get("/api/auth/me")
+        .set("Authorization", `Bearer ${rotated.body.data.token}`);
+      expect(me.status).toBe(401);
+    });
+  });
+});
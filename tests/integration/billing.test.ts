@@ -0,0 +1,156 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, SEED_USERS } from "../helpers/auth";
+
+describe("Invoice payments", () => {
+  let reception: { Authorization: string };
+  let patientId: number;
+
+  /**
+   * Create a sent invoice for a single item
+   */
+  const createInvoice = async (amount: number): Promise<string> => {
+    const response = await request(app)
+      .post("/api/billing/invoices")
+      .set(reception)
+      .send({
+        patientId,
+        dueDate: "2099-12-01",
+        status: "sent",
+        items: [
+          { description: "Consultation", quantity: 1, unitPrice: amount },
+        ],
+      });
+    expect(response.status).toBe(201);
+
+    return response.body.data.id;
+  };
+
+  const getInvoice = (id: string) =>
+    db
+      .prepare("SELECT amountPaid, balance, status FROM invoices WHERE id = ?")
+      .get(id) as { amountPaid: number; balance: number; status: string };
+
+  const pay = (body: Record<string, unknown>, idempotencyKey?: string) => {
+    const call = request(app).post("/api/billing/payments").set(reception);
+    if (idempotencyKey) call.set("Idempotency-Key", idempotencyKey);
+    return call.send({ paymentMethod: "cash", ...body });
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    reception = await authHeader(SEED_USERS.reception);
+    patientId = (
+      db.prepare("SELECT id FROM patients LIMIT 1").get() as {
+        id: number;
+      }
+    ).id;
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("applies concurrent payments without losing any or overpaying", async () => {
+    const invoiceId = await createInvoice(100);
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => pay({ invoiceId, amount: 40 }))
+    );
+
+    // Two payments fit in the balance; the third would overpay
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      201, 201, 400,
+    ]);
+    expect(getInvoice(invoiceId)).toEqual({
+      amountPaid: 80,
+      balance: 20,
+      status: "partially_paid",
+    });
+  });
+
+  it("records a payment once when it is retried with the same Idempotency-Key", async () => {
+    const invoiceId = await createInvoice(50);
+
+    const first = await pay({ invoiceId, amount: 10 }, "retry-key");
+    const retried = await pay({ invoiceId, amount: 10 }, "retry-key");
+
+    expect(first.status).toBe(201);
+    expect(retried.status).toBe(200);
+    expect(retried.body.data.id).toBe(first.body.data.id);
+    expect(getInvoice(invoiceId).amountPaid).toBe(10);
+  });
+
+  it("refuses to reuse an Idempotency-Key for a different payment", async () => {
+    const invoiceId = await createInvoice(50);
+    await pay({ invoiceId, amount: 10 }, "reused-key");
+
+    const response = await pay({ invoiceId, amount: 20 }, "reused-key");
+
+    expect(response.status).toBe(409);
+    expect(getInvoice(invoiceId).amountPaid).toBe(10);
+  });
+
+  it("keeps an overpayment as patient credit when asked to", async () => {
+    const invoiceId = await createInvoice(30);
+    const creditBefore = (
+      await request(app)
+        .get(`/api/billing/patients/${patientId}/credit`)
+        .set(reception)
+    ).body.data.balance;
+
+    const response = await pay({
+      invoiceId,
+      amount: 45,
+      overpayment: "credit",
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.creditedAmount).toBe(15);
+    expect(getInvoice(invoiceId)).toEqual({
+      amountPaid: 30,
+      balance: 0,
+      status: "paid",
+    });
+
+    const credit = await request(app)
+      .get(`/api/billing/patients/${patientId}/credit`)
+      .set(reception);
+    expect(credit.body.data.balance).toBe(creditBefore + 15);
+  });
+
+  it("refuses payments on cancelled invoices", async () => {
+    const invoiceId = await createInvoice(20);
+    await request(app)
+      .put(`/api/billing/invoices/${invoiceId}`)
+      .set(reception)
+      .send({ status: "cancelled" });
+
+    const response = await pay({ invoiceId, amount: 5 });
+
+    expect(response.status).toBe(409);
+    expect(getInvoice(invoiceId).amountPaid).toBe(0);
+  });
+
+  it("does not let invoice status or totals be set directly", async () => {
+    const create = await request(app)
+      .post("/api/billing/invoices")
+      .set(reception)
+      .send({
+        patientId,
+        dueDate: "2099-12-01",
+        status: "paid",
+        items: [{ description: "Consultation", quantity: 1, unitPrice: 10 }],
+      });
+    expect(create.status).toBe(400);
+
+    const invoiceId = await createInvoice(10);
+    const update = await request(app)
+      .put(`/api/billing/invoices/${invoiceId}`)
+      .set(reception)
+      .send({ status: "paid" });
+    expect(update.status).toBe(400);
+    expect(getInvoice(invoiceId).status).toBe("sent");
+  });
+});
@@ -0,0 +1,77 @@
+import request from "supertest";
+import app from "../../src/app";
+import { up as fieldEncryptionMigration } from "../../src/db/migrations/012_field_encryption";
+import { isEncrypted } from "../../src/utils/fieldEncryption";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, SEED_USERS } from "../helpers/auth";
+
+describe("Field-level encryption", () => {
+  let admin: { Authorization: string };
+  let patientId: number;
+
+  const searchIds = async (q: string): Promise<number[]> => {
+    const response = await request(app)
+      .get("/api/patients/search")
+      .query({ q })
+      .set(admin);
+    expect(response.status).toBe(200);
+    return response.body.data.map((patient: { id: number }) => patient.id);
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+
+    const created = await request(app).post("/api/patients").set(admin).send({
+      firstName: "Marta",
+      lastName: "Quintero",
+      dateOfBirth: "1984-03-09",
+      gender: "female",
+      email: "Marta.Quintero@example.com",
+      contactNumber: "(555) 010-7788",
+      ignoreDuplicates: true,
+    });
+    expect(created.status).toBe(201);
+    patientId = created.body.data.id;
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("stores contact details encrypted and returns them decrypted", async () => {
+    const row = db
+      .prepare("SELECT email, contactNumber FROM patients WHERE id = ?")
+      .get(patientId) as { email: string; contactNumber: string };
+
+    expect(isEncrypted(row.email)).toBe(true);
+    expect(isEncrypted(row.contactNumber)).toBe(true);
+
+    const response = await request(app)
+      .get(`/api/patients/${patientId}`)
+      .set(admin);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.email).toBe("Marta.Quintero@example.com");
+    expect(response.body.data.contactNumber).toBe("(555) 010-7788");
+  });
+
+  it("finds patients by normalized email and phone through the blind indexes", async () => {
+    expect(await searchIds("marta.quintero@EXAMPLE.com")).toContain(patientId);
+    expect(await searchIds("555-010-7788")).toContain(patientId);
+  });
+
+  it("backfills the blind indexes of patients stored before they existed", async () => {
+    db.prepare(
+      "UPDATE patients SET emailIndex = NULL, contactNumberIndex = NULL WHERE id = ?"
+    ).run(patientId);
+    expect(await searchIds("marta.quintero@example.com")).not.toContain(
+      patientId
+    );
+
+    fieldEncryptionMigration();
+
+    expect(await searchIds("marta.quintero@example.com")).toContain(patientId);
+    expect(await searchIds("5550107788")).toContain(patientId);
+  });
+});
@@ -0,0 +1,46 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, login, SEED_USERS } from "../helpers/auth";
+
+describe("Login throttling", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe("POST /api/auth/login", () => {
+    it("locks the account after repeated failures, even for the right password", async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const response = await login({
+          email: SEED_USERS.reception.email,
+          password: "wrong-password",
+        });
+        expect(response.status).toBe(401);
+      }
+
+      const locked = await login(SEED_USERS.reception);
+
+      expect(locked.status).toBe(429);
+      expect(Number(locked.headers["retry-after"])).toBeGreaterThan(0);
+    });
+  });
+
+  describe("PUT /api/users/:id/unlock", () => {
+    it("lets an admin lift the lockout", async () => {
+      const user = db
+        .prepare("SELECT id FROM users WHERE email = ?")
+        .get(SEED_USERS.reception.email) as { id: number };
+
+      const unlocked = await request(app)
+        .put(`/api/users/${user.id}/unlock`)
+        .set(await authHeader(SEED_USERS.admin));
+      expect(unlocked.status).toBe(200);
+
+      expect((await login(SEED_USERS.reception)).status).toBe(200);
+    });
+  });
+});
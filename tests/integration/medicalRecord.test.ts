@@ -0,0 +1,133 @@
+import request from "supertest";
+import app from "../../src/app";
+import {
+  closeTestDatabase,
+  db,
+  insertMedicalRecord,
+  setupTestDatabase,
+} from "../helpers/database";
+import { authHeader, SEED_DOCTOR_STAFF_ID, SEED_USERS } from "../helpers/auth";
+
+describe("Medical record lifecycle", () => {
+  let admin: { Authorization: string };
+  let doctor: { Authorization: string };
+  let recordId: number;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+    doctor = await authHeader(SEED_USERS.doctor);
+
+    // A draft written by the seeded doctor for a patient on their care team
+    const { patientId } = db
+      .prepare(
+        "SELECT patientId FROM care_team_assignments WHERE staffId = ? LIMIT 1"
+      )
+      .get(SEED_DOCTOR_STAFF_ID) as { patientId: number };
+    recordId = insertMedicalRecord(patientId, SEED_DOCTOR_STAFF_ID);
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("lets the doctor edit a draft", async () => {
+    const response = await request(app)
+      .put(`/api/medical-records/${recordId}`)
+      .set(doctor)
+      .send({ plan: "Fluids and rest" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.plan).toBe("Fluids and rest");
+  });
+
+  it("refuses amendments to a record that is not signed", async () => {
+    const response = await request(app)
+      .post(`/api/medical-records/${recordId}/amendments`)
+      .set(doctor)
+      .send({ reason: "Too early", plan: "Changed" });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("only lets the record's own doctor sign it", async () => {
+    const response = await request(app)
+      .post(`/api/medical-records/${recordId}/sign`)
+      .set(admin);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("signs the record", async () => {
+    const response = await request(app)
+      .post(`/api/medical-records/${recordId}/sign`)
+      .set(doctor);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.status).toBe("signed");
+    expect(response.body.data.signedAt).toEqual(expect.any(String));
+  });
+
+  it("locks a signed record against edits, deletes and attachments", async () => {
+    const update = await request(app)
+      .put(`/api/medical-records/${recordId}`)
+      .set(doctor)
+      .send({ plan: "Rewritten after signing" });
+    const remove = await request(app)
+      .delete(`/api/medical-records/${recordId}`)
+      .set(admin);
+    const attach = await request(app)
+      .post(`/api/medical-records/${recordId}/attachments`)
+      .set(doctor)
+      .send({
+        name: "scan.pdf",
+        type: "pdf",
+        url: "https://example.com/scan.pdf",
+      });
+
+    expect(update.status).toBe(409);
+    expect(remove.status).toBe(409);
+    expect(attach.status).toBe(409);
+  });
+
+  it("requires a reason to amend a signed record", async () => {
+    const response = await request(app)
+      .post(`/api/medical-records/${recordId}/amendments`)
+      .set(doctor)
+      .send({ plan: "Fluids, rest and review in a week" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("amends a signed record and keeps the signed original as a version", async () => {
+    const amendment = await request(app)
+      .post(`/api/medical-records/${recordId}/amendments`)
+      .set(doctor)
+      .send({
+        reason: "Follow-up added",
+        plan: "Fluids, rest and review in a week",
+      });
+
+    expect(amendment.status).toBe(200);
+    expect(amendment.body.data.status).toBe("amended");
+    expect(amendment.body.data.plan).toBe("Fluids, rest and review in a week");
+
+    const versions = await request(app)
+      .get(`/api/medical-records/${recordId}/versions`)
+      .set(doctor);
+
+    expect(versions.status).toBe(200);
+    expect(
+      versions.body.data.map(
+        (version: {
+          version: number;
+          reason: string | null;
+          snapshot: { plan: string };
+        }) => [version.version, version.reason, version.snapshot.plan]
+      )
+    ).toEqual([
+      [1, null, "Fluids and rest"],
+      [2, "Follow-up added", "Fluids, rest and review in a week"],
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import request from "supertest";
+import app from "../../src/app";
+import { generateTotp, getTimeStep } from "../../src/utils/totp";
+import { closeTestDatabase, setupTestDatabase } from "../helpers/database";
+import { authHeader, login, SEED_USERS } from "../helpers/auth";
+
+describe("MFA API", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe("MFA login", () => {
+    let secret: string;
+
+    beforeAll(async () => {
+      const headers = await authHeader(SEED_USERS.nurse);
+      const setup = await request(app).post("/api/auth/mfa/setup").set(headers);
+      secret = setup.body.data.secret;
+
+      // Enrol with the previous step's code so the current one stays unused
+      const enable = await request(app)
+        .post("/api/auth/mfa/enable")
+        .set(headers)
+        .send({ code: generateTotp(secret, getTimeStep() - 1) });
+      expect(enable.status).toBe(200);
+    });
+
+    it("asks for a second factor instead of issuing tokens", async () => {
+      const response = await login(SEED_USERS.nurse);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.mfaRequired).toBe(true);
+      expect(response.body.data.challengeToken).toEqual(expect.any(String));
+      expect(response.body.data.token).toBeUndefined();
+    });
+
+    it("accepts a TOTP code once and rejects it when replayed", async () => {
+      const code = generateTotp(secret);
+
+      const first = (await login(SEED_USERS.nurse)).body.data.challengeToken;
+      const verified = await request(app)
+        .post("/api/auth/login/mfa")
+        .send({ challengeToken: first, code });
+      expect(verified.status).toBe(200);
+      expect(verified.body.data.token).toEqual(expect.any(String));
+
+      const second = (await login(SEED_USERS.nurse)).body.data.challengeToken;
+      const replayed = await request(app)
+        .post("/api/auth/login/mfa")
+        .send({ challengeToken: second, code });
+      expect(replayed.status).toBe(401);
+    });
+
+    it("does not accept a challenge token as an access token", async () => {
+      const challengeToken = (await login(SEED_USERS.nurse)).body.data
+        .challengeToken;
+
+      const response = await request(app)
+        .get("/api/auth/me")
+        .set("Authorization", `Bearer ${challengeToken}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
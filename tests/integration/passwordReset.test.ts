@@ -0,0 +1,67 @@
+import request from "supertest";
+import app from "../../src/app";
+import mailService, { outboxTransport } from "../../src/services/mailService";
+import MailOutboxModel from "../../src/models/MailOutbox";
+import { closeTestDatabase, setupTestDatabase } from "../helpers/database";
+import { login, SEED_USERS } from "../helpers/auth";
+
+describe("Password reset API", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  afterEach(() => {
+    mailService.setMailTransport(outboxTransport);
+  });
+
+  const requestReset = (email: string) =>
+    request(app).post("/api/auth/password-reset-request").send({ email });
+
+  /**
+   * Read the reset token from the latest link mailed to an address
+   */
+  const latestResetToken = async (email: string): Promise<string> => {
+    const [message] = await MailOutboxModel.findRecent(1, email);
+    return message.textBody.match(/token=([0-9a-f]+)/)![1];
+  };
+
+  it("answers the same for unknown accounts and when the mail cannot be sent", async () => {
+    const unknown = await requestReset("nobody@healthcare.com");
+
+    mailService.setMailTransport({
+      name: "failing",
+      send: async () => {
+        throw new Error("SMTP connection refused");
+      },
+    });
+    const undelivered = await requestReset(SEED_USERS.reception.email);
+
+    expect(unknown.status).toBe(200);
+    expect(undelivered.status).toBe(200);
+    expect(undelivered.body).toEqual(unknown.body);
+  });
+
+  it("resets the password with the mailed link once", async () => {
+    await requestReset(SEED_USERS.nurse.email);
+    const token = await latestResetToken(SEED_USERS.nurse.email);
+    const newPassword = "Night-Shift-2026";
+
+    const reset = await request(app)
+      .post("/api/auth/password-reset")
+      .send({ token, newPassword });
+    const reused = await request(app)
+      .post("/api/auth/password-reset")
+      .send({ token, newPassword: "Day-Shift-2026!" });
+
+    expect(reset.status).toBe(200);
+    expect(reused.status).toBe(400);
+    expect(
+      (await login({ email: SEED_USERS.nurse.email, password: newPassword }))
+        .status
+    ).toBe(200);
+  });
+});
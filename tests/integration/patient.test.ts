@@ -0,0 +1,162 @@
+import request from "supertest";
+import app from "../../src/app";
+import {
+  closeTestDatabase,
+  db,
+  insertMedicalRecord,
+  setupTestDatabase,
+} from "../helpers/database";
+import { authHeader, SEED_DOCTOR_STAFF_ID, SEED_USERS } from "../helpers/auth";
+
+describe("Patient chart access", () => {
+  let admin: { Authorization: string };
+  let doctor: { Authorization: string };
+  let teamPatientId: number;
+  let outsidePatientId: number;
+  let outsideRecordId: number;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+    doctor = await authHeader(SEED_USERS.doctor);
+
+    teamPatientId = (
+      db
+        .prepare(
+          "SELECT patientId FROM care_team_assignments WHERE staffId = ? LIMIT 1"
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { patientId: number }
+    ).patientId;
+
+    outsidePatientId = (
+      db
+        .prepare(
+          `SELECT id FROM patients
+           WHERE id NOT IN (
+             SELECT patientId FROM care_team_assignments WHERE staffId = ?
+           )
+           LIMIT 1`
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { id: number }
+    ).id;
+    outsideRecordId = insertMedicalRecord(outsidePatientId, "STAFF-003");
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("lets a doctor read the charts of patients on their care team", async () => {
+    const response = await request(app)
+      .get(`/api/patients/${teamPatientId}/medical-records`)
+      .set(doctor);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("refuses a doctor the charts of other patients", async () => {
+    const chart = await request(app)
+      .get(`/api/patients/${outsidePatientId}/medical-records`)
+      .set(doctor);
+    const record = await request(app)
+      .get(`/api/medical-records/${outsideRecordId}`)
+      .set(doctor);
+
+    expect(chart.status).toBe(403);
+    expect(record.status).toBe(403);
+  });
+
+  it("refuses a doctor the allergies, problems and lab trends of other patients", async () => {
+    for (const section of ["allergies", "problems", "labs/trends"]) {
+      const response = await request(app)
+        .get(`/api/patients/${outsidePatientId}/${section}`)
+        .set(doctor);
+
+      expect(response.status).toBe(403);
+    }
+  });
+
+  it("refuses changes to records outside the care team", async () => {
+    const update = await request(app)
+      .put(`/api/medical-records/${outsideRecordId}`)
+      .set(doctor)
+      .send({ notes: "Edited outside the care team" });
+    const remove = await request(app)
+      .delete(`/api/medical-records/${outsideRecordId}`)
+      .set(doctor);
+
+    expect(update.status).toBe(403);
+    expect(remove.status).toBe(403);
+  });
+
+  it("leaves records outside the care team out of lists and searches", async () => {
+    const list = await request(app).get("/api/medical-records").set(doctor);
+    const search = await request(app)
+      .get("/api/medical-records/search")
+      .query({ q: "a" })
+      .set(doctor);
+
+    for (const response of [list, search]) {
+      expect(response.status).toBe(200);
+      expect(
+        response.body.data.map(
+          (record: { patientId: number }) => record.patientId
+        )
+      ).not.toContain(outsidePatientId);
+    }
+  });
+
+  it("pages the record list and counts only the charts in scope", async () => {
+    const teamRecords = (
+      db
+        .prepare(
+          `SELECT COUNT(*) as count FROM medical_records
+           WHERE patientId IN (
+             SELECT patientId FROM care_team_assignments WHERE staffId = ?
+           )`
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { count: number }
+    ).count;
+
+    const page = await request(app)
+      .get("/api/medical-records")
+      .query({ limit: 1, doctorId: SEED_DOCTOR_STAFF_ID })
+      .set(doctor);
+    const all = await request(app)
+      .get("/api/medical-records")
+      .query({ limit: 100 })
+      .set(doctor);
+
+    expect(page.status).toBe(200);
+    expect(page.body.data).toHaveLength(1);
+    expect(all.body.meta.total).toBe(teamRecords);
+    expect(all.body.data).toHaveLength(teamRecords);
+  });
+
+  it("lets users who may view all records read any chart", async () => {
+    const response = await request(app)
+      .get(`/api/medical-records/${outsideRecordId}`)
+      .set(admin);
+
+    expect(response.status).toBe(200);
+  });
+
+  it("grants time-boxed access through break-glass with a reason", async () => {
+    const tooShort = await request(app)
+      .post("/api/break-glass")
+      .set(doctor)
+      .send({ patientId: outsidePatientId, reason: "hurry" });
+    expect(tooShort.status).toBe(400);
+
+    const grant = await request(app).post("/api/break-glass").set(doctor).send({
+      patientId: outsidePatientId,
+      reason: "Patient arrived unconscious in the emergency department",
+    });
+    expect(grant.status).toBe(201);
+
+    const record = await request(app)
+      .get(`/api/medical-records/${outsideRecordId}`)
+      .set(doctor);
+    expect(record.status).toBe(200);
+  });
+});
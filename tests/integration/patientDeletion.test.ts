@@ -0,0 +1,105 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, db, setupTestDatabase } from "../helpers/database";
+import { authHeader, SEED_USERS } from "../helpers/auth";
+
+describe("Patient deletion", () => {
+  let admin: { Authorization: string };
+  let doctor: { Authorization: string };
+  let patientId: number;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+    doctor = await authHeader(SEED_USERS.doctor);
+
+    const created = await request(app).post("/api/patients").set(admin).send({
+      firstName: "Ines",
+      lastName: "Vallejo",
+      dateOfBirth: "1971-11-23",
+      gender: "female",
+      ignoreDuplicates: true,
+    });
+    expect(created.status).toBe(201);
+    patientId = created.body.data.id;
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  const listedIds = async (
+    headers: { Authorization: string },
+    query: Record<string, string> = {}
+  ): Promise<number[]> => {
+    const response = await request(app)
+      .get("/api/patients")
+      .query({ search: "Vallejo", ...query })
+      .set(headers);
+    expect(response.status).toBe(200);
+    return response.body.data.map((patient: { id: number }) => patient.id);
+  };
+
+  it("hides a deleted patient but keeps the row", async () => {
+    const deleted = await request(app)
+      .delete(`/api/patients/${patientId}`)
+      .set(admin);
+    const fetched = await request(app)
+      .get(`/api/patients/${patientId}`)
+      .set(admin);
+
+    expect(deleted.status).toBe(200);
+    expect(fetched.status).toBe(404);
+    expect(await listedIds(admin)).not.toContain(patientId);
+    expect(
+      db.prepare("SELECT deletedAt FROM patients WHERE id = ?").get(patientId)
+    ).toEqual({ deletedAt: expect.any(String) });
+  });
+
+  it("only shows deleted patients to users who may restore them", async () => {
+    const forbidden = await request(app)
+      .get("/api/patients")
+      .query({ includeDeleted: "true" })
+      .set(doctor);
+    const fetched = await request(app)
+      .get(`/api/patients/${patientId}`)
+      .query({ includeDeleted: "true" })
+      .set(admin);
+
+    expect(forbidden.status).toBe(403);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.data.deletedAt).toEqual(expect.any(String));
+    expect(await listedIds(admin, { includeDeleted: "true" })).toContain(
+      patientId
+    );
+  });
+
+  it("restores a deleted patient once", async () => {
+    const restored = await request(app)
+      .post(`/api/patients/${patientId}/restore`)
+      .set(admin);
+    const again = await request(app)
+      .post(`/api/patients/${patientId}/restore`)
+      .set(admin);
+
+    expect(restored.status).toBe(200);
+    expect(again.status).toBe(400);
+    expect(await listedIds(admin)).toContain(patientId);
+  });
+
+  it("only purges patients that were deleted first", async () => {
+    const early = await request(app)
+      .delete(`/api/patients/${patientId}/purge`)
+      .set(admin);
+    await request(app).delete(`/api/patients/${patientId}`).set(admin);
+    const purged = await request(app)
+      .delete(`/api/patients/${patientId}/purge`)
+      .set(admin);
+
+    expect(early.status).toBe(400);
+    expect(purged.status).toBe(200);
+    expect(
+      db.prepare("SELECT id FROM patients WHERE id = ?").get(patientId)
+    ).toBeUndefined();
+  });
+});
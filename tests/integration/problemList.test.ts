@@ -0,0 +1,127 @@
+import request from "supertest";
+import app from "../../src/app";
+import {
+  closeTestDatabase,
+  db,
+  insertMedicalRecord,
+  setupTestDatabase,
+} from "../helpers/database";
+import { authHeader, SEED_DOCTOR_STAFF_ID, SEED_USERS } from "../helpers/auth";
+
+describe("Problem list", () => {
+  let doctor: { Authorization: string };
+  let patientId: number;
+  let diagnosisId: number;
+  let problemId: number;
+
+  const problemsPath = () => `/api/patients/${patientId}/problems`;
+
+  const suggestions = async () => {
+    const response = await request(app)
+      .get(`${problemsPath()}/suggestions`)
+      .set(doctor);
+    expect(response.status).toBe(200);
+    return (
+      response.body.data as { icdCode: string; resolvedProblemId: number }[]
+    ).filter((suggestion) => suggestion.icdCode === "E78.5");
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    doctor = await authHeader(SEED_USERS.doctor);
+
+    patientId = (
+      db
+        .prepare(
+          "SELECT patientId FROM care_team_assignments WHERE staffId = ? LIMIT 1"
+        )
+        .get(SEED_DOCTOR_STAFF_ID) as { patientId: number }
+    ).patientId;
+    const recordId = insertMedicalRecord(patientId, SEED_DOCTOR_STAFF_ID);
+    diagnosisId = Number(
+      db
+        .prepare(
+          `INSERT INTO diagnoses (medicalRecordId, code, description, type)
+           VALUES (?, 'E78.5', 'Hyperlipidemia', 'primary')`
+        )
+        .run(recordId).lastInsertRowid
+    );
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it("suggests diagnosed conditions that are not on the list", async () => {
+    expect(await suggestions()).toEqual([
+      expect.objectContaining({ diagnosisId, resolvedProblemId: null }),
+    ]);
+  });
+
+  it("adds a problem from a diagnosis and lists it only once", async () => {
+    const created = await request(app)
+      .post(problemsPath())
+      .set(doctor)
+      .send({ diagnosisId, diagnosedAt: "2024-03-01" });
+    const duplicate = await request(app)
+      .post(problemsPath())
+      .set(doctor)
+      .send({ condition: " hyperlipidemia ", icdCode: "E78.5" });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({
+      condition: "Hyperlipidemia",
+      icdCode: "E78.5",
+      status: "active",
+    });
+    expect(duplicate.status).toBe(400);
+    expect(await suggestions()).toEqual([]);
+    problemId = created.body.data.id;
+  });
+
+  it("records the resolution and suggests a condition diagnosed again since", async () => {
+    const early = await request(app)
+      .put(`${problemsPath()}/${problemId}`)
+      .set(doctor)
+      .send({ status: "resolved", resolvedAt: "2024-01-01" });
+    const resolved = await request(app)
+      .put(`${problemsPath()}/${problemId}`)
+      .set(doctor)
+      .send({ status: "resolved", resolvedAt: "2025-06-01" });
+
+    expect(early.status).toBe(400);
+    expect(resolved.status).toBe(200);
+    expect(resolved.body.data).toMatchObject({
+      resolvedAt: "2025-06-01",
+      resolvedBy: expect.any(Number),
+    });
+    expect(await suggestions()).toEqual([
+      expect.objectContaining({ resolvedProblemId: problemId }),
+    ]);
+  });
+
+  it("clears the resolution when a problem recurs", async () => {
+    const reopened = await request(app)
+      .put(`${problemsPath()}/${problemId}`)
+      .set(doctor)
+      .send({ status: "recurring" });
+
+    expect(reopened.status).toBe(200);
+    expect(reopened.body.data.status).toBe("recurring");
+    expect(reopened.body.data).not.toHaveProperty("resolvedAt");
+    expect(reopened.body.data).not.toHaveProperty("resolvedBy");
+  });
+
+  it("deletes a problem", async () => {
+    const removed = await request(app)
+      .delete(`${problemsPath()}/${problemId}`)
+      .set(doctor);
+    const missing = await request(app)
+      .put(`${problemsPath()}/${problemId}`)
+      .set(doctor)
+      .send({ status: "active" });
+
+    expect(removed.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,84 @@
+import request from "supertest";
+import app from "../../src/app";
+import { closeTestDatabase, setupTestDatabase } from "../helpers/database";
+import { authHeader, login, SEED_USERS } from "../helpers/auth";
+
+describe("Session API", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe("POST /api/auth/logout", () => {
+    it("revokes the session's access token", async () => {
+      const headers = await authHeader(SEED_USERS.admin);
+
+      expect(
+        (await request(app).post("/api/auth/logout").set(headers)).status
+      ).toBe(200);
+      expect((await request(app).get("/api/auth/me").set(headers)).status).toBe(
+        401
+      );
+    });
+  });
+
+  describe("GET /api/auth/sessions", () => {
+    it("lists the user's sessions and marks the current one", async () => {
+      await login(SEED_USERS.doctor);
+      const headers = await authHeader(SEED_USERS.doctor);
+
+      const response = await request(app)
+        .get("/api/auth/sessions")
+        .set(headers);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.length).toBeGreaterThanOrEqual(2);
+      expect(
+        response.body.data.filter(
+          (session: { current: boolean }) => session.current
+        )
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("DELETE /api/auth/sessions/:id", () => {
+    it("revokes another of the user's sessions", async () => {
+      const other = await authHeader(SEED_USERS.nurse);
+      const headers = await authHeader(SEED_USERS.nurse);
+
+      const sessions = await request(app)
+        .get("/api/auth/sessions")
+        .set(headers);
+      const otherSession = sessions.body.data.find(
+        (session: { current: boolean }) => !session.current
+      );
+
+      const revoked = await request(app)
+        .delete(`/api/auth/sessions/${otherSession.id}`)
+        .set(headers);
+
+      expect(revoked.status).toBe(200);
+      expect((await request(app).get("/api/auth/me").set(other)).status).toBe(
+        401
+      );
+      expect((await request(app).get("/api/auth/me").set(headers)).status).toBe(
+        200
+      );
+    });
+
+    it("does not let a user revoke someone else's session", async () => {
+      const doctorSessions = await request(app)
+        .get("/api/auth/sessions")
+        .set(await authHeader(SEED_USERS.doctor));
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${doctorSessions.body.data[0].id}`)
+        .set(await authHeader(SEED_USERS.nurse));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
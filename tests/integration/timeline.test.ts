@@ -0,0 +1,111 @@
+import request from "supertest";
+import app from "../../src/app";
+import {
+  closeTestDatabase,
+  db,
+  insertMedicalRecord,
+  setupTestDatabase,
+} from "../helpers/database";
+import { authHeader, SEED_USERS } from "../helpers/auth";
+
+describe("Patient summary and timeline", () => {
+  let admin: { Authorization: string };
+  let nurse: { Authorization: string };
+  let patientId: number;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+    admin = await authHeader(SEED_USERS.admin);
+    nurse = await authHeader(SEED_USERS.nurse);
+
+    // A patient with a visit on record whose care team includes the seeded nurse
+    patientId = (
+      db
+        .prepare(
+          `SELECT c.patientId FROM care_team_assignments c
+           JOIN users u ON u.staffId = c.staffId
+           WHERE u.email = ?
+           LIMIT 1`
+        )
+        .get(SEED_USERS.nurse.email) as { patientId: number }
+    ).patientId;
+    insertMedicalRecord(patientId, "STAFF-003");
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe("GET /api/patients/:id", () => {
+    it("computes the summary from the patient's records", async () => {
+      const counts = db
+        .prepare(
+          `SELECT
+             (SELECT COUNT(*) FROM medical_records WHERE patientId = ?) as records,
+             (SELECT COUNT(*) FROM appointments WHERE patientId = ?) as appointments`
+        )
+        .get(patientId, patientId) as { records: number; appointments: number };
+
+      const response = await request(app)
+        .get(`/api/patients/${patientId}`)
+        .set(admin);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        fullName: `${response.body.data.firstName} ${response.body.data.lastName}`,
+        medicalRecordCount: counts.records,
+        appointmentCount: counts.appointments,
+      });
+      expect(response.body.data.age).toEqual(expect.any(Number));
+    });
+  });
+
+  describe("GET /api/patients/:id/timeline", () => {
+    it("returns the requested entry types newest first, one page at a time", async () => {
+      const response = await request(app)
+        .get(`/api/patients/${patientId}/timeline`)
+        .query({ types: "visit, diagnosis", limit: 2 })
+        .set(admin);
+
+      expect(response.status).toBe(200);
+      const { entries, pagination } = response.body.data;
+      expect(entries.length).toBeLessThanOrEqual(2);
+      expect(pagination.limit).toBe(2);
+      for (const entry of entries) {
+        expect(["visit", "diagnosis"]).toContain(entry.type);
+      }
+      const dates = entries.map(
+        (entry: { occurredAt: string }) => entry.occurredAt
+      );
+      expect(dates).toEqual([...dates].sort().reverse());
+    });
+
+    it("rejects unknown entry types with a 400", async () => {
+      for (const headers of [admin, nurse]) {
+        const response = await request(app)
+          .get(`/api/patients/${patientId}/timeline`)
+          .query({ types: "labz" })
+          .set(headers);
+
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it("refuses entry types the user may not see", async () => {
+      const forbidden = await request(app)
+        .get(`/api/patients/${patientId}/timeline`)
+        .query({ types: "invoice" })
+        .set(nurse);
+      const unfiltered = await request(app)
+        .get(`/api/patients/${patientId}/timeline`)
+        .query({ limit: 100 })
+        .set(nurse);
+
+      expect(forbidden.status).toBe(403);
+      expect(unfiltered.status).toBe(200);
+      for (const entry of unfiltered.body.data.entries) {
+        expect(["invoice", "payment"]).not.toContain(entry.type);
+      }
+    });
+  });
+});
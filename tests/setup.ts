@@ -0,0 +1,18 @@
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+
+// Each test file gets its own database, created and seeded by
+// setupTestDatabase in the file's beforeAll
+process.env.DB_PATH = path.join(
+  os.tmpdir(),
+  "hms-tests",
+  `${crypto.randomUUID()}.sqlite`
+);
+
+// Failed logins would otherwise slow every later attempt down
+process.env.LOGIN_BASE_DELAY_MS = "0";
+
+// Seeding and request logging drown out the test output
+jest.spyOn(console, "log").mockImplementation(() => undefined);
+jest.spyOn(console, "info").mockImplementation(() => undefined);
@@ -0,0 +1,93 @@
+import authService from "../../../src/services/authService";
+import UserModel from "../../../src/models/User";
+import { LoginResponse } from "../../../src/types/auth";
+import { UpdateUserRequest } from "../../../src/types/user";
+import { closeTestDatabase, setupTestDatabase } from "../../helpers/database";
+import { SEED_USERS } from "../../helpers/auth";
+
+describe("authService.login", () => {
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  /**
+   * Change a seeded user for one test and restore it afterwards
+   */
+  const withUserChanges = async (
+    email: string,
+    changes: UpdateUserRequest,
+    restore: UpdateUserRequest,
+    run: () => Promise<void>
+  ): Promise<void> => {
+    const user = await UserModel.findOne({ email });
+    await UserModel.update(user!.id as number, changes);
+    try {
+      await run();
+    } finally {
+      await UserModel.update(user!.id as number, restore);
+    }
+  };
+
+  it("starts a session and returns the user without the password hash", async () => {
+    const result = (await authService.login(SEED_USERS.doctor, {
+      ipAddress: "10.0.0.1",
+    })) as LoginResponse;
+
+    expect(result.token).toEqual(expect.any(String));
+    expect(result.refreshToken).toEqual(expect.any(String));
+    expect(result.user.email).toBe(SEED_USERS.doctor.email);
+    expect(result.user).not.toHaveProperty("password");
+  });
+
+  it("gives the same error for an unknown email and a wrong password", async () => {
+    await expect(
+      authService.login({ email: "nobody@healthcare.com", password: "x" })
+    ).rejects.toThrow("Invalid credentials");
+    await expect(
+      authService.login({ email: SEED_USERS.doctor.email, password: "x" })
+    ).rejects.toThrow("Invalid credentials");
+  });
+
+  it("refuses disabled accounts", async () => {
+    await withUserChanges(
+      SEED_USERS.nurse.email,
+      { disabledAt: new Date().toISOString() },
+      { disabledAt: null },
+      async () => {
+        await expect(authService.login(SEED_USERS.nurse)).rejects.toThrow(
+          "Account is disabled"
+        );
+      }
+    );
+  });
+
+  it("refuses accounts flagged for a password reset", async () => {
+    await withUserChanges(
+      SEED_USERS.nurse.email,
+      { passwordResetRequired: true },
+      { passwordResetRequired: false },
+      async () => {
+        await expect(authService.login(SEED_USERS.nurse)).rejects.toThrow(
+          "Password reset required"
+        );
+      }
+    );
+  });
+
+  it("refuses expired passwords", async () => {
+    await withUserChanges(
+      SEED_USERS.nurse.email,
+      { passwordExpiresAt: "2000-01-01T00:00:00.000Z" },
+      { passwordExpiresAt: null },
+      async () => {
+        await expect(authService.login(SEED_USERS.nurse)).rejects.toThrow(
+          "Password expired"
+        );
+      }
+    );
+  });
+});
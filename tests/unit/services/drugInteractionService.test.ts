@@ -0,0 +1,150 @@
+import drugInteractionService from "../../../src/services/drugInteractionService";
+import allergyService from "../../../src/services/allergyService";
+import patientService from "../../../src/services/patientService";
+import {
+  closeTestDatabase,
+  db,
+  insertMedicalRecord,
+  setupTestDatabase,
+} from "../../helpers/database";
+import { SEED_DOCTOR_STAFF_ID } from "../../helpers/auth";
+
+describe("drugInteractionService", () => {
+  describe("loadKnowledgeBase", () => {
+    afterEach(() => {
+      delete process.env.DRUG_INTERACTIONS_PATH;
+    });
+
+    it("loads the knowledge base bundled with the module", () => {
+      expect(
+        drugInteractionService.loadKnowledgeBase().drugClasses.penicillins
+      ).toContain("amoxicillin");
+    });
+
+    it("throws instead of prescribing without checks when the file is missing", () => {
+      process.env.DRUG_INTERACTIONS_PATH = "/nonexistent/interactions.json";
+
+      jest.isolateModules(() => {
+        const { loadKnowledgeBase } = jest.requireActual(
+          "../../../src/services/drugInteractionService"
+        );
+        expect(() => loadKnowledgeBase()).toThrow(
+          "Drug interaction knowledge base could not be read from /nonexistent/interactions.json"
+        );
+      });
+    });
+  });
+
+  describe("checkPrescriptions", () => {
+    let patientId: number;
+
+    /**
+     * Prescribe a medication in an earlier record of the patient
+     */
+    const prescribeEarlier = (name: string, duration: string): void => {
+      db.prepare(
+        `INSERT INTO medications
+           (medicalRecordId, name, dosage, frequency, duration, quantity, refills)
+         VALUES (?, ?, '5mg', 'daily', ?, 30, 0)`
+      ).run(
+        insertMedicalRecord(patientId, SEED_DOCTOR_STAFF_ID),
+        name,
+        duration
+      );
+    };
+
+    beforeAll(async () => {
+      await setupTestDatabase();
+
+      patientId = (
+        await patientService.createPatient({
+          firstName: "Tomas",
+          lastName: "Eriksen",
+          dateOfBirth: "1958-07-14",
+          gender: "male",
+        })
+      ).id as number;
+      await allergyService.recordAllergy(patientId, {
+        allergen: "Penicillin",
+        reaction: "Anaphylaxis",
+        severity: "severe",
+        status: "active",
+      });
+      prescribeEarlier("Warfarin", "ongoing");
+      prescribeEarlier("Clarithromycin", "7 days");
+    });
+
+    afterAll(() => {
+      closeTestDatabase();
+    });
+
+    it("warns about drug classes the patient is allergic to", async () => {
+      const warnings = await drugInteractionService.checkPrescriptions(
+        patientId,
+        [{ name: "Amoxicillin 500mg" }, { name: "Cephalexin" }]
+      );
+
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          type: "drug-allergy",
+          severity: "major",
+          medication: "Amoxicillin 500mg",
+          conflictsWith: "Penicillin",
+        }),
+        expect.objectContaining({
+          type: "drug-allergy",
+          severity: "moderate",
+          medication: "Cephalexin",
+        }),
+      ]);
+    });
+
+    it("checks against active earlier medications and the rest of the prescription", async () => {
+      const warnings = await drugInteractionService.checkPrescriptions(
+        patientId,
+        [{ name: "Ibuprofen" }, { name: "Simvastatin" }]
+      );
+
+      expect(
+        warnings.map(({ medication, conflictsWith }) => [
+          medication,
+          conflictsWith,
+        ])
+      ).toEqual([
+        ["Ibuprofen", "Warfarin"],
+        ["Simvastatin", "Clarithromycin"],
+      ]);
+      expect(drugInteractionService.hasUnresolvedMajorWarnings(warnings)).toBe(
+        true
+      );
+    });
+
+    it("ignores medications whose course has run out", async () => {
+      db.prepare(
+        `UPDATE medical_records SET visitDate = '2024-01-01T00:00:00.000Z'
+         WHERE id = (SELECT medicalRecordId FROM medications WHERE name = 'Clarithromycin')`
+      ).run();
+
+      const warnings = await drugInteractionService.checkPrescriptions(
+        patientId,
+        [{ name: "Simvastatin" }]
+      );
+
+      expect(warnings).toEqual([]);
+    });
+
+    it("keeps the warning but marks it overridden when a reason is given", async () => {
+      const warnings = await drugInteractionService.checkPrescriptions(
+        patientId,
+        [{ name: "Ibuprofen", overrideReason: "Short course, INR monitored" }]
+      );
+
+      expect(warnings).toEqual([
+        expect.objectContaining({ severity: "major", overridden: true }),
+      ]);
+      expect(drugInteractionService.hasUnresolvedMajorWarnings(warnings)).toBe(
+        false
+      );
+    });
+  });
+});
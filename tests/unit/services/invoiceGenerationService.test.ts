@@ -0,0 +1,84 @@
+import invoiceGenerationService from "../../../src/services/invoiceGenerationService";
+import {
+  closeTestDatabase,
+  db,
+  setupTestDatabase,
+} from "../../helpers/database";
+import { SEED_DOCTOR_STAFF_ID } from "../../helpers/auth";
+
+describe("invoiceGenerationService", () => {
+  describe("loadFeeSchedule", () => {
+    afterEach(() => {
+      delete process.env.FEE_SCHEDULE_PATH;
+    });
+
+    it("loads the fee schedule bundled with the module", () => {
+      expect(
+        invoiceGenerationService.loadFeeSchedule().appointmentTypes.checkup
+      ).toBe("99396");
+    });
+
+    it("throws instead of billing without visit charges when the file is missing", () => {
+      process.env.FEE_SCHEDULE_PATH = "/nonexistent/fee-schedule.json";
+
+      jest.isolateModules(() => {
+        const { loadFeeSchedule } = jest.requireActual(
+          "../../../src/services/invoiceGenerationService"
+        );
+        expect(() => loadFeeSchedule()).toThrow(
+          "Fee schedule could not be read from /nonexistent/fee-schedule.json"
+        );
+      });
+    });
+  });
+
+  describe("generateForAppointment", () => {
+    let appointmentId: number;
+
+    beforeAll(async () => {
+      await setupTestDatabase();
+
+      const { id: patientId } = db
+        .prepare("SELECT id FROM patients LIMIT 1")
+        .get() as { id: number };
+      const now = new Date().toISOString();
+      appointmentId = Number(
+        db
+          .prepare(
+            `INSERT INTO appointments
+               (patientId, doctorId, title, startTime, endTime, status, type, createdAt, updatedAt)
+             VALUES (?, ?, 'Annual physical', '2026-02-03T09:00:00.000Z', '2026-02-03T09:30:00.000Z', 'completed', 'checkup', ?, ?)`
+          )
+          .run(patientId, SEED_DOCTOR_STAFF_ID, now, now).lastInsertRowid
+      );
+    });
+
+    afterAll(() => {
+      closeTestDatabase();
+    });
+
+    it("drafts an invoice with the visit charge for the appointment type", async () => {
+      const invoice = await invoiceGenerationService.generateForAppointment(
+        appointmentId
+      );
+
+      expect(invoice).toMatchObject({
+        status: "draft",
+        source: "generated",
+        totalAmount: 130,
+      });
+      expect(invoice!.items.map((item) => item.serviceCode)).toEqual(["99396"]);
+    });
+
+    it("updates the same draft when the visit is generated again", async () => {
+      const first = await invoiceGenerationService.generateForAppointment(
+        appointmentId
+      );
+      const second = await invoiceGenerationService.generateForAppointment(
+        appointmentId
+      );
+
+      expect(second!.id).toBe(first!.id);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import passwordPolicyService, {
+  isPasswordPolicyError,
+} from "../../../src/services/passwordPolicyService";
+import UserModel from "../../../src/models/User";
+import { closeTestDatabase, setupTestDatabase } from "../../helpers/database";
+import { SEED_USERS } from "../../helpers/auth";
+
+describe("passwordPolicyService", () => {
+  describe("validatePassword", () => {
+    it("accepts a password that meets every rule", () => {
+      expect(passwordPolicyService.validatePassword("Tidal-Marsh-42")).toEqual(
+        []
+      );
+    });
+
+    it("reports each rule a password breaks", () => {
+      expect(passwordPolicyService.validatePassword("short")).toEqual([
+        "Password must be at least 10 characters long",
+        "Password must contain an uppercase letter",
+        "Password must contain a number",
+        "Password must contain a symbol",
+      ]);
+    });
+
+    it("rejects breached passwords regardless of case", () => {
+      expect(passwordPolicyService.validatePassword("Hospital123!")).toEqual([
+        "Password is too common and has appeared in data breaches",
+      ]);
+    });
+
+    it("rejects passwords containing the username or email", () => {
+      expect(
+        passwordPolicyService.validatePassword("Jdoakes-2024!", {
+          email: "jdoakes@healthcare.com",
+        })
+      ).toEqual(["Password must not contain your username or email"]);
+    });
+  });
+
+  describe("loadDenylist", () => {
+    afterEach(() => {
+      delete process.env.PASSWORD_DENYLIST_PATH;
+    });
+
+    it("loads the denylist bundled next to the module", () => {
+      expect(passwordPolicyService.loadDenylist().has("password123")).toBe(
+        true
+      );
+    });
+
+    it("throws instead of disabling the check when the file is missing", () => {
+      process.env.PASSWORD_DENYLIST_PATH = "/nonexistent/denylist.txt";
+
+      jest.isolateModules(() => {
+        const { loadDenylist } = jest.requireActual(
+          "../../../src/services/passwordPolicyService"
+        );
+        expect(() => loadDenylist()).toThrow(
+          "Password denylist could not be read from /nonexistent/denylist.txt"
+        );
+      });
+    });
+  });
+
+  describe("getPasswordExpiry", () => {
+    it("uses an explicit expiry and never expires otherwise by default", () => {
+      expect(
+        passwordPolicyService.isPasswordExpired({
+          passwordExpiresAt: "2000-01-01T00:00:00.000Z",
+          createdAt: "2000-01-01T00:00:00.000Z",
+        })
+      ).toBe(true);
+      expect(
+        passwordPolicyService.getPasswordExpiry({
+          passwordChangedAt: "2000-01-01T00:00:00.000Z",
+          createdAt: "2000-01-01T00:00:00.000Z",
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("setPassword", () => {
+    beforeAll(async () => {
+      await setupTestDatabase();
+    });
+
+    afterAll(() => {
+      closeTestDatabase();
+    });
+
+    const getNurse = async () =>
+      (await UserModel.findOne({ email: SEED_USERS.nurse.email }))!;
+
+    it("refuses the current password and recently used ones", async () => {
+      await passwordPolicyService.setPassword(
+        await getNurse(),
+        "First-Ward-51"
+      );
+      await passwordPolicyService.setPassword(
+        await getNurse(),
+        "Second-Ward-52"
+      );
+
+      for (const reused of ["Second-Ward-52", "First-Ward-51"]) {
+        const error = await passwordPolicyService
+          .setPassword(await getNurse(), reused)
+          .catch((caught: unknown) => caught);
+
+        expect(isPasswordPolicyError(error)).toBe(true);
+        expect((error as Error).message).toContain(
+          "Password must not match any of your last 5 passwords"
+        );
+      }
+    });
+
+    it("expires a temporary password immediately", async () => {
+      const updated = await passwordPolicyService.setPassword(
+        await getNurse(),
+        "Temporary-Ward-53",
+        { temporary: true }
+      );
+
+      expect(passwordPolicyService.isPasswordExpired(updated)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  flagResult,
+  isOutsideRange,
+  parseNumericResult,
+  parseRange,
+} from "../../../src/utils/referenceRange";
+
+describe("referenceRange", () => {
+  describe("parseRange", () => {
+    it("parses closed ranges and ignores units", () => {
+      for (const range of ["3.5-5.0", "3.5 – 5.0 mmol/L", "5.0 to 3.5"]) {
+        expect(parseRange(range)).toEqual({
+          low: 3.5,
+          high: 5,
+          lowInclusive: true,
+          highInclusive: true,
+        });
+      }
+    });
+
+    it("parses open-ended bounds", () => {
+      expect(parseRange("<200")).toEqual({
+        low: null,
+        high: 200,
+        lowInclusive: true,
+        highInclusive: false,
+      });
+      expect(parseRange("≥ 60 mL/min")).toEqual({
+        low: 60,
+        high: null,
+        lowInclusive: true,
+        highInclusive: true,
+      });
+    });
+
+    it("returns null for ranges without a numeric form", () => {
+      expect(parseRange("Negative")).toBeNull();
+      expect(parseRange(null)).toBeNull();
+    });
+  });
+
+  describe("parseNumericResult", () => {
+    it("reads qualified numeric results", () => {
+      expect(parseNumericResult("4.2 mmol/L")).toBe(4.2);
+      expect(parseNumericResult("<0.01")).toBe(0.01);
+      expect(parseNumericResult("Positive")).toBeNull();
+    });
+  });
+
+  describe("flagResult", () => {
+    it("flags results below, within and above a closed range", () => {
+      expect(flagResult("3.4", "3.5-5.0")).toBe("low");
+      expect(flagResult("3.5", "3.5-5.0")).toBe("normal");
+      expect(flagResult("5.0", "3.5-5.0")).toBe("normal");
+      expect(flagResult("5.1", "3.5-5.0")).toBe("high");
+    });
+
+    it("respects whether an open bound is inclusive", () => {
+      expect(flagResult("199", "<200")).toBe("normal");
+      expect(flagResult("200", "<200")).toBe("high");
+      expect(flagResult("200", "<=200")).toBe("normal");
+      expect(flagResult("40", ">40")).toBe("low");
+    });
+
+    it("does not flag results that cannot be compared", () => {
+      expect(flagResult("Positive", "3.5-5.0")).toBeNull();
+      expect(flagResult("4.2", "Negative")).toBeNull();
+    });
+  });
+
+  describe("isOutsideRange", () => {
+    it("is true only for results beyond the range", () => {
+      expect(isOutsideRange("2.4", "2.5-6.5")).toBe(true);
+      expect(isOutsideRange("6.6", "2.5-6.5")).toBe(true);
+      expect(isOutsideRange("4.0", "2.5-6.5")).toBe(false);
+      expect(isOutsideRange("4.0", null)).toBe(false);
+    });
+  });
+});
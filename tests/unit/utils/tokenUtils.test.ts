@@ -0,0 +1,81 @@
+import jwt from "jsonwebtoken";
+import { env } from "../../../src/config/env";
+import {
+  generateMfaChallengeToken,
+  generateRefreshToken,
+  generateToken,
+  hashToken,
+  verifyMfaChallengeToken,
+  verifyRefreshToken,
+  verifyToken,
+} from "../../../src/utils/tokenUtils";
+
+describe("tokenUtils", () => {
+  describe("access tokens", () => {
+    it("round-trips the payload and stores the session ID as jti", () => {
+      const token = generateToken({ userId: 7, role: "doctor" }, "session-1");
+
+      expect(verifyToken(token)).toMatchObject({
+        userId: 7,
+        role: "doctor",
+        jti: "session-1",
+      });
+    });
+
+    it("rejects tokens signed with another secret", () => {
+      const token = jwt.sign({ userId: 7, role: "doctor" }, "another-secret");
+
+      expect(verifyToken(token)).toBeNull();
+    });
+
+    it("rejects expired tokens", () => {
+      const token = jwt.sign({ userId: 7, role: "doctor" }, env.JWT_SECRET, {
+        expiresIn: -10,
+      });
+
+      expect(verifyToken(token)).toBeNull();
+    });
+  });
+
+  describe("refresh tokens", () => {
+    it("round-trips the user, token ID and family", () => {
+      const token = generateRefreshToken(7, "token-1", "family-1");
+
+      expect(verifyRefreshToken(token)).toMatchObject({
+        userId: 7,
+        jti: "token-1",
+        familyId: "family-1",
+      });
+    });
+
+    it("does not accept an access token as a refresh token", () => {
+      const token = generateToken({ userId: 7, role: "doctor" }, "session-1");
+
+      expect(verifyRefreshToken(token)).toBeNull();
+    });
+  });
+
+  describe("MFA challenge tokens", () => {
+    it("round-trips the user ID", () => {
+      expect(verifyMfaChallengeToken(generateMfaChallengeToken(7))).toEqual({
+        userId: 7,
+      });
+    });
+
+    it("does not accept a refresh token as a challenge", () => {
+      const token = generateRefreshToken(7, "token-1", "family-1");
+
+      expect(verifyMfaChallengeToken(token)).toBeNull();
+    });
+  });
+
+  describe("hashToken", () => {
+    it("hashes deterministically without returning the token", () => {
+      const hash = hashToken("raw-token");
+
+      expect(hash).toBe(hashToken("raw-token"));
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hash).not.toBe(hashToken("other-token"));
+    });
+  });
+});